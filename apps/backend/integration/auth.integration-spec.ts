@@ -0,0 +1,258 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import {
+  ConflictException,
+  INestApplication,
+  UnauthorizedException,
+  ValidationPipe,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import * as request from 'supertest'
+import { AuthController } from '../src/auth/auth.controller'
+import { AuthService } from '../src/auth/auth.service'
+import { StaffPrincipal } from '../src/auth/auth.types'
+import { DownloadRateLimitService } from '../src/rate-limit/download-rate-limit.service'
+import { DownloadRateLimitGuard } from '../src/rate-limit/download-rate-limit.guard'
+import { MemoryRateLimitStore, RATE_LIMIT_STORE } from '../src/rate-limit/stores'
+
+describe('AuthController (Integration)', () => {
+  let app: INestApplication
+
+  const admin: StaffPrincipal = { kind: 'user', id: 'user1', name: 'admin', role: 'admin' }
+  const photographer: StaffPrincipal = {
+    kind: 'user',
+    id: 'user2',
+    name: 'marie',
+    role: 'photographer',
+  }
+  const tokens: Record<string, StaffPrincipal> = {
+    'admin-jwt': admin,
+    'photographer-jwt': photographer,
+  }
+
+  const mockAuthService = {
+    login: jest.fn(),
+    authenticateAccessToken: jest.fn((token: string) => tokens[token] ?? null),
+    authenticateApiKey: jest.fn(),
+    createUser: jest.fn(),
+    createApiKey: jest.fn(),
+    revokeApiKey: jest.fn(),
+  }
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [AuthController],
+      providers: [
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        DownloadRateLimitService,
+        DownloadRateLimitGuard,
+        {
+          provide: RATE_LIMIT_STORE,
+          useValue: new MemoryRateLimitStore(),
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ RATE_LIMIT_DOWNLOAD_PER_IP: 3 }),
+        },
+      ],
+    }).compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalPipes(new ValidationPipe())
+
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    jest.clearAllMocks()
+  })
+
+  describe('POST /auth/login', () => {
+    it('should return an access token', async () => {
+      mockAuthService.login.mockResolvedValue({
+        accessToken: 'photographer-jwt',
+        expiresIn: 28800,
+        role: 'photographer',
+      })
+
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username: 'marie', password: 'correct-horse-battery-staple' })
+        .expect(200)
+
+      expect(mockAuthService.login).toHaveBeenCalledWith(
+        'marie',
+        'correct-horse-battery-staple',
+        expect.any(String),
+      )
+      expect(response.body).toEqual({
+        accessToken: 'photographer-jwt',
+        tokenType: 'Bearer',
+        expiresIn: 28800,
+        role: 'photographer',
+      })
+    })
+
+    it('should return 401 for wrong credentials', async () => {
+      mockAuthService.login.mockRejectedValue(
+        new UnauthorizedException('Invalid username or password'),
+      )
+
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username: 'marie', password: 'wrong' })
+        .expect(401)
+    })
+
+    it('should rate limit login attempts per IP', async () => {
+      mockAuthService.login.mockRejectedValue(
+        new UnauthorizedException('Invalid username or password'),
+      )
+      const attempt = () =>
+        request(app.getHttpServer()).post('/auth/login').send({ username: 'marie', password: 'x' })
+
+      for (let i = 0; i < 3; i++) {
+        await attempt().expect(401)
+      }
+      const response = await attempt().expect(429)
+
+      expect(response.headers['retry-after']).toBeDefined()
+      expect(mockAuthService.login).toHaveBeenCalledTimes(3)
+    })
+
+    it('should return 400 when the password is missing', async () => {
+      await request(app.getHttpServer()).post('/auth/login').send({ username: 'marie' }).expect(400)
+    })
+  })
+
+  describe('GET /auth/me', () => {
+    it('should return the authenticated staff member', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Authorization', 'Bearer photographer-jwt')
+        .expect(200)
+
+      expect(response.body).toEqual(photographer)
+    })
+
+    it('should return 401 for an invalid token', async () => {
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Authorization', 'Bearer forged')
+        .expect(401)
+    })
+  })
+
+  describe('POST /auth/users', () => {
+    const newUser = { username: 'paul', password: 'a-long-enough-password', role: 'photographer' }
+
+    it('should create a staff user', async () => {
+      mockAuthService.createUser.mockResolvedValue({
+        id: 'user3',
+        username: 'paul',
+        role: 'photographer',
+        createdAt: new Date('2025-08-10T12:00:00.000Z'),
+      })
+
+      const response = await request(app.getHttpServer())
+        .post('/auth/users')
+        .set('Authorization', 'Bearer admin-jwt')
+        .send(newUser)
+        .expect(201)
+
+      expect(mockAuthService.createUser).toHaveBeenCalledWith(newUser)
+      expect(response.body).not.toHaveProperty('passwordHash')
+    })
+
+    it('should be restricted to admins', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/users')
+        .set('Authorization', 'Bearer photographer-jwt')
+        .send(newUser)
+        .expect(403)
+
+      expect(mockAuthService.createUser).not.toHaveBeenCalled()
+    })
+
+    it('should reject short passwords and unknown roles', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/users')
+        .set('Authorization', 'Bearer admin-jwt')
+        .send({ ...newUser, password: 'short' })
+        .expect(400)
+
+      await request(app.getHttpServer())
+        .post('/auth/users')
+        .set('Authorization', 'Bearer admin-jwt')
+        .send({ ...newUser, role: 'owner' })
+        .expect(400)
+    })
+
+    it('should return 409 for a taken username', async () => {
+      mockAuthService.createUser.mockRejectedValue(
+        new ConflictException('Staff user "paul" already exists'),
+      )
+
+      await request(app.getHttpServer())
+        .post('/auth/users')
+        .set('Authorization', 'Bearer admin-jwt')
+        .send(newUser)
+        .expect(409)
+    })
+  })
+
+  describe('POST /auth/api-keys', () => {
+    it('should create a key and return it once', async () => {
+      mockAuthService.createApiKey.mockResolvedValue({
+        key: 'generated-key',
+        apiKey: {
+          id: 'key1',
+          name: 'lightroom-export',
+          role: 'photographer',
+          createdBy: 'admin',
+          createdAt: new Date('2025-08-10T12:00:00.000Z'),
+          revokedAt: null,
+        },
+      })
+
+      const response = await request(app.getHttpServer())
+        .post('/auth/api-keys')
+        .set('Authorization', 'Bearer admin-jwt')
+        .send({ name: 'lightroom-export', role: 'photographer' })
+        .expect(201)
+
+      expect(mockAuthService.createApiKey).toHaveBeenCalledWith(
+        'lightroom-export',
+        'photographer',
+        'admin',
+      )
+      expect(response.body).toMatchObject({ id: 'key1', key: 'generated-key' })
+    })
+  })
+
+  describe('POST /auth/api-keys/:id/revoke', () => {
+    it('should revoke the key', async () => {
+      const keyId = '66ba3c1f9d1e8a0012345678'
+      mockAuthService.revokeApiKey.mockResolvedValue({
+        id: keyId,
+        name: 'lightroom-export',
+        role: 'photographer',
+        createdBy: 'admin',
+        createdAt: new Date('2025-08-10T12:00:00.000Z'),
+        revokedAt: new Date('2025-08-11T12:00:00.000Z'),
+      })
+
+      const response = await request(app.getHttpServer())
+        .post(`/auth/api-keys/${keyId}/revoke`)
+        .set('Authorization', 'Bearer admin-jwt')
+        .expect(200)
+
+      expect(mockAuthService.revokeApiKey).toHaveBeenCalledWith(keyId)
+      expect(response.body).not.toHaveProperty('key')
+      expect(response.body.revokedAt).toBe('2025-08-11T12:00:00.000Z')
+    })
+  })
+})
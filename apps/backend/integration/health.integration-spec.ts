@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { INestApplication, VersioningType } from '@nestjs/common'
+import * as request from 'supertest'
+import { HealthReport } from '@photo-st-denis/shared'
+import { HealthController } from '../src/health/health.controller'
+import { HealthService } from '../src/health/health.service'
+
+describe('HealthController (Integration)', () => {
+  let app: INestApplication
+
+  const liveReport: HealthReport = {
+    status: 'ok',
+    timestamp: '2025-08-10T12:00:00.000Z',
+    uptimeSeconds: 42,
+  }
+
+  const readyReport: HealthReport = {
+    ...liveReport,
+    checks: {
+      mongo: { status: 'up', critical: true, responseTimeMs: 2, details: { state: 'connected' } },
+      photos: {
+        status: 'up',
+        critical: true,
+        responseTimeMs: 1,
+        details: { basePath: '/mnt/psd', readable: true, isMountPoint: true },
+      },
+      cacheDisk: { status: 'up', critical: true, responseTimeMs: 1 },
+      redis: { status: 'skipped', critical: false, responseTimeMs: 0 },
+    },
+  }
+
+  const mockHealthService = {
+    checkLiveness: jest.fn(() => liveReport),
+    checkReadiness: jest.fn(),
+  }
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [HealthController],
+      providers: [
+        {
+          provide: HealthService,
+          useValue: mockHealthService,
+        },
+      ],
+    }).compile()
+
+    app = moduleFixture.createNestApplication()
+    // Same versioning as main.ts: probe routes must stay reachable without a version prefix
+    app.enableVersioning({ type: VersioningType.URI, prefix: 'api/v' })
+
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    jest.clearAllMocks()
+  })
+
+  describe('GET /health/live', () => {
+    it('should return 200 without checking dependencies', async () => {
+      const response = await request(app.getHttpServer()).get('/health/live').expect(200)
+
+      expect(response.body).toEqual(liveReport)
+      expect(mockHealthService.checkReadiness).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /health/ready', () => {
+    it('should return 200 with every check when ready', async () => {
+      mockHealthService.checkReadiness.mockResolvedValue(readyReport)
+
+      const response = await request(app.getHttpServer()).get('/health/ready').expect(200)
+
+      expect(response.body).toEqual(readyReport)
+    })
+
+    it('should return 503 with the failing check details when not ready', async () => {
+      const notReady: HealthReport = {
+        ...readyReport,
+        status: 'error',
+        checks: {
+          ...readyReport.checks,
+          photos: {
+            status: 'down',
+            critical: true,
+            responseTimeMs: 1,
+            error: 'Photos base path is not a mount point',
+            details: { basePath: '/mnt/psd', readable: true, isMountPoint: false },
+          },
+        },
+      }
+      mockHealthService.checkReadiness.mockResolvedValue(notReady)
+
+      const response = await request(app.getHttpServer()).get('/health/ready').expect(503)
+
+      expect(response.body).toEqual(notReady)
+    })
+  })
+})
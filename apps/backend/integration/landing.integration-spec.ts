@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { INestApplication, ValidationPipe } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import * as request from 'supertest'
+import { LandingController } from '../src/transfer/landing.controller'
+import { LandingPageService } from '../src/transfer/services/landing-page.service'
+import {
+  DownloadService,
+  DownloadTokenRejectedException,
+} from '../src/transfer/services/download.service'
+import { DeliveryMailService } from '../src/mail/delivery-mail.service'
+import { DownloadRateLimitService } from '../src/rate-limit/download-rate-limit.service'
+import { MemoryRateLimitStore, RATE_LIMIT_STORE } from '../src/rate-limit/stores'
+
+describe('LandingController (Integration)', () => {
+  let app: INestApplication
+
+  const mockDownloadService = {
+    getOverview: jest.fn(),
+  }
+
+  const mockDeliveryMailService = {
+    getDefaultLanguage: jest.fn(() => 'fr'),
+  }
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [LandingController],
+      providers: [
+        LandingPageService,
+        DownloadRateLimitService,
+        {
+          provide: RATE_LIMIT_STORE,
+          useValue: new MemoryRateLimitStore(),
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            STUDIO_NAME: 'Photo St-Denis',
+            RATE_LIMIT_DOWNLOAD_PER_IP: 3,
+          }),
+        },
+        {
+          provide: DownloadService,
+          useValue: mockDownloadService,
+        },
+        {
+          provide: DeliveryMailService,
+          useValue: mockDeliveryMailService,
+        },
+      ],
+    }).compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalPipes(new ValidationPipe())
+
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    jest.clearAllMocks()
+  })
+
+  describe('GET /d/:token', () => {
+    it('should render the download page of the order', async () => {
+      mockDownloadService.getOverview.mockResolvedValue({
+        expiresAt: new Date(Date.now() + 3 * 24 * 3600 * 1000),
+        language: 'en',
+        variants: ['full'],
+        remainingDownloads: null,
+        directories: [{ index: 0, folder: 'ceremony', fileCount: 12, totalSize: 2048 }],
+        fileCount: 12,
+        totalSize: 2048,
+      })
+
+      const response = await request(app.getHttpServer())
+        .get('/d/test-token-123')
+        .set('User-Agent', 'Mobile Safari')
+        .expect(200)
+
+      expect(response.headers['content-type']).toBe('text/html; charset=utf-8')
+      expect(response.headers['cache-control']).toBe('no-cache, no-store, must-revalidate')
+      expect(response.headers['referrer-policy']).toBe('no-referrer')
+      expect(response.headers['x-robots-tag']).toBe('noindex, nofollow')
+      expect(response.text).toContain('Your photos are ready')
+      expect(response.text).toContain('href="/api/v1/transfer/download/test-token-123"')
+      expect(mockDownloadService.getOverview).toHaveBeenCalledWith('test-token-123', {
+        ip: expect.any(String),
+        userAgent: 'Mobile Safari',
+      })
+    })
+
+    it('should render a friendly page instead of a JSON 404 for a revoked link', async () => {
+      mockDownloadService.getOverview.mockRejectedValue(
+        new DownloadTokenRejectedException('Download token has been revoked', 'revoked'),
+      )
+
+      const response = await request(app.getHttpServer())
+        .get('/d/test-token-123')
+        .query({ lang: 'fr' })
+        .expect(404)
+
+      expect(response.headers['content-type']).toBe('text/html; charset=utf-8')
+      expect(response.text).toContain("Ce lien n'est plus disponible")
+      expect(response.text).toContain('Ce lien de téléchargement a été désactivé.')
+    })
+
+    it('should share the download rate limit', async () => {
+      mockDownloadService.getOverview.mockRejectedValue(
+        new DownloadTokenRejectedException('Invalid download token', 'invalid'),
+      )
+
+      for (let i = 0; i < 3; i++) {
+        await request(app.getHttpServer()).get('/d/unknown').expect(404)
+      }
+      const response = await request(app.getHttpServer()).get('/d/unknown').expect(429)
+
+      expect(response.headers['retry-after']).toBeDefined()
+    })
+  })
+})
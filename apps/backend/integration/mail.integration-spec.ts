@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { INestApplication, ValidationPipe } from '@nestjs/common'
+import * as request from 'supertest'
+import { MailController } from '../src/mail/mail.controller'
+import { DeliveryMailService } from '../src/mail/delivery-mail.service'
+import { OrderService } from '../src/order/order.service'
+import { AuthService } from '../src/auth/auth.service'
+
+describe('MailController (Integration)', () => {
+  let app: INestApplication
+
+  const orderId = '66ba3c1f9d1e8a0012345678'
+
+  const buildOrder = (overrides: Record<string, unknown> = {}) => ({
+    id: orderId,
+    customerEmail: 'test@example.com',
+    tokenExpiry: new Date(Date.now() + 24 * 3600000),
+    revokedAt: null,
+    sealedToken: 'sealed',
+    ...overrides,
+  })
+
+  const mockOrderService = {
+    findById: jest.fn(),
+  }
+
+  const mockDeliveryMailService = {
+    isEnabled: jest.fn(),
+    send: jest.fn(),
+  }
+
+  const apiKey = 'photographer-key'
+  const mockAuthService = {
+    authenticateApiKey: jest.fn((key: string) =>
+      Promise.resolve(
+        key === apiKey
+          ? { kind: 'api-key', id: 'key1', name: 'studio', role: 'photographer' }
+          : null,
+      ),
+    ),
+    authenticateAccessToken: jest.fn(() => null),
+  }
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [MailController],
+      providers: [
+        {
+          provide: OrderService,
+          useValue: mockOrderService,
+        },
+        {
+          provide: DeliveryMailService,
+          useValue: mockDeliveryMailService,
+        },
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+      ],
+    }).compile()
+
+    mockDeliveryMailService.isEnabled.mockReturnValue(true)
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalPipes(new ValidationPipe())
+
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    jest.clearAllMocks()
+  })
+
+  describe('POST /orders/:id/send-link', () => {
+    it('should email the current link again', async () => {
+      const order = buildOrder()
+      mockOrderService.findById.mockResolvedValue(order)
+      mockDeliveryMailService.send.mockResolvedValue({
+        kind: 'link',
+        to: 'test@example.com',
+        status: 'sent',
+        messageId: 'message-1@example.com',
+        error: null,
+      })
+
+      const response = await request(app.getHttpServer())
+        .post(`/orders/${orderId}/send-link`)
+        .set('X-API-Key', apiKey)
+        .expect(200)
+
+      expect(response.body).toEqual({
+        status: 'sent',
+        to: 'test@example.com',
+        messageId: 'message-1@example.com',
+        error: null,
+      })
+      expect(mockDeliveryMailService.send).toHaveBeenCalledWith(order, 'link')
+    })
+
+    it('should return 401 without credentials', async () => {
+      await request(app.getHttpServer()).post(`/orders/${orderId}/send-link`).expect(401)
+
+      expect(mockDeliveryMailService.send).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 for an unknown order', async () => {
+      mockOrderService.findById.mockResolvedValue(null)
+
+      await request(app.getHttpServer())
+        .post(`/orders/${orderId}/send-link`)
+        .set('X-API-Key', apiKey)
+        .expect(404)
+    })
+
+    it.each([
+      ['revoked', { revokedAt: new Date() }],
+      ['expired', { tokenExpiry: new Date(Date.now() - 3600000) }],
+      ['created without email delivery', { sealedToken: null }],
+    ])('should return 400 for an order %s', async (_case, overrides) => {
+      mockOrderService.findById.mockResolvedValue(buildOrder(overrides))
+
+      await request(app.getHttpServer())
+        .post(`/orders/${orderId}/send-link`)
+        .set('X-API-Key', apiKey)
+        .expect(400)
+
+      expect(mockDeliveryMailService.send).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 when email is disabled', async () => {
+      mockDeliveryMailService.isEnabled.mockReturnValue(false)
+
+      await request(app.getHttpServer())
+        .post(`/orders/${orderId}/send-link`)
+        .set('X-API-Key', apiKey)
+        .expect(400)
+
+      expect(mockOrderService.findById).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,58 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { INestApplication } from '@nestjs/common'
+import * as request from 'supertest'
+import { MetricsController } from '../src/metrics/metrics.controller'
+import { MetricsService } from '../src/metrics/metrics.service'
+
+describe('MetricsController (Integration)', () => {
+  let app: INestApplication
+  let metricsService: MetricsService
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [MetricsController],
+      providers: [MetricsService],
+    }).compile()
+
+    app = moduleFixture.createNestApplication()
+    metricsService = moduleFixture.get<MetricsService>(MetricsService)
+
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  it('should expose every metric in the Prometheus text format', async () => {
+    const response = await request(app.getHttpServer()).get('/metrics').expect(200)
+
+    expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/)
+    expect(response.text).toContain('# TYPE photo_archive_setup_seconds histogram')
+    expect(response.text).toContain('# TYPE photo_archive_directory_processing_seconds histogram')
+    expect(response.text).toContain('# TYPE photo_archive_finalization_seconds histogram')
+    expect(response.text).toContain('# TYPE photo_archive_stream_seconds histogram')
+    expect(response.text).toContain('photo_archive_bytes_streamed_total 0')
+    expect(response.text).toContain('photo_archive_files_total 0')
+    expect(response.text).toContain('photo_downloads_in_flight 0')
+    expect(response.text).toContain('photo_download_token_rejections_total{reason="expired"} 0')
+  })
+
+  it('should report recorded values', async () => {
+    metricsService.downloadsStarted.inc()
+    metricsService.downloadsCompleted.inc()
+    metricsService.bytesStreamed.inc(4096)
+    metricsService.tokenRejections.inc(1, { reason: 'invalid' })
+    metricsService.archiveSetupSeconds.observe(0.02)
+
+    const response = await request(app.getHttpServer()).get('/metrics').expect(200)
+
+    expect(response.text).toContain('photo_downloads_started_total 1')
+    expect(response.text).toContain('photo_downloads_completed_total 1')
+    expect(response.text).toContain('photo_downloads_aborted_total 0')
+    expect(response.text).toContain('photo_archive_bytes_streamed_total 4096')
+    expect(response.text).toContain('photo_download_token_rejections_total{reason="invalid"} 1')
+    expect(response.text).toContain('photo_archive_setup_seconds_bucket{le="0.025"} 1')
+    expect(response.text).toContain('photo_archive_setup_seconds_count 1')
+  })
+})
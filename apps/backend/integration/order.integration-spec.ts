@@ -0,0 +1,312 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { BadRequestException, INestApplication, ValidationPipe } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import * as request from 'supertest'
+import { OrderController } from '../src/order/order.controller'
+import { OrderService } from '../src/order/order.service'
+import { TokenService } from '../src/token/token.service'
+import { ExpiryPolicyService } from '../src/token/expiry-policy.service'
+import { AuthService } from '../src/auth/auth.service'
+
+describe('OrderController (Integration)', () => {
+  let app: INestApplication
+
+  const orderId = '66ba3c1f9d1e8a0012345678'
+  const futureDate = new Date(Date.now() + 24 * 3600000)
+
+  const buildOrder = (overrides: Record<string, unknown> = {}) => ({
+    id: orderId,
+    customerEmail: 'test@example.com',
+    directoryPaths: ['weddings/2025/smith'],
+    createdAt: new Date('2025-08-01T10:00:00.000Z'),
+    tokenExpiry: futureDate,
+    revokedAt: null,
+    ...overrides,
+  })
+
+  const mockOrderService = {
+    searchOrders: jest.fn(),
+    findById: jest.fn(),
+    revokeOrder: jest.fn(),
+    extendExpiry: jest.fn(),
+    replaceToken: jest.fn(),
+    getDeliverySummary: jest.fn(),
+  }
+
+  const apiKey = 'photographer-key'
+  const mockAuthService = {
+    authenticateApiKey: jest.fn((key: string) =>
+      Promise.resolve(
+        key === apiKey
+          ? { kind: 'api-key', id: 'key1', name: 'studio', role: 'photographer' }
+          : null,
+      ),
+    ),
+    authenticateAccessToken: jest.fn(() => null),
+  }
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [OrderController],
+      providers: [
+        TokenService,
+        ExpiryPolicyService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ TOKEN_SECRET: 'integration-test-secret-long-enough' }),
+        },
+        {
+          provide: OrderService,
+          useValue: mockOrderService,
+        },
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+      ],
+    }).compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalPipes(new ValidationPipe())
+
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    jest.clearAllMocks()
+  })
+
+  describe('GET /orders', () => {
+    it('should pass search criteria and paginate', async () => {
+      mockOrderService.searchOrders.mockResolvedValue({
+        items: [buildOrder()],
+        total: 21,
+        page: 2,
+        limit: 10,
+      })
+
+      const response = await request(app.getHttpServer())
+        .get('/orders')
+        .set('X-API-Key', apiKey)
+        .query({
+          email: 'example.com',
+          directoryPath: 'weddings',
+          createdFrom: '2025-08-01T00:00:00.000Z',
+          page: 2,
+          limit: 10,
+        })
+        .expect(200)
+
+      expect(mockOrderService.searchOrders).toHaveBeenCalledWith({
+        email: 'example.com',
+        directoryPath: 'weddings',
+        createdFrom: new Date('2025-08-01T00:00:00.000Z'),
+        createdTo: undefined,
+        page: 2,
+        limit: 10,
+      })
+      expect(response.body.total).toBe(21)
+      expect(response.body.items[0]).toMatchObject({ id: orderId, status: 'active' })
+      expect(response.body.items[0]).not.toHaveProperty('downloadToken')
+    })
+
+    it('should return 401 without credentials', async () => {
+      await request(app.getHttpServer()).get('/orders').expect(401)
+
+      expect(mockOrderService.searchOrders).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for an invalid page size', async () => {
+      await request(app.getHttpServer())
+        .get('/orders')
+        .set('X-API-Key', apiKey)
+        .query({ limit: 500 })
+        .expect(400)
+
+      expect(mockOrderService.searchOrders).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /orders/:id', () => {
+    it('should return the order details', async () => {
+      mockOrderService.findById.mockResolvedValue(
+        buildOrder({ tokenExpiry: new Date(Date.now() - 1000) }),
+      )
+
+      const response = await request(app.getHttpServer())
+        .get(`/orders/${orderId}`)
+        .set('X-API-Key', apiKey)
+        .expect(200)
+
+      expect(response.body.status).toBe('expired')
+    })
+
+    it('should return 404 when the order does not exist', async () => {
+      mockOrderService.findById.mockResolvedValue(null)
+
+      await request(app.getHttpServer())
+        .get(`/orders/${orderId}`)
+        .set('X-API-Key', apiKey)
+        .expect(404)
+    })
+
+    it('should return 400 for a malformed id', async () => {
+      await request(app.getHttpServer())
+        .get('/orders/not-an-id')
+        .set('X-API-Key', apiKey)
+        .expect(400)
+    })
+  })
+
+  describe('GET /orders/:id/downloads', () => {
+    it('should return the download events and delivery status', async () => {
+      const eventId = '66ba3c1f9d1e8a0012345679'
+      mockOrderService.findById.mockResolvedValue(
+        buildOrder({
+          maxDownloads: 3,
+          downloadCount: 1,
+          downloadEvents: [
+            {
+              _id: eventId,
+              startedAt: new Date('2025-08-10T09:12:03.000Z'),
+              finishedAt: new Date('2025-08-10T09:20:41.000Z'),
+              status: 'completed',
+              rangeStart: 0,
+              rangeEnd: 999,
+              bytesSent: 1000,
+              archiveSize: 1000,
+              archiveEtag: '"abc"',
+              counted: true,
+              clientIp: '203.0.113.42',
+              userAgent: 'Mozilla/5.0',
+            },
+          ],
+          mailAttempts: [
+            {
+              kind: 'link',
+              to: 'test@example.com',
+              attemptedAt: new Date('2025-08-09T16:44:27.000Z'),
+              status: 'failed',
+              error: 'SMTP 550: mailbox unavailable',
+            },
+          ],
+        }),
+      )
+      mockOrderService.getDeliverySummary.mockReturnValue({
+        fullyDelivered: true,
+        remainingDownloads: 2,
+        lastDownloadAt: new Date('2025-08-10T09:12:03.000Z'),
+      })
+
+      const response = await request(app.getHttpServer())
+        .get(`/orders/${orderId}/downloads`)
+        .set('X-API-Key', apiKey)
+        .expect(200)
+
+      expect(response.body).toMatchObject({
+        orderId,
+        fullyDelivered: true,
+        downloadCount: 1,
+        maxDownloads: 3,
+        remainingDownloads: 2,
+      })
+      expect(response.body.events).toEqual([
+        expect.objectContaining({
+          id: eventId,
+          status: 'completed',
+          bytesSent: 1000,
+          counted: true,
+          clientIp: '203.0.113.42',
+        }),
+      ])
+      expect(response.body.mailAttempts).toEqual([
+        {
+          kind: 'link',
+          to: 'test@example.com',
+          attemptedAt: '2025-08-09T16:44:27.000Z',
+          status: 'failed',
+          messageId: null,
+          error: 'SMTP 550: mailbox unavailable',
+        },
+      ])
+    })
+  })
+
+  describe('POST /orders/:id/revoke', () => {
+    it('should revoke the order', async () => {
+      mockOrderService.revokeOrder.mockResolvedValue(buildOrder({ revokedAt: new Date() }))
+
+      const response = await request(app.getHttpServer())
+        .post(`/orders/${orderId}/revoke`)
+        .set('X-API-Key', apiKey)
+        .expect(200)
+
+      expect(mockOrderService.revokeOrder).toHaveBeenCalledWith(orderId)
+      expect(response.body.status).toBe('revoked')
+    })
+  })
+
+  describe('POST /orders/:id/extend', () => {
+    it('should set the new expiry date', async () => {
+      const expiresAt = new Date(Date.now() + 30 * 24 * 3600000)
+      mockOrderService.extendExpiry.mockResolvedValue(buildOrder({ tokenExpiry: expiresAt }))
+
+      const response = await request(app.getHttpServer())
+        .post(`/orders/${orderId}/extend`)
+        .set('X-API-Key', apiKey)
+        .send({ expiresAt: expiresAt.toISOString() })
+        .expect(200)
+
+      expect(mockOrderService.extendExpiry).toHaveBeenCalledWith(orderId, expiresAt)
+      expect(response.body.expiresAt).toBe(expiresAt.toISOString())
+    })
+
+    it('should return 400 beyond the maximum token lifetime', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/orders/${orderId}/extend`)
+        .set('X-API-Key', apiKey)
+        .send({ expiresAt: new Date(Date.now() + 10 * 365 * 24 * 3600000).toISOString() })
+        .expect(400)
+
+      expect(response.body.message).toBe('Token expiry must be between 1 and 720 hours from now')
+      expect(mockOrderService.extendExpiry).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 when the date is missing', async () => {
+      await request(app.getHttpServer())
+        .post(`/orders/${orderId}/extend`)
+        .set('X-API-Key', apiKey)
+        .send({})
+        .expect(400)
+    })
+
+    it('should return 400 when the order was revoked', async () => {
+      mockOrderService.extendExpiry.mockRejectedValue(
+        new BadRequestException('Order has been revoked'),
+      )
+
+      await request(app.getHttpServer())
+        .post(`/orders/${orderId}/extend`)
+        .set('X-API-Key', apiKey)
+        .send({ expiresAt: futureDate.toISOString() })
+        .expect(400)
+    })
+  })
+
+  describe('POST /orders/:id/regenerate-token', () => {
+    it('should store and return a new token', async () => {
+      mockOrderService.replaceToken.mockResolvedValue(buildOrder())
+
+      const response = await request(app.getHttpServer())
+        .post(`/orders/${orderId}/regenerate-token`)
+        .set('X-API-Key', apiKey)
+        .expect(200)
+
+      expect(mockOrderService.replaceToken).toHaveBeenCalledWith(orderId, response.body.token)
+      expect(response.body.token).toMatch(/^[A-Za-z0-9_-]{43}$/)
+      expect(response.body.downloadUrl).toBe(`/api/v1/transfer/download/${response.body.token}`)
+      expect(response.body.pageUrl).toBe(`/d/${response.body.token}`)
+    })
+  })
+})
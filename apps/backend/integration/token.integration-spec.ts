@@ -1,4 +1,5 @@
 import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
 import { TokenService } from '../src/token/token.service'
 
 describe('TokenService (Integration)', () => {
@@ -6,7 +7,13 @@ describe('TokenService (Integration)', () => {
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [TokenService],
+      providers: [
+        TokenService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ TOKEN_SECRET: 'integration-test-secret-long-enough' }),
+        },
+      ],
     }).compile()
 
     service = module.get<TokenService>(TokenService)
@@ -32,8 +39,15 @@ describe('TokenService (Integration)', () => {
     const tokens = Array.from({ length: 10 }, () => service.generateToken())
 
     tokens.forEach((token) => {
-      expect(token).toMatch(/^[a-f0-9]{16}$/i)
-      expect(token).toHaveLength(16)
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/)
+      expect(token).toHaveLength(43)
     })
   })
+
+  it('should only verify tokens against their own hash', () => {
+    const [first, second] = [service.generateToken(), service.generateToken()]
+
+    expect(service.verifyToken(first, service.hashToken(first))).toBe(true)
+    expect(service.verifyToken(second, service.hashToken(first))).toBe(false)
+  })
 })
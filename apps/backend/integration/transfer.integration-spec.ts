@@ -1,10 +1,28 @@
 import { Test, TestingModule } from '@nestjs/testing'
-import { INestApplication, ValidationPipe } from '@nestjs/common'
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpStatus,
+  INestApplication,
+  NotFoundException,
+  StreamableFile,
+  ValidationPipe,
+} from '@nestjs/common'
 import * as request from 'supertest'
 import { TransferController } from '../src/transfer/transfer.controller'
+import { ConfigService } from '@nestjs/config'
 import { TokenService } from '../src/token/token.service'
+import { ExpiryPolicyService } from '../src/token/expiry-policy.service'
 import { OrderService } from '../src/order/order.service'
 import { DownloadService } from '../src/transfer/services/download.service'
+import { DirectoryPreviewService } from '../src/transfer/services/directory-preview.service'
+import { ArchivePrebuildService } from '../src/transfer/services/archive-prebuild.service'
+import { ArchiveCacheService } from '../src/cache/archive-cache.service'
+import { DeliveryMailService } from '../src/mail/delivery-mail.service'
+import { AuthService } from '../src/auth/auth.service'
+import { DownloadRateLimitService } from '../src/rate-limit/download-rate-limit.service'
+import { MemoryRateLimitStore, RATE_LIMIT_STORE } from '../src/rate-limit/stores'
+import { StaffPrincipal } from '../src/auth/auth.types'
 
 describe('TransferController (Integration)', () => {
   let app: INestApplication
@@ -17,6 +35,64 @@ describe('TransferController (Integration)', () => {
 
   const mockDownloadService = {
     createDownload: jest.fn(),
+    listParts: jest.fn(),
+    getManifest: jest.fn(),
+    getChecksums: jest.fn(),
+    createFileDownload: jest.fn(),
+  }
+
+  const mockArchiveCacheService = {
+    getStats: jest.fn(),
+  }
+
+  const validSummary = {
+    valid: true,
+    fileTypeProfile: 'standard',
+    directories: [
+      {
+        path: '/path/to/photos',
+        valid: true,
+        fileCount: 12,
+        totalSize: 2048,
+        totalSizeFormatted: '2.00 KB',
+      },
+    ],
+    fileCount: 12,
+    totalSize: 2048,
+    totalSizeFormatted: '2.00 KB',
+    estimatedArchiveSize: 3200,
+    estimatedArchiveSizeFormatted: '3.13 KB',
+  }
+
+  const mockDirectoryPreviewService = {
+    preview: jest.fn(),
+  }
+
+  const mockArchivePrebuildService = {
+    enqueue: jest.fn(),
+  }
+
+  const mockDeliveryMailService = {
+    isEnabled: jest.fn(),
+    getDefaultLanguage: jest.fn(() => 'fr'),
+    send: jest.fn(),
+  }
+
+  const photographerKey = 'photographer-key'
+  const adminKey = 'admin-key'
+  const staffByKey: Record<string, StaffPrincipal> = {
+    [photographerKey]: {
+      kind: 'api-key',
+      id: 'key1',
+      name: 'lightroom-export',
+      role: 'photographer',
+    },
+    [adminKey]: { kind: 'api-key', id: 'key2', name: 'monitoring', role: 'admin' },
+  }
+
+  const mockAuthService = {
+    authenticateApiKey: jest.fn((key: string) => Promise.resolve(staffByKey[key] ?? null)),
+    authenticateAccessToken: jest.fn(() => null),
   }
 
   beforeEach(async () => {
@@ -24,6 +100,22 @@ describe('TransferController (Integration)', () => {
       controllers: [TransferController],
       providers: [
         TokenService,
+        ExpiryPolicyService,
+        DownloadRateLimitService,
+        {
+          provide: RATE_LIMIT_STORE,
+          useValue: new MemoryRateLimitStore(),
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            TOKEN_SECRET: 'integration-test-secret-long-enough',
+            TOKEN_EXPIRY_MIN_HOURS: 24,
+            TOKEN_EXPIRY_MAX_HOURS: 720,
+            TOKEN_EXPIRY_PRESETS: 'short:24,standard:72,archive:720',
+            RATE_LIMIT_DOWNLOAD_PER_IP: 3,
+          }),
+        },
         {
           provide: OrderService,
           useValue: mockOrderService,
@@ -32,9 +124,33 @@ describe('TransferController (Integration)', () => {
           provide: DownloadService,
           useValue: mockDownloadService,
         },
+        {
+          provide: ArchiveCacheService,
+          useValue: mockArchiveCacheService,
+        },
+        {
+          provide: DirectoryPreviewService,
+          useValue: mockDirectoryPreviewService,
+        },
+        {
+          provide: ArchivePrebuildService,
+          useValue: mockArchivePrebuildService,
+        },
+        {
+          provide: DeliveryMailService,
+          useValue: mockDeliveryMailService,
+        },
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
       ],
     }).compile()
 
+    mockDirectoryPreviewService.preview.mockResolvedValue(validSummary)
+    mockArchivePrebuildService.enqueue.mockResolvedValue(undefined)
+    mockDeliveryMailService.isEnabled.mockReturnValue(false)
+
     app = moduleFixture.createNestApplication()
     app.useGlobalPipes(new ValidationPipe())
 
@@ -47,16 +163,34 @@ describe('TransferController (Integration)', () => {
   })
 
   describe('POST /transfer/associate', () => {
+    it('should return 401 without credentials', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'] })
+        .expect(401)
+
+      expect(mockOrderService.createOrder).not.toHaveBeenCalled()
+    })
+
+    it('should return 401 for an unknown API key', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', 'unknown-key')
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'] })
+        .expect(401)
+    })
+
     it('should create a new order and return download info', async () => {
       const associateDto = {
         email: 'test@example.com',
         directoryPaths: ['/path/to/photos1', '/path/to/photos2'],
       }
 
-      mockOrderService.createOrder.mockResolvedValue(undefined)
+      mockOrderService.createOrder.mockResolvedValue({ id: 'order1' })
 
       const response = await request(app.getHttpServer())
         .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
         .send(associateDto)
         .expect(201)
 
@@ -64,13 +198,334 @@ describe('TransferController (Integration)', () => {
       expect(response.body).toHaveProperty('downloadUrl')
       expect(response.body).toHaveProperty('expiresAt')
       expect(response.body.downloadUrl).toMatch(/\/api\/v1\/transfer\/download\//)
+      expect(response.body.pageUrl).toBe(`/d/${response.body.token}`)
+      expect(response.body.summary).toEqual(validSummary)
+      expect(mockDirectoryPreviewService.preview).toHaveBeenCalledWith(
+        associateDto.directoryPaths,
+        undefined,
+        undefined,
+        undefined,
+      )
 
       expect(mockOrderService.createOrder).toHaveBeenCalledWith({
         customerEmail: associateDto.email,
         directoryPaths: associateDto.directoryPaths,
         downloadToken: expect.any(String),
         tokenExpiry: expect.any(Date),
+        expiryPolicy: { name: 'default', durationHours: 72 },
+        maxDownloads: undefined,
+        variants: undefined,
+        privacyMode: undefined,
+        fileTypeProfile: 'standard',
+        folderLayout: undefined,
+        maxPartSizeMb: undefined,
+        language: 'fr',
+        emailDelivery: false,
+        createdBy: { kind: 'api-key', id: 'key1', name: 'lightroom-export' },
+      })
+      expect(mockArchivePrebuildService.enqueue).toHaveBeenCalledWith('order1')
+      expect(mockDeliveryMailService.send).not.toHaveBeenCalled()
+      expect(response.body).not.toHaveProperty('emailStatus')
+    })
+
+    it('should email the link in the requested language when email is enabled', async () => {
+      const order = { id: 'order1', emailDelivery: true }
+      mockDeliveryMailService.isEnabled.mockReturnValue(true)
+      mockDeliveryMailService.send.mockResolvedValue({ status: 'failed' })
+      mockOrderService.createOrder.mockResolvedValue(order)
+
+      const response = await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'], language: 'en' })
+        .expect(201)
+
+      expect(mockOrderService.createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ language: 'en', emailDelivery: true }),
+      )
+      expect(mockDeliveryMailService.send).toHaveBeenCalledWith(order, 'link', {
+        token: response.body.token,
+        summary: { fileCount: 12, totalSizeFormatted: '2.00 KB' },
       })
+      // A failed email does not fail the order
+      expect(response.body.emailStatus).toBe('failed')
+    })
+
+    it('should not email the link when sendEmail is false', async () => {
+      mockDeliveryMailService.isEnabled.mockReturnValue(true)
+      mockOrderService.createOrder.mockResolvedValue({ id: 'order1', emailDelivery: false })
+
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'], sendEmail: false })
+        .expect(201)
+
+      expect(mockOrderService.createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ emailDelivery: false }),
+      )
+      expect(mockDeliveryMailService.send).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 when an email is requested while email is disabled', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'], sendEmail: true })
+        .expect(400)
+
+      expect(mockOrderService.createOrder).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for an unknown language', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'], language: 'de' })
+        .expect(400)
+
+      expect(mockOrderService.createOrder).not.toHaveBeenCalled()
+    })
+
+    it('should restrict the order to the requested variants', async () => {
+      mockOrderService.createOrder.mockResolvedValue({ id: 'order1', variants: ['web'] })
+
+      const response = await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'], variants: ['web'] })
+        .expect(201)
+
+      expect(response.body.variants).toEqual(['web'])
+      expect(mockOrderService.createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ variants: ['web'] }),
+      )
+    })
+
+    it('should return 400 for an unknown variant', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({
+          email: 'test@example.com',
+          directoryPaths: ['/path/to/photos'],
+          variants: ['thumbnail'],
+        })
+        .expect(400)
+
+      expect(mockOrderService.createOrder).not.toHaveBeenCalled()
+    })
+
+    it('should create orders with the requested file type profile', async () => {
+      mockOrderService.createOrder.mockResolvedValue({ id: 'order1' })
+      mockDirectoryPreviewService.preview.mockResolvedValue({
+        ...validSummary,
+        fileTypeProfile: 'with-raw',
+      })
+
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({
+          email: 'test@example.com',
+          directoryPaths: ['/path/to/photos'],
+          fileTypeProfile: 'with-raw',
+        })
+        .expect(201)
+
+      expect(mockDirectoryPreviewService.preview).toHaveBeenCalledWith(
+        ['/path/to/photos'],
+        'with-raw',
+        undefined,
+        undefined,
+      )
+      expect(mockOrderService.createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ fileTypeProfile: 'with-raw' }),
+      )
+    })
+
+    it('should create orders with the requested folder layout', async () => {
+      mockOrderService.createOrder.mockResolvedValue({ id: 'order1' })
+
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({
+          email: 'test@example.com',
+          directoryPaths: ['eventA/selects', 'eventB/selects'],
+          folderLayout: 'full-path',
+        })
+        .expect(201)
+
+      expect(mockDirectoryPreviewService.preview).toHaveBeenCalledWith(
+        ['eventA/selects', 'eventB/selects'],
+        undefined,
+        'full-path',
+        undefined,
+      )
+      expect(mockOrderService.createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ folderLayout: 'full-path' }),
+      )
+    })
+
+    it('should return 400 for an unknown folder layout', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({
+          email: 'test@example.com',
+          directoryPaths: ['/path/to/photos'],
+          folderLayout: 'by-camera',
+        })
+        .expect(400)
+
+      expect(mockOrderService.createOrder).not.toHaveBeenCalled()
+    })
+
+    it('should create orders in privacy mode', async () => {
+      mockOrderService.createOrder.mockResolvedValue({ id: 'order1' })
+
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'], privacyMode: true })
+        .expect(201)
+
+      expect(mockDirectoryPreviewService.preview).toHaveBeenCalledWith(
+        ['/path/to/photos'],
+        undefined,
+        undefined,
+        true,
+      )
+      expect(mockOrderService.createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ privacyMode: true }),
+      )
+    })
+
+    it('should return 400 for privacy mode with a profile it cannot scrub', async () => {
+      mockDirectoryPreviewService.preview.mockRejectedValue(
+        new BadRequestException(
+          'Privacy mode cannot remove the metadata of .cr3, .heic, .heif, .orf, .raf, .rw2 files of file type profile "with-raw". Choose a profile without them or disable privacy mode',
+        ),
+      )
+
+      const response = await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({
+          email: 'test@example.com',
+          directoryPaths: ['/path/to/photos'],
+          privacyMode: true,
+          fileTypeProfile: 'with-raw',
+        })
+        .expect(400)
+
+      expect(response.body.message).toContain('Privacy mode cannot remove the metadata')
+      expect(mockOrderService.createOrder).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for a privacy mode that is not a boolean', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({
+          email: 'test@example.com',
+          directoryPaths: ['/path/to/photos'],
+          privacyMode: 'yes',
+        })
+        .expect(400)
+
+      expect(mockOrderService.createOrder).not.toHaveBeenCalled()
+    })
+
+    it('should create the order even when the archive build cannot be queued', async () => {
+      mockOrderService.createOrder.mockResolvedValue({ id: 'order1' })
+      mockArchivePrebuildService.enqueue.mockRejectedValue(new Error('Database error'))
+
+      const response = await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'] })
+        .expect(201)
+
+      expect(response.body).toHaveProperty('token')
+    })
+
+    it('should return 400 when a directory cannot be delivered', async () => {
+      mockDirectoryPreviewService.preview.mockResolvedValue({
+        ...validSummary,
+        valid: false,
+        directories: [
+          ...validSummary.directories,
+          {
+            path: 'missing',
+            valid: false,
+            error: 'Directory not found',
+            fileCount: 0,
+            totalSize: 0,
+            totalSizeFormatted: '0.00 B',
+          },
+        ],
+      })
+
+      const response = await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos', 'missing'] })
+        .expect(400)
+
+      expect(response.body.message).toBe('Invalid directories: missing (Directory not found)')
+      expect(mockOrderService.createOrder).not.toHaveBeenCalled()
+    })
+
+    it('should apply a named expiry preset', async () => {
+      mockOrderService.createOrder.mockResolvedValue({ id: 'order1' })
+
+      const response = await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({
+          email: 'test@example.com',
+          directoryPaths: ['/path/to/photos'],
+          expiryPreset: 'archive',
+        })
+        .expect(201)
+
+      const expiresInHours = (new Date(response.body.expiresAt).getTime() - Date.now()) / 3600000
+      expect(Math.round(expiresInHours)).toBe(720)
+      expect(mockOrderService.createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ expiryPolicy: { name: 'archive', durationHours: 720 } }),
+      )
+    })
+
+    it('should return 400 if the requested expiry is outside the allowed range', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({
+          email: 'test@example.com',
+          directoryPaths: ['/path/to/photos'],
+          expiresInHours: 2,
+        })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toBe('Token expiry must be between 24 and 720 hours from now')
+        })
+
+      expect(mockOrderService.createOrder).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 if several expiry options are provided', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send({
+          email: 'test@example.com',
+          directoryPaths: ['/path/to/photos'],
+          expiresInHours: 48,
+          expiryPreset: 'short',
+        })
+        .expect(400)
     })
 
     it('should return 400 if no directory paths provided', async () => {
@@ -81,6 +536,7 @@ describe('TransferController (Integration)', () => {
 
       await request(app.getHttpServer())
         .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
         .send(associateDto)
         .expect(400)
         .expect((res) => {
@@ -95,7 +551,11 @@ describe('TransferController (Integration)', () => {
         directoryPaths: ['/path/to/photos'],
       }
 
-      await request(app.getHttpServer()).post('/transfer/associate').send(associateDto).expect(400)
+      await request(app.getHttpServer())
+        .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
+        .send(associateDto)
+        .expect(400)
     })
 
     it('should return 500 if order creation fails', async () => {
@@ -108,6 +568,7 @@ describe('TransferController (Integration)', () => {
 
       await request(app.getHttpServer())
         .post('/transfer/associate')
+        .set('X-API-Key', photographerKey)
         .send(associateDto)
         .expect(500)
         .expect((res) => {
@@ -116,16 +577,161 @@ describe('TransferController (Integration)', () => {
     })
   })
 
+  describe('POST /transfer/associate/preview', () => {
+    it('should return the directory summary without creating an order', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/transfer/associate/preview')
+        .set('X-API-Key', photographerKey)
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'] })
+        .expect(200)
+
+      expect(response.body).toEqual(validSummary)
+      expect(mockOrderService.createOrder).not.toHaveBeenCalled()
+    })
+
+    it('should report invalid directories with a 200', async () => {
+      mockDirectoryPreviewService.preview.mockResolvedValue({ ...validSummary, valid: false })
+
+      const response = await request(app.getHttpServer())
+        .post('/transfer/associate/preview')
+        .set('X-API-Key', photographerKey)
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'] })
+        .expect(200)
+
+      expect(response.body.valid).toBe(false)
+    })
+
+    it('should validate the expiry options', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate/preview')
+        .set('X-API-Key', photographerKey)
+        .send({
+          email: 'test@example.com',
+          directoryPaths: ['/path/to/photos'],
+          expiryPreset: 'forever',
+        })
+        .expect(400)
+    })
+
+    it('should require authentication', async () => {
+      await request(app.getHttpServer())
+        .post('/transfer/associate/preview')
+        .send({ email: 'test@example.com', directoryPaths: ['/path/to/photos'] })
+        .expect(401)
+    })
+  })
+
   describe('GET /transfer/download/:token', () => {
     it('should call download service with token', async () => {
       const token = 'test-token-123'
-      const mockStreamableFile = { getStream: jest.fn() }
 
-      mockDownloadService.createDownload.mockResolvedValue(mockStreamableFile)
+      mockDownloadService.createDownload.mockResolvedValue({
+        statusCode: HttpStatus.OK,
+        headers: { 'Accept-Ranges': 'bytes', ETag: '"abc"' },
+        file: new StreamableFile(Buffer.from('zip-content')),
+      })
+
+      await request(app.getHttpServer())
+        .get(`/transfer/download/${token}`)
+        .expect(200)
+        .expect('Accept-Ranges', 'bytes')
+        .expect('ETag', '"abc"')
+
+      expect(mockDownloadService.createDownload).toHaveBeenCalledWith(
+        token,
+        { range: undefined, ifRange: undefined },
+        { ip: expect.any(String), userAgent: undefined },
+        undefined,
+        { format: undefined },
+      )
+    })
+
+    it('should pass the requested variant to the download service', async () => {
+      mockDownloadService.createDownload.mockResolvedValue({
+        statusCode: HttpStatus.OK,
+        headers: {},
+        file: new StreamableFile(Buffer.from('zip-content')),
+      })
+
+      await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123?variant=web&format=tar.gz')
+        .expect(200)
+
+      expect(mockDownloadService.createDownload).toHaveBeenCalledWith(
+        'test-token-123',
+        expect.anything(),
+        expect.anything(),
+        'web',
+        { format: 'tar.gz' },
+      )
+    })
+
+    it('should forward range headers and answer with partial content', async () => {
+      const token = 'test-token-123'
+
+      mockDownloadService.createDownload.mockResolvedValue({
+        statusCode: HttpStatus.PARTIAL_CONTENT,
+        headers: { 'Content-Range': 'bytes 4-10/11' },
+        file: new StreamableFile(Buffer.from('content')),
+      })
+
+      await request(app.getHttpServer())
+        .get(`/transfer/download/${token}`)
+        .set('Range', 'bytes=4-')
+        .set('If-Range', '"abc"')
+        .set('User-Agent', 'DownloadManager/1.0')
+        .expect(206)
+        .expect('Content-Range', 'bytes 4-10/11')
+
+      expect(mockDownloadService.createDownload).toHaveBeenCalledWith(
+        token,
+        { range: 'bytes=4-', ifRange: '"abc"' },
+        { ip: expect.any(String), userAgent: 'DownloadManager/1.0' },
+        undefined,
+        { format: undefined },
+      )
+    })
+
+    it('should answer 416 when the range cannot be satisfied', async () => {
+      mockDownloadService.createDownload.mockResolvedValue({
+        statusCode: HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+        headers: { 'Content-Range': 'bytes */11' },
+      })
+
+      await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123')
+        .set('Range', 'bytes=100-')
+        .expect(416)
+        .expect('Content-Range', 'bytes */11')
+    })
+
+    it('should return 403 when the download limit is reached', async () => {
+      mockDownloadService.createDownload.mockRejectedValue(
+        new ForbiddenException('Download limit reached for this order'),
+      )
+
+      await request(app.getHttpServer()).get('/transfer/download/test-token-123').expect(403)
+    })
+
+    it('should return 429 with Retry-After once the per-IP limit is reached', async () => {
+      mockDownloadService.createDownload.mockImplementation(() =>
+        Promise.resolve({
+          statusCode: HttpStatus.OK,
+          headers: {},
+          file: new StreamableFile(Buffer.from('zip')),
+        }),
+      )
+
+      for (let i = 0; i < 3; i++) {
+        await request(app.getHttpServer()).get('/transfer/download/test-token-123').expect(200)
+      }
 
-      await request(app.getHttpServer()).get(`/transfer/download/${token}`).expect(200)
+      const response = await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123')
+        .expect(429)
 
-      expect(mockDownloadService.createDownload).toHaveBeenCalledWith(token)
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0)
+      expect(mockDownloadService.createDownload).toHaveBeenCalledTimes(3)
     })
 
     it('should handle download service errors', async () => {
@@ -136,4 +742,242 @@ describe('TransferController (Integration)', () => {
       await request(app.getHttpServer()).get(`/transfer/download/${token}`).expect(500)
     })
   })
+
+  describe('GET /transfer/download/:token/parts', () => {
+    it('should list the parts with their download URLs', async () => {
+      mockDownloadService.listParts.mockResolvedValue({
+        variant: 'web',
+        format: 'tar',
+        maxPartSize: 1048576,
+        parts: [
+          { part: 1, fileCount: 3, size: 1040384, filename: 'photos-part1of2.tar' },
+          { part: 2, fileCount: 1, size: 20480, filename: 'photos-part2of2.tar' },
+        ],
+      })
+
+      const response = await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123/parts?variant=web&format=tar')
+        .expect(200)
+
+      expect(mockDownloadService.listParts).toHaveBeenCalledWith(
+        'test-token-123',
+        { ip: expect.any(String), userAgent: undefined },
+        'web',
+        'tar',
+      )
+      expect(response.body.parts.map((part: { downloadUrl: string }) => part.downloadUrl)).toEqual([
+        '/api/v1/transfer/download/test-token-123/parts/1?variant=web&format=tar',
+        '/api/v1/transfer/download/test-token-123/parts/2?variant=web&format=tar',
+      ])
+    })
+
+    it('should return 404 for an invalid token', async () => {
+      mockDownloadService.listParts.mockRejectedValue(
+        new NotFoundException('Invalid download token'),
+      )
+
+      await request(app.getHttpServer()).get('/transfer/download/unknown/parts').expect(404)
+    })
+  })
+
+  describe('GET /transfer/download/:token/parts/:part', () => {
+    it('should download the requested part', async () => {
+      mockDownloadService.createDownload.mockResolvedValue({
+        statusCode: HttpStatus.OK,
+        headers: { ETag: '"part2"' },
+        file: new StreamableFile(Buffer.from('zip-content')),
+      })
+
+      await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123/parts/2')
+        .set('Range', 'bytes=4-')
+        .expect(200)
+        .expect('ETag', '"part2"')
+
+      expect(mockDownloadService.createDownload).toHaveBeenCalledWith(
+        'test-token-123',
+        { range: 'bytes=4-', ifRange: undefined },
+        { ip: expect.any(String), userAgent: undefined },
+        undefined,
+        { format: undefined, part: 2 },
+      )
+    })
+
+    it('should return 400 when the part is not a number', async () => {
+      await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123/parts/two')
+        .expect(400)
+
+      expect(mockDownloadService.createDownload).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /transfer/download/:token/manifest', () => {
+    it('should list the directories and files with their URLs', async () => {
+      mockDownloadService.getManifest.mockResolvedValue({
+        directories: [
+          {
+            index: 0,
+            folder: 'smith',
+            fileCount: 1,
+            totalSize: 1500,
+            files: [{ id: '0.abc', name: 'a.jpg', size: 1500, contentType: 'image/jpeg' }],
+          },
+        ],
+        fileCount: 1,
+        totalSize: 1500,
+      })
+
+      const response = await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123/manifest')
+        .expect(200)
+
+      expect(response.body.directories[0]).toMatchObject({
+        downloadUrl: '/api/v1/transfer/download/test-token-123/directories/0',
+        files: [{ id: '0.abc', url: '/api/v1/transfer/download/test-token-123/files/0.abc' }],
+      })
+    })
+  })
+
+  describe('GET /transfer/download/:token/checksums', () => {
+    it('should list the checksums of the requested variant', async () => {
+      const checksums = {
+        variant: 'web',
+        algorithm: 'sha256',
+        files: [
+          {
+            name: 'smith/a.jpg',
+            size: 1500,
+            sha256: 'b'.repeat(64),
+            recordedSha256: 'a'.repeat(64),
+            changed: true,
+          },
+        ],
+        changedCount: 1,
+      }
+      mockDownloadService.getChecksums.mockResolvedValue(checksums)
+
+      const response = await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123/checksums?variant=web')
+        .expect(200)
+
+      expect(response.body).toEqual(checksums)
+      expect(response.headers['cache-control']).toBe('no-cache, no-store, must-revalidate')
+      expect(mockDownloadService.getChecksums).toHaveBeenCalledWith(
+        'test-token-123',
+        { ip: expect.any(String), userAgent: undefined },
+        'web',
+      )
+    })
+
+    it('should answer 202 while the checksums are computed', async () => {
+      mockDownloadService.getChecksums.mockResolvedValue(null)
+
+      const response = await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123/checksums')
+        .expect(202)
+
+      expect(response.headers['retry-after']).toBe('10')
+    })
+
+    it('should return 404 for an invalid token', async () => {
+      mockDownloadService.getChecksums.mockRejectedValue(
+        new NotFoundException('Invalid download token'),
+      )
+
+      await request(app.getHttpServer()).get('/transfer/download/bad-token/checksums').expect(404)
+    })
+  })
+
+  describe('GET /transfer/download/:token/directories/:index', () => {
+    it('should download the requested directory', async () => {
+      mockDownloadService.createDownload.mockResolvedValue({
+        statusCode: HttpStatus.OK,
+        headers: {},
+        file: new StreamableFile(Buffer.from('zip-content')),
+      })
+
+      await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123/directories/1?format=tar')
+        .expect(200)
+
+      expect(mockDownloadService.createDownload).toHaveBeenCalledWith(
+        'test-token-123',
+        { range: undefined, ifRange: undefined },
+        { ip: expect.any(String), userAgent: undefined },
+        undefined,
+        { format: 'tar', directory: 1 },
+      )
+    })
+  })
+
+  describe('GET /transfer/download/:token/files/:fileId', () => {
+    it('should stream the requested file', async () => {
+      mockDownloadService.createFileDownload.mockResolvedValue({
+        statusCode: HttpStatus.OK,
+        headers: { 'X-Content-Type-Options': 'nosniff' },
+        file: new StreamableFile(Buffer.from('jpeg'), {
+          type: 'image/jpeg',
+          disposition: 'inline; filename="a.jpg"',
+        }),
+      })
+
+      await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123/files/0.abc?variant=web')
+        .expect(200)
+        .expect('Content-Type', 'image/jpeg')
+        .expect('Content-Disposition', 'inline; filename="a.jpg"')
+
+      expect(mockDownloadService.createFileDownload).toHaveBeenCalledWith(
+        'test-token-123',
+        '0.abc',
+        { range: undefined, ifRange: undefined },
+        { ip: expect.any(String), userAgent: undefined },
+        'web',
+      )
+    })
+
+    it('should return 404 for a file outside the order', async () => {
+      mockDownloadService.createFileDownload.mockRejectedValue(
+        new NotFoundException('File not found'),
+      )
+
+      await request(app.getHttpServer())
+        .get('/transfer/download/test-token-123/files/..%2F..%2Fetc%2Fpasswd')
+        .expect(404)
+    })
+  })
+
+  describe('GET /transfer/cache/stats', () => {
+    it('should return the archive cache statistics', async () => {
+      const stats = {
+        fileCount: 2,
+        totalSizeMB: 120.5,
+        maxSizeMB: 5000,
+        usagePercentage: 2.41,
+        oldestFileAge: '3h 5m',
+        hits: 3,
+        misses: 1,
+        hitRate: 75,
+        timestamp: '2025-08-12T16:44:26.000Z',
+      }
+      mockArchiveCacheService.getStats.mockReturnValue(stats)
+
+      const response = await request(app.getHttpServer())
+        .get('/transfer/cache/stats')
+        .set('X-API-Key', adminKey)
+        .expect(200)
+
+      expect(response.body).toEqual(stats)
+    })
+
+    it('should be restricted to admins', async () => {
+      await request(app.getHttpServer())
+        .get('/transfer/cache/stats')
+        .set('X-API-Key', photographerKey)
+        .expect(403)
+
+      expect(mockArchiveCacheService.getStats).not.toHaveBeenCalled()
+    })
+  })
 })
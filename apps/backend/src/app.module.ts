@@ -5,7 +5,12 @@ import { CacheModule } from '@nestjs/cache-manager'
 import { TransferModule } from './transfer/transfer.module'
 import { TokenModule } from './token/token.module'
 import { OrderModule } from './order/order.module'
+import { AuthModule } from './auth/auth.module'
 import { DatabaseModule } from './config/database.module'
+import { HealthModule } from './health/health.module'
+import { MetricsModule } from './metrics/metrics.module'
+import { MaintenanceModule } from './maintenance/maintenance.module'
+import { MailModule } from './mail/mail.module'
 
 @Module({
   imports: [
@@ -19,9 +24,14 @@ import { DatabaseModule } from './config/database.module'
       ttl: 24 * 60 * 60 * 1000, // 24 hours default TTL (in milliseconds)
     }),
     DatabaseModule,
+    AuthModule,
     TransferModule,
     TokenModule,
     OrderModule,
+    HealthModule,
+    MetricsModule,
+    MaintenanceModule,
+    MailModule,
   ],
 })
 export class AppModule {}
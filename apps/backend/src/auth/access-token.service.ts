@@ -0,0 +1,94 @@
+import { Injectable, OnModuleInit } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { createHmac, timingSafeEqual } from 'crypto'
+import { StaffRole } from './auth.types'
+
+/** Minimum length of the AUTH_JWT_SECRET used to sign access tokens */
+export const MIN_JWT_SECRET_LENGTH = 32
+
+export interface AccessTokenPayload {
+  /** Staff user id */
+  sub: string
+  username: string
+  role: StaffRole
+  /** Issue and expiry times in seconds since the epoch */
+  iat: number
+  exp: number
+}
+
+export interface SignedAccessToken {
+  accessToken: string
+  /** Validity in seconds */
+  expiresIn: number
+}
+
+const JWT_HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url')
+
+/**
+ * Issues and verifies the HS256 JSON Web Tokens handed to staff members at login
+ */
+@Injectable()
+export class AccessTokenService implements OnModuleInit {
+  constructor(private configService: ConfigService) {}
+
+  onModuleInit() {
+    this.getSecret()
+  }
+
+  getExpiresInSeconds(): number {
+    return Number(this.configService.get<number>('AUTH_JWT_EXPIRES_IN_SECONDS', 8 * 3600))
+  }
+
+  sign(
+    claims: Pick<AccessTokenPayload, 'sub' | 'username' | 'role'>,
+    now = new Date(),
+  ): SignedAccessToken {
+    const expiresIn = this.getExpiresInSeconds()
+    const iat = Math.floor(now.getTime() / 1000)
+    const payload: AccessTokenPayload = { ...claims, iat, exp: iat + expiresIn }
+    const body = `${JWT_HEADER}.${Buffer.from(JSON.stringify(payload)).toString('base64url')}`
+
+    return { accessToken: `${body}.${this.signature(body)}`, expiresIn }
+  }
+
+  /**
+   * @returns The token claims, or null if the token is malformed, forged or expired
+   */
+  verify(token: string, now = new Date()): AccessTokenPayload | null {
+    const [header, payload, signature, ...rest] = token.split('.')
+
+    if (header !== JWT_HEADER || !payload || !signature || rest.length > 0) {
+      return null
+    }
+
+    const expected = Buffer.from(this.signature(`${header}.${payload}`))
+    const actual = Buffer.from(signature)
+
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as AccessTokenPayload
+      return claims.exp > now.getTime() / 1000 ? claims : null
+    } catch {
+      return null
+    }
+  }
+
+  private signature(body: string): string {
+    return createHmac('sha256', this.getSecret()).update(body).digest('base64url')
+  }
+
+  private getSecret(): string {
+    const secret = this.configService.get<string>('AUTH_JWT_SECRET')
+
+    if (!secret || secret.length < MIN_JWT_SECRET_LENGTH) {
+      throw new Error(
+        `Invalid authentication configuration: AUTH_JWT_SECRET must be set to at least ${MIN_JWT_SECRET_LENGTH} characters`,
+      )
+    }
+
+    return secret
+  }
+}
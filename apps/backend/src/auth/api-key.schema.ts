@@ -0,0 +1,34 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document } from 'mongoose'
+import { STAFF_ROLES, StaffRole } from './auth.types'
+
+export type ApiKeyDocument = ApiKey & Document
+
+@Schema()
+export class ApiKey {
+  /** Human readable label, e.g. the name of the script using the key */
+  @Prop({ required: true })
+  name: string
+
+  /** HMAC of the key, the key itself is only shown once at creation */
+  @Prop({ required: true, unique: true })
+  keyHash: string
+
+  @Prop({ required: true, enum: STAFF_ROLES })
+  role: StaffRole
+
+  /** Username of the admin who created the key */
+  @Prop({ required: true })
+  createdBy: string
+
+  @Prop({ default: Date.now })
+  createdAt: Date
+
+  @Prop({ type: Date, default: null })
+  lastUsedAt: Date | null
+
+  @Prop({ type: Date, default: null })
+  revokedAt: Date | null
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey)
@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Version,
+  Logger,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger'
+import { IsObjectIdPipe } from '@nestjs/mongoose'
+import { DownloadRateLimitGuard } from '../rate-limit/download-rate-limit.guard'
+import { AuthService } from './auth.service'
+import { ApiKeyDocument } from './api-key.schema'
+import { StaffPrincipal } from './auth.types'
+import { Auth, CurrentStaff } from './decorators'
+import {
+  LoginDto,
+  LoginResponseDto,
+  CreateStaffUserDto,
+  StaffUserResponseDto,
+  StaffProfileDto,
+  CreateApiKeyDto,
+  ApiKeyResponseDto,
+} from './dto'
+
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  private readonly logger = new Logger(AuthController.name)
+
+  constructor(private readonly authService: AuthService) {}
+
+  @Version('1')
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(DownloadRateLimitGuard)
+  @ApiOperation({
+    summary: 'Log in as a staff member',
+    description:
+      'Exchanges a username and password for a JWT access token. Rate limited like downloads; repeated failures lock the IP out.',
+  })
+  @ApiResponse({ status: 200, type: LoginResponseDto })
+  @ApiResponse({ status: 401, description: 'Invalid username or password' })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests from this IP, or IP locked out after repeated failures',
+  })
+  async login(@Body() loginDto: LoginDto, @Ip() ip: string): Promise<LoginResponseDto> {
+    const result = await this.authService.login(loginDto.username, loginDto.password, ip)
+
+    return { ...result, tokenType: 'Bearer' }
+  }
+
+  @Version('1')
+  @Get('me')
+  @Auth('admin', 'photographer')
+  @ApiOperation({ summary: 'Get the authenticated staff member' })
+  @ApiResponse({ status: 200, type: StaffProfileDto })
+  me(@CurrentStaff() staff: StaffPrincipal): StaffProfileDto {
+    return staff
+  }
+
+  @Version('1')
+  @Post('users')
+  @Auth('admin')
+  @ApiOperation({ summary: 'Create a staff user' })
+  @ApiResponse({ status: 201, type: StaffUserResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid username, password or role' })
+  @ApiResponse({ status: 409, description: 'Username already taken' })
+  async createUser(
+    @Body() createUserDto: CreateStaffUserDto,
+    @CurrentStaff() staff: StaffPrincipal,
+  ): Promise<StaffUserResponseDto> {
+    const user = await this.authService.createUser(createUserDto)
+    this.logger.log(`${staff.name} created ${user.role} account "${user.username}"`)
+
+    return {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      createdAt: user.createdAt,
+    }
+  }
+
+  @Version('1')
+  @Post('api-keys')
+  @Auth('admin')
+  @ApiOperation({
+    summary: 'Create an API key',
+    description: 'The key is only returned in this response; store it right away',
+  })
+  @ApiResponse({ status: 201, type: ApiKeyResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid name or role' })
+  async createApiKey(
+    @Body() createApiKeyDto: CreateApiKeyDto,
+    @CurrentStaff() staff: StaffPrincipal,
+  ): Promise<ApiKeyResponseDto> {
+    const { apiKey, key } = await this.authService.createApiKey(
+      createApiKeyDto.name,
+      createApiKeyDto.role,
+      staff.name,
+    )
+    this.logger.log(`${staff.name} created ${apiKey.role} API key "${apiKey.name}"`)
+
+    return { ...this.toApiKeyResponse(apiKey), key }
+  }
+
+  @Version('1')
+  @Post('api-keys/:id/revoke')
+  @HttpCode(HttpStatus.OK)
+  @Auth('admin')
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiParam({ name: 'id', description: 'API key identifier', type: 'string' })
+  @ApiResponse({ status: 200, type: ApiKeyResponseDto })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revokeApiKey(
+    @Param('id', IsObjectIdPipe) id: string,
+    @CurrentStaff() staff: StaffPrincipal,
+  ): Promise<ApiKeyResponseDto> {
+    const apiKey = await this.authService.revokeApiKey(id)
+    this.logger.log(`${staff.name} revoked API key "${apiKey.name}"`)
+
+    return this.toApiKeyResponse(apiKey)
+  }
+
+  private toApiKeyResponse(apiKey: ApiKeyDocument): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      role: apiKey.role,
+      createdBy: apiKey.createdBy,
+      createdAt: apiKey.createdAt,
+      revokedAt: apiKey.revokedAt ?? null,
+    }
+  }
+}
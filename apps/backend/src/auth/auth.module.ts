@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+import { TokenModule } from '../token/token.module'
+import { RateLimitModule } from '../rate-limit/rate-limit.module'
+import { AuthService } from './auth.service'
+import { AccessTokenService } from './access-token.service'
+import { AuthController } from './auth.controller'
+import { StaffUser, StaffUserSchema } from './staff-user.schema'
+import { ApiKey, ApiKeySchema } from './api-key.schema'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: StaffUser.name, schema: StaffUserSchema },
+      { name: ApiKey.name, schema: ApiKeySchema },
+    ]),
+    TokenModule,
+    RateLimitModule,
+  ],
+  controllers: [AuthController],
+  providers: [AuthService, AccessTokenService],
+  exports: [AuthService],
+})
+export class AuthModule {}
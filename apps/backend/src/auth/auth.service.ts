@@ -0,0 +1,215 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  ConflictException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { TokenService } from '../token/token.service'
+import { DownloadRateLimitService } from '../rate-limit/download-rate-limit.service'
+import { AccessTokenService, SignedAccessToken } from './access-token.service'
+import { ApiKey, ApiKeyDocument } from './api-key.schema'
+import { StaffUser, StaffUserDocument } from './staff-user.schema'
+import { StaffPrincipal, StaffRole } from './auth.types'
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>
+
+const PASSWORD_KEY_LENGTH = 64
+
+export interface StaffUserInput {
+  username: string
+  password: string
+  role: StaffRole
+}
+
+export interface LoginResult extends SignedAccessToken {
+  role: StaffRole
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKeyDocument
+  /** Plaintext key, only available at creation */
+  key: string
+}
+
+@Injectable()
+export class AuthService implements OnModuleInit {
+  private readonly logger = new Logger(AuthService.name)
+
+  constructor(
+    @InjectModel(StaffUser.name) private staffUserModel: Model<StaffUserDocument>,
+    @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKeyDocument>,
+    private configService: ConfigService,
+    private tokenService: TokenService,
+    private accessTokenService: AccessTokenService,
+    private rateLimitService: DownloadRateLimitService,
+  ) {}
+
+  async onModuleInit() {
+    await this.bootstrapAdmin()
+  }
+
+  /**
+   * Creates the first admin account from AUTH_ADMIN_USERNAME and AUTH_ADMIN_PASSWORD
+   * when no staff user exists yet
+   */
+  async bootstrapAdmin(): Promise<void> {
+    const username = this.configService.get<string>('AUTH_ADMIN_USERNAME')
+    const password = this.configService.get<string>('AUTH_ADMIN_PASSWORD')
+
+    if (!username || !password) {
+      return
+    }
+
+    if ((await this.staffUserModel.countDocuments().exec()) > 0) {
+      return
+    }
+
+    await this.createUser({ username, password, role: 'admin' })
+    this.logger.log(`Created initial admin account "${username}"`)
+  }
+
+  /**
+   * Failed attempts count like invalid download tokens, so an IP guessing passwords
+   * gets locked out
+   *
+   * @param ip - Client IP, to lock it out after repeated failures
+   */
+  async login(username: string, password: string, ip?: string): Promise<LoginResult> {
+    const user = await this.staffUserModel
+      .findOne({ username: username.trim().toLowerCase(), disabledAt: null })
+      .exec()
+
+    // Hash the password even for unknown users so both cases take the same time
+    const passwordMatches = await this.verifyPassword(
+      password,
+      user?.passwordHash ?? `scrypt:${'0'.repeat(32)}:${'0'.repeat(PASSWORD_KEY_LENGTH * 2)}`,
+    )
+
+    if (!user || !passwordMatches) {
+      this.logger.warn(`Failed login attempt for "${username}" from ${ip}`)
+      if (ip) {
+        await this.rateLimitService.recordInvalidToken(ip)
+      }
+      throw new UnauthorizedException('Invalid username or password')
+    }
+
+    const token = this.accessTokenService.sign({
+      sub: user.id,
+      username: user.username,
+      role: user.role,
+    })
+
+    return { ...token, role: user.role }
+  }
+
+  /**
+   * Accepts a valid access token only while its user is enabled and keeps the role the
+   * token was issued with, so disabling a user or changing their role applies at once
+   */
+  async authenticateAccessToken(accessToken: string): Promise<StaffPrincipal | null> {
+    const claims = this.accessTokenService.verify(accessToken)
+
+    if (!claims) {
+      return null
+    }
+
+    const user = await this.staffUserModel.findOne({ _id: claims.sub, disabledAt: null }).exec()
+
+    if (!user || user.role !== claims.role) {
+      return null
+    }
+
+    return { kind: 'user', id: user.id, name: user.username, role: user.role }
+  }
+
+  async authenticateApiKey(key: string): Promise<StaffPrincipal | null> {
+    const apiKey = await this.apiKeyModel
+      .findOneAndUpdate(
+        { keyHash: this.tokenService.hashToken(key), revokedAt: null },
+        { $set: { lastUsedAt: new Date() } },
+      )
+      .exec()
+
+    if (!apiKey || !this.tokenService.verifyToken(key, apiKey.keyHash)) {
+      return null
+    }
+
+    return { kind: 'api-key', id: apiKey.id, name: apiKey.name, role: apiKey.role }
+  }
+
+  async createUser(input: StaffUserInput): Promise<StaffUserDocument> {
+    const username = input.username.trim().toLowerCase()
+
+    if (await this.staffUserModel.exists({ username }).exec()) {
+      throw new ConflictException(`Staff user "${username}" already exists`)
+    }
+
+    const user = new this.staffUserModel({
+      username,
+      passwordHash: await this.hashPassword(input.password),
+      role: input.role,
+    })
+    return user.save()
+  }
+
+  async createApiKey(name: string, role: StaffRole, createdBy: string): Promise<CreatedApiKey> {
+    const key = this.tokenService.generateToken()
+    const apiKey = await new this.apiKeyModel({
+      name,
+      role,
+      createdBy,
+      keyHash: this.tokenService.hashToken(key),
+    }).save()
+
+    return { apiKey, key }
+  }
+
+  /**
+   * Revokes an API key. Revoking an already revoked key keeps the original revocation date.
+   */
+  async revokeApiKey(id: string): Promise<ApiKeyDocument> {
+    const apiKey = await this.apiKeyModel.findById(id).exec()
+
+    if (!apiKey) {
+      throw new NotFoundException(`API key ${id} not found`)
+    }
+
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date()
+      await apiKey.save()
+    }
+
+    return apiKey
+  }
+
+  async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16)
+    const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH)
+
+    return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`
+  }
+
+  async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [algorithm, salt, hash] = passwordHash.split(':')
+
+    if (algorithm !== 'scrypt' || !salt || !hash) {
+      return false
+    }
+
+    const expected = Buffer.from(hash, 'hex')
+    const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length)
+
+    return timingSafeEqual(expected, actual)
+  }
+}
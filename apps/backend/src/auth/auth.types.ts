@@ -0,0 +1,22 @@
+import type { Request } from 'express'
+import { StaffRole } from '@photo-st-denis/shared'
+
+export type { StaffRole }
+
+export const STAFF_ROLES: StaffRole[] = ['admin', 'photographer']
+
+/**
+ * Authenticated staff member, either a person logged in with a JWT or an automation API key
+ */
+export interface StaffPrincipal {
+  kind: 'user' | 'api-key'
+  /** Id of the staff user or API key document */
+  id: string
+  /** Username, or API key name */
+  name: string
+  role: StaffRole
+}
+
+export interface StaffRequest extends Request {
+  user?: StaffPrincipal
+}
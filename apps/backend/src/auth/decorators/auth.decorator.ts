@@ -0,0 +1,20 @@
+import { applyDecorators, UseGuards } from '@nestjs/common'
+import { ApiBearerAuth, ApiResponse, ApiSecurity } from '@nestjs/swagger'
+import { StaffAuthGuard } from '../guards/staff-auth.guard'
+import { RolesGuard } from '../guards/roles.guard'
+import { StaffRole } from '../auth.types'
+import { Roles } from './roles.decorator'
+
+/**
+ * Requires an authenticated staff member with one of the given roles
+ */
+export function Auth(...roles: StaffRole[]) {
+  return applyDecorators(
+    Roles(...roles),
+    UseGuards(StaffAuthGuard, RolesGuard),
+    ApiBearerAuth(),
+    ApiSecurity('api-key'),
+    ApiResponse({ status: 401, description: 'Missing or invalid credentials' }),
+    ApiResponse({ status: 403, description: `Requires role: ${roles.join(' or ')}` }),
+  )
+}
@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common'
+import { StaffPrincipal, StaffRequest } from '../auth.types'
+
+/**
+ * Staff member authenticated by StaffAuthGuard
+ */
+export const CurrentStaff = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): StaffPrincipal | undefined =>
+    context.switchToHttp().getRequest<StaffRequest>().user,
+)
@@ -0,0 +1,3 @@
+export { Auth } from './auth.decorator'
+export { CurrentStaff } from './current-staff.decorator'
+export { Roles, ROLES_KEY } from './roles.decorator'
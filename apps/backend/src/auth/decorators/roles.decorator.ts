@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common'
+import { StaffRole } from '../auth.types'
+
+export const ROLES_KEY = 'roles'
+
+export const Roles = (...roles: StaffRole[]) => SetMetadata(ROLES_KEY, roles)
@@ -0,0 +1,41 @@
+import { IsIn, IsNotEmpty, IsString, MaxLength } from 'class-validator'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { STAFF_ROLES, StaffRole } from '../auth.types'
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'lightroom-export', description: 'Label identifying the key owner' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string
+
+  @ApiProperty({ enum: STAFF_ROLES, example: 'photographer' })
+  @IsIn(STAFF_ROLES)
+  role: StaffRole
+}
+
+export class ApiKeyResponseDto {
+  @ApiProperty({ example: '66ba3c1f9d1e8a0012345678' })
+  id: string
+
+  @ApiProperty({ example: 'lightroom-export' })
+  name: string
+
+  @ApiProperty({ enum: STAFF_ROLES, example: 'photographer' })
+  role: StaffRole
+
+  @ApiProperty({ description: 'Username of the admin who created the key', example: 'admin' })
+  createdBy: string
+
+  @ApiProperty({ example: '2025-08-09T16:44:26.000Z' })
+  createdAt: Date
+
+  @ApiProperty({ nullable: true, type: Date, example: null })
+  revokedAt: Date | null
+
+  @ApiPropertyOptional({
+    description: 'Key to send in the X-API-Key header. Only returned when the key is created',
+    example: 'q9Xz3Lr7VbN2mK8sT4wYcA1eH6uJ0pDfG5iO-_nBvRk',
+  })
+  key?: string
+}
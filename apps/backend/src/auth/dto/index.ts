@@ -0,0 +1,3 @@
+export { LoginDto, LoginResponseDto } from './login.dto'
+export { CreateStaffUserDto, StaffUserResponseDto, StaffProfileDto } from './staff-user.dto'
+export { CreateApiKeyDto, ApiKeyResponseDto } from './api-key.dto'
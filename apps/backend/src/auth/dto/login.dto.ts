@@ -0,0 +1,32 @@
+import { IsNotEmpty, IsString } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { LoginRequest, LoginResponse, StaffRole } from '@photo-st-denis/shared'
+
+export class LoginDto implements LoginRequest {
+  @ApiProperty({ example: 'marie', description: 'Staff username' })
+  @IsString()
+  @IsNotEmpty()
+  username: string
+
+  @ApiProperty({ example: 'correct-horse-battery-staple', description: 'Staff password' })
+  @IsString()
+  @IsNotEmpty()
+  password: string
+}
+
+export class LoginResponseDto implements LoginResponse {
+  @ApiProperty({
+    description: 'JWT to send as "Authorization: Bearer <token>"',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiI2NmJhM2MxZiJ9.signature',
+  })
+  accessToken: string
+
+  @ApiProperty({ enum: ['Bearer'], example: 'Bearer' })
+  tokenType: 'Bearer'
+
+  @ApiProperty({ description: 'Token validity in seconds', example: 28800 })
+  expiresIn: number
+
+  @ApiProperty({ enum: ['admin', 'photographer'], example: 'photographer' })
+  role: StaffRole
+}
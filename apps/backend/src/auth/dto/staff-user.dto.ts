@@ -0,0 +1,49 @@
+import { IsIn, IsString, Matches, MinLength } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { STAFF_ROLES, StaffRole } from '../auth.types'
+
+export class CreateStaffUserDto {
+  @ApiProperty({ example: 'marie', description: 'Login name (letters, digits, ".", "_" or "-")' })
+  @IsString()
+  @Matches(/^[a-zA-Z0-9._-]{3,64}$/, {
+    message: 'username must be 3 to 64 letters, digits, ".", "_" or "-"',
+  })
+  username: string
+
+  @ApiProperty({ example: 'correct-horse-battery-staple', description: 'At least 12 characters' })
+  @IsString()
+  @MinLength(12)
+  password: string
+
+  @ApiProperty({ enum: STAFF_ROLES, example: 'photographer' })
+  @IsIn(STAFF_ROLES)
+  role: StaffRole
+}
+
+export class StaffUserResponseDto {
+  @ApiProperty({ example: '66ba3c1f9d1e8a0012345678' })
+  id: string
+
+  @ApiProperty({ example: 'marie' })
+  username: string
+
+  @ApiProperty({ enum: STAFF_ROLES, example: 'photographer' })
+  role: StaffRole
+
+  @ApiProperty({ example: '2025-08-09T16:44:26.000Z' })
+  createdAt: Date
+}
+
+export class StaffProfileDto {
+  @ApiProperty({ enum: ['user', 'api-key'], example: 'user' })
+  kind: 'user' | 'api-key'
+
+  @ApiProperty({ description: 'Staff user or API key id', example: '66ba3c1f9d1e8a0012345678' })
+  id: string
+
+  @ApiProperty({ description: 'Username or API key name', example: 'marie' })
+  name: string
+
+  @ApiProperty({ enum: STAFF_ROLES, example: 'photographer' })
+  role: StaffRole
+}
@@ -0,0 +1,2 @@
+export { StaffAuthGuard, API_KEY_HEADER } from './staff-auth.guard'
+export { RolesGuard } from './roles.guard'
@@ -0,0 +1,31 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { ROLES_KEY } from '../decorators/roles.decorator'
+import { StaffRequest, StaffRole } from '../auth.types'
+
+/**
+ * Restricts a route to the roles listed with `@Roles()`. Must run after StaffAuthGuard.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<StaffRole[] | undefined>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ])
+
+    if (!roles?.length) {
+      return true
+    }
+
+    const { user } = context.switchToHttp().getRequest<StaffRequest>()
+
+    if (!user || !roles.includes(user.role)) {
+      throw new ForbiddenException(`This action requires one of the roles: ${roles.join(', ')}`)
+    }
+
+    return true
+  }
+}
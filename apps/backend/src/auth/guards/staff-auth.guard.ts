@@ -0,0 +1,41 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common'
+import { AuthService } from '../auth.service'
+import { StaffPrincipal, StaffRequest } from '../auth.types'
+
+export const API_KEY_HEADER = 'x-api-key'
+
+/**
+ * Authenticates staff requests with either an `X-API-Key` header or an
+ * `Authorization: Bearer <jwt>` header, and attaches the staff member to the request
+ */
+@Injectable()
+export class StaffAuthGuard implements CanActivate {
+  constructor(private readonly authService: AuthService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<StaffRequest>()
+    request.user = await this.authenticate(request)
+
+    return true
+  }
+
+  private async authenticate(request: StaffRequest): Promise<StaffPrincipal> {
+    const apiKey = request.header(API_KEY_HEADER)
+    const authorization = request.header('authorization')
+    let staff: StaffPrincipal | null
+
+    if (apiKey) {
+      staff = await this.authService.authenticateApiKey(apiKey)
+    } else if (authorization?.startsWith('Bearer ')) {
+      staff = await this.authService.authenticateAccessToken(authorization.slice('Bearer '.length))
+    } else {
+      throw new UnauthorizedException('Authentication required')
+    }
+
+    if (!staff) {
+      throw new UnauthorizedException('Invalid or expired credentials')
+    }
+
+    return staff
+  }
+}
@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document } from 'mongoose'
+import { STAFF_ROLES, StaffRole } from './auth.types'
+
+export type StaffUserDocument = StaffUser & Document
+
+@Schema()
+export class StaffUser {
+  @Prop({ required: true, unique: true, lowercase: true, trim: true })
+  username: string
+
+  /** scrypt hash, formatted as "scrypt:<salt>:<hash>" */
+  @Prop({ required: true })
+  passwordHash: string
+
+  @Prop({ required: true, enum: STAFF_ROLES })
+  role: StaffRole
+
+  @Prop({ default: Date.now })
+  createdAt: Date
+
+  @Prop({ type: Date, default: null })
+  disabledAt: Date | null
+}
+
+export const StaffUserSchema = SchemaFactory.createForClass(StaffUser)
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common'
+import { ArchiveCacheService } from './archive-cache.service'
+
+@Module({
+  providers: [ArchiveCacheService],
+  exports: [ArchiveCacheService],
+})
+export class ArchiveCacheModule {}
@@ -0,0 +1,563 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { Readable, Transform, pipeline } from 'stream'
+import { randomBytes } from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import { CACHE_CONSTANTS, CacheStats, DownloadVariant } from '@photo-st-denis/shared'
+
+const CACHE_FILE_EXTENSION = '.zip'
+const TEMP_FILE_EXTENSION = '.tmp'
+/** Temporary files grow while written, so one untouched for this long has no writer left */
+const STALE_TEMP_FILE_AGE_MS = 3600000
+const CLEANUP_INTERVAL_NAME = 'archive-cache-cleanup'
+/** Default share of the cache size budget kept for the web copies of photos */
+const VARIANT_SHARE_PERCENT = 20
+
+/**
+ * Archive stored in the cache directory
+ */
+export interface CachedArchive {
+  key: string
+  orderId: string
+  variant: DownloadVariant
+  filePath: string
+  size: number
+  createdAt: number
+  lastAccessedAt: number
+}
+
+/**
+ * Identifies an archive by order and by the contents of its directories
+ */
+export interface ArchiveCacheKey {
+  orderId: string
+  /** Defaults to full; each variant of an order is cached separately */
+  variant?: DownloadVariant
+  /** Validator of the archive contents, e.g. the layout ETag */
+  contentHash: string
+  /** Exact archive size in bytes */
+  size: number
+}
+
+/**
+ * Disk-backed cache of finished ZIP archives.
+ * Entries are keyed by order id and content hash, so any change in the source
+ * directories produces a new key and the stale archive gets dropped.
+ * Eviction is least-recently-used within the configured size budget, plus a TTL
+ * on the last access time.
+ *
+ * Several instances may share the cache directory: lookups check the disk, so an archive
+ * built or removed by another instance is seen without a restart. Each writer has a temporary
+ * file of its own, and the size budget applies to every archive of the directory, ordered by
+ * the access times the instances record on the files.
+ */
+@Injectable()
+export class ArchiveCacheService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ArchiveCacheService.name)
+
+  /** Cached archives in least-recently-used order (Map keeps insertion order) */
+  private readonly entries = new Map<string, CachedArchive>()
+  /** Keys currently being written, to avoid concurrent writers for the same archive */
+  private readonly pendingKeys = new Set<string>()
+
+  private hits = 0
+  private misses = 0
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  async onModuleInit() {
+    await fs.promises.mkdir(this.getCacheDirectory(), { recursive: true })
+    await this.loadExistingEntries()
+
+    const interval = setInterval(() => {
+      this.cleanup().catch((err) => this.logger.error('Cache cleanup failed:', err.stack))
+    }, this.getCleanupIntervalSeconds() * 1000)
+    this.schedulerRegistry.addInterval(CLEANUP_INTERVAL_NAME, interval)
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', CLEANUP_INTERVAL_NAME)) {
+      this.schedulerRegistry.deleteInterval(CLEANUP_INTERVAL_NAME)
+    }
+  }
+
+  getCacheDirectory(): string {
+    return this.configService.get<string>('CACHE_DIR', '/tmp/photo-cache')
+  }
+
+  /**
+   * Budget of the archives: CACHE_MAX_SIZE_MB apart from the share of the web copies
+   */
+  getMaxSizeBytes(): number {
+    return this.getTotalSizeBytes() - this.getVariantMaxSizeBytes()
+  }
+
+  /**
+   * Budget of the web copies of photos, VARIANT_CACHE_SHARE_PERCENT of CACHE_MAX_SIZE_MB
+   */
+  getVariantMaxSizeBytes(): number {
+    const sharePercent = Number(
+      this.configService.get<number>('VARIANT_CACHE_SHARE_PERCENT', VARIANT_SHARE_PERCENT),
+    )
+    return Math.floor((this.getTotalSizeBytes() * sharePercent) / 100)
+  }
+
+  private getTotalSizeBytes(): number {
+    const maxSizeMB = Number(
+      this.configService.get<number>('CACHE_MAX_SIZE_MB', CACHE_CONSTANTS.MAX_SIZE_MB),
+    )
+    return maxSizeMB * 1024 * 1024
+  }
+
+  private getTtlMs(): number {
+    const ttlHours = Number(
+      this.configService.get<number>('CACHE_TTL_HOURS', CACHE_CONSTANTS.DEFAULT_TTL_HOURS),
+    )
+    return ttlHours * 3600000
+  }
+
+  private getCleanupIntervalSeconds(): number {
+    return Number(
+      this.configService.get<number>(
+        'CACHE_CLEANUP_INTERVAL_SECONDS',
+        CACHE_CONSTANTS.CLEANUP_INTERVAL_SECONDS,
+      ),
+    )
+  }
+
+  /**
+   * Looks up a cached archive and records a hit or miss.
+   * Archives of the same order with another content hash are stale and get removed.
+   * The index is checked against the cache directory, which other instances may write to.
+   *
+   * @param cacheKey - Order id, content hash and expected size
+   * @returns The cached archive, or undefined on a miss
+   */
+  async lookup(cacheKey: ArchiveCacheKey): Promise<CachedArchive | undefined> {
+    const key = this.buildKey(cacheKey)
+    await this.invalidateStaleEntries(cacheKey, key)
+
+    const entry = await this.syncEntryWithDisk(key)
+
+    if (entry && entry.size === cacheKey.size && !this.isExpired(entry)) {
+      this.hits++
+      entry.lastAccessedAt = Date.now()
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+      // Other instances order their evictions by the access time of the file
+      await fs.promises
+        .utimes(entry.filePath, new Date(entry.lastAccessedAt), new Date(entry.createdAt))
+        .catch(() => undefined)
+      return entry
+    }
+
+    if (entry) {
+      await this.removeEntry(entry)
+    }
+
+    this.misses++
+    return undefined
+  }
+
+  /**
+   * Whether a usable archive is cached, without counting a hit or miss
+   */
+  has(cacheKey: ArchiveCacheKey): boolean {
+    const entry = this.entries.get(this.buildKey(cacheKey))
+    return !!entry && entry.size === cacheKey.size && !this.isExpired(entry)
+  }
+
+  /**
+   * Writes a whole archive to the cache, e.g. when pre-building it in the background
+   *
+   * @param cacheKey - Order id, content hash and expected size
+   * @param source - Full archive stream
+   * @returns The cached archive
+   * @throws Error if the archive exceeds the size budget, is already being
+   * written, or the stream does not produce the expected size
+   */
+  async store(cacheKey: ArchiveCacheKey, source: Readable): Promise<CachedArchive> {
+    const key = this.buildKey(cacheKey)
+
+    if (cacheKey.size > this.getMaxSizeBytes()) {
+      throw new Error(`Archive ${key} exceeds the cache size budget`)
+    }
+    if (this.pendingKeys.has(key)) {
+      throw new Error(`Archive ${key} is already being written`)
+    }
+
+    this.pendingKeys.add(key)
+    const tempPath = this.buildTempPath(key)
+
+    try {
+      await fs.promises.writeFile(tempPath, source)
+
+      const { size } = await fs.promises.stat(tempPath)
+      if (size !== cacheKey.size) {
+        throw new Error(`Archive ${key} has ${size} bytes, expected ${cacheKey.size}`)
+      }
+
+      return await this.commitEntry(cacheKey, tempPath)
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true }).catch(() => undefined)
+      throw error
+    } finally {
+      this.pendingKeys.delete(key)
+    }
+  }
+
+  /**
+   * Creates a stream for an inclusive byte range of a cached archive
+   */
+  createReadStream(entry: CachedArchive, start: number, end: number): Readable {
+    return fs.createReadStream(entry.filePath, {
+      start,
+      end,
+      highWaterMark: 1024 * 1024, // 1MB buffer for better performance
+    })
+  }
+
+  /**
+   * Passes an archive stream through while writing it to the cache.
+   * The archive is only kept when the stream completes with the expected size;
+   * aborted downloads and write failures never affect the returned stream.
+   *
+   * @param cacheKey - Order id, content hash and expected size
+   * @param source - Full archive stream
+   * @returns Stream to send to the client
+   */
+  storeWhileStreaming(cacheKey: ArchiveCacheKey, source: Readable): Readable {
+    const key = this.buildKey(cacheKey)
+
+    if (cacheKey.size > this.getMaxSizeBytes() || this.pendingKeys.has(key)) {
+      return source
+    }
+
+    this.pendingKeys.add(key)
+
+    const tempPath = this.buildTempPath(key)
+    const file = fs.createWriteStream(tempPath)
+    let bytesWritten = 0
+    let writeFailed = false
+    let completed = false
+
+    file.on('error', (err) => {
+      writeFailed = true
+      this.logger.warn(`Failed to write cache file ${tempPath}: ${err.message}`)
+    })
+
+    file.on('close', () => {
+      this.pendingKeys.delete(key)
+
+      if (completed && !writeFailed && bytesWritten === cacheKey.size) {
+        this.commitEntry(cacheKey, tempPath).catch((err) =>
+          this.logger.error(`Failed to store cached archive ${key}:`, err.stack),
+        )
+      } else {
+        fs.promises.rm(tempPath, { force: true }).catch(() => undefined)
+      }
+    })
+
+    const tee = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        bytesWritten += chunk.length
+
+        if (writeFailed || file.write(chunk)) {
+          callback(null, chunk)
+        } else {
+          file.once('drain', () => callback(null, chunk))
+        }
+      },
+      flush: (callback) => {
+        completed = true
+        file.end()
+        callback()
+      },
+    })
+
+    tee.on('close', () => {
+      if (!completed) {
+        file.destroy()
+      }
+    })
+
+    // pipeline destroys the source when the client disconnects
+    return pipeline(source, tee, () => undefined)
+  }
+
+  /**
+   * Removes expired archives and evicts least recently used ones above the size budget
+   */
+  async cleanup(): Promise<void> {
+    for (const entry of [...this.entries.values()]) {
+      if (this.isExpired(entry)) {
+        await this.removeEntry(entry)
+      }
+    }
+
+    await this.evictToBudget()
+  }
+
+  /**
+   * Removes every cached archive of an order
+   */
+  async invalidateOrder(orderId: string): Promise<void> {
+    for (const entry of [...this.entries.values()]) {
+      if (entry.orderId === orderId) {
+        await this.removeEntry(entry)
+      }
+    }
+  }
+
+  /**
+   * Ids of the orders that have at least one cached archive
+   */
+  getCachedOrderIds(): string[] {
+    return [...new Set([...this.entries.values()].map((entry) => entry.orderId))]
+  }
+
+  getStats(): CacheStats {
+    const entries = [...this.entries.values()]
+    const totalSize = entries.reduce((total, entry) => total + entry.size, 0)
+    const maxSize = this.getMaxSizeBytes()
+    const requests = this.hits + this.misses
+    const oldestCreatedAt = entries.length
+      ? Math.min(...entries.map((entry) => entry.createdAt))
+      : undefined
+
+    return {
+      fileCount: entries.length,
+      totalSizeMB: this.roundTwoDecimals(totalSize / 1024 / 1024),
+      maxSizeMB: this.roundTwoDecimals(maxSize / 1024 / 1024),
+      usagePercentage: maxSize ? this.roundTwoDecimals((totalSize / maxSize) * 100) : 0,
+      oldestFileAge: oldestCreatedAt ? this.formatAge(Date.now() - oldestCreatedAt) : 'N/A',
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: requests ? this.roundTwoDecimals((this.hits / requests) * 100) : 0,
+      timestamp: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Full archives keep the "<orderId>-<hash>" keys they had before variants existed
+   */
+  private buildKey(cacheKey: ArchiveCacheKey): string {
+    const contentHash = cacheKey.contentHash.replace(/[^a-zA-Z0-9]/g, '')
+    const variant = cacheKey.variant ?? 'full'
+
+    return variant === 'full'
+      ? `${cacheKey.orderId}-${contentHash}`
+      : `${cacheKey.orderId}-${variant}-${contentHash}`
+  }
+
+  /**
+   * Unique per writer, so instances sharing the cache directory never write the same file
+   */
+  private buildTempPath(key: string): string {
+    const suffix = `${process.pid}.${randomBytes(4).toString('hex')}`
+    return path.join(this.getCacheDirectory(), `${key}.${suffix}${TEMP_FILE_EXTENSION}`)
+  }
+
+  private parseKey(key: string): { orderId: string; variant: DownloadVariant } {
+    const parts = key.split('-')
+    return { orderId: parts[0], variant: parts.length > 2 ? (parts[1] as DownloadVariant) : 'full' }
+  }
+
+  private isExpired(entry: CachedArchive): boolean {
+    return Date.now() - entry.lastAccessedAt > this.getTtlMs()
+  }
+
+  private async commitEntry(cacheKey: ArchiveCacheKey, tempPath: string): Promise<CachedArchive> {
+    const key = this.buildKey(cacheKey)
+    const filePath = path.join(this.getCacheDirectory(), `${key}${CACHE_FILE_EXTENSION}`)
+
+    await fs.promises.rename(tempPath, filePath)
+
+    const now = Date.now()
+    const entry: CachedArchive = {
+      key,
+      orderId: cacheKey.orderId,
+      variant: cacheKey.variant ?? 'full',
+      filePath,
+      size: cacheKey.size,
+      createdAt: now,
+      lastAccessedAt: now,
+    }
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    this.logger.log(`Cached archive ${key} (${(cacheKey.size / 1024 / 1024).toFixed(2)}MB)`)
+
+    await this.evictToBudget()
+
+    return entry
+  }
+
+  /**
+   * Indexes an archive written by another instance, or forgets one it removed
+   *
+   * @returns The indexed archive, or undefined when there is none on disk
+   */
+  private async syncEntryWithDisk(key: string): Promise<CachedArchive | undefined> {
+    const filePath = path.join(this.getCacheDirectory(), `${key}${CACHE_FILE_EXTENSION}`)
+    const stats = await fs.promises.stat(filePath).catch(() => null)
+
+    if (!stats) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    const entry = this.entries.get(key)
+    if (entry) {
+      return entry
+    }
+
+    const loaded: CachedArchive = {
+      key,
+      ...this.parseKey(key),
+      filePath,
+      size: stats.size,
+      createdAt: stats.mtimeMs,
+      lastAccessedAt: Date.now(),
+    }
+    this.entries.set(key, loaded)
+
+    return loaded
+  }
+
+  private async invalidateStaleEntries(
+    cacheKey: ArchiveCacheKey,
+    currentKey: string,
+  ): Promise<void> {
+    const variant = cacheKey.variant ?? 'full'
+
+    for (const entry of [...this.entries.values()]) {
+      if (
+        entry.orderId === cacheKey.orderId &&
+        entry.variant === variant &&
+        entry.key !== currentKey
+      ) {
+        this.logger.log(`Source directories changed, invalidating cached archive ${entry.key}`)
+        await this.removeEntry(entry)
+      }
+    }
+  }
+
+  /**
+   * Evicts least recently used archives until the cache directory fits the size budget,
+   * including the archives other instances wrote to it
+   */
+  private async evictToBudget(): Promise<void> {
+    await this.syncIndexWithDirectory()
+
+    const maxSize = this.getMaxSizeBytes()
+    let totalSize = [...this.entries.values()].reduce((total, entry) => total + entry.size, 0)
+
+    for (const entry of [...this.entries.values()]) {
+      if (totalSize <= maxSize) {
+        break
+      }
+      totalSize -= entry.size
+      this.logger.log(`Evicting least recently used archive ${entry.key}`)
+      await this.removeEntry(entry)
+    }
+  }
+
+  private async removeEntry(entry: CachedArchive): Promise<void> {
+    this.entries.delete(entry.key)
+
+    try {
+      await fs.promises.rm(entry.filePath, { force: true })
+    } catch (error) {
+      this.logger.warn(`Failed to remove cached archive ${entry.filePath}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Rebuilds the index from the cache directory so a restart keeps a warm cache.
+   * Temporary files left by interrupted writes are removed once stale, since another
+   * instance may still be writing the recent ones.
+   */
+  private async loadExistingEntries(): Promise<void> {
+    const cacheDirectory = this.getCacheDirectory()
+
+    for (const file of await fs.promises.readdir(cacheDirectory)) {
+      if (!file.endsWith(TEMP_FILE_EXTENSION)) {
+        continue
+      }
+
+      const filePath = path.join(cacheDirectory, file)
+      const stats = await fs.promises.stat(filePath).catch(() => null)
+      if (stats && Date.now() - stats.mtimeMs > STALE_TEMP_FILE_AGE_MS) {
+        await fs.promises.rm(filePath, { force: true })
+      }
+    }
+
+    await this.syncIndexWithDirectory()
+
+    this.logger.log(`Archive cache ready at ${cacheDirectory}: ${this.entries.size} archives`)
+
+    await this.cleanup()
+  }
+
+  /**
+   * Indexes the archives of the cache directory in least-recently-used order and forgets the
+   * ones no longer there. The last access is the later of this instance's and the file's.
+   */
+  private async syncIndexWithDirectory(): Promise<void> {
+    const cacheDirectory = this.getCacheDirectory()
+    const files = await fs.promises.readdir(cacheDirectory)
+    const synced: CachedArchive[] = []
+
+    for (const file of files) {
+      if (!file.endsWith(CACHE_FILE_EXTENSION)) {
+        continue
+      }
+
+      const filePath = path.join(cacheDirectory, file)
+      const stats = await fs.promises.stat(filePath).catch(() => null)
+      if (!stats) {
+        continue
+      }
+
+      const key = path.basename(file, CACHE_FILE_EXTENSION)
+      const lastAccessedAt = Math.max(stats.atimeMs, stats.mtimeMs)
+      const entry = this.entries.get(key)
+
+      synced.push(
+        entry
+          ? { ...entry, lastAccessedAt: Math.max(entry.lastAccessedAt, lastAccessedAt) }
+          : {
+              key,
+              ...this.parseKey(key),
+              filePath,
+              size: stats.size,
+              createdAt: stats.mtimeMs,
+              lastAccessedAt,
+            },
+      )
+    }
+
+    this.entries.clear()
+    synced
+      .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)
+      .forEach((entry) => this.entries.set(entry.key, entry))
+  }
+
+  private formatAge(ageMs: number): string {
+    const totalMinutes = Math.floor(ageMs / 60000)
+    const hours = Math.floor(totalMinutes / 60)
+    const minutes = totalMinutes % 60
+
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+  }
+
+  private roundTwoDecimals(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+}
@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { HealthCheck, HealthCheckStatus, HealthReport } from '@photo-st-denis/shared'
+
+export class HealthCheckDto implements HealthCheck {
+  @ApiProperty({ enum: ['up', 'down', 'skipped'], example: 'up' })
+  status: HealthCheckStatus
+
+  @ApiProperty({
+    example: true,
+    description: 'Whether a failure of this check makes the service unready',
+  })
+  critical: boolean
+
+  @ApiProperty({ example: 4 })
+  responseTimeMs: number
+
+  @ApiPropertyOptional({ example: 'Photos base path is not a mount point' })
+  error?: string
+
+  @ApiPropertyOptional({
+    example: { basePath: '/mnt/psd', readable: true, isMountPoint: true },
+    description: 'Check-specific details',
+  })
+  details?: Record<string, unknown>
+}
+
+export class HealthReportDto implements HealthReport {
+  @ApiProperty({ enum: ['ok', 'error'], example: 'ok' })
+  status: 'ok' | 'error'
+
+  @ApiProperty({ example: '2025-08-10T12:00:00.000Z' })
+  timestamp: string
+
+  @ApiProperty({ example: 3600 })
+  uptimeSeconds: number
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: { $ref: '#/components/schemas/HealthCheckDto' },
+    description: 'Result of each dependency check, keyed by name (readiness only)',
+  })
+  checks?: Record<string, HealthCheckDto>
+}
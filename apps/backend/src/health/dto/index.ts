@@ -0,0 +1 @@
+export { HealthCheckDto, HealthReportDto } from './health-report.dto'
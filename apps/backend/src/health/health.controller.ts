@@ -0,0 +1,43 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common'
+import { ApiExtraModels, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger'
+import { HealthService } from './health.service'
+import { HealthCheckDto, HealthReportDto } from './dto'
+
+/**
+ * Probe endpoints, left unversioned so orchestrator configs never change
+ */
+@ApiTags('health')
+@ApiExtraModels(HealthCheckDto)
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  @ApiOperation({
+    summary: 'Liveness probe',
+    description: 'Succeeds as long as the process responds; dependencies are not checked',
+  })
+  @ApiResponse({ status: 200, type: HealthReportDto })
+  live(): HealthReportDto {
+    return this.healthService.checkLiveness()
+  }
+
+  @Get('ready')
+  @ApiOperation({
+    summary: 'Readiness probe',
+    description:
+      'Checks MongoDB, the photos mount, free space for the archive cache and Redis. ' +
+      'Fails when any critical check is down.',
+  })
+  @ApiResponse({ status: 200, type: HealthReportDto })
+  @ApiResponse({ status: 503, description: 'A critical check is down', type: HealthReportDto })
+  async ready(): Promise<HealthReportDto> {
+    const report = await this.healthService.checkReadiness()
+
+    if (report.status !== 'ok') {
+      throw new ServiceUnavailableException(report)
+    }
+
+    return report
+  }
+}
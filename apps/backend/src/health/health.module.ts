@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { TransferModule } from '../transfer/transfer.module'
+import { ArchiveCacheModule } from '../cache/archive-cache.module'
+import { HealthController } from './health.controller'
+import { HealthService } from './health.service'
+
+@Module({
+  imports: [TransferModule, ArchiveCacheModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
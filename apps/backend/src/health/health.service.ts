@@ -0,0 +1,207 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectConnection } from '@nestjs/mongoose'
+import { Connection, ConnectionStates } from 'mongoose'
+import { createClient } from 'redis'
+import * as fs from 'fs'
+import { HealthCheck, HealthReport } from '@photo-st-denis/shared'
+import { PhotosConfigService } from '../transfer/services'
+import { ArchiveCacheService } from '../cache/archive-cache.service'
+
+type CheckOutcome = Pick<HealthCheck, 'details'> & { error?: string }
+
+/**
+ * Liveness and readiness reports for container probes.
+ * Readiness covers every dependency a download needs: MongoDB, the photos
+ * mount, free space for the archive cache and, when configured, the named
+ * photo libraries and Redis.
+ */
+@Injectable()
+export class HealthService implements OnModuleDestroy {
+  private readonly logger = new Logger(HealthService.name)
+  private readonly redisClient?: ReturnType<typeof createClient>
+  private redisConnection?: Promise<unknown>
+
+  constructor(
+    @InjectConnection() private readonly connection: Connection,
+    private readonly photosConfig: PhotosConfigService,
+    private readonly archiveCacheService: ArchiveCacheService,
+    private readonly configService: ConfigService,
+  ) {
+    const redisUrl = this.configService.get<string>('REDIS_URL')
+
+    if (redisUrl) {
+      // No reconnection loop: each readiness check reconnects if needed
+      this.redisClient = createClient({ url: redisUrl, socket: { reconnectStrategy: false } })
+      this.redisClient.on('error', (err: Error) =>
+        this.logger.warn(`Redis health check error: ${err.message}`),
+      )
+    }
+  }
+
+  async onModuleDestroy() {
+    if (this.redisClient?.isOpen) {
+      await this.redisClient.quit()
+    }
+  }
+
+  /**
+   * The process is up and its event loop responds
+   */
+  checkLiveness(): HealthReport {
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+    }
+  }
+
+  /**
+   * Runs every dependency check. The report status is "error" as soon as a
+   * critical check is down.
+   */
+  async checkReadiness(): Promise<HealthReport> {
+    const [mongo, photos, libraries, cacheDisk, redis] = await Promise.all([
+      this.runCheck(true, () => this.checkMongo()),
+      this.runCheck(true, () => this.checkPhotosMount()),
+      this.photosConfig.getLibraryNames().length
+        ? this.runCheck(false, () => this.checkLibraries())
+        : Promise.resolve<HealthCheck>({ status: 'skipped', critical: false, responseTimeMs: 0 }),
+      this.runCheck(true, () => this.checkCacheDisk()),
+      this.redisClient
+        ? this.runCheck(this.configService.get<string>('RATE_LIMIT_STORE') === 'redis', () =>
+            this.checkRedis(),
+          )
+        : Promise.resolve<HealthCheck>({ status: 'skipped', critical: false, responseTimeMs: 0 }),
+    ])
+    const checks = { mongo, photos, libraries, cacheDisk, redis }
+
+    return {
+      ...this.checkLiveness(),
+      status: Object.values(checks).some((check) => check.critical && check.status === 'down')
+        ? 'error'
+        : 'ok',
+      checks,
+    }
+  }
+
+  private async runCheck(
+    critical: boolean,
+    check: () => Promise<CheckOutcome>,
+  ): Promise<HealthCheck> {
+    const startedAt = Date.now()
+    const timeoutMs = this.getTimeoutMs()
+    let timer: NodeJS.Timeout | undefined
+
+    try {
+      const { error, details } = await Promise.race([
+        check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs} ms`)), timeoutMs)
+        }),
+      ])
+
+      return {
+        status: error ? 'down' : 'up',
+        critical,
+        responseTimeMs: Date.now() - startedAt,
+        ...(error && { error }),
+        ...(details && { details }),
+      }
+    } catch (error) {
+      return {
+        status: 'down',
+        critical,
+        responseTimeMs: Date.now() - startedAt,
+        error: error.message,
+      }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private async checkMongo(): Promise<CheckOutcome> {
+    const state = ConnectionStates[this.connection.readyState]
+
+    if (this.connection.readyState !== ConnectionStates.connected || !this.connection.db) {
+      return { error: `MongoDB is ${state}`, details: { state } }
+    }
+
+    await this.connection.db.admin().ping()
+    return { details: { state } }
+  }
+
+  private async checkPhotosMount(): Promise<CheckOutcome> {
+    const status = await this.photosConfig.getMountStatus()
+    const details = { ...status }
+
+    if (!status.readable) {
+      return { error: 'Photos base path is not readable', details }
+    }
+
+    if (!status.isMountPoint && this.isMountPointRequired()) {
+      return { error: 'Photos base path is not a mount point', details }
+    }
+
+    return { details }
+  }
+
+  /**
+   * Named libraries are not critical: each one only serves the orders referencing it
+   */
+  private async checkLibraries(): Promise<CheckOutcome> {
+    const statuses = await this.photosConfig.getLibraryStatuses()
+    const details = Object.fromEntries(statuses.map(({ name, ...status }) => [name, status]))
+    const unavailable = statuses.filter((status) => !status.readable).map((status) => status.name)
+
+    if (unavailable.length) {
+      return { error: `Photo libraries not readable: ${unavailable.join(', ')}`, details }
+    }
+
+    return { details }
+  }
+
+  private async checkCacheDisk(): Promise<CheckOutcome> {
+    const cacheDirectory = this.archiveCacheService.getCacheDirectory()
+    const stats = await fs.promises.statfs(cacheDirectory)
+    const freeBytes = stats.bavail * stats.bsize
+    const minFreeBytes = this.getMinFreeBytes()
+    const details = {
+      path: cacheDirectory,
+      freeBytes,
+      totalBytes: stats.blocks * stats.bsize,
+      minFreeBytes,
+      freeFormatted: this.photosConfig.formatFileSize(freeBytes),
+    }
+
+    if (freeBytes < minFreeBytes) {
+      return { error: 'Not enough free disk space for the archive cache', details }
+    }
+
+    return { details }
+  }
+
+  private async checkRedis(): Promise<CheckOutcome> {
+    const client = this.redisClient!
+
+    if (!client.isOpen) {
+      this.redisConnection ??= client.connect().finally(() => (this.redisConnection = undefined))
+      await this.redisConnection
+    }
+
+    await client.ping()
+    return {}
+  }
+
+  private getTimeoutMs(): number {
+    return Number(this.configService.get<number>('HEALTH_CHECK_TIMEOUT_MS', 3000))
+  }
+
+  private getMinFreeBytes(): number {
+    return Number(this.configService.get<number>('HEALTH_CACHE_MIN_FREE_MB', 1024)) * 1024 * 1024
+  }
+
+  private isMountPointRequired(): boolean {
+    return String(this.configService.get('PHOTOS_REQUIRE_MOUNT_POINT', 'true')) !== 'false'
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * French and English emails sent to customers: the download link when the order is
+ * created, and the reminder before the link expires. Every template has a plain text
+ * and an HTML version with the same contents.
+ */
+import { CustomerLanguage, DeliveryMailKind } from '@photo-st-denis/shared'
+
+export interface DeliveryMailContext {
+  kind: DeliveryMailKind
+  language: CustomerLanguage
+  /** Download page of the order, which also offers the web variant */
+  downloadUrl: string
+  expiresAt: Date
+  /** Time zone of the expiry date, the server time zone when unset */
+  timeZone?: string
+  directoryCount: number
+  /** Photo count and size of the order, when its directories were scanned */
+  fileCount?: number
+  totalSizeFormatted?: string
+  /** Downloads left, null for unlimited */
+  remainingDownloads: number | null
+  /** Studio name signing the email */
+  senderName: string
+}
+
+export interface RenderedMail {
+  subject: string
+  text: string
+  html: string
+}
+
+interface MailStrings {
+  locale: string
+  subject: Record<DeliveryMailKind, string>
+  greeting: string
+  intro: Record<DeliveryMailKind, string>
+  summary: (fileCount: number, size: string, directoryCount: number) => string
+  directories: (directoryCount: number) => string
+  button: string
+  /** Introduces the link in the plain text version */
+  linkLabel: string
+  expiry: (date: string) => string
+  remainingDownloads: (count: number) => string
+  closing: string
+}
+
+const plural = (count: number, singular: string, pluralForm: string) =>
+  `${count} ${count === 1 ? singular : pluralForm}`
+
+const STRINGS: Record<CustomerLanguage, MailStrings> = {
+  fr: {
+    locale: 'fr-FR',
+    subject: {
+      link: 'Vos photos sont prêtes',
+      reminder: 'Rappel : votre lien de téléchargement expire bientôt',
+    },
+    greeting: 'Bonjour,',
+    intro: {
+      link: 'Vos photos sont prêtes à être téléchargées.',
+      reminder:
+        "Votre lien de téléchargement expire bientôt : pensez à récupérer vos photos avant qu'il ne soit plus valable.",
+    },
+    summary: (fileCount, size, directoryCount) =>
+      `Votre commande : ${plural(fileCount, 'photo', 'photos')} (${size}) dans ${plural(directoryCount, 'dossier', 'dossiers')}.`,
+    directories: (directoryCount) =>
+      `Votre commande : ${plural(directoryCount, 'dossier', 'dossiers')} de photos.`,
+    button: 'Télécharger mes photos',
+    linkLabel: 'Lien de téléchargement :',
+    expiry: (date) => `Ce lien est valable jusqu'au ${date}.`,
+    remainingDownloads: (count) =>
+      `Il vous reste ${plural(count, 'téléchargement', 'téléchargements')}.`,
+    closing: 'Merci de votre confiance,',
+  },
+  en: {
+    locale: 'en-GB',
+    subject: {
+      link: 'Your photos are ready',
+      reminder: 'Reminder: your download link expires soon',
+    },
+    greeting: 'Hello,',
+    intro: {
+      link: 'Your photos are ready to download.',
+      reminder:
+        'Your download link expires soon: remember to download your photos before it stops working.',
+    },
+    summary: (fileCount, size, directoryCount) =>
+      `Your order: ${plural(fileCount, 'photo', 'photos')} (${size}) in ${plural(directoryCount, 'folder', 'folders')}.`,
+    directories: (directoryCount) =>
+      `Your order: ${plural(directoryCount, 'folder', 'folders')} of photos.`,
+    button: 'Download my photos',
+    linkLabel: 'Download link:',
+    expiry: (date) => `This link is valid until ${date}.`,
+    remainingDownloads: (count) => `You have ${plural(count, 'download', 'downloads')} left.`,
+    closing: 'Thank you for your trust,',
+  },
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function renderDeliveryMail(context: DeliveryMailContext): RenderedMail {
+  const strings = STRINGS[context.language] ?? STRINGS.fr
+  const expiresAt = new Intl.DateTimeFormat(strings.locale, {
+    dateStyle: 'full',
+    timeStyle: 'short',
+    timeZone: context.timeZone,
+  }).format(context.expiresAt)
+
+  const paragraphs = [
+    strings.intro[context.kind],
+    context.fileCount !== undefined && context.totalSizeFormatted
+      ? strings.summary(context.fileCount, context.totalSizeFormatted, context.directoryCount)
+      : strings.directories(context.directoryCount),
+    strings.expiry(expiresAt),
+    context.remainingDownloads !== null
+      ? strings.remainingDownloads(context.remainingDownloads)
+      : null,
+  ].filter((paragraph): paragraph is string => paragraph !== null)
+
+  const text = [
+    strings.greeting,
+    '',
+    ...paragraphs.slice(0, 2),
+    '',
+    `${strings.linkLabel} ${context.downloadUrl}`,
+    '',
+    ...paragraphs.slice(2),
+    '',
+    strings.closing,
+    context.senderName,
+    '',
+  ].join('\n')
+
+  const html = [
+    '<!DOCTYPE html>',
+    `<html lang="${context.language}">`,
+    '<body style="font-family: Arial, Helvetica, sans-serif; color: #222; line-height: 1.5;">',
+    `<p>${escapeHtml(strings.greeting)}</p>`,
+    ...paragraphs.slice(0, 2).map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    `<p><a href="${escapeHtml(context.downloadUrl)}" style="display: inline-block; padding: 12px 24px; background: #222; color: #fff; text-decoration: none; border-radius: 4px;">${escapeHtml(strings.button)}</a></p>`,
+    ...paragraphs.slice(2).map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    `<p>${escapeHtml(strings.closing)}<br>${escapeHtml(context.senderName)}</p>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n')
+
+  return { subject: strings.subject[context.kind], text, html }
+}
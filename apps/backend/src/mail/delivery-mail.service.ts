@@ -0,0 +1,137 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CUSTOMER_LANGUAGES, CustomerLanguage, DeliveryMailKind } from '@photo-st-denis/shared'
+import { MailAttemptInput, OrderService } from '../order/order.service'
+import { MailAttemptStatus, OrderDocument } from '../order/order.schema'
+import { TokenService } from '../token/token.service'
+import { MailService } from './mail.service'
+import { renderDeliveryMail } from './delivery-mail-templates'
+
+/**
+ * Photo count and size of an order, as scanned when it was created
+ */
+export interface OrderMailSummary {
+  fileCount: number
+  totalSizeFormatted: string
+}
+
+export interface DeliveryMailOptions {
+  /** Plaintext download token; the sealed token of the order when omitted */
+  token?: string
+  summary?: OrderMailSummary
+}
+
+/**
+ * Emails the download link of an order to its customer, in the language of the order,
+ * and records every attempt on the order. Sending never throws: a failed email is
+ * logged and recorded, and the order stays usable.
+ */
+@Injectable()
+export class DeliveryMailService implements OnModuleInit {
+  private readonly logger = new Logger(DeliveryMailService.name)
+
+  constructor(
+    private readonly mailService: MailService,
+    private readonly orderService: OrderService,
+    private readonly tokenService: TokenService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    // Fail at startup rather than on the first email
+    this.getDefaultLanguage()
+    if (this.isEnabled()) {
+      this.getPublicBaseUrl()
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.mailService.isEnabled()
+  }
+
+  /**
+   * Language of orders that do not request one, from MAIL_DEFAULT_LANGUAGE
+   */
+  getDefaultLanguage(): CustomerLanguage {
+    const language = this.configService.get<string>('MAIL_DEFAULT_LANGUAGE', 'fr')
+
+    if (!CUSTOMER_LANGUAGES.includes(language as CustomerLanguage)) {
+      throw new Error(
+        `Unknown MAIL_DEFAULT_LANGUAGE "${language}", expected ${CUSTOMER_LANGUAGES.join(' or ')}`,
+      )
+    }
+
+    return language as CustomerLanguage
+  }
+
+  /**
+   * Sends the download link or the reminder of an order
+   *
+   * @returns Attempt recorded on the order
+   */
+  async send(
+    order: OrderDocument,
+    kind: DeliveryMailKind,
+    options: DeliveryMailOptions = {},
+  ): Promise<MailAttemptInput> {
+    let status: MailAttemptStatus = 'sent'
+    let messageId: string | null = null
+    let error: string | null = null
+
+    try {
+      const token = options.token ?? this.openToken(order)
+      const content = renderDeliveryMail({
+        kind,
+        language: order.language ?? this.getDefaultLanguage(),
+        downloadUrl: `${this.getPublicBaseUrl()}/d/${token}`,
+        expiresAt: order.tokenExpiry,
+        timeZone: this.configService.get<string>('MAIL_TIME_ZONE') || undefined,
+        directoryCount: order.directoryPaths.length,
+        ...options.summary,
+        remainingDownloads: this.orderService.getDeliverySummary(order).remainingDownloads,
+        senderName: this.mailService.getSenderName(),
+      })
+
+      messageId = await this.mailService.send(order.customerEmail, content)
+      this.logger.log(`Sent the ${kind} email of order ${order.id}`)
+    } catch (err) {
+      status = 'failed'
+      error = err.message
+      this.logger.error(`Failed to send the ${kind} email of order ${order.id}:`, err.stack)
+    }
+
+    const attempt: MailAttemptInput = { kind, to: order.customerEmail, status, messageId, error }
+    await this.orderService
+      .recordMailAttempt(order.id, attempt)
+      .catch((err) =>
+        this.logger.error(`Failed to record the ${kind} email of order ${order.id}:`, err.stack),
+      )
+
+    return attempt
+  }
+
+  /**
+   * @throws Error when the order kept no token for emails
+   */
+  private openToken(order: OrderDocument): string {
+    if (!order.sealedToken) {
+      throw new Error('The order has no download token kept for emails')
+    }
+    return this.tokenService.openSealedToken(order.sealedToken)
+  }
+
+  /**
+   * Public address of the API, e.g. https://photos.example.com, for links in emails
+   *
+   * @throws Error when PUBLIC_BASE_URL is not set
+   */
+  private getPublicBaseUrl(): string {
+    const baseUrl = this.configService.get<string>('PUBLIC_BASE_URL')
+
+    if (!baseUrl) {
+      throw new Error('PUBLIC_BASE_URL must be set when MAIL_TRANSPORT is enabled')
+    }
+
+    return baseUrl.replace(/\/+$/, '')
+  }
+}
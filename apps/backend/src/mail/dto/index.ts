@@ -0,0 +1 @@
+export { SendLinkResponseDto } from './send-link-response.dto'
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+export class SendLinkResponseDto {
+  @ApiProperty({ enum: ['sent', 'failed'], example: 'sent' })
+  status: string
+
+  @ApiProperty({ description: 'Recipient address', example: 'user@example.com' })
+  to: string
+
+  @ApiProperty({
+    description: 'Message-ID header of the email',
+    example: '1754817123000.9f2c4e1a7b3d5c60@photostdenis.com',
+    nullable: true,
+    type: String,
+  })
+  messageId: string | null
+
+  @ApiProperty({
+    description: 'Reason of the failure, null once sent',
+    example: null,
+    nullable: true,
+    type: String,
+  })
+  error: string | null
+}
@@ -0,0 +1,136 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { OrderService } from '../order/order.service'
+import { DeliveryMailService } from './delivery-mail.service'
+
+const REMINDER_INTERVAL_NAME = 'mail-reminders'
+
+/**
+ * Outcome of one reminder run
+ */
+export interface ReminderRunSummary {
+  sent: number
+  failed: number
+  /** Orders already downloaded in full, or without downloads left */
+  skipped: number
+  durationMs: number
+}
+
+/**
+ * Periodic reminder emails, sent MAIL_REMINDER_HOURS_BEFORE hours before the link of
+ * an order with email delivery expires, unless the customer already downloaded it.
+ *
+ * Each order is claimed in MongoDB before sending, so that a single instance sends
+ * its reminder. A failed reminder is released for the next run, up to
+ * MAIL_REMINDER_MAX_ATTEMPTS attempts.
+ */
+@Injectable()
+export class MailReminderService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MailReminderService.name)
+  private running = false
+
+  constructor(
+    private readonly deliveryMailService: DeliveryMailService,
+    private readonly orderService: OrderService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    if (!this.deliveryMailService.isEnabled() || this.getHoursBefore() <= 0) {
+      this.logger.log('Reminder emails are disabled')
+      return
+    }
+
+    const interval = setInterval(() => void this.run(), this.getIntervalMinutes() * 60 * 1000)
+    this.schedulerRegistry.addInterval(REMINDER_INTERVAL_NAME, interval)
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', REMINDER_INTERVAL_NAME)) {
+      this.schedulerRegistry.deleteInterval(REMINDER_INTERVAL_NAME)
+    }
+  }
+
+  /**
+   * Sends the reminders due once
+   *
+   * @returns Summary of the run, or null when a run is already in progress or failed
+   */
+  async run(): Promise<ReminderRunSummary | null> {
+    if (this.running) {
+      return null
+    }
+
+    this.running = true
+    const startTime = Date.now()
+
+    try {
+      const window = this.getHoursBefore() * 3600 * 1000
+      const orders = await this.orderService.findOrdersDueForReminder(
+        new Date(startTime + window),
+        new Date(startTime - window),
+        this.getBatchSize(),
+      )
+      const summary: ReminderRunSummary = { sent: 0, failed: 0, skipped: 0, durationMs: 0 }
+
+      for (const order of orders) {
+        if (!(await this.orderService.claimReminder(order.id))) {
+          continue
+        }
+
+        const { fullyDelivered, remainingDownloads } = this.orderService.getDeliverySummary(order)
+        if (fullyDelivered || remainingDownloads === 0) {
+          summary.skipped++
+          continue
+        }
+
+        const { status } = await this.deliveryMailService.send(order, 'reminder')
+        if (status === 'sent') {
+          summary.sent++
+          continue
+        }
+
+        summary.failed++
+        const attempts =
+          (order.mailAttempts ?? []).filter(
+            (attempt) => attempt.kind === 'reminder' && attempt.status === 'failed',
+          ).length + 1
+        if (attempts < this.getMaxAttempts()) {
+          await this.orderService.releaseReminder(order.id)
+        }
+      }
+
+      summary.durationMs = Date.now() - startTime
+      if (orders.length) {
+        this.logger.log(
+          `Reminder run finished in ${summary.durationMs}ms: ${summary.sent} sent, ${summary.failed} failed, ${summary.skipped} skipped`,
+        )
+      }
+
+      return summary
+    } catch (error) {
+      this.logger.error('Reminder run failed:', error.stack)
+      return null
+    } finally {
+      this.running = false
+    }
+  }
+
+  private getHoursBefore(): number {
+    return Number(this.configService.get<number>('MAIL_REMINDER_HOURS_BEFORE', 24))
+  }
+
+  private getIntervalMinutes(): number {
+    return Number(this.configService.get<number>('MAIL_REMINDER_INTERVAL_MINUTES', 15))
+  }
+
+  private getMaxAttempts(): number {
+    return Number(this.configService.get<number>('MAIL_REMINDER_MAX_ATTEMPTS', 3))
+  }
+
+  private getBatchSize(): number {
+    return Number(this.configService.get<number>('MAIL_REMINDER_BATCH_SIZE', 100))
+  }
+}
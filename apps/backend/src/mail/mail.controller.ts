@@ -0,0 +1,77 @@
+import {
+  BadRequestException,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Post,
+  Version,
+} from '@nestjs/common'
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger'
+import { IsObjectIdPipe } from '@nestjs/mongoose'
+import { Auth } from '../auth/decorators'
+import { OrderService } from '../order/order.service'
+import { DeliveryMailService } from './delivery-mail.service'
+import { SendLinkResponseDto } from './dto'
+
+@ApiTags('orders')
+@Controller('orders')
+@Auth('admin', 'photographer')
+export class MailController {
+  private readonly logger = new Logger(MailController.name)
+
+  constructor(
+    private readonly deliveryMailService: DeliveryMailService,
+    private readonly orderService: OrderService,
+  ) {}
+
+  @Version('1')
+  @Post(':id/send-link')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Email the download link again',
+    description:
+      'Sends the current download link to the customer, in the language of the order. The attempt is recorded on the order even when it fails.',
+  })
+  @ApiParam({ name: 'id', description: 'Order identifier', type: 'string' })
+  @ApiResponse({ status: 200, type: SendLinkResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Email disabled, order revoked or expired, or link not kept for emails',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async sendLink(@Param('id', IsObjectIdPipe) id: string): Promise<SendLinkResponseDto> {
+    if (!this.deliveryMailService.isEnabled()) {
+      throw new BadRequestException('Email is disabled on this server')
+    }
+
+    const order = await this.orderService.findById(id)
+
+    if (!order) {
+      throw new NotFoundException(`Order ${id} not found`)
+    }
+    if (order.revokedAt) {
+      throw new BadRequestException('Order has been revoked')
+    }
+    if (order.tokenExpiry < new Date()) {
+      throw new BadRequestException('Download link has expired')
+    }
+    if (!order.sealedToken) {
+      throw new BadRequestException(
+        'The download link of this order was not kept for emails, regenerate the token instead',
+      )
+    }
+
+    const attempt = await this.deliveryMailService.send(order, 'link')
+    this.logger.log(`Resent the download link of order ${id}: ${attempt.status}`)
+
+    return {
+      status: attempt.status,
+      to: attempt.to,
+      messageId: attempt.messageId ?? null,
+      error: attempt.error ?? null,
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common'
+import { OrderModule } from '../order/order.module'
+import { TokenModule } from '../token/token.module'
+import { AuthModule } from '../auth/auth.module'
+import { MailService } from './mail.service'
+import { DeliveryMailService } from './delivery-mail.service'
+import { MailReminderService } from './mail-reminder.service'
+import { MailController } from './mail.controller'
+
+@Module({
+  imports: [OrderModule, TokenModule, AuthModule],
+  controllers: [MailController],
+  providers: [MailService, DeliveryMailService, MailReminderService],
+  exports: [MailService, DeliveryMailService],
+})
+export class MailModule {}
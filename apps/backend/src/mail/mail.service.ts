@@ -0,0 +1,119 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { randomBytes } from 'crypto'
+import { FileTransport, MailTransport, SmtpTransport, StreamTransport } from './transports'
+import { MailAddress, buildMimeMessage, parseMailAddress } from './mime'
+
+/** Sender name when MAIL_FROM has none */
+const DEFAULT_SENDER_NAME = 'Photo St-Denis'
+
+/**
+ * Subject and bodies of an email
+ */
+export interface MailContent {
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * Outbound email through the transport selected by MAIL_TRANSPORT:
+ * - "smtp" for production, or a local MailHog,
+ * - "file" to write .eml files into MAIL_FILE_DIR,
+ * - "stream" to print messages on standard output,
+ * - "none", the default, disables email.
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name)
+  private readonly transport: MailTransport | null
+  private readonly from: MailAddress | null
+
+  constructor(private readonly configService: ConfigService) {
+    this.transport = this.createTransport()
+    this.from = this.transport ? this.getSender() : null
+
+    if (this.transport && this.from) {
+      this.logger.log(`Email enabled: ${this.transport.name} transport, from ${this.from.address}`)
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.transport !== null
+  }
+
+  /**
+   * Name signing the emails, from the display name of MAIL_FROM
+   */
+  getSenderName(): string {
+    return this.from?.name ?? DEFAULT_SENDER_NAME
+  }
+
+  /**
+   * Sends an email to a single recipient
+   *
+   * @returns Message-ID of the email, without angle brackets
+   * @throws Error when email is disabled or the transport fails
+   */
+  async send(to: string, content: MailContent): Promise<string> {
+    if (!this.transport || !this.from) {
+      throw new Error('Email is disabled, set MAIL_TRANSPORT to send emails')
+    }
+
+    const domain = this.from.address.split('@')[1]
+    const messageId = `${Date.now()}.${randomBytes(8).toString('hex')}@${domain}`
+    const message = buildMimeMessage({
+      from: { ...this.from, name: this.getSenderName() },
+      to: { address: to },
+      ...content,
+      messageId,
+      date: new Date(),
+    })
+
+    await this.transport.send({ from: this.from.address, to: [to] }, message)
+    return messageId
+  }
+
+  /**
+   * @throws Error when MAIL_FROM is missing or invalid
+   */
+  private getSender(): MailAddress {
+    const from = this.configService.get<string>('MAIL_FROM')
+
+    if (!from) {
+      throw new Error('MAIL_FROM must be set when MAIL_TRANSPORT is enabled')
+    }
+
+    return parseMailAddress(from)
+  }
+
+  /**
+   * @throws Error for an unknown MAIL_TRANSPORT
+   */
+  private createTransport(): MailTransport | null {
+    const name = this.configService.get<string>('MAIL_TRANSPORT', 'none')
+
+    switch (name) {
+      case 'none':
+        return null
+      case 'smtp':
+        return new SmtpTransport({
+          host: this.configService.get<string>('SMTP_HOST', 'localhost'),
+          port: Number(this.configService.get<number>('SMTP_PORT', 587)),
+          secure: String(this.configService.get('SMTP_SECURE', 'false')) === 'true',
+          requireTls: String(this.configService.get('SMTP_REQUIRE_TLS', 'false')) === 'true',
+          user: this.configService.get<string>('SMTP_USER') || undefined,
+          password: this.configService.get<string>('SMTP_PASSWORD') || undefined,
+          timeoutMs: Number(this.configService.get<number>('SMTP_TIMEOUT_MS', 30000)),
+        })
+      case 'file':
+        return new FileTransport(this.configService.get<string>('MAIL_FILE_DIR', '/tmp/photo-mail'))
+      case 'stream':
+        return new StreamTransport()
+      default:
+        throw new Error(
+          `Unknown MAIL_TRANSPORT "${name}", expected "none", "smtp", "file" or "stream"`,
+        )
+    }
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * MIME messages (RFC 5322, 2045, 2047) with a plain text and an HTML version of the
+ * same contents. Bodies are base64-encoded and headers outside printable ASCII use
+ * encoded words, so accented French text survives every transport.
+ */
+import { randomBytes } from 'crypto'
+
+/** Bytes of text per encoded word, keeping each word within the 75 character limit */
+const ENCODED_WORD_BYTES = 45
+
+const BASE64_LINE_LENGTH = 76
+
+export interface MailAddress {
+  /** Display name, e.g. "Photo St-Denis" */
+  name?: string
+  address: string
+}
+
+export interface MailMessage {
+  from: MailAddress
+  to: MailAddress
+  subject: string
+  text: string
+  html: string
+  /** Unique identifier, without angle brackets, e.g. "abc@photostdenis.com" */
+  messageId: string
+  date: Date
+}
+
+/**
+ * Parses an address with an optional display name, e.g. "Photo St-Denis <hello@example.com>"
+ *
+ * @throws Error when no address can be found
+ */
+export function parseMailAddress(value: string): MailAddress {
+  const match = /^\s*(?:"?([^"<]*?)"?\s*)?<([^<>\s]+@[^<>\s]+)>\s*$/.exec(value)
+
+  if (match) {
+    return { name: match[1] || undefined, address: match[2] }
+  }
+  if (/^[^<>\s]+@[^<>\s]+$/.test(value.trim())) {
+    return { address: value.trim() }
+  }
+
+  throw new Error(`Invalid email address "${value}"`)
+}
+
+/**
+ * Header value, with the non-ASCII text split into UTF-8 encoded words
+ */
+function encodeHeader(value: string): string {
+  const flat = value.replace(/[\r\n]+/g, ' ')
+
+  if (/^[\x20-\x7e]*$/.test(flat)) {
+    return flat
+  }
+
+  const words: string[] = []
+  let current = ''
+
+  for (const char of flat) {
+    if (Buffer.byteLength(current + char) > ENCODED_WORD_BYTES) {
+      words.push(current)
+      current = ''
+    }
+    current += char
+  }
+  words.push(current)
+
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join('\r\n ')
+}
+
+function formatAddress({ name, address }: MailAddress): string {
+  if (!name) {
+    return address
+  }
+  if (/^[\x20-\x7e]*$/.test(name)) {
+    return `"${name.replace(/["\\]/g, '\\$&')}" <${address}>`
+  }
+  return `${encodeHeader(name)} <${address}>`
+}
+
+function encodeBody(text: string): string {
+  const encoded = Buffer.from(text.replace(/\r?\n/g, '\r\n')).toString('base64')
+  return encoded.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, 'g'))?.join('\r\n') ?? ''
+}
+
+/**
+ * Complete message, ready for any transport
+ */
+export function buildMimeMessage(message: MailMessage): Buffer {
+  const boundary = `=_${randomBytes(12).toString('hex')}`
+  const part = (contentType: string, body: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${contentType}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(body),
+    ].join('\r\n')
+
+  const lines = [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${formatAddress(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${message.date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${message.messageId}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ]
+
+  return Buffer.from(lines.join('\r\n'))
+}
@@ -0,0 +1,43 @@
+import { Writable } from 'stream'
+import { randomBytes } from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import { MailEnvelope, MailTransport } from './mail-transport.interface'
+
+/**
+ * Writes each message to a .eml file of a directory instead of sending it, for tests
+ * and for checking templates in a mail client
+ */
+export class FileTransport implements MailTransport {
+  readonly name = 'file'
+
+  constructor(private readonly directory: string) {}
+
+  async send(_envelope: MailEnvelope, message: Buffer): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true })
+
+    // Sorted by sending time, unique within the same millisecond
+    const name = `${Date.now()}-${randomBytes(4).toString('hex')}.eml`
+    await fs.promises.writeFile(path.join(this.directory, name), message)
+  }
+}
+
+/**
+ * Writes each message to a stream, standard output by default, after the envelope
+ */
+export class StreamTransport implements MailTransport {
+  readonly name = 'stream'
+
+  constructor(private readonly stream: Writable = process.stdout) {}
+
+  send(envelope: MailEnvelope, message: Buffer): Promise<void> {
+    const separator = `--- mail from ${envelope.from} to ${envelope.to.join(', ')} ---\n`
+
+    return new Promise((resolve, reject) => {
+      this.stream.write(
+        Buffer.concat([Buffer.from(separator), message, Buffer.from('\n')]),
+        (err) => (err ? reject(err) : resolve()),
+      )
+    })
+  }
+}
@@ -0,0 +1,4 @@
+export type { MailEnvelope, MailTransport } from './mail-transport.interface'
+export { SmtpTransport, SmtpError } from './smtp.transport'
+export type { SmtpTransportOptions } from './smtp.transport'
+export { FileTransport, StreamTransport } from './file.transport'
@@ -0,0 +1,24 @@
+/**
+ * Addresses the message is delivered from and to, apart from its headers
+ */
+export interface MailEnvelope {
+  /** Bare address, without display name */
+  from: string
+  to: string[]
+}
+
+/**
+ * Delivers complete MIME messages: to an SMTP server, or to files and streams for
+ * tests and local development
+ */
+export interface MailTransport {
+  /** Name of the transport, as set in MAIL_TRANSPORT */
+  readonly name: string
+
+  /**
+   * Resolves once the message was accepted for delivery
+   *
+   * @param message - Message with its headers, lines ending with CRLF
+   */
+  send(envelope: MailEnvelope, message: Buffer): Promise<void>
+}
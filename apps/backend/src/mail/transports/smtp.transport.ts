@@ -0,0 +1,261 @@
+import * as net from 'net'
+import * as os from 'os'
+import * as tls from 'tls'
+import { MailEnvelope, MailTransport } from './mail-transport.interface'
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000
+
+export interface SmtpTransportOptions {
+  host: string
+  port: number
+  /** Connect over TLS from the start (port 465); otherwise STARTTLS is used when offered */
+  secure?: boolean
+  /** Refuse to send when the server does not offer STARTTLS */
+  requireTls?: boolean
+  user?: string
+  password?: string
+  timeoutMs?: number
+  /** Name announced in EHLO, the host name by default */
+  clientName?: string
+  /** Extra TLS options, e.g. the CA of a server with a private certificate */
+  tls?: tls.ConnectionOptions
+}
+
+/**
+ * Reply of the SMTP server other than the expected one
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    readonly code: number,
+  ) {
+    super(message)
+  }
+}
+
+interface SmtpReply {
+  code: number
+  /** Text of each line, without the code */
+  lines: string[]
+}
+
+/**
+ * Reads the replies of an SMTP server line by line, on a socket that may be
+ * upgraded to TLS halfway
+ */
+class SmtpConnection {
+  private socket: net.Socket
+  private pending = ''
+  private lines: string[] = []
+  private failure: Error | null = null
+  private notify: (() => void) | null = null
+
+  private readonly onData = (chunk: Buffer) => {
+    const parts = (this.pending + chunk.toString('utf8')).split(/\r?\n/)
+    this.pending = parts.pop() ?? ''
+    this.lines.push(...parts)
+    this.wake()
+  }
+
+  private readonly onError = (error: Error) => {
+    this.failure = error
+    this.wake()
+  }
+
+  private readonly onClose = () => {
+    this.failure ??= new Error('SMTP connection closed by the server')
+    this.wake()
+  }
+
+  constructor(
+    socket: net.Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.socket = socket
+    this.attach(socket)
+  }
+
+  /**
+   * Waits for the next complete reply, which may span several lines
+   */
+  async read(): Promise<SmtpReply> {
+    for (;;) {
+      const last = this.lines.findIndex((line) => !/^\d{3}-/.test(line))
+
+      if (last !== -1) {
+        const lines = this.lines.splice(0, last + 1)
+        return { code: Number(lines[last].slice(0, 3)), lines: lines.map((line) => line.slice(4)) }
+      }
+      if (this.failure) {
+        throw this.failure
+      }
+
+      await new Promise<void>((resolve) => (this.notify = resolve))
+    }
+  }
+
+  /**
+   * @param label - Name of the step in error messages, so credentials are never logged
+   * @throws SmtpError when the reply code is not one of the expected ones
+   */
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read()
+
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(
+        `SMTP ${label} refused: ${reply.code} ${reply.lines.join(' ')}`.trim(),
+        reply.code,
+      )
+    }
+
+    return reply
+  }
+
+  command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.write(`${line}\r\n`)
+    return this.expect(expected, label)
+  }
+
+  write(data: string | Buffer): void {
+    this.socket.write(data)
+  }
+
+  /**
+   * Continues the session over TLS, after the server accepted STARTTLS
+   */
+  async upgrade(options: tls.ConnectionOptions): Promise<void> {
+    const plain = this.socket
+    this.detach(plain)
+    // The TLS socket reports the errors of the plain one
+    plain.on('error', () => undefined)
+
+    const secure = tls.connect({ ...options, socket: plain })
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve)
+      secure.once('error', reject)
+    })
+
+    this.socket = secure
+    this.attach(secure)
+  }
+
+  close(): void {
+    this.socket.destroy()
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new Error(`SMTP server did not answer within ${this.timeoutMs}ms`)),
+    )
+    socket.on('data', this.onData)
+    socket.on('error', this.onError)
+    socket.on('close', this.onClose)
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.setTimeout(0)
+    socket.off('data', this.onData)
+    socket.off('error', this.onError)
+    socket.off('close', this.onClose)
+  }
+
+  private wake(): void {
+    const notify = this.notify
+    this.notify = null
+    notify?.()
+  }
+}
+
+/**
+ * Sends messages to an SMTP server (RFC 5321), one connection per message: EHLO,
+ * STARTTLS when offered, AUTH PLAIN or LOGIN when credentials are set, then the
+ * envelope and the dot-stuffed message. Also talks to MailHog and Mailpit locally.
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp'
+
+  constructor(private readonly options: SmtpTransportOptions) {}
+
+  async send(envelope: MailEnvelope, message: Buffer): Promise<void> {
+    const connection = this.connect()
+
+    try {
+      await connection.expect([220], 'greeting')
+      let features = await this.hello(connection)
+
+      if (!this.options.secure) {
+        if (features.includes('STARTTLS')) {
+          await connection.command('STARTTLS', [220])
+          await connection.upgrade({ servername: this.options.host, ...this.options.tls })
+          features = await this.hello(connection)
+        } else if (this.options.requireTls) {
+          throw new Error(`SMTP server ${this.options.host} does not offer STARTTLS`)
+        }
+      }
+
+      if (this.options.user) {
+        await this.authenticate(connection, features)
+      }
+
+      await connection.command(`MAIL FROM:<${envelope.from}>`, [250], 'MAIL FROM')
+      for (const recipient of envelope.to) {
+        await connection.command(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO')
+      }
+      await connection.command('DATA', [354])
+      connection.write(this.dotStuff(message))
+      await connection.expect([250], 'message')
+
+      // The message is accepted at this point, a failed goodbye does not matter
+      await connection.command('QUIT', [221]).catch(() => undefined)
+    } finally {
+      connection.close()
+    }
+  }
+
+  private connect(): SmtpConnection {
+    const { host, port, secure, timeoutMs = DEFAULT_TIMEOUT_MS } = this.options
+    const socket = secure
+      ? tls.connect({ host, port, servername: host, ...this.options.tls })
+      : net.connect({ host, port })
+
+    return new SmtpConnection(socket, timeoutMs)
+  }
+
+  /**
+   * @returns Extensions the server announced, upper-cased, e.g. "AUTH PLAIN LOGIN"
+   */
+  private async hello(connection: SmtpConnection): Promise<string[]> {
+    const reply = await connection.command(`EHLO ${this.options.clientName ?? os.hostname()}`, [
+      250,
+    ])
+    return reply.lines.slice(1).map((line) => line.toUpperCase())
+  }
+
+  private async authenticate(connection: SmtpConnection, features: string[]): Promise<void> {
+    const mechanisms = features.find((feature) => feature.startsWith('AUTH '))?.split(' ') ?? []
+    const user = this.options.user ?? ''
+    const password = this.options.password ?? ''
+
+    if (mechanisms.includes('PLAIN')) {
+      const credentials = Buffer.from(`\0${user}\0${password}`).toString('base64')
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH PLAIN')
+      return
+    }
+    if (mechanisms.includes('LOGIN')) {
+      await connection.command('AUTH LOGIN', [334], 'AUTH LOGIN')
+      await connection.command(Buffer.from(user).toString('base64'), [334], 'AUTH LOGIN user')
+      await connection.command(Buffer.from(password).toString('base64'), [235], 'AUTH LOGIN')
+      return
+    }
+
+    throw new Error(`SMTP server ${this.options.host} offers no supported AUTH mechanism`)
+  }
+
+  /**
+   * Doubles the dots starting a line and appends the terminating line
+   */
+  private dotStuff(message: Buffer): Buffer {
+    const text = message.toString('latin1').replace(/(^|\r\n)\./g, '$1..')
+    return Buffer.from(`${text}${text.endsWith('\r\n') ? '' : '\r\n'}.\r\n`, 'latin1')
+  }
+}
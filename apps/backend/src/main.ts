@@ -1,10 +1,21 @@
 import { NestFactory } from '@nestjs/core'
 import { ValidationPipe, VersioningType } from '@nestjs/common'
+import { NestExpressApplication } from '@nestjs/platform-express'
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger'
 import { AppModule } from './app.module'
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule)
+  const app = await NestFactory.create<NestExpressApplication>(AppModule)
+
+  // Behind a reverse proxy, client IPs (used for rate limiting) come from X-Forwarded-For.
+  // TRUST_PROXY is "true", a number of proxy hops, or a list of trusted addresses.
+  const trustProxy = process.env.TRUST_PROXY
+  if (trustProxy) {
+    app.set(
+      'trust proxy',
+      trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy,
+    )
+  }
 
   // Enable validation pipe
   app.useGlobalPipes(new ValidationPipe())
@@ -21,6 +32,12 @@ async function bootstrap() {
     .setDescription('API for managing photo transfers and downloads')
     .setVersion('1.0')
     .addTag('transfer', 'Photo transfer operations')
+    .addTag('orders', 'Staff order management')
+    .addTag('auth', 'Staff authentication')
+    .addTag('health', 'Liveness and readiness probes')
+    .addTag('metrics', 'Prometheus metrics')
+    .addBearerAuth()
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'api-key')
     .build()
 
   const document = SwaggerModule.createDocument(app, config)
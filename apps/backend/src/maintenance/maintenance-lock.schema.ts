@@ -0,0 +1,23 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document } from 'mongoose'
+
+export type MaintenanceLockDocument = MaintenanceLock & Document<string>
+
+/**
+ * Lease that lets a single instance run a maintenance task at a time.
+ * The lease expires on its own, so a crashed instance never blocks the others.
+ */
+@Schema({ collection: 'maintenance_locks' })
+export class MaintenanceLock {
+  /** Name of the maintenance task */
+  @Prop({ type: String })
+  _id: string
+
+  @Prop({ required: true })
+  lockedUntil: Date
+
+  @Prop({ required: true })
+  lockedBy: string
+}
+
+export const MaintenanceLockSchema = SchemaFactory.createForClass(MaintenanceLock)
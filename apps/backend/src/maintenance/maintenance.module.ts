@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+import { OrderModule } from '../order/order.module'
+import { ArchiveCacheModule } from '../cache/archive-cache.module'
+import { MaintenanceLock, MaintenanceLockSchema } from './maintenance-lock.schema'
+import { RetentionService } from './retention.service'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: MaintenanceLock.name, schema: MaintenanceLockSchema }]),
+    OrderModule,
+    ArchiveCacheModule,
+  ],
+  providers: [RetentionService],
+})
+export class MaintenanceModule {}
@@ -0,0 +1,241 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectModel } from '@nestjs/mongoose'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { Model } from 'mongoose'
+import * as os from 'os'
+import { OrderService } from '../order/order.service'
+import { ArchiveCacheService } from '../cache/archive-cache.service'
+import { MaintenanceLock, MaintenanceLockDocument } from './maintenance-lock.schema'
+
+const RETENTION_INTERVAL_NAME = 'order-retention'
+const RETENTION_LOCK_NAME = 'order-retention'
+
+export type RetentionAction = 'anonymize' | 'delete'
+
+/**
+ * Outcome of one retention run
+ */
+export interface RetentionRunSummary {
+  /** Whether this instance held the lock and processed the orders */
+  lockAcquired: boolean
+  markedExpired: number
+  action: RetentionAction
+  /** Orders deleted or anonymized */
+  purgedOrders: number
+  /** Archives removed from the local cache */
+  removedArchives: number
+  durationMs: number
+}
+
+/**
+ * Periodic order retention:
+ * - flags orders whose token expired,
+ * - deletes or anonymizes orders expired or revoked for longer than RETENTION_DAYS,
+ * - removes the cached archives of those orders.
+ *
+ * Order processing is guarded by a lease in MongoDB so that only one instance
+ * works at a time. Every instance sweeps its own archive cache, since caches
+ * live on local disk.
+ */
+@Injectable()
+export class RetentionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RetentionService.name)
+  private readonly instanceId = `${os.hostname()}:${process.pid}`
+  private running = false
+
+  constructor(
+    @InjectModel(MaintenanceLock.name) private readonly lockModel: Model<MaintenanceLockDocument>,
+    private readonly orderService: OrderService,
+    private readonly archiveCacheService: ArchiveCacheService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    if (String(this.configService.get('RETENTION_ENABLED', 'true')) === 'false') {
+      this.logger.log('Order retention is disabled')
+      return
+    }
+
+    // Fail at startup rather than on the first run
+    this.getAction()
+
+    const interval = setInterval(() => void this.run(), this.getIntervalMinutes() * 60 * 1000)
+    this.schedulerRegistry.addInterval(RETENTION_INTERVAL_NAME, interval)
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', RETENTION_INTERVAL_NAME)) {
+      this.schedulerRegistry.deleteInterval(RETENTION_INTERVAL_NAME)
+    }
+  }
+
+  /**
+   * Runs the retention tasks once
+   *
+   * @returns Summary of the run, or null when a run is already in progress or failed
+   */
+  async run(): Promise<RetentionRunSummary | null> {
+    if (this.running) {
+      return null
+    }
+
+    this.running = true
+    const startTime = Date.now()
+
+    try {
+      const action = this.getAction()
+      let markedExpired = 0
+      let purgedOrders = 0
+      const lockAcquired = await this.acquireLock()
+
+      if (lockAcquired) {
+        try {
+          markedExpired = await this.orderService.markExpiredOrders()
+          purgedOrders = await this.purgeOrders(action)
+        } finally {
+          await this.releaseLock()
+        }
+      } else {
+        this.logger.log('Another instance is processing orders, only sweeping the local cache')
+      }
+
+      const removedArchives = await this.removeOrphanedArchives()
+      const summary: RetentionRunSummary = {
+        lockAcquired,
+        markedExpired,
+        action,
+        purgedOrders,
+        removedArchives,
+        durationMs: Date.now() - startTime,
+      }
+
+      this.logger.log(
+        `Retention run finished in ${summary.durationMs}ms: ${markedExpired} orders marked expired, ${purgedOrders} orders ${action === 'delete' ? 'deleted' : 'anonymized'}, ${removedArchives} cached archives removed`,
+      )
+
+      return summary
+    } catch (error) {
+      this.logger.error('Retention run failed:', error.stack)
+      return null
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Deletes or anonymizes the orders past the retention window, batch by batch
+   */
+  private async purgeOrders(action: RetentionAction): Promise<number> {
+    const cutoff = new Date(Date.now() - this.getRetentionDays() * 24 * 3600 * 1000)
+    const batchSize = this.getBatchSize()
+    let purged = 0
+
+    for (;;) {
+      const ids = await this.orderService.findOrdersPastRetention(cutoff, batchSize)
+      if (!ids.length) {
+        break
+      }
+
+      for (const id of ids) {
+        await this.archiveCacheService.invalidateOrder(id)
+      }
+
+      purged +=
+        action === 'delete'
+          ? await this.orderService.deleteOrders(ids)
+          : await this.orderService.anonymizeOrders(ids)
+
+      if (ids.length < batchSize) {
+        break
+      }
+    }
+
+    return purged
+  }
+
+  /**
+   * Removes cached archives of orders purged by any instance
+   */
+  private async removeOrphanedArchives(): Promise<number> {
+    const cachedOrderIds = this.archiveCacheService.getCachedOrderIds()
+    if (!cachedOrderIds.length) {
+      return 0
+    }
+
+    const retained = new Set(await this.orderService.findRetainedOrderIds(cachedOrderIds))
+    const orphaned = cachedOrderIds.filter((id) => !retained.has(id))
+
+    for (const id of orphaned) {
+      await this.archiveCacheService.invalidateOrder(id)
+    }
+
+    return orphaned.length
+  }
+
+  /**
+   * Takes the lease when it is free or expired. Two instances racing to create
+   * the lock document both upsert; the loser gets a duplicate key error.
+   */
+  private async acquireLock(): Promise<boolean> {
+    const now = new Date()
+
+    try {
+      const lock = await this.lockModel
+        .findOneAndUpdate(
+          { _id: RETENTION_LOCK_NAME, lockedUntil: { $lte: now } },
+          {
+            $set: {
+              lockedUntil: new Date(now.getTime() + this.getLockTtlSeconds() * 1000),
+              lockedBy: this.instanceId,
+            },
+          },
+          { upsert: true, new: true },
+        )
+        .exec()
+
+      return !!lock
+    } catch (error) {
+      if (error.code === 11000) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  private async releaseLock(): Promise<void> {
+    await this.lockModel
+      .updateOne(
+        { _id: RETENTION_LOCK_NAME, lockedBy: this.instanceId },
+        { $set: { lockedUntil: new Date() } },
+      )
+      .exec()
+  }
+
+  private getAction(): RetentionAction {
+    const action = this.configService.get<string>('RETENTION_ACTION', 'anonymize')
+
+    if (action !== 'anonymize' && action !== 'delete') {
+      throw new Error(`Unknown RETENTION_ACTION "${action}", expected "anonymize" or "delete"`)
+    }
+
+    return action
+  }
+
+  private getRetentionDays(): number {
+    return Number(this.configService.get<number>('RETENTION_DAYS', 90))
+  }
+
+  private getIntervalMinutes(): number {
+    return Number(this.configService.get<number>('RETENTION_INTERVAL_MINUTES', 60))
+  }
+
+  private getBatchSize(): number {
+    return Number(this.configService.get<number>('RETENTION_BATCH_SIZE', 500))
+  }
+
+  private getLockTtlSeconds(): number {
+    return Number(this.configService.get<number>('RETENTION_LOCK_TTL_SECONDS', 900))
+  }
+}
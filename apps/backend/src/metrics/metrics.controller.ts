@@ -0,0 +1,27 @@
+import { Controller, Get, Header } from '@nestjs/common'
+import { ApiOperation, ApiProduces, ApiResponse, ApiTags } from '@nestjs/swagger'
+import { MetricsService } from './metrics.service'
+
+/**
+ * Prometheus scrape endpoint, unversioned like the health probes
+ */
+@ApiTags('metrics')
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  @Header('Cache-Control', 'no-store')
+  @ApiOperation({
+    summary: 'Prometheus metrics',
+    description:
+      'Archive timings, bytes and files archived, download outcomes, downloads in flight ' +
+      'and refused tokens, in the Prometheus text format',
+  })
+  @ApiProduces('text/plain')
+  @ApiResponse({ status: 200, description: 'Metrics in the Prometheus text format' })
+  getMetrics(): string {
+    return this.metricsService.render()
+  }
+}
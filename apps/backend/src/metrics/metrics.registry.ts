@@ -0,0 +1,251 @@
+/**
+ * Label values of one metric series, e.g. { reason: 'expired' }
+ */
+export type MetricLabels = Record<string, string>
+
+/** Upper bounds in seconds, from a few milliseconds to a minute */
+export const DEFAULT_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+]
+
+interface Series<T> {
+  labels: MetricLabels
+  value: T
+}
+
+/**
+ * Base class of the metric types: keeps one value per label combination and
+ * renders them in the Prometheus text exposition format
+ */
+abstract class Metric<T> {
+  protected readonly series = new Map<string, Series<T>>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram'
+
+  protected abstract initialValue(): T
+
+  protected abstract renderSeries(series: Series<T>): string[]
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${escapeHelp(this.help)}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ]
+
+    // Unlabeled metrics are exported from the start so dashboards never see gaps
+    const series = this.series.size ? [...this.series.values()] : [this.getSeries({})]
+
+    for (const entry of series) {
+      lines.push(...this.renderSeries(entry))
+    }
+
+    return lines.join('\n')
+  }
+
+  protected getSeries(labels: MetricLabels): Series<T> {
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1)))
+    let entry = this.series.get(key)
+
+    if (!entry) {
+      entry = { labels, value: this.initialValue() }
+      this.series.set(key, entry)
+    }
+
+    return entry
+  }
+}
+
+/**
+ * Value that only goes up, e.g. bytes sent or downloads started
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter'
+
+  inc(amount = 1, labels: MetricLabels = {}): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`)
+    }
+    this.getSeries(labels).value += amount
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.getSeries(labels).value
+  }
+
+  protected initialValue(): number {
+    return 0
+  }
+
+  protected renderSeries({ labels, value }: Series<number>): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`]
+  }
+}
+
+/**
+ * Value that goes up and down, e.g. downloads in flight
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge'
+
+  inc(amount = 1, labels: MetricLabels = {}): void {
+    this.getSeries(labels).value += amount
+  }
+
+  dec(amount = 1, labels: MetricLabels = {}): void {
+    this.getSeries(labels).value -= amount
+  }
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.getSeries(labels).value = value
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.getSeries(labels).value
+  }
+
+  protected initialValue(): number {
+    return 0
+  }
+
+  protected renderSeries({ labels, value }: Series<number>): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`]
+  }
+}
+
+interface HistogramValue {
+  /** Observation count per bucket, not cumulative */
+  bucketCounts: number[]
+  sum: number
+  count: number
+}
+
+/**
+ * Distribution of observations, e.g. durations, in cumulative buckets
+ */
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram'
+  private readonly buckets: number[]
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_DURATION_BUCKETS) {
+    super(name, help)
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const entry = this.getSeries(labels).value
+    const index = this.buckets.findIndex((bound) => value <= bound)
+
+    if (index !== -1) {
+      entry.bucketCounts[index]++
+    }
+    entry.sum += value
+    entry.count++
+  }
+
+  /**
+   * Starts timing an operation
+   *
+   * @returns Function that records the elapsed time in seconds and returns it
+   */
+  startTimer(labels: MetricLabels = {}): () => number {
+    const start = process.hrtime.bigint()
+
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9
+      this.observe(seconds, labels)
+      return seconds
+    }
+  }
+
+  get(labels: MetricLabels = {}): { sum: number; count: number } {
+    const { sum, count } = this.getSeries(labels).value
+    return { sum, count }
+  }
+
+  protected initialValue(): HistogramValue {
+    return { bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 }
+  }
+
+  protected renderSeries({ labels, value }: Series<HistogramValue>): string[] {
+    let cumulative = 0
+    const lines = this.buckets.map((bound, index) => {
+      cumulative += value.bucketCounts[index]
+      return `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`
+    })
+
+    return [
+      ...lines,
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ]
+  }
+}
+
+/**
+ * Collection of metrics exported together on the /metrics endpoint
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric<unknown>>()
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help))
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help))
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets))
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format (version 0.0.4)
+   */
+  render(): string {
+    return [...this.metrics.values()].map((metric) => metric.render()).join('\n') + '\n'
+  }
+
+  private register<M extends Metric<any>>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`)
+    }
+    this.metrics.set(metric.name, metric)
+    return metric
+  }
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels)
+
+  if (!entries.length) {
+    return ''
+  }
+
+  const pairs = entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+  return `{${pairs.join(',')}}`
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN'
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf'
+  }
+  return String(value)
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+}
@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common'
+import { MetricsRegistry } from './metrics.registry'
+
+/** Reasons a download token is refused */
+export type TokenRejectionReason = 'invalid' | 'expired' | 'revoked'
+
+const TOKEN_REJECTION_REASONS: TokenRejectionReason[] = ['invalid', 'expired', 'revoked']
+
+/**
+ * Application metrics exported on /metrics.
+ * Services record into the public metrics directly; the registry renders them.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly registry = new MetricsRegistry()
+
+  /** Time from the download request to the first byte being ready */
+  readonly archiveSetupSeconds = this.registry.histogram(
+    'photo_archive_setup_seconds',
+    'Time to validate the token, lay out the archive and open its stream',
+  )
+
+  readonly directoryProcessingSeconds = this.registry.histogram(
+    'photo_archive_directory_processing_seconds',
+    'Time to scan one order directory and plan its archive entries',
+  )
+
+  readonly archiveStreamSeconds = this.registry.histogram(
+    'photo_archive_stream_seconds',
+    'Time to stream a whole archive from the photo storage, from its first to its last byte',
+  )
+
+  readonly archiveFinalizationSeconds = this.registry.histogram(
+    'photo_archive_finalization_seconds',
+    'Time to build and write the ZIP central directory and end records, or the tar trailer',
+  )
+
+  readonly bytesStreamed = this.registry.counter(
+    'photo_archive_bytes_streamed_total',
+    'Archive bytes sent to clients',
+  )
+
+  readonly filesArchived = this.registry.counter(
+    'photo_archive_files_total',
+    'Files streamed whole into archives from the photo storage',
+  )
+
+  readonly downloadsStarted = this.registry.counter(
+    'photo_downloads_started_total',
+    'Downloads that started streaming',
+  )
+
+  readonly downloadsCompleted = this.registry.counter(
+    'photo_downloads_completed_total',
+    'Downloads streamed to the end',
+  )
+
+  readonly downloadsAborted = this.registry.counter(
+    'photo_downloads_aborted_total',
+    'Downloads closed before the end, by the client or by an error',
+  )
+
+  readonly downloadsInFlight = this.registry.gauge(
+    'photo_downloads_in_flight',
+    'Downloads currently streaming',
+  )
+
+  readonly tokenRejections = this.registry.counter(
+    'photo_download_token_rejections_total',
+    'Download attempts refused because of the token',
+  )
+
+  readonly imageResizeSeconds = this.registry.histogram(
+    'photo_image_resize_seconds',
+    'Time to generate one downscaled copy of a photo',
+  )
+
+  readonly imageResizeFailures = this.registry.counter(
+    'photo_image_resize_failures_total',
+    'Photos delivered at full resolution because resizing them failed',
+  )
+
+  readonly metadataScrubbedFiles = this.registry.counter(
+    'photo_metadata_scrubbed_files_total',
+    'Photos found with GPS data or device identifiers to remove for privacy mode orders',
+  )
+
+  constructor() {
+    // Export every reason from the start so rate() queries work before the first rejection
+    for (const reason of TOKEN_REJECTION_REASONS) {
+      this.tokenRejections.inc(0, { reason })
+    }
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    return this.registry.render()
+  }
+}
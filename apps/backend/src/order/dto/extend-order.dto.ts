@@ -0,0 +1,11 @@
+import { IsDateString } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class ExtendOrderDto {
+  @ApiProperty({
+    example: '2025-09-12T16:44:26.000Z',
+    description: 'New expiration date of the download token',
+  })
+  @IsDateString()
+  expiresAt: string
+}
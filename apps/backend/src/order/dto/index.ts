@@ -0,0 +1,9 @@
+export { SearchOrdersDto } from './search-orders.dto'
+export { ExtendOrderDto } from './extend-order.dto'
+export { OrderResponseDto, OrderListResponseDto, OrderStatus } from './order-response.dto'
+export {
+  OrderDownloadsResponseDto,
+  DownloadEventDto,
+  DeliveryReportDto,
+  MailAttemptDto,
+} from './order-downloads-response.dto'
@@ -0,0 +1,205 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+export class DownloadEventDto {
+  @ApiProperty({ description: 'Event identifier', example: '66ba3c1f9d1e8a0012345679' })
+  id: string
+
+  @ApiProperty({ description: 'Time the download started', example: '2025-08-10T09:12:03.000Z' })
+  startedAt: Date
+
+  @ApiProperty({
+    description: 'Time the download completed or was aborted',
+    example: '2025-08-10T09:20:41.000Z',
+    nullable: true,
+    type: Date,
+  })
+  finishedAt: Date | null
+
+  @ApiProperty({ enum: ['in_progress', 'completed', 'aborted'], example: 'completed' })
+  status: string
+
+  @ApiProperty({ description: 'First byte of the requested span', example: 0 })
+  rangeStart: number
+
+  @ApiProperty({ description: 'Last byte of the requested span', example: 5368709119 })
+  rangeEnd: number
+
+  @ApiProperty({ description: 'Bytes sent to the client', example: 5368709120 })
+  bytesSent: number
+
+  @ApiProperty({ description: 'Size of the archive that was served', example: 5368709120 })
+  archiveSize: number
+
+  @ApiProperty({ enum: ['full', 'web'], example: 'full' })
+  variant: string
+
+  @ApiProperty({ enum: ['zip', 'tar', 'tar.gz'], example: 'zip' })
+  format: string
+
+  @ApiProperty({
+    description: 'Part of a split archive, null for a whole archive',
+    example: null,
+    nullable: true,
+    type: Number,
+  })
+  part: number | null
+
+  @ApiProperty({
+    description: 'Number of parts of a split archive, null for a whole archive',
+    example: null,
+    nullable: true,
+    type: Number,
+  })
+  partCount: number | null
+
+  @ApiProperty({
+    description: 'Index of the only directory downloaded, null for the whole order',
+    example: null,
+    nullable: true,
+    type: Number,
+  })
+  directoryIndex: number | null
+
+  @ApiProperty({ description: 'Whether the request used one download of the quota', example: true })
+  counted: boolean
+
+  @ApiProperty({ description: 'Client IP address', example: '203.0.113.42', required: false })
+  clientIp?: string
+
+  @ApiProperty({ description: 'Client user agent', example: 'Mozilla/5.0', required: false })
+  userAgent?: string
+}
+
+export class SkippedDirectoryDto {
+  @ApiProperty({ description: 'Index of the directory in the order', example: 1 })
+  index: number
+
+  @ApiProperty({ example: 'events/2025-08-10-wedding/ceremony' })
+  path: string
+
+  @ApiProperty({ example: 'directory not found' })
+  reason: string
+}
+
+export class UnreadableFileDto {
+  @ApiProperty({ description: 'Index of the directory holding the file', example: 0 })
+  directoryIndex: number
+
+  @ApiProperty({ description: 'Path of the file below its directory', example: 'IMG_0042.jpg' })
+  path: string
+
+  @ApiProperty({ example: 'permission denied' })
+  reason: string
+}
+
+export class DeliveryReportDto {
+  @ApiProperty({ enum: ['full', 'web'], example: 'full' })
+  variant: string
+
+  @ApiProperty({
+    description: 'Index of the only directory requested, null for the whole order',
+    example: null,
+    nullable: true,
+    type: Number,
+  })
+  directoryIndex: number | null
+
+  @ApiProperty({ type: [SkippedDirectoryDto] })
+  skippedDirectories: SkippedDirectoryDto[]
+
+  @ApiProperty({ type: [UnreadableFileDto] })
+  unreadableFiles: UnreadableFileDto[]
+
+  @ApiProperty({
+    description: 'Whether the download was refused in strict delivery mode',
+    example: false,
+  })
+  aborted: boolean
+
+  @ApiProperty({ example: '2025-08-10T09:12:03.000Z' })
+  recordedAt: Date
+}
+
+export class MailAttemptDto {
+  @ApiProperty({ enum: ['link', 'reminder'], example: 'link' })
+  kind: string
+
+  @ApiProperty({ description: 'Recipient address', example: 'user@example.com' })
+  to: string
+
+  @ApiProperty({ example: '2025-08-10T09:12:03.000Z' })
+  attemptedAt: Date
+
+  @ApiProperty({ enum: ['sent', 'failed'], example: 'sent' })
+  status: string
+
+  @ApiProperty({
+    description: 'Message-ID header of the email',
+    example: '1754817123000.9f2c4e1a7b3d5c60@photostdenis.com',
+    nullable: true,
+    type: String,
+  })
+  messageId: string | null
+
+  @ApiProperty({
+    description: 'Reason of the failure, null once sent',
+    example: null,
+    nullable: true,
+    type: String,
+  })
+  error: string | null
+}
+
+export class OrderDownloadsResponseDto {
+  @ApiProperty({ description: 'Order identifier', example: '66ba3c1f9d1e8a0012345678' })
+  orderId: string
+
+  @ApiProperty({
+    description: 'Whether the customer received every byte of the archive or of all its parts',
+    example: true,
+  })
+  fullyDelivered: boolean
+
+  @ApiProperty({ description: 'Downloads counted against the quota', example: 1 })
+  downloadCount: number
+
+  @ApiProperty({
+    description: 'Maximum number of downloads, null for unlimited',
+    example: 3,
+    nullable: true,
+    type: Number,
+  })
+  maxDownloads: number | null
+
+  @ApiProperty({
+    description: 'Downloads left, null for unlimited',
+    example: 2,
+    nullable: true,
+    type: Number,
+  })
+  remainingDownloads: number | null
+
+  @ApiProperty({
+    description: 'Time of the most recent download',
+    example: '2025-08-10T09:12:03.000Z',
+    nullable: true,
+    type: Date,
+  })
+  lastDownloadAt: Date | null
+
+  @ApiProperty({
+    description: 'Photos left out of the last archive requested, null when it was complete',
+    nullable: true,
+    type: DeliveryReportDto,
+  })
+  deliveryReport: DeliveryReportDto | null
+
+  @ApiProperty({
+    description: 'Emails sent to the customer, or that failed to be sent',
+    type: [MailAttemptDto],
+  })
+  mailAttempts: MailAttemptDto[]
+
+  @ApiProperty({ type: [DownloadEventDto] })
+  events: DownloadEventDto[]
+}
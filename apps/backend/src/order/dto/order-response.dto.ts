@@ -0,0 +1,148 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { CustomerLanguage, DownloadVariant, ZipFolderLayout } from '@photo-st-denis/shared'
+import { ArchiveStatus } from '../order.schema'
+
+export type OrderStatus = 'active' | 'expired' | 'revoked'
+
+export class OrderResponseDto {
+  @ApiProperty({ description: 'Order identifier', example: '66ba3c1f9d1e8a0012345678' })
+  id: string
+
+  @ApiProperty({ description: 'Customer email address', example: 'user@example.com' })
+  customerEmail: string
+
+  @ApiProperty({
+    description: 'Directories included in the order',
+    example: ['photos/event1', 'photos/event2'],
+    type: [String],
+  })
+  directoryPaths: string[]
+
+  @ApiProperty({ description: 'Order creation date', example: '2025-08-09T16:44:26.000Z' })
+  createdAt: Date
+
+  @ApiProperty({ description: 'Token expiration date', example: '2025-08-12T16:44:26.000Z' })
+  expiresAt: Date
+
+  @ApiProperty({
+    description: 'Expiry policy chosen when the order was created',
+    example: { name: 'standard', durationHours: 72 },
+    required: false,
+  })
+  expiryPolicy?: { name: string; durationHours: number }
+
+  @ApiProperty({
+    description: 'Staff member or API key that created the order',
+    example: { kind: 'user', id: '66ba3c1f9d1e8a0012345679', name: 'marie' },
+    required: false,
+  })
+  createdBy?: { kind: 'user' | 'api-key'; id: string; name: string }
+
+  @ApiProperty({
+    description: 'Date the order was revoked, if it was',
+    example: null,
+    nullable: true,
+    type: Date,
+  })
+  revokedAt: Date | null
+
+  @ApiProperty({
+    description: 'Maximum number of downloads, null for unlimited',
+    example: 3,
+    nullable: true,
+    type: Number,
+  })
+  maxDownloads: number | null
+
+  @ApiProperty({ description: 'Downloads counted against the quota', example: 1 })
+  downloadCount: number
+
+  @ApiProperty({
+    description: 'Variants the download link may request with ?variant=',
+    enum: ['full', 'web'],
+    isArray: true,
+    example: ['full', 'web'],
+  })
+  variants: DownloadVariant[]
+
+  @ApiProperty({
+    description: 'Whether GPS data and device identifiers are removed from the delivered photos',
+    example: false,
+  })
+  privacyMode: boolean
+
+  @ApiProperty({
+    description:
+      'File type profile selecting the delivered files, null for orders using the default profile from before profiles existed',
+    example: 'with-raw',
+    nullable: true,
+    type: String,
+  })
+  fileTypeProfile: string | null
+
+  @ApiProperty({
+    description: 'Folders of the directories in the archive',
+    enum: ['full-path', 'last-segment', 'flat', 'by-date'],
+    example: 'last-segment',
+  })
+  folderLayout: ZipFolderLayout
+
+  @ApiProperty({
+    description: 'Maximum size of each part of a split download in MB, null when not split',
+    example: 4000,
+    nullable: true,
+    type: Number,
+  })
+  maxPartSizeMb: number | null
+
+  @ApiProperty({
+    description:
+      'Progress of the background archive build; downloads stream live until it is ready',
+    enum: ['queued', 'building', 'ready', 'failed'],
+    example: 'ready',
+    nullable: true,
+  })
+  archiveStatus: ArchiveStatus | null
+
+  @ApiProperty({
+    description: 'Last archive build error',
+    example: null,
+    nullable: true,
+    type: String,
+  })
+  archiveError: string | null
+
+  @ApiProperty({
+    description: 'Language of the customer emails',
+    enum: ['fr', 'en'],
+    example: 'fr',
+  })
+  language: CustomerLanguage
+
+  @ApiProperty({
+    description: 'Whether the link is emailed to the customer, with a reminder before it expires',
+    example: true,
+  })
+  emailDelivery: boolean
+
+  @ApiProperty({
+    description: 'Whether the download link currently works',
+    enum: ['active', 'expired', 'revoked'],
+    example: 'active',
+  })
+  status: OrderStatus
+}
+
+export class OrderListResponseDto {
+  @ApiProperty({ type: [OrderResponseDto] })
+  items: OrderResponseDto[]
+
+  @ApiProperty({ description: 'Number of orders matching the search', example: 42 })
+  total: number
+
+  @ApiProperty({ description: 'Current page number', example: 1 })
+  page: number
+
+  @ApiProperty({ description: 'Orders per page', example: 20 })
+  limit: number
+}
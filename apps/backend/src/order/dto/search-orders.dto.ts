@@ -0,0 +1,52 @@
+import { IsDateString, IsInt, IsOptional, IsString, Max, Min } from 'class-validator'
+import { Type } from 'class-transformer'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+
+export class SearchOrdersDto {
+  @ApiPropertyOptional({
+    example: 'example.com',
+    description: 'Part of the customer email address (case-insensitive)',
+  })
+  @IsOptional()
+  @IsString()
+  email?: string
+
+  @ApiPropertyOptional({
+    example: 'weddings/2025',
+    description: 'Part of one of the order directory paths (case-insensitive)',
+  })
+  @IsOptional()
+  @IsString()
+  directoryPath?: string
+
+  @ApiPropertyOptional({
+    example: '2025-08-01T00:00:00.000Z',
+    description: 'Only orders created at or after this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string
+
+  @ApiPropertyOptional({
+    example: '2025-08-31T23:59:59.999Z',
+    description: 'Only orders created at or before this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string
+
+  @ApiPropertyOptional({ example: 1, description: 'Page number, starting at 1', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number
+
+  @ApiPropertyOptional({ example: 20, description: 'Orders per page', default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number
+}
@@ -0,0 +1,262 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Version,
+  Logger,
+  NotFoundException,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger'
+import { IsObjectIdPipe } from '@nestjs/mongoose'
+import { TokenService } from '../token/token.service'
+import { ExpiryPolicyService } from '../token/expiry-policy.service'
+import { AssociateResponseDto } from '../transfer/dto'
+import { Auth } from '../auth/decorators'
+import { OrderService } from './order.service'
+import { OrderDeliveryReport, OrderDocument } from './order.schema'
+import {
+  DeliveryReportDto,
+  SearchOrdersDto,
+  ExtendOrderDto,
+  OrderResponseDto,
+  OrderListResponseDto,
+  OrderDownloadsResponseDto,
+  OrderStatus,
+} from './dto'
+
+@ApiTags('orders')
+@Controller('orders')
+@Auth('admin', 'photographer')
+export class OrderController {
+  private readonly logger = new Logger(OrderController.name)
+
+  constructor(
+    private readonly orderService: OrderService,
+    private readonly tokenService: TokenService,
+    private readonly expiryPolicyService: ExpiryPolicyService,
+  ) {}
+
+  @Version('1')
+  @Get()
+  @ApiOperation({
+    summary: 'List and search orders',
+    description: 'Paginated order listing, filterable by email, directory path and creation date',
+  })
+  @ApiResponse({ status: 200, type: OrderListResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid search parameters' })
+  async list(
+    @Query(new ValidationPipe({ transform: true })) query: SearchOrdersDto,
+  ): Promise<OrderListResponseDto> {
+    const result = await this.orderService.searchOrders({
+      email: query.email,
+      directoryPath: query.directoryPath,
+      createdFrom: query.createdFrom ? new Date(query.createdFrom) : undefined,
+      createdTo: query.createdTo ? new Date(query.createdTo) : undefined,
+      page: query.page ?? 1,
+      limit: query.limit ?? 20,
+    })
+
+    return {
+      ...result,
+      items: result.items.map((order) => this.toResponse(order)),
+    }
+  }
+
+  @Version('1')
+  @Get(':id')
+  @ApiOperation({ summary: 'Get order details' })
+  @ApiParam({ name: 'id', description: 'Order identifier', type: 'string' })
+  @ApiResponse({ status: 200, type: OrderResponseDto })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async findOne(@Param('id', IsObjectIdPipe) id: string): Promise<OrderResponseDto> {
+    const order = await this.orderService.findById(id)
+
+    if (!order) {
+      throw new NotFoundException(`Order ${id} not found`)
+    }
+
+    return this.toResponse(order)
+  }
+
+  @Version('1')
+  @Get(':id/downloads')
+  @ApiOperation({
+    summary: 'Get the download history of an order',
+    description:
+      'Lists every download attempt and tells whether the archive was fully delivered, including downloads resumed over several requests',
+  })
+  @ApiParam({ name: 'id', description: 'Order identifier', type: 'string' })
+  @ApiResponse({ status: 200, type: OrderDownloadsResponseDto })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async findDownloads(@Param('id', IsObjectIdPipe) id: string): Promise<OrderDownloadsResponseDto> {
+    const order = await this.orderService.findById(id)
+
+    if (!order) {
+      throw new NotFoundException(`Order ${id} not found`)
+    }
+
+    const summary = this.orderService.getDeliverySummary(order)
+
+    return {
+      orderId: order.id,
+      ...summary,
+      downloadCount: order.downloadCount ?? 0,
+      maxDownloads: order.maxDownloads ?? null,
+      deliveryReport: this.toDeliveryReportDto(order.deliveryReport),
+      mailAttempts: (order.mailAttempts ?? []).map((attempt) => ({
+        kind: attempt.kind,
+        to: attempt.to,
+        attemptedAt: attempt.attemptedAt,
+        status: attempt.status,
+        messageId: attempt.messageId ?? null,
+        error: attempt.error ?? null,
+      })),
+      events: (order.downloadEvents ?? []).map((event) => ({
+        id: event._id.toString(),
+        startedAt: event.startedAt,
+        finishedAt: event.finishedAt ?? null,
+        status: event.status,
+        rangeStart: event.rangeStart,
+        rangeEnd: event.rangeEnd,
+        bytesSent: event.bytesSent,
+        archiveSize: event.archiveSize,
+        variant: event.variant ?? 'full',
+        format: event.format ?? 'zip',
+        part: event.part ?? null,
+        partCount: event.partCount ?? null,
+        directoryIndex: event.directoryIndex ?? null,
+        counted: event.counted ?? false,
+        clientIp: event.clientIp,
+        userAgent: event.userAgent,
+      })),
+    }
+  }
+
+  @Version('1')
+  @Post(':id/revoke')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke an order',
+    description: 'Invalidates the download token immediately',
+  })
+  @ApiParam({ name: 'id', description: 'Order identifier', type: 'string' })
+  @ApiResponse({ status: 200, type: OrderResponseDto })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async revoke(@Param('id', IsObjectIdPipe) id: string): Promise<OrderResponseDto> {
+    const order = await this.orderService.revokeOrder(id)
+    this.logger.log(`Revoked order ${id} for ${order.customerEmail}`)
+
+    return this.toResponse(order)
+  }
+
+  @Version('1')
+  @Post(':id/extend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change the expiry of an order',
+    description:
+      'Sets a new expiration date for the download token, within the bounds of new orders (TOKEN_EXPIRY_MIN_HOURS to TOKEN_EXPIRY_MAX_HOURS from now)',
+  })
+  @ApiParam({ name: 'id', description: 'Order identifier', type: 'string' })
+  @ApiResponse({ status: 200, type: OrderResponseDto })
+  @ApiResponse({ status: 400, description: 'Date outside the allowed range or order revoked' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async extend(
+    @Param('id', IsObjectIdPipe) id: string,
+    @Body() extendDto: ExtendOrderDto,
+  ): Promise<OrderResponseDto> {
+    const expiresAt = new Date(extendDto.expiresAt)
+    this.expiryPolicyService.assertAllowedExpiry(expiresAt)
+
+    const order = await this.orderService.extendExpiry(id, expiresAt)
+    this.logger.log(`Extended order ${id} until ${order.tokenExpiry.toISOString()}`)
+
+    return this.toResponse(order)
+  }
+
+  @Version('1')
+  @Post(':id/regenerate-token')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Regenerate the download token',
+    description: 'Issues a new download link; the previous link stops working',
+  })
+  @ApiParam({ name: 'id', description: 'Order identifier', type: 'string' })
+  @ApiResponse({ status: 200, type: AssociateResponseDto })
+  @ApiResponse({ status: 400, description: 'Order revoked' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async regenerateToken(@Param('id', IsObjectIdPipe) id: string): Promise<AssociateResponseDto> {
+    const token = this.tokenService.generateToken()
+    const order = await this.orderService.replaceToken(id, token)
+    this.logger.log(`Regenerated download token for order ${id}`)
+
+    return {
+      token,
+      downloadUrl: `/api/v1/transfer/download/${token}`,
+      pageUrl: `/d/${token}`,
+      expiresAt: order.tokenExpiry,
+      variants: order.variants,
+    }
+  }
+
+  private toResponse(order: OrderDocument): OrderResponseDto {
+    return {
+      id: order.id,
+      customerEmail: order.customerEmail,
+      directoryPaths: order.directoryPaths,
+      createdAt: order.createdAt,
+      expiresAt: order.tokenExpiry,
+      expiryPolicy: order.expiryPolicy,
+      createdBy: order.createdBy,
+      revokedAt: order.revokedAt ?? null,
+      maxDownloads: order.maxDownloads ?? null,
+      downloadCount: order.downloadCount ?? 0,
+      variants: order.variants?.length ? order.variants : ['full'],
+      privacyMode: order.privacyMode ?? false,
+      fileTypeProfile: order.fileTypeProfile ?? null,
+      folderLayout: order.folderLayout ?? 'last-segment',
+      maxPartSizeMb: order.maxPartSizeMb ?? null,
+      archiveStatus: order.archiveStatus ?? null,
+      archiveError: order.archiveError ?? null,
+      language: order.language ?? 'fr',
+      emailDelivery: order.emailDelivery ?? false,
+      status: this.getStatus(order),
+    }
+  }
+
+  private toDeliveryReportDto(report?: OrderDeliveryReport | null): DeliveryReportDto | null {
+    if (!report) {
+      return null
+    }
+
+    return {
+      variant: report.variant,
+      directoryIndex: report.directoryIndex ?? null,
+      skippedDirectories: report.skippedDirectories.map(({ index, path, reason }) => ({
+        index,
+        path,
+        reason,
+      })),
+      unreadableFiles: report.unreadableFiles.map(({ directoryIndex, path, reason }) => ({
+        directoryIndex,
+        path,
+        reason,
+      })),
+      aborted: report.aborted,
+      recordedAt: report.recordedAt,
+    }
+  }
+
+  private getStatus(order: OrderDocument): OrderStatus {
+    if (order.revokedAt) {
+      return 'revoked'
+    }
+    return order.tokenExpiry < new Date() ? 'expired' : 'active'
+  }
+}
@@ -1,10 +1,18 @@
 import { Module } from '@nestjs/common'
 import { MongooseModule } from '@nestjs/mongoose'
+import { TokenModule } from '../token/token.module'
+import { AuthModule } from '../auth/auth.module'
 import { OrderService } from './order.service'
+import { OrderController } from './order.controller'
 import { Order, OrderSchema } from './order.schema'
 
 @Module({
-  imports: [MongooseModule.forFeature([{ name: Order.name, schema: OrderSchema }])],
+  imports: [
+    MongooseModule.forFeature([{ name: Order.name, schema: OrderSchema }]),
+    TokenModule,
+    AuthModule,
+  ],
+  controllers: [OrderController],
   providers: [OrderService],
   exports: [OrderService],
 })
@@ -1,24 +1,355 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
-import { Document } from 'mongoose'
+import { Document, Types } from 'mongoose'
+import {
+  ARCHIVE_FORMATS,
+  ArchiveFormat,
+  CUSTOMER_LANGUAGES,
+  CustomerLanguage,
+  DOWNLOAD_VARIANTS,
+  DeliveryMailKind,
+  DownloadVariant,
+  ZIP_FOLDER_LAYOUTS,
+  ZipFolderLayout,
+} from '@photo-st-denis/shared'
 
 export type OrderDocument = Order & Document
 
+@Schema({ _id: false })
+export class OrderExpiryPolicy {
+  @Prop({ required: true })
+  name: string
+
+  @Prop({ required: true })
+  durationHours: number
+}
+
+export const OrderExpiryPolicySchema = SchemaFactory.createForClass(OrderExpiryPolicy)
+
+/**
+ * Staff member who created an order
+ */
+@Schema({ _id: false })
+export class OrderCreator {
+  @Prop({ required: true, enum: ['user', 'api-key'] })
+  kind: 'user' | 'api-key'
+
+  /** Id of the staff user or API key */
+  @Prop({ required: true })
+  id: string
+
+  /** Username, or API key name */
+  @Prop({ required: true })
+  name: string
+}
+
+export const OrderCreatorSchema = SchemaFactory.createForClass(OrderCreator)
+
+export type DownloadEventStatus = 'in_progress' | 'completed' | 'aborted'
+
+export type ArchiveStatus = 'queued' | 'building' | 'ready' | 'failed'
+
+/**
+ * One download request of an order, from the first to the last byte sent
+ */
+@Schema()
+export class DownloadEvent {
+  _id: Types.ObjectId
+
+  @Prop({ required: true })
+  startedAt: Date
+
+  @Prop({ type: Date, default: null })
+  finishedAt: Date | null
+
+  @Prop({ required: true, enum: ['in_progress', 'completed', 'aborted'], default: 'in_progress' })
+  status: DownloadEventStatus
+
+  /** First byte of the requested span (0 for a fresh download) */
+  @Prop({ required: true })
+  rangeStart: number
+
+  /** Last byte of the requested span (inclusive) */
+  @Prop({ required: true })
+  rangeEnd: number
+
+  @Prop({ default: 0 })
+  bytesSent: number
+
+  /** Size and validator of the archive version that was served */
+  @Prop({ required: true })
+  archiveSize: number
+
+  @Prop({ required: true })
+  archiveEtag: string
+
+  @Prop({ type: String, enum: DOWNLOAD_VARIANTS, default: 'full' })
+  variant: DownloadVariant
+
+  @Prop({ type: String, enum: ARCHIVE_FORMATS, default: 'zip' })
+  format: ArchiveFormat
+
+  /** Part served and number of parts of the split archive, null for a whole archive */
+  @Prop({ type: Number, default: null })
+  part: number | null
+
+  @Prop({ type: Number, default: null })
+  partCount: number | null
+
+  /** Index of the only directory served, null for every directory of the order */
+  @Prop({ type: Number, default: null })
+  directoryIndex: number | null
+
+  /** Whether the request used one download of the order quota */
+  @Prop({ default: false })
+  counted: boolean
+
+  /**
+   * Archive the download counts for: its validator, or the validator of the first part of
+   * a split archive. Resumed requests of an archive already counted are free.
+   */
+  @Prop({ type: String, default: null })
+  quotaEtag: string | null
+
+  @Prop()
+  clientIp?: string
+
+  @Prop()
+  userAgent?: string
+}
+
+export const DownloadEventSchema = SchemaFactory.createForClass(DownloadEvent)
+
+/**
+ * SHA-256 of a delivered file, as first computed, to detect later changes of its source
+ */
+@Schema({ _id: false })
+export class DeliveredChecksum {
+  @Prop({ type: String, enum: DOWNLOAD_VARIANTS, required: true })
+  variant: DownloadVariant
+
+  /** Entry name in the archive */
+  @Prop({ required: true })
+  name: string
+
+  @Prop({ required: true })
+  size: number
+
+  @Prop({ required: true })
+  sha256: string
+
+  @Prop({ required: true })
+  recordedAt: Date
+}
+
+export const DeliveredChecksumSchema = SchemaFactory.createForClass(DeliveredChecksum)
+
+@Schema({ _id: false })
+export class ReportedDirectory {
+  /** Index of the directory in the order */
+  @Prop({ required: true })
+  index: number
+
+  @Prop({ required: true })
+  path: string
+
+  @Prop({ required: true })
+  reason: string
+}
+
+export const ReportedDirectorySchema = SchemaFactory.createForClass(ReportedDirectory)
+
+@Schema({ _id: false })
+export class ReportedFile {
+  /** Index of the directory holding the file */
+  @Prop({ required: true })
+  directoryIndex: number
+
+  /** Path of the file below its directory */
+  @Prop({ required: true })
+  path: string
+
+  @Prop({ required: true })
+  reason: string
+}
+
+export const ReportedFileSchema = SchemaFactory.createForClass(ReportedFile)
+
+/**
+ * Directories and files left out of the last archive requested for an order
+ */
+@Schema({ _id: false })
+export class OrderDeliveryReport {
+  @Prop({ type: String, enum: DOWNLOAD_VARIANTS, required: true })
+  variant: DownloadVariant
+
+  /** Index of the only directory requested, null for every directory of the order */
+  @Prop({ type: Number, default: null })
+  directoryIndex: number | null
+
+  @Prop({ type: [ReportedDirectorySchema], default: [] })
+  skippedDirectories: ReportedDirectory[]
+
+  @Prop({ type: [ReportedFileSchema], default: [] })
+  unreadableFiles: ReportedFile[]
+
+  /** Whether the download was refused in strict delivery mode rather than sent partially */
+  @Prop({ default: false })
+  aborted: boolean
+
+  @Prop({ required: true })
+  recordedAt: Date
+}
+
+export const OrderDeliveryReportSchema = SchemaFactory.createForClass(OrderDeliveryReport)
+
+export type MailAttemptStatus = 'sent' | 'failed'
+
+/**
+ * Email sent, or that failed to be sent, to the customer of an order
+ */
+@Schema({ _id: false })
+export class MailAttempt {
+  @Prop({ type: String, enum: ['link', 'reminder'], required: true })
+  kind: DeliveryMailKind
+
+  @Prop({ required: true })
+  to: string
+
+  @Prop({ required: true })
+  attemptedAt: Date
+
+  @Prop({ type: String, enum: ['sent', 'failed'], required: true })
+  status: MailAttemptStatus
+
+  /** Message-ID header of the email */
+  @Prop({ type: String, default: null })
+  messageId: string | null
+
+  /** Reason of the failure, null once sent */
+  @Prop({ type: String, default: null })
+  error: string | null
+}
+
+export const MailAttemptSchema = SchemaFactory.createForClass(MailAttempt)
+
 @Schema()
 export class Order {
   @Prop({ required: true })
   customerEmail: string
 
-  @Prop({ required: true, unique: true })
-  downloadToken: string
+  /** HMAC of the download token, the token itself is never stored */
+  @Prop({ unique: true, sparse: true })
+  downloadTokenHash: string
+
+  /** Plaintext token of orders created before tokens were hashed, removed at startup */
+  @Prop()
+  downloadToken?: string
 
   @Prop({ required: true })
   tokenExpiry: Date
 
+  @Prop({ type: OrderExpiryPolicySchema })
+  expiryPolicy?: OrderExpiryPolicy
+
   @Prop({ type: [String], required: true })
   directoryPaths: string[]
 
+  /** Variants the download link may request; orders created before variants existed get full only */
+  @Prop({ type: [String], enum: DOWNLOAD_VARIANTS, default: ['full'] })
+  variants: DownloadVariant[]
+
+  /** Whether GPS data and device identifiers are removed from the delivered photos */
+  @Prop({ default: false })
+  privacyMode: boolean
+
+  /** File type profile selecting the delivered files; null for orders created before profiles, which use the default */
+  @Prop({ type: String, default: null })
+  fileTypeProfile: string | null
+
+  /** Folders of the directories in the archive; orders created before layouts existed use the last segment */
+  @Prop({ type: String, enum: ZIP_FOLDER_LAYOUTS, default: 'last-segment' })
+  folderLayout: ZipFolderLayout
+
+  /** Maximum size of each part when the download is split, null for one whole archive */
+  @Prop({ type: Number, default: null })
+  maxPartSizeMb: number | null
+
+  /** Language of the emails sent to the customer */
+  @Prop({ type: String, enum: CUSTOMER_LANGUAGES, default: 'fr' })
+  language: CustomerLanguage
+
+  /** Whether the link is emailed to the customer, with a reminder before it expires */
+  @Prop({ default: false })
+  emailDelivery: boolean
+
+  /** Download token encrypted with TOKEN_SECRET, kept only for the emails of the order */
+  @Prop({ type: String, default: null })
+  sealedToken: string | null
+
+  @Prop({ type: [MailAttemptSchema], default: [] })
+  mailAttempts: MailAttempt[]
+
+  /** Set when an instance takes the reminder of the current expiry, cleared when the expiry changes */
+  @Prop({ type: Date, default: null })
+  reminderSentAt: Date | null
+
   @Prop({ default: Date.now })
   createdAt: Date
+
+  @Prop({ type: OrderCreatorSchema })
+  createdBy?: OrderCreator
+
+  @Prop({ type: Date, default: null })
+  revokedAt: Date | null
+
+  /** Set by the retention job once the token has expired, cleared when the expiry is extended */
+  @Prop({ type: Date, default: null })
+  expiredAt: Date | null
+
+  /** Set when the retention job removed the customer data of the order */
+  @Prop({ type: Date, default: null })
+  anonymizedAt: Date | null
+
+  /** Maximum number of downloads starting at byte 0, null for unlimited */
+  @Prop({ type: Number, default: null })
+  maxDownloads: number | null
+
+  /** Number of downloads counted against maxDownloads */
+  @Prop({ default: 0 })
+  downloadCount: number
+
+  /**
+   * Single file downloads, each counted against maxDownloads on its own, keyed by
+   * "variant:file ID" with the dot of the ID replaced
+   */
+  @Prop({ type: Map, of: Number, default: {} })
+  fileDownloadCounts: Map<string, number>
+
+  @Prop({ type: [DownloadEventSchema], default: [] })
+  downloadEvents: DownloadEvent[]
+
+  /** Checksums of the delivered files, one per variant and entry name */
+  @Prop({ type: [DeliveredChecksumSchema], default: [] })
+  checksums: DeliveredChecksum[]
+
+  /** What the last archive left out, null when it held every photo of the order */
+  @Prop({ type: OrderDeliveryReportSchema, default: null })
+  deliveryReport: OrderDeliveryReport | null
+
+  /** Progress of the background archive build, null when it was never queued */
+  @Prop({ type: String, enum: ['queued', 'building', 'ready', 'failed'], default: null })
+  archiveStatus: ArchiveStatus | null
+
+  /** Last build error, kept while the build is retried */
+  @Prop({ type: String, default: null })
+  archiveError: string | null
+
+  @Prop({ type: Date, default: null })
+  archiveReadyAt: Date | null
 }
 
 export const OrderSchema = SchemaFactory.createForClass(Order)
+
+OrderSchema.index({ tokenExpiry: 1 })
+OrderSchema.index({ customerEmail: 1 })
+OrderSchema.index({ createdAt: -1 })
@@ -1,29 +1,223 @@
-import { Injectable } from '@nestjs/common'
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
 import { InjectModel } from '@nestjs/mongoose'
-import { Model } from 'mongoose'
-import { Order, OrderDocument } from './order.schema'
+import { FilterQuery, Model, Types } from 'mongoose'
+import {
+  ArchiveFormat,
+  CustomerLanguage,
+  DOWNLOAD_VARIANTS,
+  DeliveryMailKind,
+  DeliveryReport,
+  DownloadVariant,
+  ZipFolderLayout,
+} from '@photo-st-denis/shared'
+import { TokenService } from '../token/token.service'
+import {
+  ArchiveStatus,
+  DownloadEvent,
+  DownloadEventStatus,
+  MailAttemptStatus,
+  Order,
+  OrderCreator,
+  OrderDocument,
+  OrderExpiryPolicy,
+} from './order.schema'
+
+/** Download events kept on an order, the oldest are dropped beyond it */
+const MAX_DOWNLOAD_EVENTS = 500
 
 interface OrderInput {
   customerEmail: string
+  /** Plaintext download token, only its hash is persisted */
   downloadToken: string
   tokenExpiry: Date
   directoryPaths: string[]
+  expiryPolicy?: OrderExpiryPolicy
+  maxDownloads?: number | null
+  variants?: DownloadVariant[]
+  privacyMode?: boolean
+  fileTypeProfile?: string
+  folderLayout?: ZipFolderLayout
+  maxPartSizeMb?: number
+  createdBy?: OrderCreator
+  language?: CustomerLanguage
+  /** Email the link and a reminder; the token is then also kept encrypted */
+  emailDelivery?: boolean
+}
+
+export interface DownloadEventInput {
+  rangeStart: number
+  rangeEnd: number
+  archiveSize: number
+  archiveEtag: string
+  variant?: DownloadVariant
+  format?: ArchiveFormat
+  /** Part served and number of parts when the archive is split */
+  part?: number | null
+  partCount?: number | null
+  directoryIndex?: number | null
+  /** Validator of the archive, or of the first part of a split archive */
+  quotaEtag: string
+  clientIp?: string
+  userAgent?: string
+}
+
+export interface ChecksumInput {
+  /** Entry name in the archive */
+  name: string
+  size: number
+  sha256: string
+}
+
+export interface MailAttemptInput {
+  kind: DeliveryMailKind
+  to: string
+  status: MailAttemptStatus
+  messageId?: string | null
+  error?: string | null
+}
+
+export interface DeliveryReportInput extends DeliveryReport {
+  variant: DownloadVariant
+  directoryIndex: number | null
+  /** Whether the download was refused rather than sent without the reported photos */
+  aborted: boolean
+}
+
+export interface DeliverySummary {
+  /** Whether every byte of one archive version, or of all its parts, reached the customer */
+  fullyDelivered: boolean
+  /** Downloads left before the quota is used up, null for unlimited */
+  remainingDownloads: number | null
+  lastDownloadAt: Date | null
+}
+
+export interface OrderSearchCriteria {
+  email?: string
+  directoryPath?: string
+  createdFrom?: Date
+  createdTo?: Date
+  page: number
+  limit: number
+}
+
+export interface PaginatedOrders {
+  items: OrderDocument[]
+  total: number
+  page: number
+  limit: number
 }
 
 @Injectable()
-export class OrderService {
-  constructor(@InjectModel(Order.name) private orderModel: Model<OrderDocument>) {}
+export class OrderService implements OnModuleInit {
+  private readonly logger = new Logger(OrderService.name)
+
+  constructor(
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    private configService: ConfigService,
+    private tokenService: TokenService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      const migrated = await this.migratePlaintextTokens()
+      if (migrated > 0) {
+        this.logger.log(`Hashed the download tokens of ${migrated} existing orders`)
+      }
+    } catch (error) {
+      this.logger.error('Failed to migrate plaintext download tokens', error)
+    }
+  }
 
-  async createOrder(orderInput: OrderInput): Promise<Order> {
-    const createdOrder = new this.orderModel(orderInput)
+  async createOrder(orderInput: OrderInput): Promise<OrderDocument> {
+    const { downloadToken, ...order } = orderInput
+    const createdOrder = new this.orderModel({
+      ...order,
+      downloadTokenHash: this.tokenService.hashToken(downloadToken),
+      sealedToken: orderInput.emailDelivery ? this.tokenService.sealToken(downloadToken) : null,
+      maxDownloads: orderInput.maxDownloads ?? this.getDefaultMaxDownloads(),
+      variants: orderInput.variants ?? this.getDefaultVariants(),
+    })
     return createdOrder.save()
   }
 
-  async findByToken(token: string): Promise<Order | null> {
-    return this.orderModel.findOne({ downloadToken: token }).exec()
+  /**
+   * Default download quota for new orders from DOWNLOAD_MAX_PER_ORDER, null for unlimited
+   */
+  getDefaultMaxDownloads(): number | null {
+    const maxDownloads = this.configService.get<string>('DOWNLOAD_MAX_PER_ORDER')
+    return maxDownloads ? Number(maxDownloads) : null
   }
 
-  async findById(id: string): Promise<Order | null> {
+  /**
+   * Default variants of new orders from DOWNLOAD_VARIANTS_DEFAULT, e.g. "full,web"
+   */
+  getDefaultVariants(): DownloadVariant[] {
+    const variants = String(this.configService.get('DOWNLOAD_VARIANTS_DEFAULT', 'full,web'))
+      .split(',')
+      .map((variant) => variant.trim())
+      .filter((variant): variant is DownloadVariant =>
+        DOWNLOAD_VARIANTS.includes(variant as DownloadVariant),
+      )
+
+    return variants.length ? variants : ['full']
+  }
+
+  async findByToken(token: string): Promise<OrderDocument | null> {
+    const order = await this.orderModel
+      .findOne({ downloadTokenHash: this.tokenService.hashToken(token) })
+      .exec()
+
+    if (!order || !this.tokenService.verifyToken(token, order.downloadTokenHash)) {
+      return null
+    }
+
+    return order
+  }
+
+  /**
+   * Replaces the plaintext tokens of orders created before tokens were hashed
+   * with their hash, so existing links keep working until they expire.
+   *
+   * @returns Number of migrated orders
+   */
+  async migratePlaintextTokens(): Promise<number> {
+    // The unique index on the old field would reject every order without a plaintext token
+    if (await this.orderModel.collection.indexExists('downloadToken_1')) {
+      await this.orderModel.collection.dropIndex('downloadToken_1')
+    }
+
+    const legacyOrders = await this.orderModel
+      .find({ downloadToken: { $type: 'string' } })
+      .select('downloadToken')
+      .exec()
+
+    if (legacyOrders.length === 0) {
+      return 0
+    }
+
+    await this.orderModel.bulkWrite(
+      legacyOrders.map((order) => ({
+        updateOne: {
+          filter: { _id: order._id },
+          update: {
+            $set: { downloadTokenHash: this.tokenService.hashToken(order.downloadToken!) },
+            $unset: { downloadToken: 1 },
+          },
+        },
+      })),
+    )
+
+    return legacyOrders.length
+  }
+
+  async findById(id: string): Promise<OrderDocument | null> {
     return this.orderModel.findById(id).exec()
   }
 
@@ -34,4 +228,557 @@ export class OrderService {
       .limit(limit)
       .exec()
   }
+
+  /**
+   * Searches orders by customer email, directory path and creation date range.
+   * Email and directory path are matched as case-insensitive substrings.
+   */
+  async searchOrders(criteria: OrderSearchCriteria): Promise<PaginatedOrders> {
+    const filter: FilterQuery<OrderDocument> = {}
+
+    if (criteria.email) {
+      filter.customerEmail = { $regex: this.escapeRegex(criteria.email), $options: 'i' }
+    }
+
+    if (criteria.directoryPath) {
+      filter.directoryPaths = { $regex: this.escapeRegex(criteria.directoryPath), $options: 'i' }
+    }
+
+    if (criteria.createdFrom || criteria.createdTo) {
+      filter.createdAt = {
+        ...(criteria.createdFrom && { $gte: criteria.createdFrom }),
+        ...(criteria.createdTo && { $lte: criteria.createdTo }),
+      }
+    }
+
+    const [items, total] = await Promise.all([
+      this.orderModel
+        .find(filter)
+        .sort({ createdAt: -1 }) // Newest first
+        .skip((criteria.page - 1) * criteria.limit)
+        .limit(criteria.limit)
+        .exec(),
+      this.orderModel.countDocuments(filter).exec(),
+    ])
+
+    return { items, total, page: criteria.page, limit: criteria.limit }
+  }
+
+  /**
+   * Revokes an order so its download token stops working immediately.
+   * Revoking an already revoked order keeps the original revocation date.
+   */
+  async revokeOrder(id: string): Promise<OrderDocument> {
+    const order = await this.getOrderOrFail(id)
+
+    if (!order.revokedAt) {
+      order.revokedAt = new Date()
+      await order.save()
+    }
+
+    return order
+  }
+
+  async extendExpiry(id: string, tokenExpiry: Date): Promise<OrderDocument> {
+    const order = await this.getOrderOrFail(id)
+    this.assertNotRevoked(order)
+
+    if (tokenExpiry <= new Date()) {
+      throw new BadRequestException('New expiry date must be in the future')
+    }
+
+    order.tokenExpiry = tokenExpiry
+    order.expiredAt = null
+    // The new expiry date gets its own reminder
+    order.reminderSentAt = null
+    return order.save()
+  }
+
+  /**
+   * Replaces the download token of an order, invalidating the previous link
+   */
+  async replaceToken(id: string, downloadToken: string): Promise<OrderDocument> {
+    const order = await this.getOrderOrFail(id)
+    this.assertNotRevoked(order)
+
+    order.downloadTokenHash = this.tokenService.hashToken(downloadToken)
+    if (order.emailDelivery) {
+      order.sealedToken = this.tokenService.sealToken(downloadToken)
+    }
+    return order.save()
+  }
+
+  /**
+   * Flags the orders whose token expired since the last retention run
+   *
+   * @returns Number of newly flagged orders
+   */
+  async markExpiredOrders(now = new Date()): Promise<number> {
+    const result = await this.orderModel
+      .updateMany({ tokenExpiry: { $lte: now }, expiredAt: null }, { $set: { expiredAt: now } })
+      .exec()
+
+    return result.modifiedCount
+  }
+
+  /**
+   * Ids of orders that expired or were revoked before the cutoff date and still
+   * hold customer data, oldest first
+   */
+  async findOrdersPastRetention(cutoff: Date, limit: number): Promise<string[]> {
+    const orders = await this.orderModel
+      .find(
+        {
+          anonymizedAt: null,
+          $or: [{ tokenExpiry: { $lte: cutoff } }, { revokedAt: { $lte: cutoff } }],
+        },
+        { _id: 1 },
+      )
+      .sort({ tokenExpiry: 1 })
+      .limit(limit)
+      .exec()
+
+    return orders.map((order) => order.id as string)
+  }
+
+  async deleteOrders(ids: string[]): Promise<number> {
+    const result = await this.orderModel.deleteMany({ _id: { $in: ids } }).exec()
+    return result.deletedCount
+  }
+
+  /**
+   * Removes the customer data of orders while keeping them for statistics: the
+   * email is replaced, and the token hash and download client details are dropped
+   */
+  async anonymizeOrders(ids: string[]): Promise<number> {
+    const result = await this.orderModel
+      .updateMany({ _id: { $in: ids }, anonymizedAt: null }, [
+        {
+          $set: {
+            customerEmail: { $concat: ['anonymized-', { $toString: '$_id' }, '@invalid'] },
+            anonymizedAt: new Date(),
+          },
+        },
+        {
+          $unset: [
+            'downloadTokenHash',
+            'downloadToken',
+            'sealedToken',
+            'mailAttempts.to',
+            'downloadEvents.clientIp',
+            'downloadEvents.userAgent',
+          ],
+        },
+      ])
+      .exec()
+
+    return result.modifiedCount
+  }
+
+  /**
+   * Filters order ids down to the orders that still exist and were not anonymized
+   */
+  async findRetainedOrderIds(ids: string[]): Promise<string[]> {
+    const validIds = ids.filter((id) => Types.ObjectId.isValid(id))
+    const orders = await this.orderModel
+      .find({ _id: { $in: validIds }, anonymizedAt: null }, { _id: 1 })
+      .exec()
+
+    return orders.map((order) => order.id as string)
+  }
+
+  /**
+   * Records the progress of the background archive build
+   *
+   * @param error - Reason of the last failure, cleared when omitted
+   */
+  async setArchiveStatus(orderId: string, status: ArchiveStatus, error?: string): Promise<void> {
+    await this.orderModel
+      .updateOne(
+        { _id: orderId },
+        {
+          $set: {
+            archiveStatus: status,
+            archiveError: error ?? null,
+            ...(status === 'ready' && { archiveReadyAt: new Date() }),
+          },
+        },
+      )
+      .exec()
+  }
+
+  /**
+   * Records the start of a download.
+   * Downloads from the first byte count against the order quota. Resumed requests (byte
+   * ranges further in the archive) and the other parts of a split archive are free once
+   * a download of the same archive was counted, and count like a new download otherwise.
+   * Single files have a budget of their own, see countFileDownload.
+   *
+   * @returns Id of the recorded event, or null when the quota is used up
+   */
+  async startDownloadEvent(orderId: string, input: DownloadEventInput): Promise<string | null> {
+    if (input.rangeStart > 0 || (input.part ?? 1) > 1) {
+      const eventId = await this.pushDownloadEvent(
+        {
+          _id: orderId,
+          downloadEvents: { $elemMatch: { quotaEtag: input.quotaEtag, counted: true } },
+        },
+        input,
+        false,
+      )
+      if (eventId) {
+        return eventId
+      }
+    }
+
+    // The quota check and the counter increment happen in one atomic update
+    return this.pushDownloadEvent(
+      {
+        _id: orderId,
+        $or: [{ maxDownloads: null }, { $expr: { $lt: ['$downloadCount', '$maxDownloads'] } }],
+      },
+      input,
+      true,
+    )
+  }
+
+  /**
+   * Counts a single file served from its first byte. Single files do not use the archive
+   * downloads: each file can be served maxDownloads times per variant, so viewing photos
+   * never locks the archive. Resumed requests of a file already counted are free.
+   * Single files are not recorded as download events, which are kept for the archives.
+   *
+   * @returns Whether the file can be served, false when its downloads are used up
+   */
+  async countFileDownload(
+    orderId: string,
+    variant: DownloadVariant,
+    fileId: string,
+    rangeStart: number,
+  ): Promise<boolean> {
+    // Map keys cannot contain the dot of file IDs
+    const counter = `fileDownloadCounts.${variant}:${fileId.replace(/\./g, ':')}`
+
+    if (
+      rangeStart > 0 &&
+      (await this.orderModel.exists({ _id: orderId, [counter]: { $gte: 1 } }))
+    ) {
+      return true
+    }
+
+    // The quota check and the counter increment happen in one atomic update
+    const result = await this.orderModel
+      .updateOne(
+        {
+          _id: orderId,
+          $or: [
+            { maxDownloads: null },
+            { $expr: { $lt: [{ $ifNull: [`$${counter}`, 0] }, '$maxDownloads'] } },
+          ],
+        },
+        { $inc: { [counter]: 1 } },
+      )
+      .exec()
+
+    return result.modifiedCount > 0
+  }
+
+  /**
+   * Marks a download that could not start as aborted and gives its download back
+   */
+  async cancelDownloadEvent(orderId: string, eventId: string): Promise<void> {
+    const aborted = {
+      'downloadEvents.$.status': 'aborted',
+      'downloadEvents.$.finishedAt': new Date(),
+    }
+    const refunded = await this.orderModel
+      .updateOne(
+        { _id: orderId, downloadEvents: { $elemMatch: { _id: eventId, counted: true } } },
+        {
+          $set: { ...aborted, 'downloadEvents.$.counted': false },
+          $inc: { downloadCount: -1 },
+        },
+      )
+      .exec()
+
+    if (refunded.modifiedCount === 0) {
+      await this.orderModel
+        .updateOne({ _id: orderId, 'downloadEvents._id': eventId }, { $set: aborted })
+        .exec()
+    }
+  }
+
+  private async pushDownloadEvent(
+    filter: FilterQuery<OrderDocument>,
+    input: DownloadEventInput,
+    counted: boolean,
+  ): Promise<string | null> {
+    const eventId = new Types.ObjectId()
+    const result = await this.orderModel
+      .updateOne(filter, {
+        $push: {
+          downloadEvents: {
+            $each: [
+              {
+                _id: eventId,
+                startedAt: new Date(),
+                status: 'in_progress',
+                bytesSent: 0,
+                ...input,
+                counted,
+              },
+            ],
+            $slice: -MAX_DOWNLOAD_EVENTS,
+          },
+        },
+        ...(counted && { $inc: { downloadCount: 1 } }),
+      })
+      .exec()
+
+    return result.modifiedCount > 0 ? eventId.toString() : null
+  }
+
+  async finishDownloadEvent(
+    orderId: string,
+    eventId: string,
+    status: Exclude<DownloadEventStatus, 'in_progress'>,
+    bytesSent: number,
+  ): Promise<void> {
+    await this.orderModel
+      .updateOne(
+        { _id: orderId, 'downloadEvents._id': eventId },
+        {
+          $set: {
+            'downloadEvents.$.status': status,
+            'downloadEvents.$.finishedAt': new Date(),
+            'downloadEvents.$.bytesSent': bytesSent,
+          },
+        },
+      )
+      .exec()
+  }
+
+  /**
+   * Records the checksums of delivered files that have none yet for the variant, and
+   * returns the ones recorded first. Recorded checksums are never replaced, so they keep
+   * what was first sent to the customer and later downloads can be compared to them.
+   *
+   * @param checksums - Checksums of the files as just computed
+   * @returns First recorded SHA-256 of each file, in order
+   */
+  async recordChecksums(
+    orderId: string,
+    variant: DownloadVariant,
+    checksums: ChecksumInput[],
+  ): Promise<string[]> {
+    const order = await this.getOrderOrFail(orderId)
+    const recorded = this.getRecordedChecksums(order, variant)
+    const added = checksums.filter((checksum) => !recorded.has(checksum.name))
+
+    if (added.length) {
+      const recordedAt = new Date()
+      await this.orderModel
+        .updateOne(
+          { _id: orderId },
+          {
+            $push: {
+              checksums: { $each: added.map((checksum) => ({ variant, ...checksum, recordedAt })) },
+            },
+          },
+        )
+        .exec()
+    }
+
+    return checksums.map((checksum) => recorded.get(checksum.name) ?? checksum.sha256)
+  }
+
+  /**
+   * First recorded SHA-256 of the delivered files of a variant, by entry name
+   */
+  getRecordedChecksums(order: Order, variant: DownloadVariant): Map<string, string> {
+    const recorded = new Map<string, string>()
+
+    for (const checksum of order.checksums ?? []) {
+      // Concurrent downloads may both record a file, the first one wins
+      if (checksum.variant === variant && !recorded.has(checksum.name)) {
+        recorded.set(checksum.name, checksum.sha256)
+      }
+    }
+
+    return recorded
+  }
+
+  async recordMailAttempt(orderId: string, attempt: MailAttemptInput): Promise<void> {
+    await this.orderModel
+      .updateOne(
+        { _id: orderId },
+        {
+          $push: {
+            mailAttempts: {
+              messageId: null,
+              error: null,
+              ...attempt,
+              attemptedAt: new Date(),
+            },
+          },
+        },
+      )
+      .exec()
+  }
+
+  /**
+   * Orders with email delivery whose link expires before the given date and whose
+   * reminder was not taken yet, soonest expiry first. Orders created after the given
+   * date are left out, their link email is recent enough.
+   */
+  async findOrdersDueForReminder(
+    expiringBefore: Date,
+    createdBefore: Date,
+    limit: number,
+  ): Promise<OrderDocument[]> {
+    return this.orderModel
+      .find({
+        emailDelivery: true,
+        sealedToken: { $ne: null },
+        reminderSentAt: null,
+        revokedAt: null,
+        anonymizedAt: null,
+        tokenExpiry: { $gt: new Date(), $lte: expiringBefore },
+        createdAt: { $lte: createdBefore },
+      })
+      .sort({ tokenExpiry: 1 })
+      .limit(limit)
+      .exec()
+  }
+
+  /**
+   * Takes the reminder of an order, so that a single instance sends it
+   *
+   * @returns Whether this call took it
+   */
+  async claimReminder(orderId: string): Promise<boolean> {
+    const result = await this.orderModel
+      .updateOne({ _id: orderId, reminderSentAt: null }, { $set: { reminderSentAt: new Date() } })
+      .exec()
+
+    return result.modifiedCount > 0
+  }
+
+  /**
+   * Gives back a reminder that failed to be sent, so a later run retries it
+   */
+  async releaseReminder(orderId: string): Promise<void> {
+    await this.orderModel.updateOne({ _id: orderId }, { $set: { reminderSentAt: null } }).exec()
+  }
+
+  /**
+   * Replaces the delivery report of an order, or clears it once an archive holds every photo
+   */
+  async setDeliveryReport(orderId: string, report: DeliveryReportInput | null): Promise<void> {
+    await this.orderModel
+      .updateOne(
+        { _id: orderId },
+        { $set: { deliveryReport: report && { ...report, recordedAt: new Date() } } },
+      )
+      .exec()
+  }
+
+  /**
+   * Summarizes the download history of an order.
+   * An order counts as fully delivered when the byte spans sent for one archive
+   * version cover the whole archive, even if it took several resumed requests.
+   * A split archive needs every one of its parts; downloads of one directory do not count.
+   */
+  getDeliverySummary(order: Order): DeliverySummary {
+    const events = order.downloadEvents ?? []
+    const spansByArchive = new Map<
+      string,
+      { size: number; spans: [number, number][]; event: DownloadEvent }
+    >()
+
+    for (const event of events) {
+      // A single directory does not deliver the order
+      if (event.bytesSent <= 0 || (event.directoryIndex ?? null) !== null) {
+        continue
+      }
+
+      const archive = spansByArchive.get(event.archiveEtag) ?? {
+        size: event.archiveSize,
+        spans: [],
+        event,
+      }
+      archive.spans.push([event.rangeStart, event.rangeStart + event.bytesSent - 1])
+      spansByArchive.set(event.archiveEtag, archive)
+    }
+
+    // Delivered parts of each split, keyed by variant, format and number of parts
+    const deliveredParts = new Map<string, Set<number>>()
+    let fullyDelivered = false
+
+    for (const { size, spans, event } of spansByArchive.values()) {
+      if (!this.coversWholeArchive(spans, size)) {
+        continue
+      }
+      if (!event.part || !event.partCount) {
+        fullyDelivered = true
+        break
+      }
+
+      const split = `${event.variant}:${event.format}:${event.partCount}`
+      const parts = deliveredParts.get(split) ?? new Set<number>()
+      parts.add(event.part)
+      deliveredParts.set(split, parts)
+
+      if (parts.size === event.partCount) {
+        fullyDelivered = true
+        break
+      }
+    }
+
+    const lastDownloadAt = events.length
+      ? new Date(Math.max(...events.map((event) => new Date(event.startedAt).getTime())))
+      : null
+
+    return {
+      fullyDelivered,
+      remainingDownloads:
+        order.maxDownloads === null || order.maxDownloads === undefined
+          ? null
+          : Math.max(order.maxDownloads - (order.downloadCount ?? 0), 0),
+      lastDownloadAt,
+    }
+  }
+
+  private coversWholeArchive(spans: [number, number][], archiveSize: number): boolean {
+    let coveredUntil = -1
+
+    for (const [start, end] of [...spans].sort((a, b) => a[0] - b[0])) {
+      if (start > coveredUntil + 1) {
+        return false
+      }
+      coveredUntil = Math.max(coveredUntil, end)
+    }
+
+    return coveredUntil >= archiveSize - 1
+  }
+
+  private async getOrderOrFail(id: string): Promise<OrderDocument> {
+    const order = await this.findById(id)
+
+    if (!order) {
+      throw new NotFoundException(`Order ${id} not found`)
+    }
+
+    return order
+  }
+
+  private assertNotRevoked(order: OrderDocument): void {
+    if (order.revokedAt) {
+      throw new BadRequestException('Order has been revoked')
+    }
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
 }
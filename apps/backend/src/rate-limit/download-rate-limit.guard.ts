@@ -0,0 +1,42 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common'
+import type { Request, Response } from 'express'
+import { DownloadRateLimitService } from './download-rate-limit.service'
+
+const MESSAGES = {
+  lockout: 'Too many invalid download tokens, try again later',
+  ip: 'Too many download requests, try again later',
+  global: 'The server is handling too many downloads, try again later',
+}
+
+/**
+ * Refuses download requests over the rate limits with 429 and a Retry-After header
+ */
+@Injectable()
+export class DownloadRateLimitGuard implements CanActivate {
+  private readonly logger = new Logger(DownloadRateLimitGuard.name)
+
+  constructor(private readonly rateLimitService: DownloadRateLimitService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const http = context.switchToHttp()
+    const request = http.getRequest<Request>()
+    const ip = request.ip ?? 'unknown'
+    const decision = await this.rateLimitService.consume(ip)
+
+    if (decision.allowed) {
+      return true
+    }
+
+    this.logger.warn(`Rate limited download request from ${ip} (${decision.reason})`)
+    http.getResponse<Response>().setHeader('Retry-After', String(decision.retryAfterSeconds))
+
+    throw new HttpException(MESSAGES[decision.reason!], HttpStatus.TOO_MANY_REQUESTS)
+  }
+}
@@ -0,0 +1,98 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { RATE_LIMIT_STORE, RateLimitStore } from './stores'
+
+export interface RateLimitDecision {
+  allowed: boolean
+  /** Seconds until the client may retry, set when the request is refused */
+  retryAfterSeconds?: number
+  reason?: 'lockout' | 'ip' | 'global'
+}
+
+/**
+ * Rate limits token downloads per client IP and globally, and locks out IPs
+ * that keep presenting invalid tokens, doubling the lockout on each repeat.
+ */
+@Injectable()
+export class DownloadRateLimitService {
+  private readonly logger = new Logger(DownloadRateLimitService.name)
+
+  constructor(
+    @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Counts a download request and tells whether it may proceed.
+   * Fails open when the store is unreachable so downloads keep working.
+   */
+  async consume(ip: string): Promise<RateLimitDecision> {
+    try {
+      const lockout = await this.store.get(`lockout:${ip}`)
+      if (lockout) {
+        return this.refuse('lockout', lockout.expiresAt)
+      }
+
+      const windowMs = this.getNumber('RATE_LIMIT_WINDOW_SECONDS', 60) * 1000
+
+      const perIp = await this.store.increment(`download:ip:${ip}`, windowMs)
+      if (perIp.value > this.getNumber('RATE_LIMIT_DOWNLOAD_PER_IP', 60)) {
+        return this.refuse('ip', perIp.expiresAt)
+      }
+
+      const global = await this.store.increment('download:global', windowMs)
+      if (global.value > this.getNumber('RATE_LIMIT_DOWNLOAD_GLOBAL', 1000)) {
+        return this.refuse('global', global.expiresAt)
+      }
+
+      return { allowed: true }
+    } catch (error) {
+      this.logger.error(`Rate limit store unavailable, allowing request: ${error.message}`)
+      return { allowed: true }
+    }
+  }
+
+  /**
+   * Records a request with an unknown token. Once an IP reaches the threshold
+   * within the failure window it is locked out, for twice as long as the previous time.
+   */
+  async recordInvalidToken(ip: string): Promise<void> {
+    try {
+      const failureWindowMs = this.getNumber('RATE_LIMIT_INVALID_TOKEN_WINDOW_SECONDS', 900) * 1000
+      const failures = await this.store.increment(`invalid:${ip}`, failureWindowMs)
+
+      if (failures.value < this.getNumber('RATE_LIMIT_INVALID_TOKEN_THRESHOLD', 5)) {
+        return
+      }
+
+      const maxSeconds = this.getNumber('RATE_LIMIT_LOCKOUT_MAX_SECONDS', 24 * 3600)
+      // Remember past lockouts long enough for the next one to escalate
+      const lockouts = await this.store.increment(`lockouts:${ip}`, 2 * maxSeconds * 1000)
+      const lockoutSeconds = Math.min(
+        this.getNumber('RATE_LIMIT_LOCKOUT_BASE_SECONDS', 60) * 2 ** (lockouts.value - 1),
+        maxSeconds,
+      )
+
+      await this.store.set(`lockout:${ip}`, lockouts.value, lockoutSeconds * 1000)
+      await this.store.delete(`invalid:${ip}`)
+
+      this.logger.warn(
+        `Locked out ${ip} for ${lockoutSeconds}s after ${failures.value} invalid tokens (lockout #${lockouts.value})`,
+      )
+    } catch (error) {
+      this.logger.error(`Failed to record invalid token attempt from ${ip}: ${error.message}`)
+    }
+  }
+
+  private refuse(reason: RateLimitDecision['reason'], expiresAt: number): RateLimitDecision {
+    return {
+      allowed: false,
+      reason,
+      retryAfterSeconds: Math.max(1, Math.ceil((expiresAt - Date.now()) / 1000)),
+    }
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    return Number(this.configService.get<number>(key, defaultValue))
+  }
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { DownloadRateLimitService } from './download-rate-limit.service'
+import { DownloadRateLimitGuard } from './download-rate-limit.guard'
+import { MemoryRateLimitStore, RATE_LIMIT_STORE, RedisRateLimitStore } from './stores'
+
+@Module({
+  providers: [
+    {
+      provide: RATE_LIMIT_STORE,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const store = configService.get<string>('RATE_LIMIT_STORE', 'memory')
+
+        switch (store) {
+          case 'memory':
+            return new MemoryRateLimitStore()
+          case 'redis':
+            return new RedisRateLimitStore(
+              configService.get<string>('REDIS_URL', 'redis://localhost:6379'),
+            )
+          default:
+            throw new Error(`Unknown RATE_LIMIT_STORE "${store}", expected "memory" or "redis"`)
+        }
+      },
+    },
+    DownloadRateLimitService,
+    DownloadRateLimitGuard,
+  ],
+  exports: [DownloadRateLimitService, DownloadRateLimitGuard],
+})
+export class RateLimitModule {}
@@ -0,0 +1,4 @@
+export { RATE_LIMIT_STORE } from './rate-limit-store.interface'
+export type { RateLimitEntry, RateLimitStore } from './rate-limit-store.interface'
+export { MemoryRateLimitStore } from './memory-rate-limit.store'
+export { RedisRateLimitStore } from './redis-rate-limit.store'
@@ -0,0 +1,61 @@
+import { RateLimitEntry, RateLimitStore } from './rate-limit-store.interface'
+
+/** Number of entries above which expired ones are swept on write */
+const SWEEP_THRESHOLD = 10000
+
+/**
+ * Keeps counters in process memory. Limits are per instance.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, RateLimitEntry>()
+
+  increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = Date.now()
+    const current = this.read(key, now)
+    const entry = current
+      ? { value: current.value + 1, expiresAt: current.expiresAt }
+      : { value: 1, expiresAt: now + windowMs }
+
+    this.write(key, entry, now)
+    return Promise.resolve({ ...entry })
+  }
+
+  get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.read(key, Date.now())
+    return Promise.resolve(entry ? { ...entry } : null)
+  }
+
+  set(key: string, value: number, ttlMs: number): Promise<void> {
+    const now = Date.now()
+    this.write(key, { value, expiresAt: now + ttlMs }, now)
+    return Promise.resolve()
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key)
+    return Promise.resolve()
+  }
+
+  private read(key: string, now: number): RateLimitEntry | null {
+    const entry = this.entries.get(key)
+
+    if (entry && entry.expiresAt <= now) {
+      this.entries.delete(key)
+      return null
+    }
+
+    return entry ?? null
+  }
+
+  private write(key: string, entry: RateLimitEntry, now: number): void {
+    if (this.entries.size >= SWEEP_THRESHOLD) {
+      for (const [storedKey, stored] of this.entries) {
+        if (stored.expiresAt <= now) {
+          this.entries.delete(storedKey)
+        }
+      }
+    }
+
+    this.entries.set(key, entry)
+  }
+}
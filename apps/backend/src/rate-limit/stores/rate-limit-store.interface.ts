@@ -0,0 +1,26 @@
+/** Injection token of the store holding rate limit counters and lockouts */
+export const RATE_LIMIT_STORE = Symbol('RATE_LIMIT_STORE')
+
+export interface RateLimitEntry {
+  value: number
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number
+}
+
+/**
+ * Storage for expiring counters. In-memory for a single instance, Redis when
+ * several instances must share their limits.
+ */
+export interface RateLimitStore {
+  /**
+   * Increments a counter, starting a new window of windowMs when it does not exist or expired
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>
+
+  /** @returns the entry, or null when absent or expired */
+  get(key: string): Promise<RateLimitEntry | null>
+
+  set(key: string, value: number, ttlMs: number): Promise<void>
+
+  delete(key: string): Promise<void>
+}
@@ -0,0 +1,60 @@
+import { Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common'
+import { createClient } from 'redis'
+import { RateLimitEntry, RateLimitStore } from './rate-limit-store.interface'
+
+const KEY_PREFIX = 'rate-limit:'
+
+/**
+ * Keeps counters in Redis so every instance of the backend shares the same limits
+ */
+export class RedisRateLimitStore implements RateLimitStore, OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RedisRateLimitStore.name)
+  private readonly client: ReturnType<typeof createClient>
+
+  constructor(url: string) {
+    this.client = createClient({ url })
+    this.client.on('error', (err: Error) => this.logger.error(`Redis error: ${err.message}`))
+  }
+
+  async onModuleInit() {
+    await this.client.connect()
+    this.logger.log('Rate limit store connected to Redis')
+  }
+
+  async onModuleDestroy() {
+    if (this.client.isOpen) {
+      await this.client.quit()
+    }
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const redisKey = KEY_PREFIX + key
+    const [value, , ttl] = await this.client
+      .multi()
+      .incr(redisKey)
+      .pExpire(redisKey, windowMs, 'NX')
+      .pTTL(redisKey)
+      .exec()
+
+    return { value: Number(value), expiresAt: Date.now() + Number(ttl) }
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const redisKey = KEY_PREFIX + key
+    const [value, ttl] = await this.client.multi().get(redisKey).pTTL(redisKey).exec()
+
+    if (value === null || Number(ttl) < 0) {
+      return null
+    }
+
+    return { value: Number(value), expiresAt: Date.now() + Number(ttl) }
+  }
+
+  async set(key: string, value: number, ttlMs: number): Promise<void> {
+    await this.client.set(KEY_PREFIX + key, value, { expiration: { type: 'PX', value: ttlMs } })
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(KEY_PREFIX + key)
+  }
+}
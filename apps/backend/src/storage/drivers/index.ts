@@ -0,0 +1,10 @@
+export type {
+  StorageDriver,
+  StorageObject,
+  StorageObjectStats,
+  StorageReadRange,
+  UnreadableObject,
+} from './storage-driver.interface'
+export { LocalStorageDriver } from './local-storage.driver'
+export { S3StorageDriver, S3RequestError } from './s3-storage.driver'
+export type { S3StorageOptions } from './s3-storage.driver'
@@ -0,0 +1,156 @@
+import { Readable } from 'stream'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  StorageDriver,
+  StorageObject,
+  StorageObjectStats,
+  StorageReadRange,
+  UnreadableObject,
+} from './storage-driver.interface'
+
+/** Reasons of the usual read errors, which do not reveal the location of the file */
+const READ_ERROR_REASONS: Record<string, string> = {
+  EACCES: 'permission denied',
+  EPERM: 'permission denied',
+  ENOENT: 'no longer exists',
+  EIO: 'input/output error',
+}
+
+/**
+ * Reads photos from a directory of the local filesystem: the NAS mount, or one of
+ * the named libraries. Locations are absolute paths; any absolute path is accepted,
+ * so files the backend produced itself (e.g. resized copies in the cache) are read
+ * the same way.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  constructor(
+    readonly basePath: string,
+    readonly name = 'local',
+  ) {}
+
+  handles(location: string): boolean {
+    return path.isAbsolute(location)
+  }
+
+  resolve(relativePath: string): string {
+    // Remove any path traversal attempts (../, ..\, etc.)
+    const sanitized = path.normalize(relativePath).replace(/^(\.\.[/\\])+/, '')
+
+    // Ensure it doesn't start with / or \ to keep it relative
+    return path.join(this.basePath, sanitized.replace(/^[/\\]+/, ''))
+  }
+
+  /**
+   * Checks the path both lexically (no ".." segments) and after resolving symbolic links
+   */
+  async isWithinRoot(relativePath: string): Promise<boolean> {
+    const normalized = path.posix.normalize(relativePath.replace(/\\/g, '/').replace(/^\/+/, ''))
+
+    if (normalized === '..' || normalized.startsWith('../')) {
+      return false
+    }
+
+    try {
+      const [realBase, realTarget] = await Promise.all([
+        fs.promises.realpath(this.basePath),
+        fs.promises.realpath(this.resolve(relativePath)),
+      ])
+      return realTarget === realBase || realTarget.startsWith(realBase + path.sep)
+    } catch {
+      // A missing directory cannot escape; existence is checked separately
+      return true
+    }
+  }
+
+  async directoryExists(location: string): Promise<boolean> {
+    try {
+      await fs.promises.access(location, fs.constants.R_OK)
+      const stats = await fs.promises.stat(location)
+      return stats.isDirectory()
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * When collecting unreadable entries, files are also checked for read permission, since
+   * a file that can be listed may still fail once it is streamed
+   */
+  async listFiles(
+    location: string,
+    filter?: (name: string) => boolean,
+    unreadable?: UnreadableObject[],
+  ): Promise<StorageObject[]> {
+    const files: StorageObject[] = []
+
+    // Only entries below the listed directory are skipped, the directory itself must be readable
+    const skip = (relativePath: string, error: NodeJS.ErrnoException) => {
+      if (!unreadable || !relativePath) {
+        throw error
+      }
+      unreadable.push({ relativePath, reason: this.getReason(error) })
+    }
+
+    const walk = async (currentPath: string, relativeDir: string): Promise<void> => {
+      let dirents: fs.Dirent[]
+      try {
+        dirents = await fs.promises.readdir(currentPath, { withFileTypes: true })
+      } catch (error) {
+        return skip(relativeDir, error)
+      }
+
+      for (const dirent of dirents) {
+        const entryPath = path.join(currentPath, dirent.name)
+        const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name
+
+        if (dirent.isDirectory()) {
+          await walk(entryPath, relativePath)
+        } else if (dirent.isFile() && (!filter || filter(dirent.name))) {
+          try {
+            const stats = await fs.promises.stat(entryPath)
+            if (unreadable) {
+              await fs.promises.access(entryPath, fs.constants.R_OK)
+            }
+            files.push({ location: entryPath, relativePath, size: stats.size, mtime: stats.mtime })
+          } catch (error) {
+            skip(relativePath, error)
+          }
+        }
+      }
+    }
+
+    await walk(location, '')
+
+    return files
+  }
+
+  async stat(location: string): Promise<StorageObjectStats> {
+    const stats = await fs.promises.stat(location)
+    return { size: stats.size, mtime: stats.mtime }
+  }
+
+  createReadStream(location: string, range: StorageReadRange = {}): Readable {
+    return fs.createReadStream(location, {
+      start: range.start,
+      end: range.end,
+      highWaterMark: 1024 * 1024, // 1MB chunks for NAS reads
+    })
+  }
+
+  async read(location: string, offset: number, length: number): Promise<Buffer> {
+    const handle = await fs.promises.open(location, 'r')
+
+    try {
+      const buffer = Buffer.alloc(length)
+      const { bytesRead } = await handle.read(buffer, 0, length, offset)
+      return buffer.subarray(0, bytesRead)
+    } finally {
+      await handle.close()
+    }
+  }
+
+  private getReason(error: NodeJS.ErrnoException): string {
+    return READ_ERROR_REASONS[error.code ?? ''] ?? `read error (${error.code ?? 'unknown'})`
+  }
+}
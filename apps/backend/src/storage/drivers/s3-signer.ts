@@ -0,0 +1,95 @@
+import { createHash, createHmac } from 'crypto'
+
+/** SHA-256 of an empty body, sent with every request since none has a body */
+export const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex')
+
+export interface S3Credentials {
+  accessKeyId: string
+  secretAccessKey: string
+  region: string
+}
+
+export interface S3RequestToSign {
+  method: string
+  host: string
+  /** Path with each segment already URI-encoded */
+  path: string
+  query?: Record<string, string>
+  /** Extra headers to sign, e.g. range */
+  headers?: Record<string, string>
+}
+
+/**
+ * Encodes a URI component as AWS Signature Version 4 expects (RFC 3986)
+ */
+export function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  )
+}
+
+/**
+ * Query string with keys sorted, as signed by AWS Signature Version 4
+ */
+export function canonicalQueryString(query: Record<string, string> = {}): string {
+  return Object.keys(query)
+    .sort()
+    .map((key) => `${encodeRfc3986(key)}=${encodeRfc3986(query[key])}`)
+    .join('&')
+}
+
+/**
+ * Signs a request without a body for the S3 service with AWS Signature Version 4
+ *
+ * @returns Headers to send, including host and Authorization
+ */
+export function signS3Request(
+  request: S3RequestToSign,
+  credentials: S3Credentials,
+  date = new Date(),
+): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+  const day = amzDate.slice(0, 8)
+  const scope = `${day}/${credentials.region}/s3/aws4_request`
+
+  const headers: Record<string, string> = {
+    host: request.host,
+    'x-amz-content-sha256': EMPTY_PAYLOAD_HASH,
+    'x-amz-date': amzDate,
+  }
+  for (const [name, value] of Object.entries(request.headers ?? {})) {
+    headers[name.toLowerCase()] = value.trim()
+  }
+
+  const signedHeaders = Object.keys(headers).sort()
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    canonicalQueryString(request.query),
+    ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+    '',
+    signedHeaders.join(';'),
+    EMPTY_PAYLOAD_HASH,
+  ].join('\n')
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n')
+
+  const hmac = (key: string | Buffer, data: string) =>
+    createHmac('sha256', key).update(data).digest()
+  const signingKey = [day, credentials.region, 's3', 'aws4_request'].reduce<Buffer | string>(
+    (key, data) => hmac(key, data),
+    `AWS4${credentials.secretAccessKey}`,
+  )
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+  }
+}
@@ -0,0 +1,304 @@
+import { Readable } from 'stream'
+import { IncomingMessage } from 'http'
+import * as http from 'http'
+import * as https from 'https'
+import * as path from 'path'
+import {
+  StorageDriver,
+  StorageObject,
+  StorageObjectStats,
+  StorageReadRange,
+} from './storage-driver.interface'
+import { S3Credentials, canonicalQueryString, encodeRfc3986, signS3Request } from './s3-signer'
+
+const LOCATION_PREFIX = 's3://'
+const REQUEST_TIMEOUT_MS = 30 * 1000
+
+export interface S3StorageOptions extends S3Credentials {
+  /** Service URL, e.g. http://localhost:9000 for MinIO */
+  endpoint: string
+  bucket: string
+  /** Key prefix below which order directories are resolved */
+  prefix?: string
+  /** Address the bucket in the path instead of the host name, as MinIO expects */
+  forcePathStyle?: boolean
+}
+
+/**
+ * Response of S3 other than the expected one
+ */
+export class S3RequestError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message)
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16))
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(parseInt(name.slice(1), 10))
+    }
+    return XML_ENTITIES[name] ?? entity
+  })
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml)
+  return match ? decodeXml(match[1]) : undefined
+}
+
+/**
+ * Reads photos from a bucket of an S3-compatible object store (AWS S3, MinIO).
+ *
+ * Directories are key prefixes and locations are s3://bucket/key URLs. Requests
+ * are signed with AWS Signature Version 4 and sent with the Node HTTP client:
+ * ListObjectsV2 for listings, HEAD for stats and ranged GETs for reads.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3'
+
+  private readonly endpoint: URL
+  private readonly prefix: string
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.endpoint = new URL(options.endpoint)
+    this.prefix = (options.prefix ?? '').replace(/^\/+|\/+$/g, '')
+  }
+
+  handles(location: string): boolean {
+    return location.startsWith(LOCATION_PREFIX)
+  }
+
+  resolve(relativePath: string): string {
+    const normalized = path.posix
+      .normalize(`/${relativePath.replace(/\\/g, '/')}`)
+      .replace(/^\/+|\/+$/g, '')
+    const key = [this.prefix, normalized].filter(Boolean).join('/')
+
+    return `${LOCATION_PREFIX}${this.options.bucket}/${key}`
+  }
+
+  /**
+   * Keys have no symbolic links, so only ".." segments can leave the prefix
+   */
+  isWithinRoot(relativePath: string): Promise<boolean> {
+    const normalized = path.posix.normalize(relativePath.replace(/\\/g, '/').replace(/^\/+/, ''))
+    return Promise.resolve(normalized !== '..' && !normalized.startsWith('../'))
+  }
+
+  async directoryExists(location: string): Promise<boolean> {
+    const { objects } = await this.listPage(this.toDirectoryPrefix(location), undefined, 1)
+    return objects.length > 0
+  }
+
+  async listFiles(location: string, filter?: (name: string) => boolean): Promise<StorageObject[]> {
+    const prefix = this.toDirectoryPrefix(location)
+    const files: StorageObject[] = []
+    let continuationToken: string | undefined
+
+    do {
+      const page = await this.listPage(prefix, continuationToken)
+
+      for (const object of page.objects) {
+        // Keys ending with a slash are folder markers created by some clients
+        if (object.key.endsWith('/') || (filter && !filter(path.posix.basename(object.key)))) {
+          continue
+        }
+        files.push({
+          location: `${LOCATION_PREFIX}${this.options.bucket}/${object.key}`,
+          relativePath: object.key.slice(prefix.length),
+          size: object.size,
+          mtime: object.mtime,
+        })
+      }
+
+      continuationToken = page.nextContinuationToken
+    } while (continuationToken)
+
+    return files
+  }
+
+  async stat(location: string): Promise<StorageObjectStats> {
+    const response = await this.send('HEAD', this.toKey(location))
+    response.resume()
+
+    return {
+      size: Number(response.headers['content-length']),
+      mtime: new Date(response.headers['last-modified'] ?? 0),
+    }
+  }
+
+  createReadStream(location: string, range: StorageReadRange = {}): Readable {
+    const key = this.toKey(location)
+    const send = () => this.send('GET', key, {}, this.rangeHeaders(range.start, range.end))
+
+    return Readable.from(
+      (async function* () {
+        yield* await send()
+      })(),
+      { objectMode: false },
+    )
+  }
+
+  async read(location: string, offset: number, length: number): Promise<Buffer> {
+    if (length === 0) {
+      return Buffer.alloc(0)
+    }
+
+    const response = await this.send(
+      'GET',
+      this.toKey(location),
+      {},
+      this.rangeHeaders(offset, offset + length - 1),
+      // Ranges starting after the end of the object
+      [416],
+    )
+
+    if (response.statusCode === 416) {
+      response.resume()
+      return Buffer.alloc(0)
+    }
+
+    return this.readBody(response)
+  }
+
+  private rangeHeaders(start?: number, end?: number): Record<string, string> {
+    if (start === undefined && end === undefined) {
+      return {}
+    }
+    return { range: `bytes=${start ?? 0}-${end ?? ''}` }
+  }
+
+  private async listPage(
+    prefix: string,
+    continuationToken?: string,
+    maxKeys = 1000,
+  ): Promise<{
+    objects: { key: string; size: number; mtime: Date }[]
+    nextContinuationToken?: string
+  }> {
+    const query: Record<string, string> = {
+      'list-type': '2',
+      prefix,
+      'max-keys': String(maxKeys),
+    }
+    if (continuationToken) {
+      query['continuation-token'] = continuationToken
+    }
+
+    const xml = (await this.readBody(await this.send('GET', '', query))).toString('utf8')
+    const objects = [...xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)].map(([, contents]) => ({
+      key: xmlValue(contents, 'Key') ?? '',
+      size: Number(xmlValue(contents, 'Size') ?? 0),
+      mtime: new Date(xmlValue(contents, 'LastModified') ?? 0),
+    }))
+
+    return {
+      objects,
+      nextContinuationToken:
+        xmlValue(xml, 'IsTruncated') === 'true'
+          ? xmlValue(xml, 'NextContinuationToken')
+          : undefined,
+    }
+  }
+
+  private toKey(location: string): string {
+    const bucketPrefix = `${LOCATION_PREFIX}${this.options.bucket}/`
+
+    if (!location.startsWith(bucketPrefix)) {
+      throw new Error(`Location ${location} is not in bucket ${this.options.bucket}`)
+    }
+
+    return location.slice(bucketPrefix.length)
+  }
+
+  private toDirectoryPrefix(location: string): string {
+    const key = this.toKey(location)
+    return key ? `${key.replace(/\/+$/, '')}/` : ''
+  }
+
+  /**
+   * Sends a signed request and resolves once the response headers arrived
+   *
+   * @param acceptedStatuses - Error statuses returned to the caller instead of thrown
+   * @throws S3RequestError for any other status outside 2xx
+   */
+  private send(
+    method: 'GET' | 'HEAD',
+    key: string,
+    query: Record<string, string> = {},
+    headers: Record<string, string> = {},
+    acceptedStatuses: number[] = [],
+  ): Promise<IncomingMessage> {
+    const { bucket, forcePathStyle = true } = this.options
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/')
+    const basePath = this.endpoint.pathname.replace(/\/+$/, '')
+    const host = forcePathStyle ? this.endpoint.host : `${bucket}.${this.endpoint.host}`
+    const requestPath = forcePathStyle
+      ? `${basePath}/${encodeRfc3986(bucket)}${key ? `/${encodedKey}` : ''}`
+      : `${basePath}/${encodedKey}`
+    const queryString = canonicalQueryString(query)
+    const signedHeaders = signS3Request(
+      { method, host, path: requestPath, query, headers },
+      this.options,
+    )
+    const client = this.endpoint.protocol === 'https:' ? https : http
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        {
+          method,
+          protocol: this.endpoint.protocol,
+          hostname: forcePathStyle ? this.endpoint.hostname : `${bucket}.${this.endpoint.hostname}`,
+          port: this.endpoint.port || undefined,
+          path: queryString ? `${requestPath}?${queryString}` : requestPath,
+          headers: signedHeaders,
+          timeout: REQUEST_TIMEOUT_MS,
+        },
+        (response) => {
+          const status = response.statusCode ?? 0
+
+          if ((status >= 200 && status < 300) || acceptedStatuses.includes(status)) {
+            resolve(response)
+            return
+          }
+
+          void this.readBody(response)
+            .catch(() => Buffer.alloc(0))
+            .then((body) => {
+              const code = xmlValue(body.toString('utf8'), 'Code') ?? `HTTP ${status}`
+              reject(new S3RequestError(`S3 ${method} /${key} failed: ${code}`, status))
+            })
+        },
+      )
+
+      request.on('timeout', () =>
+        request.destroy(new Error(`S3 ${method} /${key} timed out after ${REQUEST_TIMEOUT_MS}ms`)),
+      )
+      request.on('error', reject)
+      request.end()
+    })
+  }
+
+  private async readBody(response: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = []
+    for await (const chunk of response) {
+      chunks.push(chunk as Buffer)
+    }
+    return Buffer.concat(chunks)
+  }
+}
@@ -0,0 +1,83 @@
+import { Readable } from 'stream'
+
+/**
+ * File found below a directory of a storage backend
+ */
+export interface StorageObject {
+  /** Location of the file, as understood by the driver that listed it */
+  location: string
+  /** Path relative to the listed directory, always using forward slashes */
+  relativePath: string
+  /** File size in bytes */
+  size: number
+  /** Last modification time */
+  mtime: Date
+}
+
+/**
+ * Subdirectory or file below a listed directory that could not be read
+ */
+export interface UnreadableObject {
+  /** Path relative to the listed directory, always using forward slashes */
+  relativePath: string
+  /** Short reason, without the location of the file */
+  reason: string
+}
+
+export interface StorageObjectStats {
+  size: number
+  mtime: Date
+}
+
+/** Inclusive byte range, like fs.createReadStream */
+export interface StorageReadRange {
+  start?: number
+  end?: number
+}
+
+/**
+ * Backend holding the photos, addressed by locations: absolute paths for the
+ * local filesystem, s3:// URLs for object storage. Directories of an order are
+ * resolved to a location once, and every file below them is read through the
+ * driver owning that location.
+ */
+export interface StorageDriver {
+  /** Name used as the directory prefix of orders, e.g. "s3:season-2019/event" */
+  readonly name: string
+
+  /** Whether the location belongs to this driver */
+  handles(location: string): boolean
+
+  /**
+   * Turns a directory relative to the root of the backend into a location,
+   * removing any attempt to leave the root
+   */
+  resolve(relativePath: string): string
+
+  /** Whether a relative directory stays below the root of the backend */
+  isWithinRoot(relativePath: string): Promise<boolean>
+
+  directoryExists(location: string): Promise<boolean>
+
+  /**
+   * Recursively lists the files below a directory, in no particular order
+   *
+   * @param filter - Called with each file name; rejected files are not inspected further
+   * @param unreadable - Collects the subdirectories and files that cannot be read, which are
+   *   then left out; without it, the listing fails on them
+   */
+  listFiles(
+    location: string,
+    filter?: (name: string) => boolean,
+    unreadable?: UnreadableObject[],
+  ): Promise<StorageObject[]>
+
+  /** @throws Error if the file does not exist */
+  stat(location: string): Promise<StorageObjectStats>
+
+  /** Streams a file or part of it; errors are reported by the stream */
+  createReadStream(location: string, range?: StorageReadRange): Readable
+
+  /** Reads up to length bytes at an offset; fewer are returned at the end of the file */
+  read(location: string, offset: number, length: number): Promise<Buffer>
+}
@@ -0,0 +1,226 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  LocalStorageDriver,
+  S3StorageDriver,
+  StorageDriver,
+  StorageObject,
+  StorageObjectStats,
+  StorageReadRange,
+  UnreadableObject,
+} from './drivers'
+
+/** Backends an order directory can name with a prefix besides the libraries, e.g. "s3:season-2019/wedding" */
+const STORAGE_NAMES = ['local', 's3']
+
+const LIBRARY_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i
+
+/**
+ * Parses PHOTO_LIBRARIES, formatted as "name:/absolute/path" pairs separated by commas
+ *
+ * @throws Error for an invalid or reserved name, a duplicate or a relative path
+ */
+function parseLibraries(raw: string): LocalStorageDriver[] {
+  const libraries: LocalStorageDriver[] = []
+
+  for (const pair of raw.split(',')) {
+    if (!pair.trim()) {
+      continue
+    }
+
+    const separator = pair.indexOf(':')
+    const name = pair.slice(0, Math.max(separator, 0)).trim()
+    const basePath = pair.slice(separator + 1).trim()
+
+    if (!LIBRARY_NAME_PATTERN.test(name) || STORAGE_NAMES.includes(name)) {
+      throw new Error(`Invalid photo library name "${name}" in PHOTO_LIBRARIES`)
+    }
+    if (libraries.some((library) => library.name === name)) {
+      throw new Error(`Photo library "${name}" is defined twice in PHOTO_LIBRARIES`)
+    }
+    if (!path.isAbsolute(basePath)) {
+      throw new Error(`Photo library "${name}" needs an absolute path, got "${basePath}"`)
+    }
+
+    libraries.push(new LocalStorageDriver(basePath, name))
+  }
+
+  return libraries
+}
+
+/**
+ * Order directory split into its backend and its path below the backend root
+ */
+export interface StorageDirectory {
+  storage: string
+  relativePath: string
+}
+
+/**
+ * Entry point to the storage backends holding the photos.
+ *
+ * The local filesystem (PHOTOS_BASE_PATH) is always available. Named libraries
+ * from PHOTO_LIBRARIES, e.g. one NAS share per year or per studio, are local
+ * backends of their own, and an S3-compatible bucket is added when S3_BUCKET is
+ * set. Order directories without a prefix stay on PHOTOS_BASE_PATH, so existing
+ * orders keep working, while "2024:" or "s3:" select a library or the bucket.
+ * Directories resolve to locations, and reads of a location go to the driver
+ * owning it.
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name)
+  private readonly localDriver: LocalStorageDriver
+  private readonly libraries: LocalStorageDriver[]
+  private readonly drivers: StorageDriver[]
+
+  constructor(private readonly configService: ConfigService) {
+    this.localDriver = new LocalStorageDriver(
+      this.configService.get<string>('PHOTOS_BASE_PATH', '/mnt/psd'),
+    )
+    this.libraries = parseLibraries(this.configService.get<string>('PHOTO_LIBRARIES', ''))
+    this.drivers = [this.localDriver, ...this.libraries]
+
+    const bucket = this.configService.get<string>('S3_BUCKET')
+
+    if (bucket) {
+      const region = this.configService.get<string>('S3_REGION', 'us-east-1')
+      const endpoint = this.configService.get<string>(
+        'S3_ENDPOINT',
+        `https://s3.${region}.amazonaws.com`,
+      )
+
+      this.drivers.push(
+        new S3StorageDriver({
+          endpoint,
+          region,
+          bucket,
+          accessKeyId: this.configService.get<string>('S3_ACCESS_KEY_ID', ''),
+          secretAccessKey: this.configService.get<string>('S3_SECRET_ACCESS_KEY', ''),
+          prefix: this.configService.get<string>('S3_PREFIX', ''),
+          forcePathStyle: String(this.configService.get('S3_FORCE_PATH_STYLE', 'true')) === 'true',
+        }),
+      )
+      this.logger.log(`S3 storage enabled: bucket ${bucket} at ${endpoint}`)
+    }
+  }
+
+  getLocalDriver(): LocalStorageDriver {
+    return this.localDriver
+  }
+
+  /**
+   * Named libraries from PHOTO_LIBRARIES, in configuration order
+   */
+  getLibraries(): LocalStorageDriver[] {
+    return [...this.libraries]
+  }
+
+  /**
+   * Named library of an order directory, undefined for other backends
+   */
+  getLibrary(directory: string): LocalStorageDriver | undefined {
+    const { storage } = this.parseDirectory(directory)
+    return this.libraries.find((library) => library.name === storage)
+  }
+
+  /**
+   * Splits an order directory into its backend and relative path. Paths without a
+   * known prefix belong to PHOTOS_BASE_PATH.
+   */
+  parseDirectory(directory: string): StorageDirectory {
+    const separator = directory.indexOf(':')
+    const storage = separator > 0 ? directory.slice(0, separator) : ''
+
+    if (!STORAGE_NAMES.includes(storage) && !this.libraries.some(({ name }) => name === storage)) {
+      return { storage: this.localDriver.name, relativePath: directory }
+    }
+
+    return { storage, relativePath: directory.slice(separator + 1) }
+  }
+
+  /**
+   * Whether the backend named by an order directory is configured
+   */
+  isAvailable(directory: string): boolean {
+    const { storage } = this.parseDirectory(directory)
+    return this.drivers.some((driver) => driver.name === storage)
+  }
+
+  /**
+   * Turns an order directory into the location of its backend
+   *
+   * @throws Error if the backend is not configured
+   */
+  resolveDirectory(directory: string): string {
+    const { storage, relativePath } = this.parseDirectory(directory)
+    return this.getDriverByName(storage).resolve(relativePath)
+  }
+
+  /**
+   * Whether an order directory stays below the root of its backend
+   */
+  isWithinRoot(directory: string): Promise<boolean> {
+    const { storage, relativePath } = this.parseDirectory(directory)
+    return this.getDriverByName(storage).isWithinRoot(relativePath)
+  }
+
+  isLocal(location: string): boolean {
+    return this.getDriver(location) === this.localDriver
+  }
+
+  directoryExists(location: string): Promise<boolean> {
+    return this.getDriver(location).directoryExists(location)
+  }
+
+  listFiles(
+    location: string,
+    filter?: (name: string) => boolean,
+    unreadable?: UnreadableObject[],
+  ): Promise<StorageObject[]> {
+    return this.getDriver(location).listFiles(location, filter, unreadable)
+  }
+
+  stat(location: string): Promise<StorageObjectStats> {
+    return this.getDriver(location).stat(location)
+  }
+
+  createReadStream(location: string, range?: StorageReadRange): Readable {
+    return this.getDriver(location).createReadStream(location, range)
+  }
+
+  read(location: string, offset: number, length: number): Promise<Buffer> {
+    return this.getDriver(location).read(location, offset, length)
+  }
+
+  /**
+   * Copies a file to the local filesystem, for tools that only read local paths
+   */
+  async download(location: string, filePath: string): Promise<void> {
+    await pipeline(this.createReadStream(location), fs.createWriteStream(filePath))
+  }
+
+  private getDriverByName(name: string): StorageDriver {
+    const driver = this.drivers.find((candidate) => candidate.name === name)
+
+    if (!driver) {
+      throw new Error(`Storage "${name}" is not configured`)
+    }
+
+    return driver
+  }
+
+  private getDriver(location: string): StorageDriver {
+    const driver = this.drivers.find((candidate) => candidate.handles(location))
+
+    if (!driver) {
+      throw new Error(`No storage is configured for ${location}`)
+    }
+
+    return driver
+  }
+}
@@ -0,0 +1,167 @@
+import { Injectable, Logger, OnModuleInit, BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+
+/**
+ * Expiry options a caller may provide when creating an order. At most one may be set.
+ */
+export interface ExpiryRequest {
+  /** Validity duration in hours from now */
+  expiresInHours?: number
+  /** Absolute expiration date (ISO 8601) */
+  expiresAt?: string
+  /** Name of a preset defined in TOKEN_EXPIRY_PRESETS */
+  expiryPreset?: string
+}
+
+/**
+ * Policy applied to an order, stored alongside it
+ */
+export interface ExpiryPolicy {
+  /** Preset name, 'default' when nothing was requested or 'custom' for explicit values */
+  name: string
+  /** Validity duration in hours at creation time */
+  durationHours: number
+}
+
+export interface ResolvedExpiry {
+  tokenExpiry: Date
+  policy: ExpiryPolicy
+}
+
+/**
+ * Resolves download token expiry dates from per-order requests, bounded by
+ * server-side minimum, maximum and default durations and named presets.
+ */
+@Injectable()
+export class ExpiryPolicyService implements OnModuleInit {
+  private readonly logger = new Logger(ExpiryPolicyService.name)
+
+  constructor(private configService: ConfigService) {}
+
+  onModuleInit() {
+    this.validateConfiguration()
+  }
+
+  getMinHours(): number {
+    return Number(this.configService.get<number>('TOKEN_EXPIRY_MIN_HOURS', 1))
+  }
+
+  getMaxHours(): number {
+    return Number(this.configService.get<number>('TOKEN_EXPIRY_MAX_HOURS', 30 * 24))
+  }
+
+  getDefaultHours(): number {
+    return Number(this.configService.get<number>('TOKEN_EXPIRY_DEFAULT_HOURS', 72))
+  }
+
+  /**
+   * Parses TOKEN_EXPIRY_PRESETS, formatted as "name:hours" pairs separated by commas
+   */
+  getPresets(): Record<string, number> {
+    const raw = this.configService.get<string>(
+      'TOKEN_EXPIRY_PRESETS',
+      'short:24,standard:72,archive:720',
+    )
+    const presets: Record<string, number> = {}
+
+    for (const pair of raw.split(',')) {
+      const [name, hours] = pair.split(':').map((part) => part.trim())
+      if (name && hours) {
+        presets[name] = Number(hours)
+      }
+    }
+
+    return presets
+  }
+
+  /**
+   * Computes the token expiry for a new order.
+   *
+   * @param request - Optional duration, absolute date or preset name
+   * @param now - Reference time, defaults to the current time
+   * @throws BadRequestException if several options are given, the preset is unknown
+   *         or the resulting duration is outside the configured bounds
+   */
+  resolveExpiry(request: ExpiryRequest, now: Date = new Date()): ResolvedExpiry {
+    const provided = [request.expiresInHours, request.expiresAt, request.expiryPreset].filter(
+      (value) => value !== undefined && value !== null,
+    )
+
+    if (provided.length > 1) {
+      throw new BadRequestException(
+        'Only one of expiresInHours, expiresAt or expiryPreset can be provided',
+      )
+    }
+
+    let policy: ExpiryPolicy
+
+    if (request.expiryPreset !== undefined && request.expiryPreset !== null) {
+      const presets = this.getPresets()
+      if (!(request.expiryPreset in presets)) {
+        throw new BadRequestException(
+          `Unknown expiry preset "${request.expiryPreset}". Available presets: ${Object.keys(presets).join(', ')}`,
+        )
+      }
+      policy = { name: request.expiryPreset, durationHours: presets[request.expiryPreset] }
+    } else if (request.expiresAt !== undefined && request.expiresAt !== null) {
+      const durationMs = new Date(request.expiresAt).getTime() - now.getTime()
+      policy = { name: 'custom', durationHours: durationMs / 3600000 }
+    } else if (request.expiresInHours !== undefined && request.expiresInHours !== null) {
+      policy = { name: 'custom', durationHours: request.expiresInHours }
+    } else {
+      policy = { name: 'default', durationHours: this.getDefaultHours() }
+    }
+
+    this.assertWithinBounds(policy.durationHours)
+
+    return {
+      tokenExpiry: new Date(now.getTime() + policy.durationHours * 3600000),
+      policy,
+    }
+  }
+
+  /**
+   * Checks a new expiry date of an existing order against the same bounds as new orders
+   *
+   * @param now - Reference time, defaults to the current time
+   * @throws BadRequestException if the date is outside the configured bounds
+   */
+  assertAllowedExpiry(tokenExpiry: Date, now: Date = new Date()): void {
+    this.assertWithinBounds((tokenExpiry.getTime() - now.getTime()) / 3600000)
+  }
+
+  private assertWithinBounds(durationHours: number): void {
+    const minHours = this.getMinHours()
+    const maxHours = this.getMaxHours()
+
+    if (!Number.isFinite(durationHours) || durationHours < minHours || durationHours > maxHours) {
+      throw new BadRequestException(
+        `Token expiry must be between ${minHours} and ${maxHours} hours from now`,
+      )
+    }
+  }
+
+  private validateConfiguration(): void {
+    const minHours = this.getMinHours()
+    const maxHours = this.getMaxHours()
+    const defaultHours = this.getDefaultHours()
+
+    if (!(minHours > 0 && minHours <= defaultHours && defaultHours <= maxHours)) {
+      throw new Error(
+        `Invalid token expiry configuration: expected 0 < min (${minHours}) <= default (${defaultHours}) <= max (${maxHours})`,
+      )
+    }
+
+    for (const [name, hours] of Object.entries(this.getPresets())) {
+      if (!(hours >= minHours && hours <= maxHours)) {
+        throw new Error(
+          `Token expiry preset "${name}" (${hours}h) is outside the allowed range ${minHours}-${maxHours}h`,
+        )
+      }
+    }
+
+    this.logger.log(
+      `Token expiry policy: default ${defaultHours}h, allowed ${minHours}-${maxHours}h, presets ${JSON.stringify(this.getPresets())}`,
+    )
+  }
+}
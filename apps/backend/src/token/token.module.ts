@@ -1,8 +1,9 @@
 import { Module } from '@nestjs/common'
 import { TokenService } from './token.service'
+import { ExpiryPolicyService } from './expiry-policy.service'
 
 @Module({
-  providers: [TokenService],
-  exports: [TokenService],
+  providers: [TokenService, ExpiryPolicyService],
+  exports: [TokenService, ExpiryPolicyService],
 })
 export class TokenModule {}
@@ -1,13 +1,102 @@
-import { Injectable } from '@nestjs/common'
-import { randomBytes } from 'crypto'
+import { Injectable, OnModuleInit } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+/** Minimum token size in bytes (256 bits of entropy) */
+export const MIN_TOKEN_BYTES = 32
+
+/** Minimum length of the TOKEN_SECRET used to hash tokens */
+export const MIN_TOKEN_SECRET_LENGTH = 32
+
+const SEAL_IV_BYTES = 12
+const SEAL_TAG_BYTES = 16
 
 @Injectable()
-export class TokenService {
+export class TokenService implements OnModuleInit {
+  constructor(private configService: ConfigService) {}
+
+  onModuleInit() {
+    this.getSecret()
+  }
+
   /**
    * Generates a cryptographically secure random token
-   * @returns hex string token
+   * @returns URL-safe base64 string token
+   */
+  generateToken(size: number = MIN_TOKEN_BYTES): string {
+    if (size < MIN_TOKEN_BYTES) {
+      throw new Error(`Download tokens must be at least ${MIN_TOKEN_BYTES} bytes, got ${size}`)
+    }
+
+    return randomBytes(size).toString('base64url')
+  }
+
+  /**
+   * Computes the keyed hash of a token, which is what gets stored in the database
+   * @returns hex encoded HMAC-SHA256 of the token
+   */
+  hashToken(token: string): string {
+    return createHmac('sha256', this.getSecret()).update(token).digest('hex')
+  }
+
+  /**
+   * Checks a token against a stored hash in constant time
+   */
+  verifyToken(token: string, hash: string): boolean {
+    const expected = Buffer.from(this.hashToken(token), 'hex')
+    const actual = Buffer.from(hash, 'hex')
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual)
+  }
+
+  /**
+   * Encrypts a token with a key derived from TOKEN_SECRET (AES-256-GCM), for the
+   * orders whose link is emailed again later, e.g. in reminders
+   * @returns URL-safe base64 string of the IV, the authentication tag and the ciphertext
    */
-  generateToken(size: number = 8): string {
-    return randomBytes(size).toString('hex')
+  sealToken(token: string): string {
+    const iv = randomBytes(SEAL_IV_BYTES)
+    const cipher = createCipheriv('aes-256-gcm', this.getSealKey(), iv)
+    const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()])
+
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url')
+  }
+
+  /**
+   * Decrypts a token sealed by sealToken
+   * @throws Error when the sealed token was altered or sealed with another TOKEN_SECRET
+   */
+  openSealedToken(sealed: string): string {
+    const data = Buffer.from(sealed, 'base64url')
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.getSealKey(),
+      data.subarray(0, SEAL_IV_BYTES),
+    )
+    decipher.setAuthTag(data.subarray(SEAL_IV_BYTES, SEAL_IV_BYTES + SEAL_TAG_BYTES))
+
+    return Buffer.concat([
+      decipher.update(data.subarray(SEAL_IV_BYTES + SEAL_TAG_BYTES)),
+      decipher.final(),
+    ]).toString('utf8')
+  }
+
+  /**
+   * Encryption key of sealed tokens, distinct from the key of the token hashes
+   */
+  private getSealKey(): Buffer {
+    return createHmac('sha256', this.getSecret()).update('sealed-token').digest()
+  }
+
+  private getSecret(): string {
+    const secret = this.configService.get<string>('TOKEN_SECRET')
+
+    if (!secret || secret.length < MIN_TOKEN_SECRET_LENGTH) {
+      throw new Error(
+        `Invalid token configuration: TOKEN_SECRET must be set to at least ${MIN_TOKEN_SECRET_LENGTH} characters`,
+      )
+    }
+
+    return secret
   }
 }
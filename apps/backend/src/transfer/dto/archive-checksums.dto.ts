@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { ArchiveChecksum, ArchiveChecksumList, DownloadVariant } from '@photo-st-denis/shared'
+
+export class ArchiveChecksumDto implements ArchiveChecksum {
+  @ApiProperty({
+    example: 'smith/ceremony/IMG_0412.jpg',
+    description: 'Entry name in the archive, as listed in its MANIFEST.sha256',
+  })
+  name: string
+
+  @ApiProperty({ example: 8421376, description: 'Size of the delivered file in bytes' })
+  size: number
+
+  @ApiProperty({
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    description: 'SHA-256 of the file as delivered now',
+  })
+  sha256: string
+
+  @ApiProperty({
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    description:
+      'SHA-256 recorded when the file was first delivered in a whole archive, null before that',
+    type: String,
+    nullable: true,
+  })
+  recordedSha256: string | null
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Whether the file changed since it was first delivered, false when never delivered',
+  })
+  changed: boolean
+}
+
+export class ArchiveChecksumListDto implements ArchiveChecksumList {
+  @ApiProperty({ enum: ['full', 'web'], example: 'full' })
+  variant: DownloadVariant
+
+  @ApiProperty({ enum: ['sha256'], example: 'sha256' })
+  algorithm: 'sha256'
+
+  @ApiProperty({ type: [ArchiveChecksumDto] })
+  files: ArchiveChecksumDto[]
+
+  @ApiProperty({
+    example: 0,
+    description: 'Number of files changed since they were first delivered',
+  })
+  changedCount: number
+}
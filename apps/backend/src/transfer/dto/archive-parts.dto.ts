@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger'
+import {
+  ArchiveFormat,
+  ArchivePart,
+  ArchivePartList,
+  DownloadVariant,
+} from '@photo-st-denis/shared'
+
+export class ArchivePartDto implements ArchivePart {
+  @ApiProperty({ example: 2, description: 'Number of the part, from 1' })
+  part: number
+
+  @ApiProperty({ example: 380, description: 'Number of photos in the part' })
+  fileCount: number
+
+  @ApiProperty({
+    example: 4193255424,
+    description: 'Size of the part in bytes, null for tar.gz which is compressed while streaming',
+    nullable: true,
+    type: Number,
+  })
+  size: number | null
+
+  @ApiProperty({ example: 'photos-jane-2025-08-10-3dirs-part2of3.zip' })
+  filename: string
+
+  @ApiProperty({
+    example: '/api/v1/transfer/download/a1b2c3d4e5f6/parts/2',
+    description: 'Download URL of the part',
+  })
+  downloadUrl: string
+}
+
+export class ArchivePartListDto implements ArchivePartList {
+  @ApiProperty({ enum: ['full', 'web'], example: 'full' })
+  variant: DownloadVariant
+
+  @ApiProperty({ enum: ['zip', 'tar', 'tar.gz'], example: 'zip' })
+  format: ArchiveFormat
+
+  @ApiProperty({
+    example: 4194304000,
+    description: 'Maximum size of a part in bytes, null when the order is not split',
+    nullable: true,
+    type: Number,
+  })
+  maxPartSize: number | null
+
+  @ApiProperty({ type: [ArchivePartDto] })
+  parts: ArchivePartDto[]
+}
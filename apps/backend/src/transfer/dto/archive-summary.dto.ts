@@ -0,0 +1,60 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { ArchiveSummary, DirectorySummary } from '@photo-st-denis/shared'
+
+export class DirectorySummaryDto implements DirectorySummary {
+  @ApiProperty({ example: 'weddings/2025/smith', description: 'Requested directory path' })
+  path: string
+
+  @ApiProperty({ example: true, description: 'Whether the directory can be delivered' })
+  valid: boolean
+
+  @ApiPropertyOptional({
+    example: 'Directory not found',
+    description: 'Reason the directory cannot be delivered',
+  })
+  error?: string
+
+  @ApiProperty({
+    example: 412,
+    description: 'Number of files of the profile, including subdirectories',
+  })
+  fileCount: number
+
+  @ApiProperty({ example: 3355443200, description: 'Total size of these files in bytes' })
+  totalSize: number
+
+  @ApiProperty({ example: '3.13 GB' })
+  totalSizeFormatted: string
+}
+
+export class ArchiveSummaryDto implements ArchiveSummary {
+  @ApiProperty({ example: true, description: 'Whether every directory can be delivered' })
+  valid: boolean
+
+  @ApiProperty({
+    example: 'standard',
+    description: 'File type profile the counts and sizes were computed with',
+  })
+  fileTypeProfile: string
+
+  @ApiProperty({ type: [DirectorySummaryDto] })
+  directories: DirectorySummaryDto[]
+
+  @ApiProperty({ example: 412 })
+  fileCount: number
+
+  @ApiProperty({ example: 3355443200 })
+  totalSize: number
+
+  @ApiProperty({ example: '3.13 GB' })
+  totalSizeFormatted: string
+
+  @ApiProperty({
+    example: 3355512840,
+    description: 'Size of the ZIP archive in bytes, including headers',
+  })
+  estimatedArchiveSize: number
+
+  @ApiProperty({ example: '3.13 GB' })
+  estimatedArchiveSizeFormatted: string
+}
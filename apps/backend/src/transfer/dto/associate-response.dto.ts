@@ -1,24 +1,52 @@
-import { ApiProperty } from '@nestjs/swagger'
-import { DownloadResponse } from '@photo-st-denis/shared'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { DownloadResponse, DownloadVariant } from '@photo-st-denis/shared'
+import { ArchiveSummaryDto } from './archive-summary.dto'
 
 export class AssociateResponseDto implements DownloadResponse {
   @ApiProperty({
     description: 'Download token for accessing the photos',
-    example: '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+    example: 'q9Xz3Lr7VbN2mK8sT4wYcA1eH6uJ0pDfG5iO-_nBvRk',
   })
   token: string
 
   @ApiProperty({
     description: 'Full URL for downloading the photos',
-    example:
-      '/api/v1/transfer/download/1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+    example: '/api/v1/transfer/download/q9Xz3Lr7VbN2mK8sT4wYcA1eH6uJ0pDfG5iO-_nBvRk',
   })
   downloadUrl: string
 
+  @ApiPropertyOptional({
+    description: 'Page to send to the customer, with the order contents and download buttons',
+    example: '/d/q9Xz3Lr7VbN2mK8sT4wYcA1eH6uJ0pDfG5iO-_nBvRk',
+  })
+  pageUrl?: string
+
   @ApiProperty({
     description: 'Token expiration timestamp',
     example: '2025-08-12T16:44:26.000Z',
     type: Date,
   })
   expiresAt: Date
+
+  @ApiPropertyOptional({
+    description:
+      'Variants the link can download; append ?variant=web for photos resized for the web',
+    enum: ['full', 'web'],
+    isArray: true,
+    example: ['full', 'web'],
+  })
+  variants?: DownloadVariant[]
+
+  @ApiPropertyOptional({
+    description: 'File counts and sizes of the ordered directories',
+    type: ArchiveSummaryDto,
+  })
+  summary?: ArchiveSummaryDto
+
+  @ApiPropertyOptional({
+    description: 'Whether the link was emailed to the customer, absent when no email was sent',
+    enum: ['sent', 'failed'],
+    example: 'sent',
+  })
+  emailStatus?: 'sent' | 'failed'
 }
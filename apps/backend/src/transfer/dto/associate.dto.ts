@@ -1,6 +1,27 @@
-import { IsEmail, IsArray, IsString } from 'class-validator'
-import { ApiProperty } from '@nestjs/swagger'
-import { AssociateRequest } from '@photo-st-denis/shared'
+import {
+  IsEmail,
+  IsArray,
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsPositive,
+  IsDateString,
+  IsInt,
+  IsIn,
+  IsBoolean,
+  ArrayNotEmpty,
+  Min,
+} from 'class-validator'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import {
+  AssociateRequest,
+  CUSTOMER_LANGUAGES,
+  CustomerLanguage,
+  DOWNLOAD_VARIANTS,
+  DownloadVariant,
+  ZIP_FOLDER_LAYOUTS,
+  ZipFolderLayout,
+} from '@photo-st-denis/shared'
 
 export class AssociateDto implements AssociateRequest {
   @ApiProperty({
@@ -12,10 +33,118 @@ export class AssociateDto implements AssociateRequest {
 
   @ApiProperty({
     example: ['photos/event1', 'photos/event2'],
-    description: 'List of directory paths containing the photos',
+    description:
+      'Directory paths containing the photos, below PHOTOS_BASE_PATH or prefixed with a library name or "s3:", e.g. "2024:wedding"',
     type: [String],
   })
   @IsArray()
   @IsString({ each: true })
   directoryPaths: string[]
+
+  @ApiPropertyOptional({
+    example: 720,
+    description:
+      'Validity of the download link in hours, bounded by the server expiry policy. Mutually exclusive with expiresAt and expiryPreset',
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  expiresInHours?: number
+
+  @ApiPropertyOptional({
+    example: '2025-09-12T16:44:26.000Z',
+    description: 'Absolute expiration date of the download link',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string
+
+  @ApiPropertyOptional({
+    example: 'archive',
+    description: 'Named expiry preset configured on the server (e.g. short, standard, archive)',
+  })
+  @IsOptional()
+  @IsString()
+  expiryPreset?: string
+
+  @ApiPropertyOptional({
+    example: 3,
+    description:
+      'Maximum number of downloads; resuming an interrupted download that was counted does not count again. Defaults to the server setting (unlimited if unset)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxDownloads?: number
+
+  @ApiPropertyOptional({
+    example: ['full', 'web'],
+    description:
+      'Variants the customer may download: full-resolution originals and/or copies resized for the web. Defaults to the server setting',
+    enum: DOWNLOAD_VARIANTS,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(DOWNLOAD_VARIANTS, { each: true })
+  variants?: DownloadVariant[]
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Remove GPS data and device identifiers (serial numbers, owner name) from the delivered photos; orientation and copyright are kept. Not available with file type profiles holding formats it cannot scrub (HEIC, CR3, ORF, RW2, RAF, videos)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  privacyMode?: boolean
+
+  @ApiPropertyOptional({
+    example: 'with-raw',
+    description:
+      'File type profile selecting the delivered files, e.g. jpeg-only, with-raw or with-video. Defaults to the server setting',
+  })
+  @IsOptional()
+  @IsString()
+  fileTypeProfile?: string
+
+  @ApiPropertyOptional({
+    example: 'full-path',
+    description:
+      'Folders of the directories in the archive: full-path keeps the whole relative path, last-segment the last folder name, flat puts every file at the root with the folder name as prefix, by-date groups photos by capture date. Folders sharing a name get a " (2)" suffix',
+    enum: ZIP_FOLDER_LAYOUTS,
+    default: 'last-segment',
+  })
+  @IsOptional()
+  @IsIn(ZIP_FOLDER_LAYOUTS)
+  folderLayout?: ZipFolderLayout
+
+  @ApiPropertyOptional({
+    example: 4000,
+    description:
+      'Split the download into numbered parts of at most this many MB, listed by GET /transfer/download/{token}/parts. Use 4000 for FAT32 drives. Unset downloads one archive',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxPartSizeMb?: number
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Email the download link to the customer, and a reminder before it expires. Defaults to true when the server sends emails',
+  })
+  @IsOptional()
+  @IsBoolean()
+  sendEmail?: boolean
+
+  @ApiPropertyOptional({
+    example: 'en',
+    description: 'Language of the customer emails. Defaults to the server setting',
+    enum: CUSTOMER_LANGUAGES,
+  })
+  @IsOptional()
+  @IsIn(CUSTOMER_LANGUAGES)
+  language?: CustomerLanguage
 }
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { CacheStats } from '@photo-st-denis/shared'
+
+export class CacheStatsDto implements CacheStats {
+  @ApiProperty({ description: 'Number of archives in the cache', example: 12 })
+  fileCount: number
+
+  @ApiProperty({ description: 'Total size of cached archives in MB', example: 1843.27 })
+  totalSizeMB: number
+
+  @ApiProperty({ description: 'Configured cache size budget in MB', example: 5000 })
+  maxSizeMB: number
+
+  @ApiProperty({ description: 'Share of the size budget in use, in percent', example: 36.87 })
+  usagePercentage: number
+
+  @ApiProperty({ description: 'Age of the oldest cached archive', example: '5h 12m' })
+  oldestFileAge: string
+
+  @ApiProperty({ description: 'Downloads served from the cache', example: 42 })
+  hits: number
+
+  @ApiProperty({ description: 'Downloads that had to read the photo storage', example: 8 })
+  misses: number
+
+  @ApiProperty({ description: 'Cache hit rate, in percent', example: 84 })
+  hitRate: number
+
+  @ApiProperty({
+    description: 'Time the statistics were computed',
+    example: '2025-08-12T16:44:26.000Z',
+  })
+  timestamp: string
+}
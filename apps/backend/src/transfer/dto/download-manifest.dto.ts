@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { DownloadManifest, ManifestDirectory, ManifestFile } from '@photo-st-denis/shared'
+
+export class ManifestFileDto implements ManifestFile {
+  @ApiProperty({
+    example: '0.Qm4Fj2b1Kx8sPzR7Tn0c9w',
+    description: 'Opaque file identifier, only valid with the token of the order',
+  })
+  id: string
+
+  @ApiProperty({ example: 'ceremony/IMG_0412.jpg', description: 'Path below the directory' })
+  name: string
+
+  @ApiProperty({ example: 8421376, description: 'Size of the original file in bytes' })
+  size: number
+
+  @ApiProperty({ example: 'image/jpeg' })
+  contentType: string
+
+  @ApiProperty({
+    example: '/api/v1/transfer/download/a1b2c3d4e5f6/files/0.Qm4Fj2b1Kx8sPzR7Tn0c9w',
+    description: 'URL showing the file inline',
+  })
+  url: string
+}
+
+export class ManifestDirectoryDto implements ManifestDirectory {
+  @ApiProperty({ example: 0, description: 'Index of the directory in the order, from 0' })
+  index: number
+
+  @ApiProperty({
+    example: 'smith',
+    description: 'Folder of the directory in the archive, null when it is no longer available',
+    nullable: true,
+    type: String,
+  })
+  folder: string | null
+
+  @ApiProperty({ example: 412 })
+  fileCount: number
+
+  @ApiProperty({ example: 3355443200, description: 'Size of the original files in bytes' })
+  totalSize: number
+
+  @ApiProperty({
+    example: '/api/v1/transfer/download/a1b2c3d4e5f6/directories/0',
+    description: 'Download URL of the directory as a ZIP archive',
+  })
+  downloadUrl: string
+
+  @ApiProperty({ type: [ManifestFileDto] })
+  files: ManifestFileDto[]
+}
+
+export class DownloadManifestDto implements DownloadManifest {
+  @ApiProperty({ type: [ManifestDirectoryDto] })
+  directories: ManifestDirectoryDto[]
+
+  @ApiProperty({ example: 412 })
+  fileCount: number
+
+  @ApiProperty({ example: 3355443200 })
+  totalSize: number
+}
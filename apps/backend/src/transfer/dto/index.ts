@@ -1,2 +1,7 @@
 export { AssociateDto } from './associate.dto'
 export { AssociateResponseDto } from './associate-response.dto'
+export { CacheStatsDto } from './cache-stats.dto'
+export { ArchiveSummaryDto, DirectorySummaryDto } from './archive-summary.dto'
+export { ArchivePartDto, ArchivePartListDto } from './archive-parts.dto'
+export { ArchiveChecksumDto, ArchiveChecksumListDto } from './archive-checksums.dto'
+export { DownloadManifestDto, ManifestDirectoryDto, ManifestFileDto } from './download-manifest.dto'
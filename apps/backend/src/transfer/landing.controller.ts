@@ -0,0 +1,65 @@
+import { Controller, Get, Header, Headers, Ip, Param, Query, Res, UseGuards } from '@nestjs/common'
+import {
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger'
+import type { Response } from 'express'
+import { DownloadRateLimitGuard } from '../rate-limit/download-rate-limit.guard'
+import { LandingPageService } from './services'
+
+/**
+ * Customer page of a download link, unversioned and short enough to share by hand
+ */
+@ApiTags('transfer')
+@Controller('d')
+export class LandingController {
+  constructor(private readonly landingPageService: LandingPageService) {}
+
+  @Get(':token')
+  @UseGuards(DownloadRateLimitGuard)
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
+  // The token is in the URL: keep it out of search engines and Referer headers
+  @Header('X-Robots-Tag', 'noindex, nofollow')
+  @Header('Referrer-Policy', 'no-referrer')
+  @ApiOperation({
+    summary: 'Download page of an order',
+    description:
+      'HTML page with the studio branding, the directories of the order with their photo counts and sizes, the expiry countdown and the download buttons, in the language of the order. Invalid, revoked and expired links get a page explaining it.',
+  })
+  @ApiParam({
+    name: 'token',
+    description: 'The download token received from the associate endpoint',
+    required: true,
+    type: 'string',
+  })
+  @ApiQuery({ name: 'lang', enum: ['fr', 'en'], required: false })
+  @ApiProduces('text/html')
+  @ApiResponse({ status: 200, description: 'Download page' })
+  @ApiResponse({ status: 404, description: 'Page explaining that the link does not work' })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests from this IP, see the Retry-After header',
+  })
+  async show(
+    @Param('token') token: string,
+    @Query('lang') lang: string | undefined,
+    @Headers('accept-language') acceptLanguage: string | undefined,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ip: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    const page = await this.landingPageService.render(
+      token,
+      { query: lang, acceptLanguage },
+      { ip, userAgent },
+    )
+
+    res.status(page.statusCode)
+    return page.html
+  }
+}
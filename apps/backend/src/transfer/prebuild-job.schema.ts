@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document, Types } from 'mongoose'
+
+export type PrebuildJobDocument = PrebuildJob & Document
+
+export type PrebuildJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+/** Finished jobs are removed by MongoDB after a week */
+const FINISHED_JOB_RETENTION_SECONDS = 7 * 24 * 3600
+
+/**
+ * Background build of an order archive.
+ * Jobs live in MongoDB so queued and interrupted builds survive restarts.
+ */
+@Schema({ collection: 'prebuild_jobs' })
+export class PrebuildJob {
+  @Prop({ type: Types.ObjectId, required: true, index: true })
+  orderId: Types.ObjectId
+
+  @Prop({
+    required: true,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued',
+  })
+  status: PrebuildJobStatus
+
+  /** Number of times a worker picked the job up */
+  @Prop({ default: 0 })
+  attempts: number
+
+  /** Earliest date the job may run, pushed back after each failure */
+  @Prop({ required: true, default: Date.now })
+  runAfter: Date
+
+  /** Refreshed by the worker while it runs the job; a stale lock means the worker died */
+  @Prop({ type: Date, default: null })
+  lockedAt: Date | null
+
+  @Prop({ type: String, default: null })
+  lockedBy: string | null
+
+  @Prop({ type: String, default: null })
+  lastError: string | null
+
+  @Prop({ default: Date.now })
+  createdAt: Date
+
+  @Prop({ type: Date, default: null })
+  finishedAt: Date | null
+}
+
+export const PrebuildJobSchema = SchemaFactory.createForClass(PrebuildJob)
+
+PrebuildJobSchema.index({ status: 1, runAfter: 1 })
+PrebuildJobSchema.index({ finishedAt: 1 }, { expireAfterSeconds: FINISHED_JOB_RETENTION_SECONDS })
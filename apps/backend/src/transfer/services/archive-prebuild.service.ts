@@ -0,0 +1,309 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectModel } from '@nestjs/mongoose'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { Model } from 'mongoose'
+import * as os from 'os'
+import { OrderService } from '../../order/order.service'
+import { ArchiveCacheService } from '../../cache/archive-cache.service'
+import { PrebuildJob, PrebuildJobDocument } from '../prebuild-job.schema'
+import { ZipLayoutOptions, ZipLayoutService } from './zip-layout.service'
+
+const POLL_INTERVAL_NAME = 'archive-prebuild-poll'
+
+/**
+ * Failure that retrying cannot fix, e.g. the order was revoked
+ */
+class PermanentPrebuildError extends Error {}
+
+/**
+ * Pre-builds order archives into the archive cache in the background, so the
+ * first download is served from local disk instead of the NAS. Every variant
+ * the order allows is built, which also resizes its photos for the web variant.
+ *
+ * Jobs are persisted in MongoDB and claimed atomically, so several instances
+ * can share the queue. A worker refreshes the lock of its running jobs; jobs
+ * whose lock goes stale (crash, restart) are picked up again. Failed builds are
+ * retried with exponential backoff until PREBUILD_MAX_ATTEMPTS is reached.
+ */
+@Injectable()
+export class ArchivePrebuildService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ArchivePrebuildService.name)
+  private readonly workerId = `${os.hostname()}:${process.pid}`
+
+  private activeJobs = 0
+  private polling = false
+  private stopped = false
+
+  constructor(
+    @InjectModel(PrebuildJob.name) private readonly jobModel: Model<PrebuildJobDocument>,
+    private readonly orderService: OrderService,
+    private readonly zipLayoutService: ZipLayoutService,
+    private readonly archiveCacheService: ArchiveCacheService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    if (!this.isEnabled()) {
+      this.logger.log('Archive pre-building is disabled')
+      return
+    }
+
+    const interval = setInterval(() => void this.poll(), this.getPollIntervalSeconds() * 1000)
+    this.schedulerRegistry.addInterval(POLL_INTERVAL_NAME, interval)
+
+    // Resume the jobs persisted before the last shutdown
+    void this.poll()
+  }
+
+  onModuleDestroy() {
+    this.stopped = true
+
+    if (this.schedulerRegistry.doesExist('interval', POLL_INTERVAL_NAME)) {
+      this.schedulerRegistry.deleteInterval(POLL_INTERVAL_NAME)
+    }
+  }
+
+  isEnabled(): boolean {
+    return String(this.configService.get('PREBUILD_ENABLED', 'true')) !== 'false'
+  }
+
+  /**
+   * Queues the archive build of a new order
+   */
+  async enqueue(orderId: string): Promise<void> {
+    if (!this.isEnabled()) {
+      return
+    }
+
+    await this.jobModel.create({ orderId, status: 'queued', runAfter: new Date() })
+    await this.orderService.setArchiveStatus(orderId, 'queued')
+
+    void this.poll()
+  }
+
+  /**
+   * Starts due jobs until the concurrency limit is reached.
+   * Jobs run in the background; the returned promise only covers claiming them.
+   */
+  async poll(): Promise<void> {
+    if (this.polling || this.stopped) {
+      return
+    }
+
+    this.polling = true
+
+    try {
+      while (this.activeJobs < this.getConcurrency()) {
+        const job = await this.claimNextJob()
+        if (!job) {
+          break
+        }
+
+        this.activeJobs++
+        void this.runJob(job).finally(() => {
+          this.activeJobs--
+          void this.poll()
+        })
+      }
+    } catch (error) {
+      this.logger.error('Failed to claim archive prebuild jobs:', error.stack)
+    } finally {
+      this.polling = false
+    }
+  }
+
+  getActiveJobCount(): number {
+    return this.activeJobs
+  }
+
+  /**
+   * Atomically takes the oldest due job, or a running job whose worker stopped
+   * refreshing its lock
+   */
+  private async claimNextJob(): Promise<PrebuildJobDocument | null> {
+    const now = new Date()
+    const staleLockDate = new Date(now.getTime() - this.getLockTimeoutSeconds() * 1000)
+
+    return this.jobModel
+      .findOneAndUpdate(
+        {
+          $or: [
+            { status: 'queued', runAfter: { $lte: now } },
+            { status: 'running', lockedAt: { $lte: staleLockDate } },
+          ],
+        },
+        {
+          $set: { status: 'running', lockedAt: now, lockedBy: this.workerId },
+          $inc: { attempts: 1 },
+        },
+        { sort: { runAfter: 1 }, new: true },
+      )
+      .exec()
+  }
+
+  private async runJob(job: PrebuildJobDocument): Promise<void> {
+    const orderId = job.orderId.toString()
+    const heartbeat = setInterval(
+      () => {
+        this.jobModel
+          .updateOne({ _id: job._id, lockedBy: this.workerId }, { $set: { lockedAt: new Date() } })
+          .exec()
+          .catch((err) => this.logger.warn(`Failed to refresh lock of job ${job.id}: ${err}`))
+      },
+      (this.getLockTimeoutSeconds() * 1000) / 3,
+    )
+
+    try {
+      await this.orderService.setArchiveStatus(orderId, 'building')
+      await this.buildArchive(orderId)
+
+      await this.jobModel
+        .updateOne(
+          { _id: job._id },
+          {
+            $set: {
+              status: 'completed',
+              finishedAt: new Date(),
+              lockedAt: null,
+              lockedBy: null,
+              lastError: null,
+            },
+          },
+        )
+        .exec()
+      await this.orderService.setArchiveStatus(orderId, 'ready')
+    } catch (error) {
+      await this.handleFailure(job, error).catch((err) =>
+        this.logger.error(`Failed to record the failure of job ${job.id}:`, err.stack),
+      )
+    } finally {
+      clearInterval(heartbeat)
+    }
+  }
+
+  private async buildArchive(orderId: string): Promise<void> {
+    const order = await this.orderService.findById(orderId)
+
+    if (!order) {
+      throw new PermanentPrebuildError('Order no longer exists')
+    }
+    if (order.revokedAt || order.tokenExpiry < new Date()) {
+      throw new PermanentPrebuildError('Order is revoked or expired')
+    }
+
+    for (const variant of order.variants?.length ? order.variants : ['full' as const]) {
+      await this.buildVariantArchive(orderId, order.directoryPaths, {
+        variant,
+        privacyMode: order.privacyMode,
+        fileTypeProfile: order.fileTypeProfile,
+        folderLayout: order.folderLayout,
+        // Other formats and parts are streamed live
+        format: 'zip',
+        // Web copies are made here rather than in the first download request
+        waitForVariants: true,
+      })
+    }
+  }
+
+  private async buildVariantArchive(
+    orderId: string,
+    directoryPaths: string[],
+    options: Required<Omit<ZipLayoutOptions, 'directoryIndex'>>,
+  ): Promise<void> {
+    const { variant } = options
+    const startTime = Date.now()
+    const layout = await this.zipLayoutService.buildLayout(directoryPaths, options)
+    const cacheKey = { orderId, variant, contentHash: layout.etag, size: layout.totalSize }
+
+    if (layout.totalSize > this.archiveCacheService.getMaxSizeBytes()) {
+      throw new PermanentPrebuildError(`The ${variant} archive is larger than the archive cache`)
+    }
+
+    if (this.archiveCacheService.has(cacheKey)) {
+      this.logger.log(`The ${variant} archive of order ${orderId} is already cached`)
+      return
+    }
+
+    await this.archiveCacheService.store(cacheKey, this.zipLayoutService.createStream(layout))
+
+    this.logger.log(
+      `Pre-built the ${variant} archive of order ${orderId} in ${Date.now() - startTime}ms: ${layout.entries.length} files, ${layout.totalSize} bytes`,
+    )
+  }
+
+  private async handleFailure(job: PrebuildJobDocument, error: Error): Promise<void> {
+    const orderId = job.orderId.toString()
+    const permanent = error instanceof PermanentPrebuildError
+    const maxAttempts = this.getMaxAttempts()
+
+    if (permanent || job.attempts >= maxAttempts) {
+      this.logger.error(
+        `Archive build of order ${orderId} failed after ${job.attempts} attempt(s): ${error.message}`,
+      )
+      await this.jobModel
+        .updateOne(
+          { _id: job._id },
+          {
+            $set: {
+              status: 'failed',
+              finishedAt: new Date(),
+              lockedAt: null,
+              lockedBy: null,
+              lastError: error.message,
+            },
+          },
+        )
+        .exec()
+      await this.orderService.setArchiveStatus(orderId, 'failed', error.message)
+      return
+    }
+
+    const delaySeconds = this.getRetryDelaySeconds(job.attempts)
+    this.logger.warn(
+      `Archive build of order ${orderId} failed (attempt ${job.attempts}/${maxAttempts}), retrying in ${delaySeconds}s: ${error.message}`,
+    )
+    await this.jobModel
+      .updateOne(
+        { _id: job._id },
+        {
+          $set: {
+            status: 'queued',
+            runAfter: new Date(Date.now() + delaySeconds * 1000),
+            lockedAt: null,
+            lockedBy: null,
+            lastError: error.message,
+          },
+        },
+      )
+      .exec()
+    await this.orderService.setArchiveStatus(orderId, 'queued', error.message)
+  }
+
+  /**
+   * Exponential backoff: the base delay doubles after each failed attempt, up to the maximum
+   */
+  private getRetryDelaySeconds(attempts: number): number {
+    const base = Number(this.configService.get<number>('PREBUILD_RETRY_BASE_SECONDS', 30))
+    const max = Number(this.configService.get<number>('PREBUILD_RETRY_MAX_SECONDS', 3600))
+
+    return Math.min(base * 2 ** (attempts - 1), max)
+  }
+
+  private getConcurrency(): number {
+    return Number(this.configService.get<number>('PREBUILD_CONCURRENCY', 1))
+  }
+
+  private getMaxAttempts(): number {
+    return Number(this.configService.get<number>('PREBUILD_MAX_ATTEMPTS', 5))
+  }
+
+  private getPollIntervalSeconds(): number {
+    return Number(this.configService.get<number>('PREBUILD_POLL_INTERVAL_SECONDS', 10))
+  }
+
+  private getLockTimeoutSeconds(): number {
+    return Number(this.configService.get<number>('PREBUILD_LOCK_TIMEOUT_SECONDS', 300))
+  }
+}
@@ -0,0 +1,237 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { StorageService } from '../../storage/storage.service'
+import { PhotoFile } from './photos-config.service'
+import { ByteSource, MalformedMetadataError, bufferSource } from './metadata-scrubber'
+import { formatCaptureDate } from './folder-layout'
+
+/** Maximum number of capture dates kept in memory between requests */
+const DATE_CACHE_MAX_ENTRIES = 50000
+/** Files inspected at once when dating an order */
+const INSPECT_CONCURRENCY = 16
+
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff])
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1')
+
+const JPEG_APP1 = 0xe1
+const JPEG_SOS = 0xda
+const JPEG_EOI = 0xd9
+
+const TAG_DATE_TIME = 0x0132
+const TAG_EXIF_IFD = 0x8769
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+
+const TIFF_TYPE_ASCII = 2
+const TIFF_TYPE_LONG = 4
+const IFD_ENTRY_SIZE = 12
+const MAX_IFD_ENTRIES = 1024
+
+/** "YYYY:MM:DD HH:MM:SS", unknown parts may be blank */
+const EXIF_DATE_PATTERN = /^(\d{4}):(\d{2}):(\d{2})/
+
+/**
+ * Reads the day photos were taken, for archives grouped by capture date.
+ *
+ * The date comes from the EXIF DateTimeOriginal tag of JPEG files and of TIFF based
+ * files (TIFF, DNG and most RAW formats), falling back to the DateTime tag. Files
+ * without a readable date, such as videos, are dated by their modification time.
+ */
+@Injectable()
+export class CaptureDateService {
+  private readonly logger = new Logger(CaptureDateService.name)
+
+  /** Dates of already inspected files, keyed by path, size and mtime */
+  private readonly dateCache = new Map<string, string | null>()
+
+  constructor(private readonly storageService: StorageService) {}
+
+  /**
+   * Dates several files
+   *
+   * @param files - Original files, before any variant is resolved
+   * @returns Day each file was taken as YYYY-MM-DD, in the same order
+   */
+  async resolveDates(files: PhotoFile[]): Promise<string[]> {
+    const results: string[] = new Array(files.length)
+    let next = 0
+
+    const worker = async () => {
+      while (next < files.length) {
+        const index = next++
+        const file = files[index]
+        results[index] = (await this.readCaptureDate(file)) ?? formatCaptureDate(file.mtime)
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(INSPECT_CONCURRENCY, files.length) }, worker))
+
+    return results
+  }
+
+  /**
+   * Reads the capture date of a file from its EXIF data
+   *
+   * @returns Day the photo was taken as YYYY-MM-DD, null when the file has no date
+   */
+  async readCaptureDate(file: PhotoFile): Promise<string | null> {
+    const cacheKey = `${file.fullPath}:${file.size}:${file.mtime.getTime()}`
+
+    if (this.dateCache.has(cacheKey)) {
+      return this.dateCache.get(cacheKey) ?? null
+    }
+
+    let date: string | null = null
+
+    try {
+      date = await this.inspect(this.fileSource(file))
+    } catch (error) {
+      // Grouping is a convenience, so unreadable metadata only moves the photo
+      this.logger.debug(`No capture date for ${file.fullPath}: ${error.message}`)
+    }
+
+    this.rememberDate(cacheKey, date)
+    return date
+  }
+
+  private async inspect(source: ByteSource): Promise<string | null> {
+    const signature = await source.read(0, Math.min(source.size, 4))
+
+    if (signature.subarray(0, JPEG_SIGNATURE.length).equals(JPEG_SIGNATURE)) {
+      const exif = await this.findJpegExif(source)
+      return exif ? this.readTiffDate(bufferSource(exif)) : null
+    }
+
+    const tiffSignature = signature.toString('latin1')
+    if (tiffSignature === 'II*\0' || tiffSignature === 'MM\0*') {
+      return this.readTiffDate(source)
+    }
+
+    return null
+  }
+
+  /**
+   * Walks the JPEG segments up to the image data
+   *
+   * @returns TIFF structure of the Exif APP1 segment, null when there is none
+   */
+  private async findJpegExif(source: ByteSource): Promise<Buffer | null> {
+    let offset = 2
+
+    while (offset + 4 <= source.size) {
+      const header = await source.read(offset, 4)
+      const marker = header[1]
+
+      if (header[0] !== 0xff) {
+        throw new MalformedMetadataError(`No JPEG marker at ${offset}`)
+      }
+      // Fill byte before a marker
+      if (marker === 0xff) {
+        offset++
+        continue
+      }
+      if (marker === JPEG_SOS || marker === JPEG_EOI) {
+        return null
+      }
+
+      const payloadLength = header.readUInt16BE(2) - 2
+
+      if (marker === JPEG_APP1 && payloadLength > EXIF_HEADER.length) {
+        const payload = await source.read(offset + 4, payloadLength)
+        if (payload.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER)) {
+          return payload.subarray(EXIF_HEADER.length)
+        }
+      }
+
+      offset += 4 + Math.max(payloadLength, 0)
+    }
+
+    return null
+  }
+
+  /**
+   * Reads DateTimeOriginal from the Exif directory, or DateTime from IFD0
+   */
+  private async readTiffDate(source: ByteSource): Promise<string | null> {
+    const header = await source.read(0, 8)
+    const littleEndian = header.toString('latin1', 0, 2) === 'II'
+    const readUInt16 = (buffer: Buffer, offset: number) =>
+      littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset)
+    const readUInt32 = (buffer: Buffer, offset: number) =>
+      littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset)
+
+    /** Tag values of a directory that are ASCII strings or LONG offsets */
+    const readIfd = async (offset: number) => {
+      const count = readUInt16(await source.read(offset, 2), 0)
+
+      if (count > MAX_IFD_ENTRIES) {
+        throw new MalformedMetadataError(`Directory at ${offset} has ${count} entries`)
+      }
+
+      const buffer = await source.read(offset + 2, count * IFD_ENTRY_SIZE)
+      const values = new Map<number, { type: number; count: number; value: number }>()
+
+      for (let position = 0; position < buffer.length; position += IFD_ENTRY_SIZE) {
+        values.set(readUInt16(buffer, position), {
+          type: readUInt16(buffer, position + 2),
+          count: readUInt32(buffer, position + 4),
+          value: readUInt32(buffer, position + 8),
+        })
+      }
+
+      return values
+    }
+
+    const readDate = async (entry?: { type: number; count: number; value: number }) => {
+      // Dates are 20 bytes, so they are never stored inline
+      if (entry?.type !== TIFF_TYPE_ASCII || entry.count < 10 || entry.count > 64) {
+        return null
+      }
+
+      const match = EXIF_DATE_PATTERN.exec(
+        (await source.read(entry.value, entry.count)).toString('latin1'),
+      )
+      const [, year, month, day] = match ?? []
+
+      return match && year !== '0000' && month !== '00' && day !== '00'
+        ? `${year}-${month}-${day}`
+        : null
+    }
+
+    const ifd0 = await readIfd(readUInt32(header, 4))
+    const exifPointer = ifd0.get(TAG_EXIF_IFD)
+
+    if (exifPointer?.type === TIFF_TYPE_LONG) {
+      const original = await readDate(
+        (await readIfd(exifPointer.value)).get(TAG_DATE_TIME_ORIGINAL),
+      )
+      if (original) {
+        return original
+      }
+    }
+
+    return readDate(ifd0.get(TAG_DATE_TIME))
+  }
+
+  private fileSource(file: PhotoFile): ByteSource {
+    return {
+      size: file.size,
+      read: async (offset, length) => {
+        if (offset < 0 || length < 0 || offset + length > file.size) {
+          throw new MalformedMetadataError(`Offset ${offset} is outside of the file`)
+        }
+        return this.storageService.read(file.fullPath, offset, length)
+      },
+    }
+  }
+
+  private rememberDate(key: string, date: string | null): void {
+    this.dateCache.set(key, date)
+
+    // Map keeps insertion order, so the first key is the least recently stored
+    if (this.dateCache.size > DATE_CACHE_MAX_ENTRIES) {
+      const oldestKey = this.dateCache.keys().next().value
+      if (oldestKey !== undefined) {
+        this.dateCache.delete(oldestKey)
+      }
+    }
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * MANIFEST.sha256, the checksum list added after the files of every archive.
+ * Lines follow the sha256sum format, so customers can check their extracted photos
+ * with `sha256sum -c MANIFEST.sha256`.
+ */
+import { createHash } from 'crypto'
+import { Transform } from 'stream'
+
+/** Name of the manifest entry, at the root of the archive */
+export const CHECKSUM_MANIFEST_NAME = 'MANIFEST.sha256'
+
+/** Hex digest placeholder, every SHA-256 has the same length */
+const SHA256_PLACEHOLDER = '0'.repeat(64)
+
+/**
+ * Checksum of one archive entry
+ */
+export interface FileChecksum {
+  /** Entry name in the archive */
+  name: string
+  size: number
+  /** SHA-256 of the contents as delivered, in hex */
+  sha256: string
+}
+
+/**
+ * Manifest line of a file. Like sha256sum, names holding a backslash or a line break
+ * are escaped and their line starts with a backslash.
+ */
+function formatLine(name: string, sha256: string): string {
+  const escaped = name.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+  return `${escaped === name ? '' : '\\'}${sha256}  ${escaped}\n`
+}
+
+/**
+ * Size of the manifest line of a file, known before its checksum
+ */
+export function getChecksumLineSize(name: string): number {
+  return Buffer.byteLength(formatLine(name, SHA256_PLACEHOLDER))
+}
+
+/**
+ * Size of the manifest of the given entry names
+ */
+export function getChecksumManifestSize(names: string[]): number {
+  return names.reduce((total, name) => total + getChecksumLineSize(name), 0)
+}
+
+/**
+ * Manifest contents, one line per file in archive order
+ */
+export function buildChecksumManifest(checksums: FileChecksum[]): Buffer {
+  return Buffer.from(checksums.map(({ name, sha256 }) => formatLine(name, sha256)).join(''))
+}
+
+/**
+ * Pass-through stream hashing the bytes going through it
+ *
+ * @param onDigest - Receives the hex SHA-256 once the last byte went through
+ */
+export function createChecksumStream(onDigest: (sha256: string) => void): Transform {
+  const hash = createHash('sha256')
+
+  return new Transform({
+    transform: (chunk: Buffer, _encoding, callback) => {
+      hash.update(chunk)
+      callback(null, chunk)
+    },
+    flush: (callback) => {
+      onDigest(hash.digest('hex'))
+      callback()
+    },
+  })
+}
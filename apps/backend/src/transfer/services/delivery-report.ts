@@ -0,0 +1,65 @@
+/**
+ * DELIVERY_REPORT.txt, added to the archives that leave out directories or files of
+ * the order, so the customer knows the archive is incomplete
+ */
+import { DeliveryReport } from '@photo-st-denis/shared'
+
+/** Name of the report entry, at the root of the archive */
+export const DELIVERY_REPORT_NAME = 'DELIVERY_REPORT.txt'
+
+/** Reason of the directories that no longer exist */
+export const DIRECTORY_NOT_FOUND = 'directory not found'
+
+/** Reason of the files of privacy-mode orders whose private metadata cannot be removed */
+export const METADATA_NOT_REMOVABLE = 'private metadata cannot be removed'
+
+export function createDeliveryReport(): DeliveryReport {
+  return { skippedDirectories: [], unreadableFiles: [] }
+}
+
+export function hasDeliveryIssues(report: DeliveryReport): boolean {
+  return report.skippedDirectories.length > 0 || report.unreadableFiles.length > 0
+}
+
+/**
+ * Short summary for log messages and errors, e.g. "1 directory and 3 files left out"
+ */
+export function describeDeliveryReport(report: DeliveryReport): string {
+  const count = (value: number, singular: string, plural: string) =>
+    `${value} ${value === 1 ? singular : plural}`
+
+  return `${count(report.skippedDirectories.length, 'directory', 'directories')} and ${count(
+    report.unreadableFiles.length,
+    'file',
+    'files',
+  )} left out`
+}
+
+/**
+ * Report contents. Files are named by their order directory and their path below it,
+ * since unreadable files have no entry name in the archive.
+ *
+ * @param directoryPaths - Directories of the order, in order
+ */
+export function formatDeliveryReport(report: DeliveryReport, directoryPaths: string[]): Buffer {
+  const lines = [
+    'Some photos of this order could not be included in this archive.',
+    'Please contact us and we will send them to you.',
+  ]
+
+  if (report.skippedDirectories.length) {
+    lines.push('', 'Directories left out:')
+    for (const directory of report.skippedDirectories) {
+      lines.push(`- ${directory.path} (${directory.reason})`)
+    }
+  }
+
+  if (report.unreadableFiles.length) {
+    lines.push('', 'Files left out:')
+    for (const file of report.unreadableFiles) {
+      lines.push(`- ${directoryPaths[file.directoryIndex]}/${file.path} (${file.reason})`)
+    }
+  }
+
+  return Buffer.from(`${lines.join('\n')}\n`)
+}
@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ArchiveSummary, DirectorySummary, ZipFolderLayout } from '@photo-st-denis/shared'
+import { PhotosConfigService } from './photos-config.service'
+import { ZipLayoutService } from './zip-layout.service'
+import { FileTypeProfile } from './file-types'
+
+/**
+ * Checks the directories of an order before it is created and summarizes
+ * what the customer will receive
+ */
+@Injectable()
+export class DirectoryPreviewService {
+  private readonly logger = new Logger(DirectoryPreviewService.name)
+
+  constructor(
+    private readonly photosConfig: PhotosConfigService,
+    private readonly zipLayoutService: ZipLayoutService,
+  ) {}
+
+  /**
+   * Validates each directory (below the photos base path, exists, contains
+   * files of the profile) and computes file counts, sizes and the exact archive
+   * size of the valid ones
+   *
+   * @param directoryPaths - Directory paths relative to their storage root, e.g. "s3:season/event"
+   * @param fileTypeProfile - Profile name, the default profile when omitted
+   * @param folderLayout - Folders of the directories in the archive, which change its size
+   * @param privacyMode - Whether the order removes private metadata from the photos
+   * @throws BadRequestException if the profile is unknown or cannot be used in privacy mode
+   */
+  async preview(
+    directoryPaths: string[],
+    fileTypeProfile?: string,
+    folderLayout?: ZipFolderLayout,
+    privacyMode?: boolean,
+  ): Promise<ArchiveSummary> {
+    const profile = this.photosConfig.resolveFileTypeProfile(fileTypeProfile, privacyMode)
+    const directories = await Promise.all(
+      directoryPaths.map((dirPath) => this.inspectDirectory(dirPath, profile)),
+    )
+    const validPaths = directories.filter((dir) => dir.valid).map((dir) => dir.path)
+    const layout = validPaths.length
+      ? await this.zipLayoutService.buildLayout(validPaths, {
+          fileTypeProfile: profile.name,
+          folderLayout,
+        })
+      : null
+
+    const fileCount = directories.reduce((total, dir) => total + dir.fileCount, 0)
+    const totalSize = directories.reduce((total, dir) => total + dir.totalSize, 0)
+    const estimatedArchiveSize = layout?.totalSize ?? 0
+
+    return {
+      valid: directories.every((dir) => dir.valid),
+      fileTypeProfile: profile.name,
+      directories,
+      fileCount,
+      totalSize,
+      totalSizeFormatted: this.photosConfig.formatFileSize(totalSize),
+      estimatedArchiveSize,
+      estimatedArchiveSizeFormatted: this.photosConfig.formatFileSize(estimatedArchiveSize),
+    }
+  }
+
+  private async inspectDirectory(
+    dirPath: string,
+    profile: FileTypeProfile,
+  ): Promise<DirectorySummary> {
+    const invalid = (error: string): DirectorySummary => ({
+      path: dirPath,
+      valid: false,
+      error,
+      fileCount: 0,
+      totalSize: 0,
+      totalSizeFormatted: this.photosConfig.formatFileSize(0),
+    })
+
+    if (!this.photosConfig.isStorageAvailable(dirPath)) {
+      return invalid(`Storage "${this.photosConfig.getStorageName(dirPath)}" is not configured`)
+    }
+
+    if (!(await this.photosConfig.isLibraryAvailable(dirPath))) {
+      return invalid(`Library "${this.photosConfig.getStorageName(dirPath)}" is unavailable`)
+    }
+
+    if (!(await this.photosConfig.isWithinBasePath(dirPath))) {
+      this.logger.warn(`Rejected directory outside the photos base path: ${dirPath}`)
+      return invalid('Directory is outside the photos base path')
+    }
+
+    if (
+      !(await this.photosConfig.checkDirectoryExists(this.photosConfig.getFullPhotoPath(dirPath)))
+    ) {
+      return invalid('Directory not found')
+    }
+
+    const { fileCount, totalSize } = await this.photosConfig.getDirectoryStats(dirPath, profile)
+
+    if (fileCount === 0) {
+      return invalid(`Directory contains no files of the ${profile.name} profile`)
+    }
+
+    return {
+      path: dirPath,
+      valid: true,
+      fileCount,
+      totalSize,
+      totalSizeFormatted: this.photosConfig.formatFileSize(totalSize),
+    }
+  }
+}
@@ -1,117 +1,1106 @@
-import { Injectable, Logger } from '@nestjs/common'
+import { Injectable, Logger, HttpStatus, HttpException, ForbiddenException } from '@nestjs/common'
 import { StreamableFile, NotFoundException, InternalServerErrorException } from '@nestjs/common'
-import { PassThrough } from 'stream'
-import { Order } from '../../order/order.schema'
-import { OrderService } from '../../order/order.service'
-import { FileProcessingService } from './file-processing.service'
+import { BadRequestException, ServiceUnavailableException } from '@nestjs/common'
+import { Readable, Transform, pipeline } from 'stream'
+import { createGzip } from 'zlib'
+import { createHash } from 'crypto'
+import * as path from 'path'
+import {
+  ARCHIVE_FORMATS,
+  ArchiveChecksumList,
+  ArchiveFormat,
+  ArchivePart,
+  ArchivePartList,
+  CustomerLanguage,
+  DOWNLOAD_VARIANTS,
+  DownloadManifest,
+  DownloadVariant,
+  ManifestDirectory,
+  ManifestFile,
+} from '@photo-st-denis/shared'
+import { Order, OrderDocument } from '../../order/order.schema'
+import { DeliveryReportInput, OrderService } from '../../order/order.service'
+import { ArchiveCacheService } from '../../cache/archive-cache.service'
+import { DownloadRateLimitService } from '../../rate-limit/download-rate-limit.service'
+import { MetricsService } from '../../metrics/metrics.service'
+import { TokenService } from '../../token/token.service'
+import { PlannedEntry, ZipLayout, ZipLayoutOptions, ZipLayoutService } from './zip-layout.service'
+import { getContentType } from './file-types'
+import { PhotosConfigService } from './photos-config.service'
+import { VariantNotReadyError } from './image-variant.service'
+import { describeDeliveryReport, hasDeliveryIssues } from './delivery-report'
+
+const MEGABYTE = 1024 * 1024
+/** Delay suggested to clients while the checksums of an order are computed */
+export const CHECKSUMS_RETRY_AFTER_SECONDS = 10
+/** Delay suggested to clients while the web copies of an order are made */
+const VARIANT_RETRY_AFTER_SECONDS = 30
+
+/** Index of the directory, then the keyed hash identifying the file in it */
+const FILE_ID_PATTERN = /^(\d+)\.([A-Za-z0-9_-]{22})$/
+
+const CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  tar: 'application/x-tar',
+  'tar.gz': 'application/gzip',
+}
+
+/**
+ * Conditional request headers relevant to resumable downloads
+ */
+export interface DownloadRequestHeaders {
+  range?: string
+  ifRange?: string
+}
+
+/**
+ * Client details recorded with each download event
+ */
+export interface DownloadClientInfo {
+  ip?: string
+  userAgent?: string
+}
+
+/**
+ * Container and part of the order archive to download
+ */
+export interface ArchiveRequest {
+  /** zip, tar or tar.gz; zip when unset */
+  format?: string
+  /** Part of the split archive, from 1; the whole archive when unset */
+  part?: number
+  /** Order directory to download on its own, from 0; every directory when unset */
+  directory?: number
+}
+
+/**
+ * Parts of the order archive, without their download URLs
+ */
+export interface ArchivePartListing extends Omit<ArchivePartList, 'parts'> {
+  parts: Omit<ArchivePart, 'downloadUrl'>[]
+}
+
+/**
+ * Directories and files of an order, without their download URLs
+ */
+export interface DownloadManifestListing extends Omit<DownloadManifest, 'directories'> {
+  directories: (Omit<ManifestDirectory, 'downloadUrl' | 'files'> & {
+    files: Omit<ManifestFile, 'url'>[]
+  })[]
+}
+
+/**
+ * What the customer page of an order shows: its directories with their photo counts
+ * and sizes, and what the link still allows
+ */
+export interface DownloadOverview {
+  expiresAt: Date
+  language: CustomerLanguage
+  variants: DownloadVariant[]
+  /** Downloads left, null for unlimited */
+  remainingDownloads: number | null
+  directories: Omit<ManifestDirectory, 'downloadUrl' | 'files'>[]
+  fileCount: number
+  totalSize: number
+}
+
+export type TokenRejectionReason = 'invalid' | 'revoked' | 'expired'
+
+/**
+ * Token that gives no access to an order; a 404 for API clients, with the reason
+ * for pages shown to customers
+ */
+export class DownloadTokenRejectedException extends NotFoundException {
+  constructor(
+    message: string,
+    readonly reason: TokenRejectionReason,
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Response to send for a download request: status, headers and the body stream
+ */
+export interface PreparedDownload {
+  statusCode: HttpStatus
+  headers: Record<string, string>
+  /** Archive stream, absent when the requested range cannot be satisfied */
+  file?: StreamableFile
+}
+
+/**
+ * Inclusive byte range of the archive
+ */
+interface ByteRange {
+  start: number
+  end: number
+}
+
+/**
+ * Archive or single file served with byte ranges
+ */
+interface RangeTarget {
+  totalSize: number
+  etag: string
+  lastModified: Date
+}
 
 @Injectable()
 export class DownloadService {
   private readonly logger = new Logger(DownloadService.name)
+  /** ETags of the archives whose files are being hashed in the background */
+  private readonly pendingChecksums = new Set<string>()
 
   constructor(
     private readonly orderService: OrderService,
-    private readonly fileProcessingService: FileProcessingService,
+    private readonly zipLayoutService: ZipLayoutService,
+    private readonly archiveCacheService: ArchiveCacheService,
+    private readonly rateLimitService: DownloadRateLimitService,
+    private readonly metricsService: MetricsService,
+    private readonly tokenService: TokenService,
+    private readonly photosConfig: PhotosConfigService,
   ) {}
 
-  async createDownload(token: string): Promise<StreamableFile> {
+  async createDownload(
+    token: string,
+    requestHeaders: DownloadRequestHeaders = {},
+    client: DownloadClientInfo = {},
+    requestedVariant?: string,
+    archive: ArchiveRequest = {},
+  ): Promise<PreparedDownload> {
     const startTime = Date.now()
 
     try {
-      const order = await this.validateToken(token)
+      const order = await this.validateToken(token, client)
+      const variant = this.resolveVariant(order, requestedVariant)
+      const format = this.resolveFormat(archive.format)
+
+      this.logDownloadStart(order, token, variant, format)
 
-      this.logDownloadStart(order, token)
+      const layout = await this.resolveLayout(order, variant, format, archive)
+      this.checkDeliveryReport(order, layout)
+      // Compressed sizes are only known once streamed, so tar.gz cannot serve byte ranges
+      const compressed = format === 'tar.gz'
+      const headers = this.createValidatorHeaders(layout, compressed)
+      const range = compressed ? undefined : this.resolveRange(layout, requestHeaders)
 
-      const stream = this.createDownloadStream()
-      const zipArchiver = this.fileProcessingService.createZipArchiver(stream)
+      if (range === 'unsatisfiable') {
+        this.logger.warn(
+          `Unsatisfiable range "${requestHeaders.range}" for token ${this.maskToken(token)}`,
+        )
+        return {
+          statusCode: HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+          headers: { ...headers, 'Content-Range': `bytes */${layout.totalSize}` },
+        }
+      }
+
+      const { start, end } = range ?? { start: 0, end: layout.totalSize - 1 }
+      const eventId = await this.registerDownloadEvent(order, layout, format, start, end, client)
+      const archiveStream = await this.createArchiveStream(order, layout, start, end, !range).catch(
+        async (error) => {
+          await this.cancelDownloadEvent(order, eventId)
+          throw error
+        },
+      )
+      // Delivery is tracked on the tar bytes, which the recorded spans refer to
+      const tracked = this.trackDelivery(archiveStream, order, eventId, () => {
+        if (start === 0 && end === layout.totalSize - 1) {
+          this.recordDeliveredChecksums(order, layout)
+        }
+      })
+      const stream = compressed
+        ? pipeline(tracked, createGzip({ level: 6 }), () => undefined)
+        : tracked
+      this.watchStream(stream, token)
 
-      this.processDirectoriesInBackground(order.directoryPaths, zipArchiver, stream, token)
+      this.logSetupComplete(startTime, token, layout, range)
 
-      this.logSetupComplete(startTime, token)
+      const filename = this.generateDownloadFilename(order, variant, format, layout)
+      const file = this.createStreamableFile(
+        stream,
+        filename,
+        format,
+        compressed ? undefined : end - start + 1,
+      )
 
-      const filename = this.generateDownloadFilename(order)
+      if (range) {
+        return {
+          statusCode: HttpStatus.PARTIAL_CONTENT,
+          headers: { ...headers, 'Content-Range': `bytes ${start}-${end}/${layout.totalSize}` },
+          file,
+        }
+      }
 
-      return this.createStreamableFile(stream, filename)
+      return { statusCode: HttpStatus.OK, headers, file }
     } catch (error) {
       return this.handleDownloadError(error, token)
     }
   }
 
-  private async validateToken(token: string): Promise<Order> {
+  /**
+   * Lists the parts an order archive is split into, with the size and file count of each
+   *
+   * @throws NotFoundException for an invalid, revoked or expired token
+   * @throws BadRequestException for an unknown variant or format
+   */
+  async listParts(
+    token: string,
+    client: DownloadClientInfo = {},
+    requestedVariant?: string,
+    requestedFormat?: string,
+  ): Promise<ArchivePartListing> {
+    const order = await this.validateToken(token, client)
+    const variant = this.resolveVariant(order, requestedVariant)
+    const format = this.resolveFormat(requestedFormat)
+    const maxPartSize = this.getMaxPartSize(order)
+
+    const layouts = await this.zipLayoutService
+      .buildParts(order.directoryPaths, this.getLayoutOptions(order, variant, format), maxPartSize)
+      .catch((error) => this.rejectPendingVariant(error))
+
+    return {
+      variant,
+      format,
+      maxPartSize,
+      parts: layouts.map((layout, index) => ({
+        part: index + 1,
+        fileCount: layout.entries.length,
+        size: format === 'tar.gz' ? null : layout.totalSize,
+        filename: this.generateDownloadFilename(order, variant, format, layout),
+      })),
+    }
+  }
+
+  /**
+   * Lists the directories of an order and their files, with the sizes of the originals.
+   * Each file gets an opaque ID to download it on its own.
+   *
+   * @throws NotFoundException for an invalid, revoked or expired token
+   */
+  async getManifest(
+    token: string,
+    client: DownloadClientInfo = {},
+  ): Promise<DownloadManifestListing> {
+    const order = await this.validateToken(token, client)
+    const directories = await this.zipLayoutService.listDirectories(order.directoryPaths, {
+      fileTypeProfile: order.fileTypeProfile,
+      folderLayout: order.folderLayout,
+    })
+
+    const listed = directories.map((directory) => ({
+      index: directory.index,
+      folder: directory.folder,
+      fileCount: directory.entries.length,
+      totalSize: directory.entries.reduce((total, entry) => total + entry.size, 0),
+      files: directory.entries.map((entry) => ({
+        id: this.getFileId(order, entry),
+        name: entry.relativePath,
+        size: entry.size,
+        contentType: this.getFileContentType(entry),
+      })),
+    }))
+
+    return {
+      directories: listed,
+      fileCount: listed.reduce((total, directory) => total + directory.fileCount, 0),
+      totalSize: listed.reduce((total, directory) => total + directory.totalSize, 0),
+    }
+  }
+
+  /**
+   * Summarizes the directories of an order and what its link allows, for the customer page
+   *
+   * @throws DownloadTokenRejectedException for an invalid, revoked or expired token
+   */
+  async getOverview(token: string, client: DownloadClientInfo = {}): Promise<DownloadOverview> {
+    const order = await this.validateToken(token, client)
+    const directories = await this.zipLayoutService.listDirectories(order.directoryPaths, {
+      fileTypeProfile: order.fileTypeProfile,
+      folderLayout: order.folderLayout,
+    })
+
+    const listed = directories.map((directory) => ({
+      index: directory.index,
+      folder: directory.folder,
+      fileCount: directory.entries.length,
+      totalSize: directory.entries.reduce((total, entry) => total + entry.size, 0),
+    }))
+
+    return {
+      expiresAt: order.tokenExpiry,
+      language: order.language ?? 'fr',
+      variants: order.variants?.length ? order.variants : ['full'],
+      remainingDownloads: this.orderService.getDeliverySummary(order).remainingDownloads,
+      directories: listed,
+      fileCount: listed.reduce((total, directory) => total + directory.fileCount, 0),
+      totalSize: listed.reduce((total, directory) => total + directory.totalSize, 0),
+    }
+  }
+
+  /**
+   * Lists the SHA-256 of every file of the order archive, as in its MANIFEST.sha256,
+   * and compares them to the checksums recorded when the archive was first delivered whole.
+   * Checksums come from the ones computed while streaming the archive; when some are
+   * missing, the files are hashed once in the background and null is returned until
+   * they are ready. Nothing is recorded, since listing checksums delivers no file.
+   *
+   * @returns The checksums, or null while they are computed
+   * @throws NotFoundException for an invalid, revoked or expired token
+   * @throws BadRequestException for an unknown variant
+   */
+  async getChecksums(
+    token: string,
+    client: DownloadClientInfo = {},
+    requestedVariant?: string,
+  ): Promise<ArchiveChecksumList | null> {
+    const order = await this.validateToken(token, client)
+    const variant = this.resolveVariant(order, requestedVariant)
+    const layout = await this.zipLayoutService
+      .buildLayout(order.directoryPaths, this.getLayoutOptions(order, variant, 'zip'))
+      .catch((error) => this.rejectPendingVariant(error))
+    const checksums = this.zipLayoutService.getCachedChecksums(layout)
+
+    if (!checksums) {
+      this.computeChecksums(order, layout)
+      return null
+    }
+
+    const recorded = this.orderService.getRecordedChecksums(order, variant)
+    const files = checksums.map((checksum) => {
+      const recordedSha256 = recorded.get(checksum.name) ?? null
+      return {
+        ...checksum,
+        recordedSha256,
+        changed: recordedSha256 !== null && recordedSha256 !== checksum.sha256,
+      }
+    })
+    const changedCount = files.filter((file) => file.changed).length
+
+    if (changedCount) {
+      this.logChecksumDrift(order, variant, changedCount)
+    }
+
+    return { variant, algorithm: 'sha256', files, changedCount }
+  }
+
+  /**
+   * Prepares a single file of the order to be shown inline, such as one photo on a phone.
+   * Files are only found through the IDs of the manifest, so no other path can be reached.
+   * Each file can be served maxDownloads times per variant, apart from the archive
+   * downloads, so viewing photos never uses up the archive quota.
+   *
+   * @param fileId - Opaque file ID from the manifest
+   * @throws NotFoundException for an invalid token or a file ID that is not in the order
+   * @throws ForbiddenException if the file was served maxDownloads times
+   */
+  async createFileDownload(
+    token: string,
+    fileId: string,
+    requestHeaders: DownloadRequestHeaders = {},
+    client: DownloadClientInfo = {},
+    requestedVariant?: string,
+  ): Promise<PreparedDownload> {
+    try {
+      const order = await this.validateToken(token, client)
+      const variant = this.resolveVariant(order, requestedVariant)
+      const entry = await this.findFile(order, variant, fileId)
+      const target: RangeTarget = {
+        totalSize: entry.size,
+        etag: this.computeFileEtag(fileId, variant, order.privacyMode, entry),
+        lastModified: entry.mtime,
+      }
+      const headers = {
+        ...this.createValidatorHeaders(target, false),
+        'X-Content-Type-Options': 'nosniff',
+      }
+      const range = this.resolveRange(target, requestHeaders)
+
+      if (range === 'unsatisfiable') {
+        return {
+          statusCode: HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+          headers: { ...headers, 'Content-Range': `bytes */${entry.size}` },
+        }
+      }
+
+      const { start, end } = range ?? { start: 0, end: entry.size - 1 }
+      await this.countFileDownload(order, variant, fileId, start)
+      const stream = this.zipLayoutService.createFileStream(entry, start, end)
+      this.watchStream(stream, token)
+
+      this.logger.debug(`Serving ${variant} file ${fileId} of order ${order.id}`)
+
+      const file = new StreamableFile(stream, {
+        type: this.getFileContentType(entry),
+        disposition: this.getDisposition('inline', path.basename(entry.relativePath)),
+        length: end - start + 1,
+      })
+
+      if (range) {
+        return {
+          statusCode: HttpStatus.PARTIAL_CONTENT,
+          headers: { ...headers, 'Content-Range': `bytes ${start}-${end}/${entry.size}` },
+          file,
+        }
+      }
+
+      return { statusCode: HttpStatus.OK, headers, file }
+    } catch (error) {
+      return this.handleDownloadError(error, token)
+    }
+  }
+
+  private async validateToken(token: string, client: DownloadClientInfo): Promise<OrderDocument> {
     if (!token?.trim()) {
-      throw new NotFoundException('Download token is required')
+      this.metricsService.tokenRejections.inc(1, { reason: 'invalid' })
+      throw new DownloadTokenRejectedException('Download token is required', 'invalid')
     }
 
     const order = await this.orderService.findByToken(token)
 
     if (!order) {
-      this.logger.warn(`Invalid token attempt: ${token}`)
-      throw new NotFoundException('Invalid download token')
+      this.logger.warn(`Invalid token attempt from ${client.ip}: ${this.maskToken(token)}`)
+      this.metricsService.tokenRejections.inc(1, { reason: 'invalid' })
+      if (client.ip) {
+        await this.rateLimitService.recordInvalidToken(client.ip)
+      }
+      throw new DownloadTokenRejectedException('Invalid download token', 'invalid')
+    }
+
+    if (order.revokedAt) {
+      this.logger.warn(
+        `Revoked token attempt: ${this.maskToken(token)} (revoked: ${order.revokedAt})`,
+      )
+      this.metricsService.tokenRejections.inc(1, { reason: 'revoked' })
+      throw new DownloadTokenRejectedException('Download token has been revoked', 'revoked')
     }
 
     if (order.tokenExpiry < new Date()) {
-      this.logger.warn(`Expired token attempt: ${token} (expired: ${order.tokenExpiry})`)
-      throw new NotFoundException('Download token has expired')
+      this.logger.warn(
+        `Expired token attempt: ${this.maskToken(token)} (expired: ${order.tokenExpiry})`,
+      )
+      this.metricsService.tokenRejections.inc(1, { reason: 'expired' })
+      throw new DownloadTokenRejectedException('Download token has expired', 'expired')
     }
 
     return order
   }
 
-  private logDownloadStart(order: Order, token: string): void {
-    this.logger.log(
-      `Starting download for ${order.customerEmail}: ${order.directoryPaths.length} directories, token: ${token}`,
+  /**
+   * Checks the requested variant against the ones the order allows, full when none is requested
+   *
+   * @throws BadRequestException for an unknown variant
+   * @throws ForbiddenException if the order does not include the variant
+   */
+  private resolveVariant(order: Order, requestedVariant?: string): DownloadVariant {
+    const variant = (requestedVariant || 'full') as DownloadVariant
+
+    if (!DOWNLOAD_VARIANTS.includes(variant)) {
+      throw new BadRequestException(
+        `Unknown variant "${requestedVariant}", expected one of: ${DOWNLOAD_VARIANTS.join(', ')}`,
+      )
+    }
+
+    const allowed = order.variants?.length ? order.variants : ['full']
+    if (!allowed.includes(variant)) {
+      throw new ForbiddenException(`The ${variant} variant is not available for this order`)
+    }
+
+    return variant
+  }
+
+  /**
+   * Checks the requested archive format, zip when none is requested
+   *
+   * @throws BadRequestException for an unknown format
+   */
+  private resolveFormat(requestedFormat?: string): ArchiveFormat {
+    const format = (requestedFormat || 'zip') as ArchiveFormat
+
+    if (!ARCHIVE_FORMATS.includes(format)) {
+      throw new BadRequestException(
+        `Unknown format "${requestedFormat}", expected one of: ${ARCHIVE_FORMATS.join(', ')}`,
+      )
+    }
+
+    return format
+  }
+
+  /**
+   * Computes the layout of the whole archive, of one part when a part is requested, or
+   * of one directory. An order that is not split has a single part holding the whole archive.
+   *
+   * @throws NotFoundException if the archive has no such part or directory
+   */
+  private async resolveLayout(
+    order: Order,
+    variant: DownloadVariant,
+    format: ArchiveFormat,
+    { part, directory }: ArchiveRequest,
+  ): Promise<ZipLayout> {
+    const options = this.getLayoutOptions(order, variant, format)
+
+    if (directory !== undefined) {
+      return this.resolveDirectoryLayout(order, options, directory)
+    }
+    if (part === undefined) {
+      return this.zipLayoutService.buildLayout(order.directoryPaths, options)
+    }
+
+    const parts = await this.zipLayoutService.buildParts(
+      order.directoryPaths,
+      options,
+      this.getMaxPartSize(order),
+    )
+
+    if (part < 1 || part > parts.length) {
+      throw new NotFoundException(
+        `Part ${part} does not exist, the archive has ${parts.length} part(s)`,
+      )
+    }
+
+    return parts[part - 1]
+  }
+
+  /**
+   * Records on the order what the archive leaves out, or clears the previous report once
+   * an archive of every directory is complete. In strict delivery mode, incomplete
+   * archives are refused rather than sent without the reported photos.
+   *
+   * @throws ServiceUnavailableException in strict delivery mode when photos are left out
+   */
+  private checkDeliveryReport(order: OrderDocument, layout: ZipLayout): void {
+    const { report } = layout
+
+    if (!hasDeliveryIssues(report)) {
+      if (layout.directoryIndex === null && order.deliveryReport) {
+        this.saveDeliveryReport(order, null)
+      }
+      return
+    }
+
+    const strict = this.photosConfig.isStrictDeliveryEnabled()
+    this.logger.warn(
+      `Archive of order ${order.id} is incomplete: ${describeDeliveryReport(report)}${strict ? ', download refused' : ''}`,
     )
+    this.saveDeliveryReport(order, {
+      ...report,
+      variant: layout.variant,
+      directoryIndex: layout.directoryIndex,
+      aborted: strict,
+    })
+
+    if (strict) {
+      throw new ServiceUnavailableException(
+        'Some photos of this order are temporarily unavailable, please try again later',
+      )
+    }
+  }
+
+  private saveDeliveryReport(order: OrderDocument, report: DeliveryReportInput | null): void {
+    this.orderService
+      .setDeliveryReport(order.id, report)
+      .catch((err) =>
+        this.logger.error(`Failed to record delivery report for order ${order.id}:`, err.stack),
+      )
+  }
+
+  private async resolveDirectoryLayout(
+    order: Order,
+    options: ZipLayoutOptions,
+    directoryIndex: number,
+  ): Promise<ZipLayout> {
+    const directoryCount = order.directoryPaths.length
+
+    if (directoryIndex < 0 || directoryIndex >= directoryCount) {
+      throw new NotFoundException(
+        `Directory ${directoryIndex} does not exist, the order has ${directoryCount} director${directoryCount === 1 ? 'y' : 'ies'}`,
+      )
+    }
+
+    const layout = await this.zipLayoutService.buildLayout(order.directoryPaths, {
+      ...options,
+      directoryIndex,
+    })
+
+    if (!layout.entries.length) {
+      throw new NotFoundException(`Directory ${directoryIndex} has no photos available`)
+    }
+
+    return layout
   }
 
-  private createDownloadStream(): PassThrough {
-    return new PassThrough({
-      highWaterMark: 1024 * 1024, // 1MB buffer for better performance
+  /**
+   * Finds a file of the order from its opaque ID, listing only the directory it names
+   *
+   * @throws NotFoundException when the ID does not belong to a file of the order
+   */
+  private async findFile(
+    order: OrderDocument,
+    variant: DownloadVariant,
+    fileId: string,
+  ): Promise<PlannedEntry> {
+    const match = FILE_ID_PATTERN.exec(fileId ?? '')
+    const directoryIndex = match ? Number(match[1]) : -1
+
+    if (directoryIndex < 0 || directoryIndex >= order.directoryPaths.length) {
+      throw new NotFoundException('File not found')
+    }
+
+    const directories = await this.zipLayoutService.listDirectories(order.directoryPaths, {
+      ...this.getLayoutOptions(order, variant, 'zip'),
+      directoryIndex,
     })
+    const entry = directories[directoryIndex].entries.find(
+      (candidate) => this.getFileId(order, candidate) === fileId,
+    )
+
+    if (!entry) {
+      throw new NotFoundException('File not found')
+    }
+
+    return entry
   }
 
-  private processDirectoriesInBackground(
-    directoryPaths: string[],
-    zipArchiver: any,
-    stream: PassThrough,
+  /**
+   * Opaque file ID: the directory index and a hash of the order and the file path keyed
+   * with TOKEN_SECRET, so IDs reveal no path and cannot be made up for other files
+   */
+  private getFileId(order: OrderDocument, entry: PlannedEntry): string {
+    const hash = this.tokenService.hashToken(
+      `file\n${order.id}\n${entry.directoryIndex}\n${entry.relativePath}`,
+    )
+    return `${entry.directoryIndex}.${Buffer.from(hash, 'hex').subarray(0, 16).toString('base64url')}`
+  }
+
+  private getFileContentType(entry: PlannedEntry): string {
+    return getContentType(path.extname(entry.relativePath).toLowerCase())
+  }
+
+  private computeFileEtag(
+    fileId: string,
+    variant: DownloadVariant,
+    privacyMode: boolean,
+    entry: PlannedEntry,
+  ): string {
+    const hash = createHash('sha256')
+      .update(`${fileId}\0${variant}\0${privacyMode}\0${entry.size}\0${entry.mtime.getTime()}`)
+      .digest('hex')
+
+    return `"${hash.slice(0, 32)}"`
+  }
+
+  private getLayoutOptions(
+    order: Order,
+    variant: DownloadVariant,
+    format: ArchiveFormat,
+  ): ZipLayoutOptions {
+    return {
+      variant,
+      privacyMode: order.privacyMode,
+      fileTypeProfile: order.fileTypeProfile,
+      folderLayout: order.folderLayout,
+      format: format === 'zip' ? 'zip' : 'tar',
+    }
+  }
+
+  private getMaxPartSize(order: Order): number | null {
+    return order.maxPartSizeMb ? order.maxPartSizeMb * MEGABYTE : null
+  }
+
+  private logDownloadStart(
+    order: Order,
     token: string,
+    variant: DownloadVariant,
+    format: ArchiveFormat,
   ): void {
-    this.fileProcessingService
-      .processDirectoriesAsync(directoryPaths, zipArchiver, stream)
-      .catch((err) => {
-        this.logger.error(`Failed to process directories for token ${token}:`, err.stack)
-        if (!stream.destroyed) {
-          stream.destroy(err)
+    this.logger.log(
+      `Starting ${variant} ${format} download for ${order.customerEmail}: ${order.directoryPaths.length} directories, token: ${this.maskToken(token)}`,
+    )
+  }
+
+  /**
+   * Records the download on the order and enforces its download quota
+   *
+   * @throws ForbiddenException if the order has no downloads left
+   */
+  private async registerDownloadEvent(
+    order: OrderDocument,
+    layout: ZipLayout,
+    format: ArchiveFormat,
+    start: number,
+    end: number,
+    client: DownloadClientInfo,
+  ): Promise<string> {
+    const eventId = await this.orderService.startDownloadEvent(order.id, {
+      rangeStart: start,
+      rangeEnd: end,
+      archiveSize: layout.totalSize,
+      archiveEtag: layout.etag,
+      quotaEtag: layout.splitEtag ?? layout.etag,
+      variant: layout.variant,
+      format,
+      part: layout.part,
+      partCount: layout.partCount,
+      directoryIndex: layout.directoryIndex,
+      clientIp: client.ip,
+      userAgent: client.userAgent,
+    })
+
+    if (!eventId) {
+      this.logger.warn(
+        `Download limit reached for order ${order.id} (${order.downloadCount}/${order.maxDownloads})`,
+      )
+      throw new ForbiddenException('Download limit reached for this order')
+    }
+
+    return eventId
+  }
+
+  /**
+   * Counts a single file against its own downloads when the order has a download limit
+   *
+   * @throws ForbiddenException if the file was served maxDownloads times
+   */
+  private async countFileDownload(
+    order: OrderDocument,
+    variant: DownloadVariant,
+    fileId: string,
+    start: number,
+  ): Promise<void> {
+    if (order.maxDownloads == null) {
+      return
+    }
+
+    if (!(await this.orderService.countFileDownload(order.id, variant, fileId, start))) {
+      this.logger.warn(
+        `Download limit reached for file ${fileId} of order ${order.id} (${order.maxDownloads})`,
+      )
+      throw new ForbiddenException('Download limit reached for this file')
+    }
+  }
+
+  /**
+   * Gives the download back when the archive stream could not be opened, e.g. when the
+   * photo storage is unavailable, so the customer does not lose it
+   */
+  private async cancelDownloadEvent(order: OrderDocument, eventId: string): Promise<void> {
+    await this.orderService
+      .cancelDownloadEvent(order.id, eventId)
+      .catch((err) =>
+        this.logger.error(`Failed to cancel download event for order ${order.id}:`, err.stack),
+      )
+  }
+
+  /**
+   * Counts the bytes handed to the client and records whether the download
+   * completed or was aborted once the stream closes, on the order and in the metrics
+   *
+   * @param onCompleted - Called once the last byte was handed to the client
+   */
+  private trackDelivery(
+    stream: Readable,
+    order: OrderDocument,
+    eventId: string,
+    onCompleted?: () => void,
+  ): Readable {
+    let bytesSent = 0
+    let completed = false
+
+    this.metricsService.downloadsStarted.inc()
+    this.metricsService.downloadsInFlight.inc()
+
+    const counter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        bytesSent += chunk.length
+        this.metricsService.bytesStreamed.inc(chunk.length)
+        callback(null, chunk)
+      },
+      flush: (callback) => {
+        completed = true
+        callback()
+      },
+    })
+
+    counter.once('close', () => {
+      const status = completed ? 'completed' : 'aborted'
+
+      this.metricsService.downloadsInFlight.dec()
+      if (completed) {
+        this.metricsService.downloadsCompleted.inc()
+        onCompleted?.()
+      } else {
+        this.metricsService.downloadsAborted.inc()
+      }
+
+      this.orderService
+        .finishDownloadEvent(order.id, eventId, status, bytesSent)
+        .catch((err) =>
+          this.logger.error(`Failed to record download event for order ${order.id}:`, err.stack),
+        )
+
+      this.logger.log(`Download ${status} for order ${order.id}: ${bytesSent} bytes sent`)
+    })
+
+    return pipeline(stream, counter, () => undefined)
+  }
+
+  /**
+   * Hashes the files of an archive in the background, once at a time per archive
+   */
+  private computeChecksums(order: OrderDocument, layout: ZipLayout): void {
+    if (this.pendingChecksums.has(layout.etag)) {
+      return
+    }
+
+    this.pendingChecksums.add(layout.etag)
+    this.zipLayoutService
+      .getChecksums(layout)
+      .catch((err) =>
+        this.logger.error(`Failed to compute checksums for order ${order.id}:`, err.stack),
+      )
+      .finally(() => this.pendingChecksums.delete(layout.etag))
+  }
+
+  /**
+   * Records the checksums of a completely delivered archive on the order and warns when
+   * files changed since they were first delivered. Only checksums computed while
+   * streaming are used: archives served from the disk cache are not read again.
+   */
+  private recordDeliveredChecksums(order: OrderDocument, layout: ZipLayout): void {
+    const checksums = this.zipLayoutService.getCachedChecksums(layout)
+
+    if (!checksums?.length) {
+      return
+    }
+
+    this.orderService
+      .recordChecksums(order.id, layout.variant, checksums)
+      .then((recorded) => {
+        const changedCount = recorded.filter(
+          (sha256, index) => sha256 !== checksums[index].sha256,
+        ).length
+        if (changedCount) {
+          this.logChecksumDrift(order, layout.variant, changedCount)
         }
       })
+      .catch((err) =>
+        this.logger.error(`Failed to record checksums for order ${order.id}:`, err.stack),
+      )
+  }
+
+  private logChecksumDrift(order: OrderDocument, variant: DownloadVariant, count: number): void {
+    this.logger.warn(
+      `${count} ${variant} file(s) of order ${order.id} changed since they were first delivered`,
+    )
   }
 
-  private logSetupComplete(startTime: number, token: string): void {
+  /**
+   * Serves the archive from the disk cache when warm, which is where background
+   * builds put it, otherwise streams it from the photo storage. Full downloads on
+   * a cold cache populate it along the way. Only whole ZIP archives of every directory
+   * are cached, since the cache keeps one archive per order and variant.
+   */
+  private async createArchiveStream(
+    order: OrderDocument,
+    layout: ZipLayout,
+    start: number,
+    end: number,
+    fullArchive: boolean,
+  ): Promise<Readable> {
+    if (layout.format !== 'zip' || layout.part || layout.directoryIndex !== null) {
+      return this.zipLayoutService.createStream(layout, start, end)
+    }
+
+    const cacheKey = {
+      orderId: order.id,
+      variant: layout.variant,
+      contentHash: layout.etag,
+      size: layout.totalSize,
+    }
+    const cached = await this.archiveCacheService.lookup(cacheKey)
+
+    if (cached) {
+      this.logger.log(`Serving archive for order ${order.id} from cache`)
+      return this.archiveCacheService.createReadStream(cached, start, end)
+    }
+
+    if (order.archiveStatus === 'ready') {
+      this.logger.warn(
+        `Pre-built archive of order ${order.id} was evicted or its directories changed, streaming live`,
+      )
+    }
+
+    const stream = this.zipLayoutService.createStream(layout, start, end)
+
+    return fullArchive ? this.archiveCacheService.storeWhileStreaming(cacheKey, stream) : stream
+  }
+
+  private createValidatorHeaders(target: RangeTarget, compressed: boolean): Record<string, string> {
+    return {
+      'Accept-Ranges': compressed ? 'none' : 'bytes',
+      // Compression levels may change the bytes but not the contents
+      ETag: compressed ? `W/${target.etag}` : target.etag,
+      'Last-Modified': target.lastModified.toUTCString(),
+    }
+  }
+
+  /**
+   * Resolves the byte range to serve from the Range and If-Range headers.
+   * Only single ranges are supported; malformed or multi-range requests get the full archive.
+   *
+   * @returns The range to serve, undefined for the full archive, or 'unsatisfiable'
+   */
+  private resolveRange(
+    target: RangeTarget,
+    requestHeaders: DownloadRequestHeaders,
+  ): ByteRange | 'unsatisfiable' | undefined {
+    const { range, ifRange } = requestHeaders
+
+    if (!range || !this.isRangeConditionMet(target, ifRange)) {
+      return undefined
+    }
+
+    const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim())
+    if (!match || (!match[1] && !match[2])) {
+      return undefined
+    }
+
+    const totalSize = target.totalSize
+
+    // Suffix range: the last N bytes
+    if (!match[1]) {
+      const suffixLength = Number(match[2])
+      if (suffixLength === 0) {
+        return 'unsatisfiable'
+      }
+      return { start: Math.max(totalSize - suffixLength, 0), end: totalSize - 1 }
+    }
+
+    const start = Number(match[1])
+    const end = match[2] ? Number(match[2]) : totalSize - 1
+
+    if (end < start) {
+      return undefined
+    }
+    if (start >= totalSize) {
+      return 'unsatisfiable'
+    }
+
+    return { start, end: Math.min(end, totalSize - 1) }
+  }
+
+  /**
+   * If-Range only allows partial content when the validator still matches the archive
+   */
+  private isRangeConditionMet(target: RangeTarget, ifRange?: string): boolean {
+    if (!ifRange) {
+      return true
+    }
+
+    const condition = ifRange.trim()
+    if (condition.startsWith('"') || condition.startsWith('W/')) {
+      return condition === target.etag
+    }
+
+    const lastModifiedSeconds = Math.floor(target.lastModified.getTime() / 1000)
+    return Date.parse(condition) === lastModifiedSeconds * 1000
+  }
+
+  private watchStream(stream: Readable, token: string): void {
+    stream.on('error', (err) => {
+      this.logger.error(`Failed to stream archive for token ${this.maskToken(token)}:`, err.stack)
+    })
+  }
+
+  private logSetupComplete(
+    startTime: number,
+    token: string,
+    layout: ZipLayout,
+    range?: ByteRange,
+  ): void {
     const setupTime = Date.now() - startTime
-    this.logger.log(`Real-time download setup completed in ${setupTime}ms for token ${token}`)
+    this.metricsService.archiveSetupSeconds.observe(setupTime / 1000)
+    const span = range ? `bytes ${range.start}-${range.end}` : 'full archive'
+
+    this.logger.log(
+      `Download setup completed in ${setupTime}ms for token ${this.maskToken(token)}: ${layout.entries.length} files, ${layout.totalSize} bytes (${span})`,
+    )
   }
 
-  private generateDownloadFilename(order: Order): string {
+  private generateDownloadFilename(
+    order: Order,
+    variant: DownloadVariant,
+    format: ArchiveFormat,
+    layout: ZipLayout,
+  ): string {
     const dateStr = new Date().toISOString().split('T')[0]
     const dirCount = order.directoryPaths.length
     const emailPrefix = order.customerEmail.split('@')[0].replace(/[^a-zA-Z0-9]/g, '') // Sanitize
+    const suffix = variant === 'full' ? '' : `-${variant}`
+    const partSuffix = layout.part ? `-part${layout.part}of${layout.partCount}` : ''
+    const contents =
+      layout.directoryIndex === null
+        ? `${dirCount}dirs`
+        : `dir${layout.directoryIndex + 1}of${dirCount}`
 
-    return `photos-${emailPrefix}-${dateStr}-${dirCount}dirs.zip`
+    return `photos-${emailPrefix}-${dateStr}-${contents}${suffix}${partSuffix}.${format}`
   }
 
-  private createStreamableFile(stream: PassThrough, filename: string): StreamableFile {
+  private createStreamableFile(
+    stream: Readable,
+    filename: string,
+    format: ArchiveFormat,
+    length?: number,
+  ): StreamableFile {
     return new StreamableFile(stream, {
-      type: 'application/zip',
-      disposition: `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      type: CONTENT_TYPES[format],
+      disposition: this.getDisposition('attachment', filename),
+      length,
     })
   }
 
-  private handleDownloadError(error: any, token: string): never {
-    this.logger.error(`Download failed for token ${token}:`, error.stack)
+  private getDisposition(type: 'attachment' | 'inline', filename: string): string {
+    // The plain filename is a fallback for old clients, so it only keeps safe characters
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+  }
+
+  /**
+   * Asks the client to come back once the web copies are made; other errors are thrown
+   * as HTTP exceptions
+   */
+  private handleDownloadError(error: any, token: string): PreparedDownload {
+    if (error instanceof VariantNotReadyError) {
+      this.logger.log(`Token ${this.maskToken(token)} waits for web copies: ${error.message}`)
+      return {
+        statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+        headers: { 'Retry-After': String(VARIANT_RETRY_AFTER_SECONDS) },
+      }
+    }
+
+    this.logger.error(`Download failed for token ${this.maskToken(token)}:`, error.stack)
 
-    if (error instanceof NotFoundException) {
+    if (error instanceof HttpException) {
       throw error
     }
 
     throw new InternalServerErrorException('Failed to process download request')
   }
+
+  private rejectPendingVariant(error: Error): never {
+    if (error instanceof VariantNotReadyError) {
+      throw new ServiceUnavailableException(
+        `${error.message}, try again in ${VARIANT_RETRY_AFTER_SECONDS} seconds`,
+      )
+    }
+    throw error
+  }
+
+  /**
+   * Shortens a token for log messages so logs cannot be used as download links
+   */
+  private maskToken(token: string): string {
+    return `${token?.slice(0, 6)}…`
+  }
 }
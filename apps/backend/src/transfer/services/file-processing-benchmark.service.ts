@@ -1,81 +1,53 @@
 import { Injectable, Logger } from '@nestjs/common'
-import * as path from 'path'
-import * as archiver from 'archiver'
-import { PhotosConfigService } from './photos-config.service'
+import { Writable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { ZipLayout, ZipLayoutOptions, ZipLayoutService } from './zip-layout.service'
 
 /**
- * Performance comparison: File-by-file vs Directory-level archiving
+ * Performance comparison: Layout planning vs byte streaming of the archive pipeline
  */
 @Injectable()
 export class FileProcessingBenchmarkService {
   private readonly logger = new Logger(FileProcessingBenchmarkService.name)
 
-  constructor(private readonly photosConfig: PhotosConfigService) {}
+  constructor(private readonly zipLayout: ZipLayoutService) {}
 
   /**
-   * Method 1: Current approach - file by file with pre-filtering
+   * Method 1: Plans the archive, which lists and stats every file of the directories
+   * Entry names follow the folder layout of the options, so colliding folders are measured too
    */
-  async addFilesToArchiveOneByOne(
-    imageFiles: string[],
-    fullPath: string,
-    zipArchiver: archiver.Archiver,
-    relativeDirPath: string,
-  ): Promise<number> {
+  async measureLayout(
+    directoryPaths: string[],
+    options: ZipLayoutOptions = {},
+  ): Promise<ZipLayout> {
     const startTime = Date.now()
-
-    const filePromises = imageFiles.map((file) =>
-      this.addSingleFileToArchive(file, fullPath, zipArchiver, relativeDirPath),
-    )
-
-    const results = await Promise.all(filePromises)
+    const layout = await this.zipLayout.buildLayout(directoryPaths, options)
     const duration = Date.now() - startTime
 
-    this.logger.debug(`File-by-file approach: ${duration}ms for ${imageFiles.length} files`)
-    return results.filter(Boolean).length
+    this.logger.debug(`Layout planning: ${duration}ms for ${layout.entries.length} files`)
+    return layout
   }
 
   /**
-   * Method 2: Directory-level with filter function
-   * Uses archiver's built-in directory method with filtering
+   * Method 2: Streams a byte range of the archive into a discarding sink
+   * Files outside the range are only read when their CRC is not cached yet
    */
-  async addDirectoryWithFilter(
-    fullPath: string,
-    zipArchiver: archiver.Archiver,
-    relativeDirPath: string,
-  ): Promise<void> {
+  async measureStream(layout: ZipLayout, start = 0, end = layout.totalSize - 1): Promise<number> {
     const startTime = Date.now()
-    const lastDirName = path.basename(relativeDirPath)
-
-    // Use archiver's directory method with filter function
-    zipArchiver.directory(fullPath, lastDirName, (entryData) => {
-      // Return false to ignore non-image files
-      if (!this.photosConfig.isValidImageFile(entryData.name)) {
-        return false
-      }
-      // Return the entry data to include the file
-      return entryData
-    })
+    let bytes = 0
+
+    await pipeline(
+      this.zipLayout.createStream(layout, start, end),
+      new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+          bytes += chunk.length
+          callback()
+        },
+      }),
+    )
 
     const duration = Date.now() - startTime
-    this.logger.debug(`Directory approach: ${duration}ms for directory ${relativeDirPath}`)
-  }
-
-  private async addSingleFileToArchive(
-    fileName: string,
-    basePath: string,
-    zipArchiver: archiver.Archiver,
-    relativeDirPath: string,
-  ): Promise<boolean> {
-    const filePath = path.join(basePath, fileName)
-    const lastDirName = path.basename(relativeDirPath)
-    const zipEntryPath = path.join(lastDirName, fileName)
-
-    try {
-      zipArchiver.file(filePath, { name: zipEntryPath })
-      return true
-    } catch (err) {
-      this.logger.warn(`Failed to add file to ZIP: ${filePath}`, (err as Error).message)
-      return false
-    }
+    this.logger.debug(`Range streaming: ${duration}ms for ${bytes} bytes`)
+    return bytes
   }
 }
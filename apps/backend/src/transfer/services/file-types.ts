@@ -0,0 +1,235 @@
+/**
+ * File types the pipeline can deliver, grouped into the named profiles orders choose from
+ */
+
+/**
+ * A deliverable file format
+ */
+export interface FileTypeDefinition {
+  /** Lower-case extensions including the dot */
+  extensions: string[]
+  /** MIME type served when the file is downloaded on its own */
+  contentType: string
+  /** Whether the first bytes of a file hold this format's signature */
+  matches(header: Buffer): boolean
+  /** Whether privacy mode can remove the private metadata of this format, or it holds none */
+  scrubbable: boolean
+}
+
+/**
+ * Named set of file types delivered by an order, from FILE_TYPE_PROFILES
+ */
+export interface FileTypeProfile {
+  name: string
+  /** Lower-case extensions including the dot */
+  extensions: string[]
+  /** Formats whose signature is checked when sniffing is enabled */
+  types: FileTypeDefinition[]
+  /** Extensions whose private metadata privacy mode cannot remove, sorted */
+  unscrubbableExtensions: string[]
+}
+
+/** Bytes read from each file when sniffing */
+export const SNIFF_LENGTH = 16
+
+const ascii = (header: Buffer, offset: number, text: string) =>
+  header.toString('latin1', offset, offset + text.length) === text
+
+const isTiff = (header: Buffer) => ascii(header, 0, 'II*\0') || ascii(header, 0, 'MM\0*')
+
+/** ISO base media file brand, e.g. "heic" or "qt  " */
+const getBrand = (header: Buffer) =>
+  ascii(header, 4, 'ftyp') ? header.toString('latin1', 8, 12) : null
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']
+const QUICKTIME_ATOMS = ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot']
+
+export const FILE_TYPES: Record<string, FileTypeDefinition> = {
+  jpeg: {
+    extensions: ['.jpg', '.jpeg'],
+    contentType: 'image/jpeg',
+    matches: (header) => header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff,
+    scrubbable: true,
+  },
+  png: {
+    extensions: ['.png'],
+    contentType: 'image/png',
+    matches: (header) => ascii(header, 0, '\x89PNG\r\n\x1a\n'),
+    scrubbable: true,
+  },
+  tiff: {
+    extensions: ['.tif', '.tiff'],
+    contentType: 'image/tiff',
+    matches: isTiff,
+    scrubbable: true,
+  },
+  webp: {
+    extensions: ['.webp'],
+    contentType: 'image/webp',
+    matches: (header) => ascii(header, 0, 'RIFF') && ascii(header, 8, 'WEBP'),
+    scrubbable: true,
+  },
+  bmp: {
+    extensions: ['.bmp'],
+    contentType: 'image/bmp',
+    matches: (header) => ascii(header, 0, 'BM'),
+    // BMP has no metadata blocks
+    scrubbable: true,
+  },
+  heic: {
+    extensions: ['.heic', '.heif'],
+    contentType: 'image/heic',
+    matches: (header) => HEIF_BRANDS.includes(getBrand(header) ?? ''),
+    scrubbable: false,
+  },
+  // Most RAW formats are TIFF containers that only the extension tells apart; privacy
+  // mode scrubs them like TIFF files
+  cr2: {
+    extensions: ['.cr2'],
+    contentType: 'image/x-canon-cr2',
+    matches: (header) => isTiff(header) && ascii(header, 8, 'CR'),
+    scrubbable: true,
+  },
+  cr3: {
+    extensions: ['.cr3'],
+    contentType: 'image/x-canon-cr3',
+    matches: (header) => getBrand(header) === 'crx ',
+    scrubbable: false,
+  },
+  nef: {
+    extensions: ['.nef'],
+    contentType: 'image/x-nikon-nef',
+    matches: isTiff,
+    scrubbable: true,
+  },
+  arw: { extensions: ['.arw'], contentType: 'image/x-sony-arw', matches: isTiff, scrubbable: true },
+  dng: {
+    extensions: ['.dng'],
+    contentType: 'image/x-adobe-dng',
+    matches: isTiff,
+    scrubbable: true,
+  },
+  orf: {
+    extensions: ['.orf'],
+    contentType: 'image/x-olympus-orf',
+    matches: (header) => ['IIRO', 'IIRS', 'MMOR'].some((magic) => ascii(header, 0, magic)),
+    scrubbable: false,
+  },
+  rw2: {
+    extensions: ['.rw2'],
+    contentType: 'image/x-panasonic-rw2',
+    matches: (header) => ascii(header, 0, 'IIU\0'),
+    scrubbable: false,
+  },
+  raf: {
+    extensions: ['.raf'],
+    contentType: 'image/x-fuji-raf',
+    matches: (header) => ascii(header, 0, 'FUJIFILMCCD-RAW'),
+    scrubbable: false,
+  },
+  mp4: {
+    extensions: ['.mp4', '.m4v'],
+    contentType: 'video/mp4',
+    matches: (header) => {
+      const brand = getBrand(header)
+      return brand !== null && brand !== 'qt  ' && brand !== 'crx ' && !HEIF_BRANDS.includes(brand)
+    },
+    scrubbable: false,
+  },
+  mov: {
+    extensions: ['.mov'],
+    contentType: 'video/quicktime',
+    matches: (header) =>
+      getBrand(header) === 'qt  ' || QUICKTIME_ATOMS.some((atom) => ascii(header, 4, atom)),
+    scrubbable: false,
+  },
+}
+
+/**
+ * Whether an extension belongs to one of the known file types
+ */
+export function isKnownExtension(extension: string): boolean {
+  return Object.values(FILE_TYPES).some((type) => type.extensions.includes(extension))
+}
+
+/**
+ * MIME type of a file, from its extension
+ *
+ * @param extension - Lower-case extension including the dot
+ * @returns The type of the known file type, application/octet-stream for other extensions
+ */
+export function getContentType(extension: string): string {
+  const type = Object.values(FILE_TYPES).find((type) => type.extensions.includes(extension))
+  return type?.contentType ?? 'application/octet-stream'
+}
+
+/** Names that stand for several file types in a profile */
+export const FILE_TYPE_GROUPS: Record<string, string[]> = {
+  raw: ['cr2', 'cr3', 'nef', 'arw', 'dng', 'orf', 'rw2', 'raf'],
+  video: ['mp4', 'mov'],
+}
+
+/** Profiles used when FILE_TYPE_PROFILES is not set; "standard" is what orders always received */
+export const DEFAULT_FILE_TYPE_PROFILES =
+  'standard:jpeg|png|tiff|webp|bmp,jpeg-only:jpeg,with-raw:jpeg|png|tiff|webp|bmp|heic|raw,with-video:jpeg|png|tiff|webp|bmp|heic|video'
+
+/**
+ * Parses profiles formatted as "name:type|type" pairs separated by commas. Types are
+ * names from FILE_TYPES or FILE_TYPE_GROUPS, or extensions such as ".crw", which are
+ * matched by name only.
+ *
+ * @throws Error for an unknown type name or an empty profile
+ */
+export function parseFileTypeProfiles(raw: string): Record<string, FileTypeProfile> {
+  const profiles: Record<string, FileTypeProfile> = {}
+
+  for (const pair of raw.split(',')) {
+    const [name, list] = pair.split(':').map((part) => part.trim())
+
+    if (!name) {
+      continue
+    }
+
+    const extensions = new Set<string>()
+    const types = new Set<FileTypeDefinition>()
+    const unscrubbable = new Set<string>()
+
+    for (const item of (list ?? '').split('|').map((part) => part.trim().toLowerCase())) {
+      if (!item) {
+        continue
+      }
+      if (item.startsWith('.')) {
+        // Formats known by their extension only are not parsed, so never scrubbed
+        extensions.add(item)
+        unscrubbable.add(item)
+        continue
+      }
+
+      const typeNames = FILE_TYPE_GROUPS[item] ?? [item]
+      for (const typeName of typeNames) {
+        const type = FILE_TYPES[typeName]
+        if (!type) {
+          throw new Error(`Unknown file type "${item}" in file type profile "${name}"`)
+        }
+        types.add(type)
+        type.extensions.forEach((extension) => extensions.add(extension))
+        if (!type.scrubbable) {
+          type.extensions.forEach((extension) => unscrubbable.add(extension))
+        }
+      }
+    }
+
+    if (extensions.size === 0) {
+      throw new Error(`File type profile "${name}" has no file types`)
+    }
+
+    profiles[name] = {
+      name,
+      extensions: [...extensions],
+      types: [...types],
+      unscrubbableExtensions: [...unscrubbable].sort(),
+    }
+  }
+
+  return profiles
+}
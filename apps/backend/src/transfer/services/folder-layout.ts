@@ -0,0 +1,99 @@
+/**
+ * Entry names of the archives: where the files of each order directory go, without
+ * two entries sharing a name
+ */
+import * as path from 'path'
+import { ZipFolderLayout } from '@photo-st-denis/shared'
+
+/** Layout of orders that did not choose one, and of orders created before layouts existed */
+export const DEFAULT_FOLDER_LAYOUT: ZipFolderLayout = 'last-segment'
+
+/** Folder of photos without a capture date in the by-date layout */
+const UNDATED_FOLDER = 'undated'
+
+/**
+ * Names the entries of one archive for a folder layout.
+ *
+ * Each order directory gets a folder, its full relative path or its last segment;
+ * directories sharing a folder, such as "eventA/selects" and "eventB/selects", get a
+ * " (2)", " (3)" suffix in the order they are added. File names are then checked
+ * against every name already given, so no entry overwrites another when extracted.
+ * Names are compared case-insensitively, as Windows and macOS extract them.
+ */
+export class ArchiveEntryNamer {
+  private readonly folders = new Set<string>()
+  private readonly names = new Set<string>()
+
+  constructor(readonly layout: ZipFolderLayout = DEFAULT_FOLDER_LAYOUT) {}
+
+  /**
+   * Reserves the folder of an order directory
+   *
+   * @param relativePath - Directory path below its storage root
+   * @param rootName - Folder name when the directory is the storage root itself
+   * @returns Folder name, unique in the archive
+   */
+  addDirectory(relativePath: string, rootName: string): string {
+    const segments = relativePath
+      .replace(/\\/g, '/')
+      .split('/')
+      .filter((segment) => segment && segment !== '.' && segment !== '..')
+    const folder =
+      (this.layout === 'full-path' ? segments.join('/') : segments[segments.length - 1]) || rootName
+
+    return this.reserve(this.folders, folder, (suffix) => `${folder}${suffix}`)
+  }
+
+  /**
+   * Names the archive entry of a file
+   *
+   * @param folder - Folder returned by addDirectory
+   * @param relativePath - File path below the directory, "/" separated
+   * @param captureDate - Day the photo was taken as YYYY-MM-DD, for the by-date layout
+   * @returns Entry name, unique in the archive
+   */
+  entryName(folder: string, relativePath: string, captureDate?: string | null): string {
+    const name = this.getName(folder, relativePath, captureDate)
+    const extension = path.posix.extname(name)
+    const stem = name.slice(0, name.length - extension.length)
+
+    return this.reserve(this.names, name, (suffix) => `${stem}${suffix}${extension}`)
+  }
+
+  private getName(folder: string, relativePath: string, captureDate?: string | null): string {
+    switch (this.layout) {
+      case 'flat':
+        return `${folder.replace(/\//g, '_')}_${relativePath.replace(/\//g, '_')}`
+      case 'by-date':
+        return `${captureDate || UNDATED_FOLDER}/${path.posix.basename(relativePath)}`
+      default:
+        return `${folder}/${relativePath}`
+    }
+  }
+
+  /**
+   * Adds the first free candidate to a set: the name itself, then " (2)", " (3)"...
+   */
+  private reserve(
+    taken: Set<string>,
+    name: string,
+    withSuffix: (suffix: string) => string,
+  ): string {
+    let candidate = name
+
+    for (let index = 2; taken.has(candidate.toLowerCase()); index++) {
+      candidate = withSuffix(` (${index})`)
+    }
+
+    taken.add(candidate.toLowerCase())
+    return candidate
+  }
+}
+
+/**
+ * Day of a date as YYYY-MM-DD in local time, like the modification times of the entries
+ */
+export function formatCaptureDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
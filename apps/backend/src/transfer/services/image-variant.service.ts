@@ -0,0 +1,340 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { execFile } from 'child_process'
+import { createHash } from 'crypto'
+import { promisify } from 'util'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { DownloadVariant } from '@photo-st-denis/shared'
+import { ArchiveCacheService } from '../../cache/archive-cache.service'
+import { MetricsService } from '../../metrics/metrics.service'
+import { StorageService } from '../../storage/storage.service'
+import { PhotoFile } from './photos-config.service'
+
+const execFileAsync = promisify(execFile)
+
+const CLEANUP_INTERVAL_NAME = 'image-variant-cleanup'
+const CLEANUP_INTERVAL_MS = 3600 * 1000
+const TEMP_FILE_MARKER = '.tmp'
+const RESIZE_TIMEOUT_MS = 60 * 1000
+
+/** Formats libvips reads and writes on its own; others are delivered unchanged */
+const RESIZABLE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.tif', '.tiff']
+/** Formats whose encoder takes a quality setting */
+const LOSSY_EXTENSIONS = ['.jpg', '.jpeg', '.webp']
+
+/**
+ * Web copies of some photos are still being made, in the background
+ */
+export class VariantNotReadyError extends Error {
+  constructor(readonly pendingCount: number) {
+    super(`${pendingCount} web copies of the photos are being made`)
+  }
+}
+
+/**
+ * Produces the downscaled copies of photos delivered by the "web" variant.
+ *
+ * Copies are made by libvips' vipsthumbnail, which runs on the CPU and decodes
+ * large JPEGs at a reduced size, and are kept in a disk cache keyed by source
+ * file and resize settings, so each photo is resized once. At most
+ * VARIANT_CONCURRENCY resizes run at a time; concurrent requests for the same
+ * copy share a single resize. Copies keep the name and format of the original,
+ * so archives of both variants have the same folder layout.
+ *
+ * The archive pre-building waits for the copies of an order; download requests
+ * never do, they start the missing resizes and get a VariantNotReadyError. The
+ * copies use the share of the cache size budget the archive cache leaves them.
+ */
+@Injectable()
+export class ImageVariantService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ImageVariantService.name)
+
+  /** Resizes in progress by target path */
+  private readonly pendingResizes = new Map<string, Promise<number>>()
+  /** Resizes waiting for a free slot */
+  private readonly waitingResizes: (() => void)[] = []
+  private activeResizes = 0
+  /** Copies whose resize failed, delivered at full resolution until the next cleanup */
+  private readonly failedResizes = new Set<string>()
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly metricsService: MetricsService,
+    private readonly storageService: StorageService,
+    private readonly archiveCacheService: ArchiveCacheService,
+  ) {}
+
+  async onModuleInit() {
+    await fs.promises.mkdir(this.getCacheDirectory(), { recursive: true })
+    await this.cleanup()
+
+    const interval = setInterval(() => {
+      this.cleanup().catch((err) => this.logger.error('Variant cache cleanup failed:', err.stack))
+    }, CLEANUP_INTERVAL_MS)
+    this.schedulerRegistry.addInterval(CLEANUP_INTERVAL_NAME, interval)
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', CLEANUP_INTERVAL_NAME)) {
+      this.schedulerRegistry.deleteInterval(CLEANUP_INTERVAL_NAME)
+    }
+  }
+
+  getCacheDirectory(): string {
+    return (
+      this.configService.get<string>('VARIANT_CACHE_DIR') ||
+      path.join(this.configService.get<string>('CACHE_DIR', '/tmp/photo-cache'), 'variants')
+    )
+  }
+
+  /**
+   * Maps the photos of an order to the files delivered for a variant.
+   * Photos that cannot be resized are delivered at full resolution.
+   *
+   * @param files - Original photos
+   * @param variant - Requested variant
+   * @param wait - Whether to wait for missing copies, as the pre-building does
+   * @returns Files in the same order; web copies keep the original name and modification time
+   * @throws VariantNotReadyError without wait when copies are missing; their resizes are started
+   */
+  async resolveFiles(
+    files: PhotoFile[],
+    variant: DownloadVariant,
+    wait = false,
+  ): Promise<PhotoFile[]> {
+    if (variant === 'full') {
+      return files
+    }
+
+    const resolved = await Promise.all(files.map((file) => this.resolveWebFile(file, wait)))
+    const pendingCount = resolved.filter((file) => file === null).length
+
+    if (pendingCount) {
+      throw new VariantNotReadyError(pendingCount)
+    }
+
+    return resolved as PhotoFile[]
+  }
+
+  /**
+   * @returns The copy or the original, or null while the copy is resized in the background
+   */
+  private async resolveWebFile(file: PhotoFile, wait: boolean): Promise<PhotoFile | null> {
+    const extension = path.extname(file.fullPath).toLowerCase()
+
+    if (!RESIZABLE_EXTENSIONS.includes(extension)) {
+      return file
+    }
+
+    const targetPath = path.join(this.getCacheDirectory(), `${this.getCopyKey(file)}${extension}`)
+
+    if (this.failedResizes.has(targetPath)) {
+      return file
+    }
+
+    const cachedSize = await this.getCachedSize(targetPath)
+    if (cachedSize !== undefined) {
+      return { ...file, fullPath: targetPath, size: cachedSize }
+    }
+
+    const resize = this.generate(file.fullPath, targetPath).catch((error) => {
+      this.logger.warn(`Delivering ${file.fullPath} at full resolution: ${error.message}`)
+      this.metricsService.imageResizeFailures.inc()
+      this.failedResizes.add(targetPath)
+      return null
+    })
+
+    if (!wait) {
+      return null
+    }
+
+    const size = await resize
+    return size === null ? file : { ...file, fullPath: targetPath, size }
+  }
+
+  /**
+   * Size of an existing copy, whose modification time is refreshed to keep it
+   * in the cache while it is used
+   */
+  private async getCachedSize(targetPath: string): Promise<number | undefined> {
+    try {
+      const stats = await fs.promises.stat(targetPath)
+      const now = new Date()
+      await fs.promises.utimes(targetPath, now, now)
+      return stats.size
+    } catch {
+      return undefined
+    }
+  }
+
+  private generate(sourcePath: string, targetPath: string): Promise<number> {
+    let resize = this.pendingResizes.get(targetPath)
+
+    if (!resize) {
+      resize = this.withResizeSlot(() => this.resize(sourcePath, targetPath)).finally(() =>
+        this.pendingResizes.delete(targetPath),
+      )
+      this.pendingResizes.set(targetPath, resize)
+    }
+
+    return resize
+  }
+
+  private async withResizeSlot<T>(task: () => Promise<T>): Promise<T> {
+    while (this.activeResizes >= this.getConcurrency()) {
+      await new Promise<void>((resolve) => this.waitingResizes.push(resolve))
+    }
+
+    this.activeResizes++
+
+    try {
+      return await task()
+    } finally {
+      this.activeResizes--
+      this.waitingResizes.shift()?.()
+    }
+  }
+
+  /**
+   * Writes a copy whose long edge is at most VARIANT_WEB_MAX_EDGE pixels. Smaller
+   * photos are re-encoded at their size; EXIF orientation is applied. Photos from
+   * object storage are downloaded next to the copy first, since libvips reads local files.
+   *
+   * @returns Size of the copy in bytes
+   */
+  private async resize(sourcePath: string, targetPath: string): Promise<number> {
+    const stopTimer = this.metricsService.imageResizeSeconds.startTimer()
+    const extension = path.extname(targetPath)
+    // vipsthumbnail picks the encoder from the extension, so the marker goes before it
+    const tempPath = `${targetPath.slice(0, -extension.length)}${TEMP_FILE_MARKER}${extension}`
+    const sourceCopyPath = this.storageService.isLocal(sourcePath)
+      ? null
+      : `${targetPath.slice(0, -extension.length)}${TEMP_FILE_MARKER}.source${extension}`
+    const maxEdge = this.getWebMaxEdge()
+    const saveOptions = LOSSY_EXTENSIONS.includes(extension.toLowerCase())
+      ? `[Q=${this.getWebQuality()}]`
+      : ''
+
+    try {
+      if (sourceCopyPath) {
+        await this.storageService.download(sourcePath, sourceCopyPath)
+      }
+
+      await execFileAsync(
+        this.getVipsthumbnailPath(),
+        [
+          sourceCopyPath ?? sourcePath,
+          '--size',
+          `${maxEdge}x${maxEdge}>`,
+          '-o',
+          `${tempPath}${saveOptions}`,
+        ],
+        { timeout: RESIZE_TIMEOUT_MS },
+      )
+
+      const { size } = await fs.promises.stat(tempPath)
+      await fs.promises.rename(tempPath, targetPath)
+
+      return size
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true })
+      throw new Error(`resizing failed: ${error.message}`)
+    } finally {
+      if (sourceCopyPath) {
+        await fs.promises.rm(sourceCopyPath, { force: true })
+      }
+      stopTimer()
+    }
+  }
+
+  /**
+   * Removes copies unused for VARIANT_CACHE_TTL_HOURS and leftovers of interrupted resizes,
+   * then the least recently used copies above their share of the cache size budget.
+   * Failed resizes are tried again afterwards.
+   */
+  async cleanup(): Promise<number> {
+    const cacheDirectory = this.getCacheDirectory()
+    const cutoff = Date.now() - this.getTtlHours() * 3600 * 1000
+    const copies: { filePath: string; size: number; lastUsedAt: number }[] = []
+    let removed = 0
+
+    for (const file of await fs.promises.readdir(cacheDirectory)) {
+      const filePath = path.join(cacheDirectory, file)
+      const isTemp = file.includes(TEMP_FILE_MARKER)
+
+      // Temp files of running resizes are in use
+      if (isTemp && this.activeResizes > 0) {
+        continue
+      }
+
+      try {
+        const stats = await fs.promises.stat(filePath)
+        if (isTemp || stats.mtimeMs < cutoff) {
+          await fs.promises.rm(filePath, { force: true })
+          removed++
+        } else {
+          copies.push({ filePath, size: stats.size, lastUsedAt: stats.mtimeMs })
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to clean up variant ${file}: ${error.message}`)
+      }
+    }
+
+    const maxSize = this.archiveCacheService.getVariantMaxSizeBytes()
+    let totalSize = copies.reduce((total, copy) => total + copy.size, 0)
+
+    for (const copy of copies.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+      if (totalSize <= maxSize) {
+        break
+      }
+      totalSize -= copy.size
+      await fs.promises.rm(copy.filePath, { force: true })
+      removed++
+    }
+
+    if (removed > 0) {
+      this.logger.log(`Removed ${removed} unused photo copies from the variant cache`)
+    }
+
+    this.failedResizes.clear()
+
+    return removed
+  }
+
+  /**
+   * Changes whenever the source file or the resize settings change
+   */
+  private getCopyKey(file: PhotoFile): string {
+    return createHash('sha256')
+      .update(
+        `${file.fullPath}\0${file.size}\0${file.mtime.getTime()}\0${this.getWebMaxEdge()}\0${this.getWebQuality()}`,
+      )
+      .digest('hex')
+      .slice(0, 32)
+  }
+
+  private getVipsthumbnailPath(): string {
+    return this.configService.get<string>('VIPSTHUMBNAIL_PATH', 'vipsthumbnail')
+  }
+
+  private getWebMaxEdge(): number {
+    return Number(this.configService.get<number>('VARIANT_WEB_MAX_EDGE', 2048))
+  }
+
+  private getWebQuality(): number {
+    return Number(this.configService.get<number>('VARIANT_WEB_QUALITY', 82))
+  }
+
+  private getConcurrency(): number {
+    const fallback = Math.max(os.cpus().length - 1, 1)
+    return Number(this.configService.get<number>('VARIANT_CONCURRENCY', fallback))
+  }
+
+  private getTtlHours(): number {
+    return Number(this.configService.get<number>('VARIANT_CACHE_TTL_HOURS', 168))
+  }
+}
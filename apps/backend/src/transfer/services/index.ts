@@ -1,3 +1,9 @@
 export { PhotosConfigService } from './photos-config.service'
-export { FileProcessingService } from './file-processing.service'
 export { DownloadService } from './download.service'
+export { ZipLayoutService } from './zip-layout.service'
+export { ImageVariantService } from './image-variant.service'
+export { PhotoPrivacyService } from './photo-privacy.service'
+export { CaptureDateService } from './capture-date.service'
+export { DirectoryPreviewService } from './directory-preview.service'
+export { ArchivePrebuildService } from './archive-prebuild.service'
+export { LandingPageService } from './landing-page.service'
@@ -0,0 +1,335 @@
+/**
+ * French and English pages shown to customers at /d/{token}: the order with its
+ * directories, expiry countdown and download buttons, or a page explaining why the
+ * link no longer works. Pages are complete HTML documents with inline styles, usable
+ * without JavaScript; a small script only keeps the countdown current.
+ */
+import { CustomerLanguage, DownloadVariant } from '@photo-st-denis/shared'
+import type { DownloadOverview, TokenRejectionReason } from './download.service'
+
+/**
+ * Studio name, logo and colour shown on every page
+ */
+export interface StudioBranding {
+  name: string
+  logoUrl?: string
+  /** Colour of the buttons and links, as #rgb or #rrggbb */
+  accentColor: string
+  /** Address customers can write to for a new link */
+  contactEmail?: string
+}
+
+interface PageContext {
+  language: CustomerLanguage
+  branding: StudioBranding
+  /** Path of the page in the other language */
+  alternateUrl: string
+}
+
+export interface LandingPageContext extends PageContext {
+  overview: DownloadOverview
+  /** Path of the archive download, e.g. /api/v1/transfer/download/{token} */
+  downloadUrl: string
+  /** Time zone of the expiry date, the server time zone when unset */
+  timeZone?: string
+  now: Date
+}
+
+export interface UnavailablePageContext extends PageContext {
+  reason: TokenRejectionReason
+}
+
+type UnitName = 'day' | 'hour' | 'minute'
+
+interface PageStrings {
+  locale: string
+  otherLanguage: string
+  title: string
+  summary: (fileCount: number, size: string, directoryCount: number) => string
+  expiresIn: (remaining: string, date: string) => string
+  units: Record<UnitName, [string, string]>
+  and: string
+  remainingDownloads: (count: number) => string
+  downloadAll: (size: string) => string
+  downloadWeb: string
+  webHint: string
+  directories: string
+  folder: string
+  photos: string
+  size: string
+  downloadFolder: string
+  unavailableFolder: string
+  mobileHint: string
+  sizeUnits: [string, string, string, string]
+  unavailableTitle: string
+  reasons: Record<TokenRejectionReason, string>
+  contact: (studio: string) => string
+}
+
+const STRINGS: Record<CustomerLanguage, PageStrings> = {
+  fr: {
+    locale: 'fr-FR',
+    otherLanguage: 'Français',
+    title: 'Vos photos sont prêtes',
+    summary: (fileCount, size, directoryCount) =>
+      `${plural(fileCount, 'photo', 'photos')} · ${size} · ${plural(directoryCount, 'dossier', 'dossiers')}`,
+    expiresIn: (remaining, date) =>
+      `Ce lien expire dans <strong data-countdown>${remaining}</strong>, le ${date}.`,
+    units: { day: ['jour', 'jours'], hour: ['heure', 'heures'], minute: ['minute', 'minutes'] },
+    and: ' et ',
+    remainingDownloads: (count) =>
+      `Il vous reste ${plural(count, 'téléchargement', 'téléchargements')}.`,
+    downloadAll: (size) => `Télécharger toutes les photos (${size})`,
+    downloadWeb: 'Télécharger la version web',
+    webHint: 'Photos allégées, adaptées au partage en ligne et aux réseaux sociaux.',
+    directories: 'Contenu de la commande',
+    folder: 'Dossier',
+    photos: 'Photos',
+    size: 'Taille',
+    downloadFolder: 'Télécharger',
+    unavailableFolder: 'Indisponible',
+    mobileHint:
+      "Les photos sont regroupées dans un fichier ZIP. Sur téléphone, préférez le Wi-Fi ou téléchargez un dossier à la fois ; sur ordinateur, ouvrez le fichier pour l'extraire.",
+    sizeUnits: ['o', 'Ko', 'Mo', 'Go'],
+    unavailableTitle: "Ce lien n'est plus disponible",
+    reasons: {
+      invalid:
+        "Ce lien de téléchargement n'est pas valide. Vérifiez qu'il est complet, tel qu'il figure dans votre e-mail.",
+      revoked: 'Ce lien de téléchargement a été désactivé.',
+      expired: 'Ce lien de téléchargement a expiré.',
+    },
+    contact: (studio) => `Contactez ${studio} pour recevoir un nouveau lien.`,
+  },
+  en: {
+    locale: 'en-GB',
+    otherLanguage: 'English',
+    title: 'Your photos are ready',
+    summary: (fileCount, size, directoryCount) =>
+      `${plural(fileCount, 'photo', 'photos')} · ${size} · ${plural(directoryCount, 'folder', 'folders')}`,
+    expiresIn: (remaining, date) =>
+      `This link expires in <strong data-countdown>${remaining}</strong>, on ${date}.`,
+    units: { day: ['day', 'days'], hour: ['hour', 'hours'], minute: ['minute', 'minutes'] },
+    and: ' and ',
+    remainingDownloads: (count) => `You have ${plural(count, 'download', 'downloads')} left.`,
+    downloadAll: (size) => `Download all photos (${size})`,
+    downloadWeb: 'Download the web version',
+    webHint: 'Lighter photos, suited for sharing online and on social media.',
+    directories: 'Order contents',
+    folder: 'Folder',
+    photos: 'Photos',
+    size: 'Size',
+    downloadFolder: 'Download',
+    unavailableFolder: 'Unavailable',
+    mobileHint:
+      'The photos come as a ZIP file. On a phone, use Wi-Fi or download one folder at a time; on a computer, open the file to extract it.',
+    sizeUnits: ['B', 'KB', 'MB', 'GB'],
+    unavailableTitle: 'This link is no longer available',
+    reasons: {
+      invalid:
+        'This download link is not valid. Check that it is complete, as it appears in your email.',
+      revoked: 'This download link has been disabled.',
+      expired: 'This download link has expired.',
+    },
+    contact: (studio) => `Contact ${studio} to receive a new link.`,
+  },
+}
+
+function plural(count: number, singular: string, pluralForm: string): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatSize(bytes: number, strings: PageStrings): string {
+  let size = bytes
+  let unit = 0
+
+  while (size >= 1024 && unit < strings.sizeUnits.length - 1) {
+    size /= 1024
+    unit++
+  }
+
+  const number = new Intl.NumberFormat(strings.locale, {
+    maximumFractionDigits: unit === 0 ? 0 : 1,
+  }).format(size)
+  return `${number} ${strings.sizeUnits[unit]}`
+}
+
+/**
+ * Time left in its two largest units, e.g. "2 days and 5 hours", at least one minute
+ */
+function formatRemaining(ms: number, strings: PageStrings): string {
+  const minutes = Math.max(1, Math.floor(ms / 60000))
+  const days = Math.floor(minutes / (24 * 60))
+  const hours = Math.floor(minutes / 60) % 24
+  const unit = (count: number, name: UnitName) =>
+    plural(count, strings.units[name][0], strings.units[name][1])
+
+  if (days > 0) {
+    return hours > 0
+      ? `${unit(days, 'day')}${strings.and}${unit(hours, 'hour')}`
+      : unit(days, 'day')
+  }
+  if (hours > 0) {
+    const rest = minutes % 60
+    return rest > 0
+      ? `${unit(hours, 'hour')}${strings.and}${unit(rest, 'minute')}`
+      : unit(hours, 'hour')
+  }
+  return unit(minutes, 'minute')
+}
+
+/**
+ * Same formatting as formatRemaining, run in the browser every minute
+ */
+function countdownScript(expiresAt: Date, strings: PageStrings): string {
+  // JSON is escaped so that no "</script>" can end the script early
+  const config = JSON.stringify({
+    expiresAt: expiresAt.getTime(),
+    units: strings.units,
+    and: strings.and,
+  }).replace(/</g, '\\u003c')
+
+  return `<script>
+(function () {
+  var c = ${config};
+  var el = document.querySelector('[data-countdown]');
+  function unit(n, name) { return n + ' ' + c.units[name][n === 1 ? 0 : 1]; }
+  function update() {
+    var ms = c.expiresAt - Date.now();
+    if (ms <= 0) { window.location.reload(); return; }
+    var minutes = Math.max(1, Math.floor(ms / 60000));
+    var days = Math.floor(minutes / 1440), hours = Math.floor(minutes / 60) % 24, rest = minutes % 60;
+    el.textContent = days > 0
+      ? (hours > 0 ? unit(days, 'day') + c.and + unit(hours, 'hour') : unit(days, 'day'))
+      : hours > 0
+        ? (rest > 0 ? unit(hours, 'hour') + c.and + unit(rest, 'minute') : unit(hours, 'hour'))
+        : unit(minutes, 'minute');
+  }
+  if (el) { setInterval(update, 60000); }
+})();
+</script>`
+}
+
+function layout(context: PageContext, title: string, body: string[]): string {
+  const { branding, language } = context
+  const accent = escapeHtml(branding.accentColor)
+  const other = STRINGS[language === 'fr' ? 'en' : 'fr']
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${language}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<meta name="robots" content="noindex, nofollow">',
+    `<title>${escapeHtml(title)} · ${escapeHtml(branding.name)}</title>`,
+    '<style>',
+    'body { margin: 0; font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #222; background: #f5f5f4; line-height: 1.5; }',
+    'main { max-width: 720px; margin: 0 auto; padding: 24px 16px 48px; }',
+    'header { display: flex; align-items: center; justify-content: space-between; gap: 16px; margin-bottom: 32px; }',
+    'header img { max-height: 48px; max-width: 60%; }',
+    '.studio { font-size: 1.25rem; font-weight: 600; }',
+    `a { color: ${accent}; }`,
+    '.card { background: #fff; border-radius: 8px; padding: 24px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.08); }',
+    'h1 { margin-top: 0; font-size: 1.6rem; }',
+    `.button { display: block; margin: 12px 0; padding: 14px 20px; border-radius: 6px; background: ${accent}; color: #fff; text-align: center; text-decoration: none; font-weight: 600; }`,
+    `.button.secondary { background: #fff; color: ${accent}; border: 2px solid ${accent}; }`,
+    '.hint { color: #666; font-size: 0.9rem; }',
+    'table { width: 100%; border-collapse: collapse; margin-top: 8px; }',
+    'th, td { padding: 8px 4px; border-bottom: 1px solid #eee; text-align: left; }',
+    'td.number, th.number { text-align: right; white-space: nowrap; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    '<main>',
+    '<header>',
+    branding.logoUrl
+      ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.name)}">`
+      : `<span class="studio">${escapeHtml(branding.name)}</span>`,
+    `<a href="${escapeHtml(context.alternateUrl)}" lang="${language === 'fr' ? 'en' : 'fr'}">${other.otherLanguage}</a>`,
+    '</header>',
+    '<div class="card">',
+    ...body,
+    '</div>',
+    '</main>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n')
+}
+
+export function renderLandingPage(context: LandingPageContext): string {
+  const strings = STRINGS[context.language] ?? STRINGS.fr
+  const { overview } = context
+  // Orders restricted to web copies download them by default
+  const primary: DownloadVariant = overview.variants.includes('full') ? 'full' : 'web'
+  const variantQuery = primary === 'web' ? '?variant=web' : ''
+  const expiresAt = new Intl.DateTimeFormat(strings.locale, {
+    dateStyle: 'full',
+    timeStyle: 'short',
+    timeZone: context.timeZone,
+  }).format(overview.expiresAt)
+  const remaining = formatRemaining(overview.expiresAt.getTime() - context.now.getTime(), strings)
+
+  const rows = overview.directories.map((directory) => {
+    const cells =
+      directory.folder === null
+        ? [
+            `<td><em>${strings.unavailableFolder}</em></td>`,
+            '<td class="number">–</td>',
+            '<td class="number">–</td>',
+            '<td></td>',
+          ]
+        : [
+            `<td>${escapeHtml(directory.folder)}</td>`,
+            `<td class="number">${directory.fileCount}</td>`,
+            `<td class="number">${formatSize(directory.totalSize, strings)}</td>`,
+            `<td class="number"><a href="${escapeHtml(`${context.downloadUrl}/directories/${directory.index}${variantQuery}`)}">${strings.downloadFolder}</a></td>`,
+          ]
+    return `<tr>${cells.join('')}</tr>`
+  })
+
+  return layout(context, strings.title, [
+    `<h1>${strings.title}</h1>`,
+    `<p>${strings.summary(overview.fileCount, formatSize(overview.totalSize, strings), overview.directories.length)}</p>`,
+    `<p><time datetime="${overview.expiresAt.toISOString()}">${strings.expiresIn(escapeHtml(remaining), escapeHtml(expiresAt))}</time></p>`,
+    ...(overview.remainingDownloads !== null
+      ? [`<p>${strings.remainingDownloads(overview.remainingDownloads)}</p>`]
+      : []),
+    `<a class="button" href="${escapeHtml(`${context.downloadUrl}${variantQuery}`)}" download>${escapeHtml(strings.downloadAll(formatSize(overview.totalSize, strings)))}</a>`,
+    ...(primary === 'full' && overview.variants.includes('web')
+      ? [
+          `<a class="button secondary" href="${escapeHtml(`${context.downloadUrl}?variant=web`)}" download>${strings.downloadWeb}</a>`,
+          `<p class="hint">${strings.webHint}</p>`,
+        ]
+      : []),
+    `<p class="hint">${strings.mobileHint}</p>`,
+    `<h2>${strings.directories}</h2>`,
+    '<table>',
+    `<thead><tr><th>${strings.folder}</th><th class="number">${strings.photos}</th><th class="number">${strings.size}</th><th></th></tr></thead>`,
+    `<tbody>${rows.join('')}</tbody>`,
+    '</table>',
+    countdownScript(overview.expiresAt, strings),
+  ])
+}
+
+export function renderUnavailablePage(context: UnavailablePageContext): string {
+  const strings = STRINGS[context.language] ?? STRINGS.fr
+  const { branding } = context
+  const studio = branding.contactEmail
+    ? `<a href="mailto:${escapeHtml(branding.contactEmail)}">${escapeHtml(branding.name)}</a>`
+    : escapeHtml(branding.name)
+
+  return layout(context, strings.unavailableTitle, [
+    `<h1>${strings.unavailableTitle}</h1>`,
+    `<p>${strings.reasons[context.reason]}</p>`,
+    `<p>${strings.contact(studio)}</p>`,
+  ])
+}
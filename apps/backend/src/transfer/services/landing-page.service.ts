@@ -0,0 +1,147 @@
+import { HttpStatus, Injectable, OnModuleInit } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CUSTOMER_LANGUAGES, CustomerLanguage } from '@photo-st-denis/shared'
+import { DeliveryMailService } from '../../mail/delivery-mail.service'
+import {
+  DownloadClientInfo,
+  DownloadService,
+  DownloadTokenRejectedException,
+} from './download.service'
+import { StudioBranding, renderLandingPage, renderUnavailablePage } from './landing-page-templates'
+
+const DEFAULT_STUDIO_NAME = 'Photo St-Denis'
+const DEFAULT_ACCENT_COLOR = '#222222'
+
+/**
+ * Page to send for a landing page request
+ */
+export interface RenderedPage {
+  statusCode: HttpStatus
+  html: string
+}
+
+/**
+ * Language the customer asked for: the ?lang= switch, then the language of the order,
+ * then the browser preferences
+ */
+export interface PageLanguageRequest {
+  query?: string
+  acceptLanguage?: string
+}
+
+/**
+ * Customer page of a download token at /d/{token}, in the language of the order.
+ * Invalid, revoked and expired tokens get an explanation instead of the JSON 404 of the API.
+ */
+@Injectable()
+export class LandingPageService implements OnModuleInit {
+  constructor(
+    private readonly downloadService: DownloadService,
+    private readonly deliveryMailService: DeliveryMailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    // Fail at startup rather than on the first page
+    this.getBranding()
+  }
+
+  /**
+   * @throws Error for errors other than a rejected token, e.g. an unavailable photo library
+   */
+  async render(
+    token: string,
+    request: PageLanguageRequest,
+    client: DownloadClientInfo = {},
+  ): Promise<RenderedPage> {
+    const branding = this.getBranding()
+    const requested = this.parseLanguage(request.query)
+
+    try {
+      const overview = await this.downloadService.getOverview(token, client)
+      const language = requested ?? overview.language
+
+      return {
+        statusCode: HttpStatus.OK,
+        html: renderLandingPage({
+          language,
+          branding,
+          alternateUrl: this.getAlternateUrl(token, language),
+          overview,
+          downloadUrl: `/api/v1/transfer/download/${token}`,
+          timeZone: this.configService.get<string>('MAIL_TIME_ZONE') || undefined,
+          now: new Date(),
+        }),
+      }
+    } catch (error) {
+      if (!(error instanceof DownloadTokenRejectedException)) {
+        throw error
+      }
+
+      const language = requested ?? this.negotiateLanguage(request.acceptLanguage)
+      return {
+        statusCode: HttpStatus.NOT_FOUND,
+        html: renderUnavailablePage({
+          language,
+          branding,
+          alternateUrl: this.getAlternateUrl(token, language),
+          reason: error.reason,
+        }),
+      }
+    }
+  }
+
+  /**
+   * Studio name, logo, colour and contact address from STUDIO_*
+   *
+   * @throws Error when STUDIO_ACCENT_COLOR is not a hex colour
+   */
+  private getBranding(): StudioBranding {
+    const accentColor = this.configService.get<string>('STUDIO_ACCENT_COLOR', DEFAULT_ACCENT_COLOR)
+
+    if (!/^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(accentColor)) {
+      throw new Error(`Invalid STUDIO_ACCENT_COLOR "${accentColor}", expected e.g. #1a5f7a`)
+    }
+
+    return {
+      name: this.configService.get<string>('STUDIO_NAME') || DEFAULT_STUDIO_NAME,
+      logoUrl: this.configService.get<string>('STUDIO_LOGO_URL') || undefined,
+      accentColor,
+      contactEmail: this.configService.get<string>('STUDIO_CONTACT_EMAIL') || undefined,
+    }
+  }
+
+  private getAlternateUrl(token: string, language: CustomerLanguage): string {
+    return `/d/${token}?lang=${language === 'fr' ? 'en' : 'fr'}`
+  }
+
+  private parseLanguage(value?: string): CustomerLanguage | null {
+    return CUSTOMER_LANGUAGES.includes(value as CustomerLanguage)
+      ? (value as CustomerLanguage)
+      : null
+  }
+
+  /**
+   * First supported language of an Accept-Language header by preference, the default
+   * customer language otherwise
+   */
+  private negotiateLanguage(acceptLanguage?: string): CustomerLanguage {
+    const preferred = (acceptLanguage ?? '')
+      .split(',')
+      .map((item) => {
+        const [tag, ...params] = item.trim().split(';')
+        const quality = params.find((param) => param.trim().startsWith('q='))
+        return {
+          language: tag.trim().toLowerCase().split('-')[0],
+          quality: quality ? Number(quality.trim().slice(2)) : 1,
+        }
+      })
+      .filter(({ quality }) => quality > 0)
+      .sort((a, b) => b.quality - a.quality)
+      .find(({ language }) => this.parseLanguage(language))
+
+    return (
+      (preferred?.language as CustomerLanguage) ?? this.deliveryMailService.getDefaultLanguage()
+    )
+  }
+}
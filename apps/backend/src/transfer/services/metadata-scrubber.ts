@@ -0,0 +1,296 @@
+/**
+ * In-place removal of private metadata from EXIF (TIFF) structures and XMP packets.
+ * Removed data is overwritten at the same length, so scrubbed files keep their size.
+ */
+
+/**
+ * Bytes that replace part of a file while it is streamed, at the same length
+ */
+export interface FilePatch {
+  offset: number
+  data: Buffer
+}
+
+/**
+ * Random access to bytes holding metadata, a file or a buffer
+ */
+export interface ByteSource {
+  readonly size: number
+  read(offset: number, length: number): Promise<Buffer>
+}
+
+/**
+ * Metadata structure that cannot be parsed safely
+ */
+export class MalformedMetadataError extends Error {}
+
+/** Size in bytes of one value of each TIFF field type */
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+  13: 4, // IFD
+}
+
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+
+/** GPS position and the DNG camera serial number */
+const IFD0_PRIVATE_TAGS = [TAG_GPS_IFD, 0xc62f]
+/** Owner name, body and lens serial numbers, unique image id and maker notes (vendor serials) */
+const EXIF_PRIVATE_TAGS = [0xa430, 0xa431, 0xa435, 0xa420, 0x927c]
+
+const IFD_ENTRY_SIZE = 12
+const MAX_IFD_ENTRIES = 1024
+
+/** XMP counterparts of the removed EXIF tags */
+const XMP_PRIVATE_PROPERTIES =
+  'exif:GPS[A-Za-z]*|exif:ImageUniqueID|exifEX:(?:BodySerialNumber|LensSerialNumber|CameraOwnerName|ImageUniqueID)|aux:(?:SerialNumber|LensSerialNumber|OwnerName)'
+const XMP_PRIVATE_ATTRIBUTE = new RegExp(
+  `\\s(?:${XMP_PRIVATE_PROPERTIES})\\s*=\\s*(?:"[^"]*"|'[^']*')`,
+  'g',
+)
+const XMP_PRIVATE_ELEMENT = new RegExp(
+  `<(${XMP_PRIVATE_PROPERTIES})\\b[^>]*?(?:/>|>[\\s\\S]*?</\\1\\s*>)`,
+  'g',
+)
+
+interface IfdEntry {
+  tag: number
+  /** The 12 bytes of the entry */
+  raw: Buffer
+  /** Inline value or offset of the value */
+  valueField: number
+  /** Offset of the value when it does not fit in the entry */
+  dataOffset?: number
+  dataLength: number
+}
+
+interface Ifd {
+  offset: number
+  entries: IfdEntry[]
+  nextOffset: number
+}
+
+export function bufferSource(buffer: Buffer): ByteSource {
+  return {
+    size: buffer.length,
+    read: (offset, length) => {
+      if (offset < 0 || offset + length > buffer.length) {
+        return Promise.reject(new MalformedMetadataError('Offset outside of the metadata'))
+      }
+      return Promise.resolve(buffer.subarray(offset, offset + length))
+    },
+  }
+}
+
+/**
+ * Applies patches to a copy of the bytes found at `offset` of a file
+ */
+export function applyPatches(chunk: Buffer, offset: number, patches: FilePatch[]): Buffer {
+  let result = chunk
+
+  for (const patch of patches) {
+    const start = Math.max(patch.offset, offset)
+    const end = Math.min(patch.offset + patch.data.length, offset + chunk.length)
+
+    if (start >= end) {
+      continue
+    }
+    if (result === chunk) {
+      result = Buffer.from(chunk)
+    }
+    patch.data.copy(result, start - offset, start - patch.offset, end - patch.offset)
+  }
+
+  return result
+}
+
+/**
+ * Moves patches computed inside an embedded structure to file offsets
+ */
+export function shiftPatches(patches: FilePatch[], baseOffset: number): FilePatch[] {
+  return patches.map((patch) => ({ offset: patch.offset + baseOffset, data: patch.data }))
+}
+
+/**
+ * Removes GPS data and device identifiers from a TIFF structure (EXIF block or TIFF file):
+ * the entries are dropped from their directory and their values zeroed.
+ * Orientation, copyright, artist and every other tag are kept.
+ *
+ * @returns Patches relative to the start of the TIFF header, empty when nothing is private
+ * @throws MalformedMetadataError if the structure is invalid
+ */
+export async function scrubTiff(source: ByteSource): Promise<FilePatch[]> {
+  const header = await source.read(0, 8)
+  const byteOrder = header.toString('latin1', 0, 2)
+
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new MalformedMetadataError('Unknown TIFF byte order')
+  }
+
+  const scrubber = new TiffScrubber(source, byteOrder === 'II')
+  const ifd0Offset = scrubber.readUInt32(header, 4)
+  const ifd0 = await scrubber.readIfd(ifd0Offset)
+
+  const exifEntry = ifd0.entries.find((entry) => entry.tag === TAG_EXIF_IFD)
+  await scrubber.removeEntries(ifd0, IFD0_PRIVATE_TAGS)
+
+  if (exifEntry) {
+    await scrubber.removeEntries(await scrubber.readIfd(exifEntry.valueField), EXIF_PRIVATE_TAGS)
+  }
+
+  // IFD1 describes the embedded thumbnail
+  if (ifd0.nextOffset > 0) {
+    await scrubber.removeEntries(await scrubber.readIfd(ifd0.nextOffset), IFD0_PRIVATE_TAGS)
+  }
+
+  return scrubber.patches
+}
+
+/**
+ * Removes GPS and device identifier properties from an XMP packet, padding the
+ * packet with whitespace to its original length
+ *
+ * @returns The scrubbed packet, or null when it has no private properties
+ */
+export function scrubXmp(packet: Buffer): Buffer | null {
+  // latin1 maps every byte to one character, so lengths stay byte lengths
+  const text = packet.toString('latin1')
+  const scrubbed = text.replace(XMP_PRIVATE_ATTRIBUTE, '').replace(XMP_PRIVATE_ELEMENT, '')
+
+  if (scrubbed.length === text.length) {
+    return null
+  }
+
+  const padding = ' '.repeat(text.length - scrubbed.length)
+  const trailerIndex = scrubbed.lastIndexOf('<?xpacket end')
+  const padded =
+    trailerIndex === -1
+      ? scrubbed + padding
+      : scrubbed.slice(0, trailerIndex) + padding + scrubbed.slice(trailerIndex)
+
+  return Buffer.from(padded, 'latin1')
+}
+
+class TiffScrubber {
+  readonly patches: FilePatch[] = []
+
+  constructor(
+    private readonly source: ByteSource,
+    private readonly littleEndian: boolean,
+  ) {}
+
+  readUInt16(buffer: Buffer, offset: number): number {
+    return this.littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset)
+  }
+
+  readUInt32(buffer: Buffer, offset: number): number {
+    return this.littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset)
+  }
+
+  async readIfd(offset: number): Promise<Ifd> {
+    const count = this.readUInt16(await this.source.read(offset, 2), 0)
+
+    if (count > MAX_IFD_ENTRIES) {
+      throw new MalformedMetadataError(`Directory at ${offset} has ${count} entries`)
+    }
+
+    const buffer = await this.source.read(offset + 2, count * IFD_ENTRY_SIZE + 4)
+    const entries: IfdEntry[] = []
+
+    for (let index = 0; index < count; index++) {
+      const position = index * IFD_ENTRY_SIZE
+      const type = this.readUInt16(buffer, position + 2)
+      const valueCount = this.readUInt32(buffer, position + 4)
+      const valueField = this.readUInt32(buffer, position + 8)
+      const dataLength = (TIFF_TYPE_SIZES[type] ?? 1) * valueCount
+
+      entries.push({
+        tag: this.readUInt16(buffer, position),
+        raw: buffer.subarray(position, position + IFD_ENTRY_SIZE),
+        valueField,
+        dataOffset: dataLength > 4 ? valueField : undefined,
+        dataLength,
+      })
+    }
+
+    return { offset, entries, nextOffset: this.readUInt32(buffer, count * IFD_ENTRY_SIZE) }
+  }
+
+  /**
+   * Rewrites the directory without the given tags; the freed entry slots at the
+   * end are zeroed, so the directory keeps its length
+   */
+  async removeEntries(ifd: Ifd, tags: number[]): Promise<void> {
+    const removed = ifd.entries.filter((entry) => tags.includes(entry.tag))
+
+    if (!removed.length) {
+      return
+    }
+
+    for (const entry of removed) {
+      if (entry.tag === TAG_GPS_IFD) {
+        await this.zeroIfd(entry.valueField)
+      } else if (entry.dataOffset !== undefined) {
+        this.zero(entry.dataOffset, entry.dataLength)
+      }
+    }
+
+    const kept = ifd.entries.filter((entry) => !tags.includes(entry.tag))
+    const rebuilt = Buffer.alloc(2 + ifd.entries.length * IFD_ENTRY_SIZE + 4)
+
+    this.writeUInt16(rebuilt, kept.length, 0)
+    kept.forEach((entry, index) => entry.raw.copy(rebuilt, 2 + index * IFD_ENTRY_SIZE))
+    this.writeUInt32(rebuilt, ifd.nextOffset, 2 + kept.length * IFD_ENTRY_SIZE)
+
+    this.patches.push({ offset: ifd.offset, data: rebuilt })
+  }
+
+  /**
+   * Zeroes a directory and the values it points to
+   */
+  private async zeroIfd(offset: number): Promise<void> {
+    const ifd = await this.readIfd(offset)
+
+    for (const entry of ifd.entries) {
+      if (entry.dataOffset !== undefined) {
+        this.zero(entry.dataOffset, entry.dataLength)
+      }
+    }
+
+    this.zero(offset, 2 + ifd.entries.length * IFD_ENTRY_SIZE + 4)
+  }
+
+  private zero(offset: number, length: number): void {
+    if (offset + length > this.source.size) {
+      throw new MalformedMetadataError(`Value at ${offset} ends after the metadata`)
+    }
+    this.patches.push({ offset, data: Buffer.alloc(length) })
+  }
+
+  private writeUInt16(buffer: Buffer, value: number, offset: number): void {
+    if (this.littleEndian) {
+      buffer.writeUInt16LE(value, offset)
+    } else {
+      buffer.writeUInt16BE(value, offset)
+    }
+  }
+
+  private writeUInt32(buffer: Buffer, value: number, offset: number): void {
+    if (this.littleEndian) {
+      buffer.writeUInt32LE(value, offset)
+    } else {
+      buffer.writeUInt32BE(value, offset)
+    }
+  }
+}
@@ -0,0 +1,380 @@
+import { Injectable, Logger } from '@nestjs/common'
+import * as CRC32 from 'crc-32'
+import { MetricsService } from '../../metrics/metrics.service'
+import { StorageService } from '../../storage/storage.service'
+import { PhotoFile } from './photos-config.service'
+import {
+  ByteSource,
+  FilePatch,
+  MalformedMetadataError,
+  applyPatches,
+  bufferSource,
+  scrubTiff,
+  scrubXmp,
+  shiftPatches,
+} from './metadata-scrubber'
+
+/** Maximum number of patch lists kept in memory between requests */
+const PATCH_CACHE_MAX_ENTRIES = 50000
+/** Files inspected at once when planning an order */
+const INSPECT_CONCURRENCY = 16
+
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff])
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1')
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1')
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp'
+
+const JPEG_APP1 = 0xe1
+const JPEG_COM = 0xfe
+const JPEG_SOS = 0xda
+const JPEG_EOI = 0xd9
+
+/**
+ * Plans the removal of private metadata from delivered photos, for orders in privacy mode.
+ *
+ * GPS data and device identifiers (serial numbers, owner name, unique image id, maker
+ * notes) are removed from EXIF and XMP in JPEG, PNG, WebP and TIFF files; orientation,
+ * copyright and the other tags are kept. Removal overwrites the metadata at the same
+ * length, so a file keeps its size and the archive layout stays deterministic: the
+ * result is a list of patches applied while the file is streamed. Files without private
+ * metadata get no patches and are streamed untouched. Formats whose metadata cannot be
+ * parsed, such as HEIC, CR3 or videos, get no plan and are left out of the delivery.
+ */
+@Injectable()
+export class PhotoPrivacyService {
+  private readonly logger = new Logger(PhotoPrivacyService.name)
+
+  /** Patches of already inspected files, keyed by path, size and mtime */
+  private readonly patchCache = new Map<string, FilePatch[] | null>()
+
+  constructor(
+    private readonly metricsService: MetricsService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  /**
+   * Plans the patches of several files
+   *
+   * @param files - Delivered files
+   * @returns Patches of each file, in the same order, null for the files that cannot be scrubbed
+   * @throws Error if a file cannot be parsed, since its metadata could not be removed
+   */
+  async planFiles(files: PhotoFile[]): Promise<(FilePatch[] | null)[]> {
+    const results: (FilePatch[] | null)[] = new Array(files.length)
+    let next = 0
+
+    const worker = async () => {
+      while (next < files.length) {
+        const index = next++
+        results[index] = await this.planPatches(files[index])
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(INSPECT_CONCURRENCY, files.length) }, worker))
+
+    return results
+  }
+
+  /**
+   * Plans the patches removing the private metadata of a file
+   *
+   * @param file - Delivered file
+   * @returns Patches at file offsets, empty when the file has no private metadata, null when
+   * the format is not one the metadata can be removed from
+   */
+  async planPatches(file: PhotoFile): Promise<FilePatch[] | null> {
+    const cacheKey = `${file.fullPath}:${file.size}:${file.mtime.getTime()}`
+    const cached = this.patchCache.get(cacheKey)
+
+    if (cached !== undefined) {
+      return cached
+    }
+
+    try {
+      const patches = await this.inspect(this.fileSource(file))
+
+      if (patches === null) {
+        this.logger.warn(`Cannot remove the metadata of ${file.fullPath}: unsupported format`)
+      } else if (patches.length) {
+        this.metricsService.metadataScrubbedFiles.inc()
+      }
+      this.rememberPatches(cacheKey, patches)
+
+      return patches
+    } catch (error) {
+      if (error instanceof MalformedMetadataError) {
+        throw new Error(`Cannot remove the metadata of ${file.fullPath}: ${error.message}`)
+      }
+      throw error
+    }
+  }
+
+  private async inspect(source: ByteSource): Promise<FilePatch[] | null> {
+    if (source.size === 0) {
+      return []
+    }
+
+    const signature = await source.read(0, Math.min(source.size, 12))
+
+    if (this.startsWith(signature, JPEG_SIGNATURE)) {
+      return this.scrubJpeg(source)
+    }
+    if (this.startsWith(signature, PNG_SIGNATURE)) {
+      return this.scrubPng(source)
+    }
+    if (
+      signature.toString('latin1', 0, 4) === 'RIFF' &&
+      signature.toString('latin1', 8, 12) === 'WEBP'
+    ) {
+      return this.scrubWebp(source)
+    }
+
+    const tiffSignature = signature.toString('latin1', 0, 4)
+    if (tiffSignature === 'II*\0' || tiffSignature === 'MM\0*') {
+      // Damaged directories cannot be blanked in a TIFF file, so they fail the order
+      return scrubTiff(source)
+    }
+
+    // BMP has no metadata blocks
+    if (signature.toString('latin1', 0, 2) === 'BM') {
+      return []
+    }
+
+    // HEIC, CR3 and the other ISO media files, RAW formats with their own header, videos
+    return null
+  }
+
+  /**
+   * Walks the JPEG segments up to the image data; the Exif and XMP APP1 segments are scrubbed
+   */
+  private async scrubJpeg(source: ByteSource): Promise<FilePatch[]> {
+    const patches: FilePatch[] = []
+    let offset = 2
+
+    while (offset + 4 <= source.size) {
+      const header = await source.read(offset, 4)
+
+      if (header[0] !== 0xff) {
+        throw new MalformedMetadataError(`No JPEG marker at ${offset}`)
+      }
+
+      const marker = header[1]
+
+      // Fill byte before a marker
+      if (marker === 0xff) {
+        offset++
+        continue
+      }
+      if (marker === JPEG_SOS || marker === JPEG_EOI) {
+        break
+      }
+
+      const payloadOffset = offset + 4
+      const payloadLength = header.readUInt16BE(2) - 2
+
+      if (payloadLength < 0) {
+        throw new MalformedMetadataError(`Invalid segment length at ${offset}`)
+      }
+      if (marker === JPEG_APP1 && payloadLength > 0) {
+        const payload = await source.read(payloadOffset, payloadLength)
+
+        if (this.startsWith(payload, EXIF_HEADER)) {
+          const exifPatches = await this.scrubEmbeddedTiff(
+            payload.subarray(EXIF_HEADER.length),
+            payloadOffset + EXIF_HEADER.length,
+          )
+          // Unreadable Exif is turned into a zeroed comment segment
+          patches.push(
+            ...(exifPatches ?? [
+              { offset: offset + 1, data: Buffer.from([JPEG_COM]) },
+              { offset: payloadOffset, data: Buffer.alloc(payloadLength) },
+            ]),
+          )
+        } else if (this.startsWith(payload, XMP_HEADER)) {
+          patches.push(
+            ...this.scrubEmbeddedXmp(
+              payload.subarray(XMP_HEADER.length),
+              payloadOffset + XMP_HEADER.length,
+            ),
+          )
+        }
+      }
+
+      offset = payloadOffset + payloadLength
+    }
+
+    return patches
+  }
+
+  /**
+   * Walks the PNG chunks up to the image data; eXIf and XMP iTXt chunks are scrubbed
+   * and their CRC rewritten
+   */
+  private async scrubPng(source: ByteSource): Promise<FilePatch[]> {
+    const patches: FilePatch[] = []
+    let offset = PNG_SIGNATURE.length
+
+    while (offset + 8 <= source.size) {
+      const header = await source.read(offset, 8)
+      const length = header.readUInt32BE(0)
+      const type = header.toString('latin1', 4, 8)
+      const dataOffset = offset + 8
+
+      if (type === 'IDAT' || type === 'IEND') {
+        break
+      }
+
+      if (type === 'eXIf' || type === 'iTXt') {
+        const data = await source.read(dataOffset, length)
+        const scrubbed = type === 'eXIf' ? await this.scrubTiffChunk(data) : this.scrubPngText(data)
+
+        if (scrubbed) {
+          const crc = Buffer.alloc(4)
+          crc.writeUInt32BE(CRC32.buf(scrubbed, CRC32.bstr(type)) >>> 0)
+          patches.push(
+            { offset: dataOffset, data: scrubbed },
+            { offset: dataOffset + length, data: crc },
+          )
+        }
+      }
+
+      offset = dataOffset + length + 4
+    }
+
+    return patches
+  }
+
+  /**
+   * Walks the RIFF chunks of a WebP file; EXIF and XMP chunks are scrubbed
+   */
+  private async scrubWebp(source: ByteSource): Promise<FilePatch[]> {
+    const patches: FilePatch[] = []
+    let offset = 12
+
+    while (offset + 8 <= source.size) {
+      const header = await source.read(offset, 8)
+      const fourCc = header.toString('latin1', 0, 4)
+      const length = header.readUInt32LE(4)
+      const dataOffset = offset + 8
+
+      if (fourCc === 'EXIF') {
+        const scrubbed = await this.scrubTiffChunk(await source.read(dataOffset, length))
+        if (scrubbed) {
+          patches.push({ offset: dataOffset, data: scrubbed })
+        }
+      } else if (fourCc === 'XMP ') {
+        patches.push(...this.scrubEmbeddedXmp(await source.read(dataOffset, length), dataOffset))
+      }
+
+      // Chunks are padded to an even length
+      offset = dataOffset + length + (length % 2)
+    }
+
+    return patches
+  }
+
+  /**
+   * @returns Patches at file offsets, or null when the TIFF structure is unreadable
+   */
+  private async scrubEmbeddedTiff(tiff: Buffer, baseOffset: number): Promise<FilePatch[] | null> {
+    try {
+      return shiftPatches(await scrubTiff(bufferSource(tiff)), baseOffset)
+    } catch (error) {
+      if (!(error instanceof MalformedMetadataError)) {
+        throw error
+      }
+      this.logger.warn(`Blanking unreadable EXIF data: ${error.message}`)
+      return null
+    }
+  }
+
+  /**
+   * Scrubs a whole chunk holding EXIF data, which some writers prefix with the JPEG
+   * Exif header. Unreadable data is zeroed.
+   *
+   * @returns The new chunk contents, or null when nothing changes
+   */
+  private async scrubTiffChunk(data: Buffer): Promise<Buffer | null> {
+    const tiffOffset = this.startsWith(data, EXIF_HEADER) ? EXIF_HEADER.length : 0
+    const patches = await this.scrubEmbeddedTiff(data.subarray(tiffOffset), tiffOffset)
+
+    if (!patches) {
+      return Buffer.alloc(data.length)
+    }
+
+    return patches.length ? applyPatches(data, 0, patches) : null
+  }
+
+  private scrubEmbeddedXmp(packet: Buffer, baseOffset: number): FilePatch[] {
+    const scrubbed = scrubXmp(packet)
+    return scrubbed ? [{ offset: baseOffset, data: scrubbed }] : []
+  }
+
+  /**
+   * Scrubs the XMP packet of an iTXt chunk; other text chunks are left alone
+   *
+   * @returns The new chunk contents, or null when nothing changes
+   */
+  private scrubPngText(data: Buffer): Buffer | null {
+    const keywordEnd = data.indexOf(0)
+
+    if (keywordEnd === -1 || data.toString('latin1', 0, keywordEnd) !== PNG_XMP_KEYWORD) {
+      return null
+    }
+
+    // Keyword, compression flag and method, language tag, translated keyword, then the text
+    const compressed = data[keywordEnd + 1] === 1
+    const languageEnd = data.indexOf(0, keywordEnd + 3)
+    const translatedEnd = languageEnd === -1 ? -1 : data.indexOf(0, languageEnd + 1)
+
+    if (translatedEnd === -1 || compressed) {
+      // Compressed packets cannot be rewritten at the same length
+      this.logger.warn('Blanking an XMP packet that cannot be rewritten in place')
+      return Buffer.concat([
+        data.subarray(0, keywordEnd + 1),
+        Buffer.alloc(data.length - keywordEnd - 1),
+      ])
+    }
+
+    const textOffset = translatedEnd + 1
+    const scrubbed = scrubXmp(data.subarray(textOffset))
+
+    return scrubbed ? Buffer.concat([data.subarray(0, textOffset), scrubbed]) : null
+  }
+
+  private fileSource(file: PhotoFile): ByteSource {
+    return {
+      size: file.size,
+      read: async (offset, length) => {
+        if (offset < 0 || length < 0 || offset + length > file.size) {
+          throw new MalformedMetadataError(`Offset ${offset} is outside of the file`)
+        }
+
+        const buffer = await this.storageService.read(file.fullPath, offset, length)
+
+        if (buffer.length !== length) {
+          throw new Error('File changed while its metadata was read')
+        }
+
+        return buffer
+      },
+    }
+  }
+
+  private rememberPatches(key: string, patches: FilePatch[] | null): void {
+    this.patchCache.set(key, patches)
+
+    // Map keeps insertion order, so the first key is the least recently stored
+    if (this.patchCache.size > PATCH_CACHE_MAX_ENTRIES) {
+      const oldestKey = this.patchCache.keys().next().value
+      if (oldestKey !== undefined) {
+        this.patchCache.delete(oldestKey)
+      }
+    }
+  }
+
+  private startsWith(buffer: Buffer, prefix: Buffer): boolean {
+    return buffer.length >= prefix.length && buffer.subarray(0, prefix.length).equals(prefix)
+  }
+}
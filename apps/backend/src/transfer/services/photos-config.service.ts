@@ -1,88 +1,315 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common'
+import { BadRequestException, Injectable, Logger, OnModuleInit } from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
 import * as path from 'path'
 import * as fs from 'fs'
+import { StorageService } from '../../storage/storage.service'
+import { UnreadableObject } from '../../storage/drivers'
+import {
+  DEFAULT_FILE_TYPE_PROFILES,
+  FileTypeProfile,
+  SNIFF_LENGTH,
+  isKnownExtension,
+  parseFileTypeProfiles,
+} from './file-types'
+import { ArchiveEntryNamer } from './folder-layout'
+
+/**
+ * Deliverable file found below one of the order directories
+ */
+export interface PhotoFile {
+  /** Location of the file in its storage backend: an absolute path, or an s3:// URL */
+  fullPath: string
+  /** Path relative to the scanned directory, always using forward slashes */
+  relativePath: string
+  /** File size in bytes */
+  size: number
+  /** Last modification time */
+  mtime: Date
+}
+
+/**
+ * Image count and total size of a directory, including its subdirectories
+ */
+export interface DirectoryStats {
+  fileCount: number
+  /** Total size of the image files in bytes */
+  totalSize: number
+}
+
+/**
+ * Current state of the photos base path
+ */
+export interface PhotosMountStatus {
+  basePath: string
+  /** The base path exists, is a directory and can be read */
+  readable: boolean
+  /** The base path sits on a different device than its parent directory */
+  isMountPoint: boolean
+}
+
+/**
+ * Current state of a named library from PHOTO_LIBRARIES
+ */
+export interface PhotoLibraryStatus extends PhotosMountStatus {
+  name: string
+}
 
 @Injectable()
 export class PhotosConfigService implements OnModuleInit {
   private readonly logger = new Logger(PhotosConfigService.name)
-  private readonly supportedImageExtensions = [
-    '.jpg',
-    '.jpeg',
-    '.png',
-    '.tiff',
-    '.tif',
-    '.webp',
-    '.bmp',
-  ]
-
-  constructor(private configService: ConfigService) {}
+
+  constructor(
+    private configService: ConfigService,
+    private readonly storageService: StorageService,
+  ) {}
 
   async onModuleInit() {
+    this.validateFileTypeProfiles()
     await this.validateConfiguration()
+    await this.validateLibraries()
   }
 
   getPhotosBasePath(): string {
-    return this.configService.get<string>('PHOTOS_BASE_PATH', '/mnt/psd')
+    return this.storageService.getLocalDriver().basePath
   }
 
+  /**
+   * Resolves an order directory, e.g. "wedding/2024" or "s3:season-2019/wedding", to
+   * the location of its storage backend. Traversal attempts are removed.
+   *
+   * @throws Error if the directory names a storage backend that is not configured
+   */
   getFullPhotoPath(relativePath: string): string {
-    // Sanitize the relative path to prevent directory traversal
-    const sanitizedPath = this.sanitizePath(relativePath)
-    return path.join(this.getPhotosBasePath(), sanitizedPath)
+    return this.storageService.resolveDirectory(relativePath)
   }
 
-  getSupportedImageExtensions(): string[] {
-    return [...this.supportedImageExtensions]
+  /**
+   * Reserves the folder of a directory in an archive, named from its path without the
+   * storage prefix; the storage root itself is named after its backend
+   */
+  getArchiveFolder(dirPath: string, namer: ArchiveEntryNamer): string {
+    const { storage, relativePath } = this.storageService.parseDirectory(dirPath)
+    return namer.addDirectory(relativePath, storage)
   }
 
-  isValidImageFile(filename: string): boolean {
-    const ext = path.extname(filename).toLowerCase()
-    return this.supportedImageExtensions.includes(ext)
+  /**
+   * Storage backend named by an order directory, "local" when it has no prefix
+   */
+  getStorageName(dirPath: string): string {
+    return this.storageService.parseDirectory(dirPath).storage
   }
 
-  private sanitizePath(relativePath: string): string {
-    // Remove any path traversal attempts (../, ..\, etc.)
-    const sanitized = path.normalize(relativePath).replace(/^(\.\.[/\\])+/, '')
+  /**
+   * Whether the storage backend named by an order directory is configured
+   */
+  isStorageAvailable(dirPath: string): boolean {
+    return this.storageService.isAvailable(dirPath)
+  }
 
-    // Ensure it doesn't start with / or \ to keep it relative
-    return sanitized.replace(/^[/\\]+/, '')
+  /**
+   * Whether the library of an order directory can be read right now. Directories
+   * outside the named libraries are always considered available.
+   */
+  async isLibraryAvailable(dirPath: string): Promise<boolean> {
+    const library = this.storageService.getLibrary(dirPath)
+    return !library || this.checkDirectoryExists(library.basePath)
   }
 
-  private async validateConfiguration(): Promise<void> {
-    try {
-      const basePath = this.getPhotosBasePath()
+  /**
+   * Parses FILE_TYPE_PROFILES, formatted as "name:type|type" pairs separated by commas
+   */
+  getFileTypeProfiles(): Record<string, FileTypeProfile> {
+    return parseFileTypeProfiles(
+      this.configService.get<string>('FILE_TYPE_PROFILES', DEFAULT_FILE_TYPE_PROFILES),
+    )
+  }
+
+  getDefaultFileTypeProfileName(): string {
+    return this.configService.get<string>('FILE_TYPE_PROFILE_DEFAULT', 'standard')
+  }
+
+  /**
+   * Looks up the profile of a new order, the default one when none is requested
+   *
+   * @param privacyMode - Whether the order removes private metadata, which only some formats allow
+   * @throws BadRequestException if the profile is unknown, or delivers formats whose metadata
+   * privacy mode cannot remove
+   */
+  resolveFileTypeProfile(name?: string, privacyMode = false): FileTypeProfile {
+    const profiles = this.getFileTypeProfiles()
+    const profile = profiles[name ?? this.getDefaultFileTypeProfileName()]
+
+    if (!profile) {
+      throw new BadRequestException(
+        `Unknown file type profile "${name}". Available profiles: ${Object.keys(profiles).join(', ')}`,
+      )
+    }
+
+    if (privacyMode && profile.unscrubbableExtensions.length) {
+      throw new BadRequestException(
+        `Privacy mode cannot remove the metadata of ${profile.unscrubbableExtensions.join(', ')} files of file type profile "${profile.name}". Choose a profile without them or disable privacy mode`,
+      )
+    }
 
-      // Check if base path exists and is accessible
-      await fs.promises.access(basePath, fs.constants.R_OK)
+    return profile
+  }
+
+  /**
+   * Looks up the profile stored on an order. A profile since removed from the
+   * configuration falls back to the default one, so the order stays downloadable.
+   */
+  getFileTypeProfile(name?: string | null): FileTypeProfile {
+    const profiles = this.getFileTypeProfiles()
+    const defaultName = this.getDefaultFileTypeProfileName()
+
+    if (name && !profiles[name]) {
+      this.logger.warn(`File type profile "${name}" no longer exists, using "${defaultName}"`)
+    }
+
+    return profiles[name ?? defaultName] ?? profiles[defaultName]
+  }
+
+  getSupportedImageExtensions(profile = this.getFileTypeProfile()): string[] {
+    return [...profile.extensions]
+  }
+
+  /**
+   * Checks a file name against the extensions of a profile, ignoring case
+   */
+  isValidImageFile(filename: string, profile = this.getFileTypeProfile()): boolean {
+    const ext = path.extname(filename).toLowerCase()
+    return profile.extensions.includes(ext)
+  }
 
-      // Check if it's actually a directory
-      const stats = await fs.promises.stat(basePath)
-      if (!stats.isDirectory()) {
-        throw new Error(`Photos base path is not a directory: ${basePath}`)
+  isSniffingEnabled(): boolean {
+    return String(this.configService.get('FILE_TYPE_SNIFF', 'false')) === 'true'
+  }
+
+  /**
+   * Whether downloads stop when a directory or a file of the order cannot be read,
+   * instead of delivering the rest with a delivery report
+   */
+  isStrictDeliveryEnabled(): boolean {
+    return String(this.configService.get('STRICT_DELIVERY', 'false')) === 'true'
+  }
+
+  /**
+   * Checks the first bytes of a file against the formats of a profile, so mislabelled
+   * files are skipped and files without a usual extension are found. Files with the
+   * extension of a format outside the profile are skipped, since RAW formats share
+   * the TIFF signature; extensions listed in the profile without a known format are
+   * matched by name.
+   */
+  async matchesFileSignature(location: string, profile: FileTypeProfile): Promise<boolean> {
+    const ext = path.extname(location).toLowerCase()
+
+    if (!profile.extensions.includes(ext)) {
+      if (isKnownExtension(ext)) {
+        return false
       }
+    } else if (!profile.types.some((type) => type.extensions.includes(ext))) {
+      return true
+    }
 
-      this.logger.log(`Photos base path validated: ${basePath}`)
+    const header = await this.storageService.read(location, 0, SNIFF_LENGTH)
+    return profile.types.some((type) => type.matches(header))
+  }
 
-      // Optional: Check if it's a mount point (for NAS validation)
-      await this.validateMountPoint(basePath)
+  /**
+   * Checks that a requested directory stays below the root of its storage backend,
+   * both lexically (no ".." segments) and, on the local filesystem, after resolving
+   * symbolic links.
+   */
+  isWithinBasePath(relativePath: string): Promise<boolean> {
+    return this.storageService.isWithinRoot(relativePath)
+  }
+
+  private async validateConfiguration(): Promise<void> {
+    try {
+      await this.validateDirectory(this.getPhotosBasePath(), 'Photos base path')
     } catch (error) {
       this.logger.error(`Failed to validate photos configuration: ${error.message}`)
       throw error
     }
   }
 
+  /**
+   * Checks each named library like the base path. An unavailable library does not
+   * stop the boot: only the orders reading from it fail until it is back.
+   */
+  private async validateLibraries(): Promise<void> {
+    for (const library of this.storageService.getLibraries()) {
+      const label = `Photo library "${library.name}"`
+
+      try {
+        await this.validateDirectory(library.basePath, label)
+      } catch (error) {
+        this.logger.error(`${label} is unavailable at ${library.basePath}: ${error.message}`)
+      }
+    }
+  }
+
+  private async validateDirectory(basePath: string, label: string): Promise<void> {
+    // Check if base path exists and is accessible
+    await fs.promises.access(basePath, fs.constants.R_OK)
+
+    // Check if it's actually a directory
+    const stats = await fs.promises.stat(basePath)
+    if (!stats.isDirectory()) {
+      throw new Error(`${label} is not a directory: ${basePath}`)
+    }
+
+    this.logger.log(`${label} validated: ${basePath}`)
+
+    // Optional: Check if it's a mount point (for NAS validation)
+    await this.validateMountPoint(basePath)
+  }
+
+  /**
+   * Checks that the photos base path, or the path of a library, is still readable and
+   * still a mount point. When the NAS goes away, the path falls back to the empty local
+   * directory.
+   */
+  async getMountStatus(basePath = this.getPhotosBasePath()): Promise<PhotosMountStatus> {
+    const readable = await this.checkDirectoryExists(basePath)
+
+    return {
+      basePath,
+      readable,
+      isMountPoint: readable && (await this.isMountPoint(basePath).catch(() => false)),
+    }
+  }
+
+  getLibraryNames(): string[] {
+    return this.storageService.getLibraries().map((library) => library.name)
+  }
+
+  /**
+   * Mount status of each named library
+   */
+  getLibraryStatuses(): Promise<PhotoLibraryStatus[]> {
+    return Promise.all(
+      this.storageService.getLibraries().map(async (library) => ({
+        name: library.name,
+        ...(await this.getMountStatus(library.basePath)),
+      })),
+    )
+  }
+
+  private async isMountPoint(basePath: string): Promise<boolean> {
+    // Check if it's actually mounted by comparing with parent directory device
+    const [baseStats, parentStats] = await Promise.all([
+      fs.promises.stat(basePath),
+      fs.promises.stat(path.dirname(basePath)),
+    ])
+
+    // Different device numbers usually indicate a mount point
+    return baseStats.dev !== parentStats.dev
+  }
+
   private async validateMountPoint(basePath: string): Promise<void> {
     try {
-      // Check if it's actually mounted by comparing with parent directory device
-      const parentPath = path.dirname(basePath)
-      const [baseStats, parentStats] = await Promise.all([
-        fs.promises.stat(basePath),
-        fs.promises.stat(parentPath),
-      ])
-
-      // Different device numbers usually indicate a mount point
-      if (baseStats.dev !== parentStats.dev) {
+      if (await this.isMountPoint(basePath)) {
         this.logger.log(`Mount point detected at: ${basePath}`)
       } else {
         this.logger.warn(`Path may not be a mount point: ${basePath}`)
@@ -92,33 +319,107 @@ export class PhotosConfigService implements OnModuleInit {
     }
   }
 
-  async checkDirectoryExists(fullPath: string): Promise<boolean> {
+  async checkDirectoryExists(location: string): Promise<boolean> {
     try {
-      await fs.promises.access(fullPath, fs.constants.R_OK)
-      const stats = await fs.promises.stat(fullPath)
-      return stats.isDirectory()
-    } catch {
+      return await this.storageService.directoryExists(location)
+    } catch (error) {
+      this.logger.warn(`Could not check directory ${location}: ${error.message}`)
       return false
     }
   }
 
-  async getDirectorySize(dirPath: string): Promise<number> {
-    try {
-      const fullPath = this.getFullPhotoPath(dirPath)
-      let totalSize = 0
+  /**
+   * Recursively lists the files of a profile below a directory, by extension or,
+   * when FILE_TYPE_SNIFF is enabled, by their first bytes.
+   * Results are sorted by relative path so that callers get a stable ordering.
+   *
+   * @param location - Directory location in its storage backend
+   * @param profile - File types to list, the default profile when omitted
+   * @param unreadable - Collects the subdirectories and files that cannot be read, which are
+   *   then left out; without it, the listing fails on them
+   * @returns Files with their size and modification time
+   */
+  async listImageFiles(
+    location: string,
+    profile = this.getFileTypeProfile(),
+    unreadable?: UnreadableObject[],
+  ): Promise<PhotoFile[]> {
+    const sniff = this.isSniffingEnabled()
+    const objects = await this.storageService.listFiles(
+      location,
+      sniff ? undefined : (name) => this.isValidImageFile(name, profile),
+      unreadable,
+    )
+    const files: PhotoFile[] = []
 
-      const files = await fs.promises.readdir(fullPath)
-      const imageFiles = files.filter((file) => this.isValidImageFile(file))
+    for (const object of objects) {
+      let matches = true
 
-      for (const file of imageFiles) {
-        const filePath = path.join(fullPath, file)
-        const stats = await fs.promises.stat(filePath)
-        if (stats.isFile()) {
-          totalSize += stats.size
+      if (sniff) {
+        try {
+          matches = await this.matchesFileSignature(object.location, profile)
+        } catch (error) {
+          if (!unreadable) {
+            throw error
+          }
+          unreadable.push({ relativePath: object.relativePath, reason: 'read error' })
+          continue
         }
       }
 
-      return totalSize
+      if (matches) {
+        files.push({
+          fullPath: object.location,
+          relativePath: object.relativePath,
+          size: object.size,
+          mtime: object.mtime,
+        })
+      }
+    }
+
+    return files.sort((a, b) =>
+      a.relativePath < b.relativePath ? -1 : a.relativePath > b.relativePath ? 1 : 0,
+    )
+  }
+
+  /**
+   * Counts the files of a profile below a directory and their total size, recursively,
+   * matching what ends up in the archive
+   */
+  async getDirectoryStats(
+    dirPath: string,
+    profile = this.getFileTypeProfile(),
+  ): Promise<DirectoryStats> {
+    const files = await this.listImageFiles(this.getFullPhotoPath(dirPath), profile)
+
+    return {
+      fileCount: files.length,
+      totalSize: files.reduce((total, file) => total + file.size, 0),
+    }
+  }
+
+  private validateFileTypeProfiles(): void {
+    const profiles = this.getFileTypeProfiles()
+    const defaultName = this.getDefaultFileTypeProfileName()
+
+    if (!profiles[defaultName]) {
+      throw new Error(
+        `Default file type profile "${defaultName}" is not one of: ${Object.keys(profiles).join(', ')}`,
+      )
+    }
+
+    this.logger.log(
+      `File type profiles: ${Object.values(profiles)
+        .map((profile) => `${profile.name} (${profile.extensions.join(' ')})`)
+        .join(
+          ', ',
+        )}; default ${defaultName}${this.isSniffingEnabled() ? ', sniffing signatures' : ''}`,
+    )
+  }
+
+  async getDirectorySize(dirPath: string): Promise<number> {
+    try {
+      return (await this.getDirectoryStats(dirPath)).totalSize
     } catch (error) {
       this.logger.warn(`Failed to calculate directory size for ${dirPath}: ${error.message}`)
       return 0
@@ -0,0 +1,158 @@
+/**
+ * Headers of POSIX tar archives (ustar, with pax extended headers when needed).
+ * Header sizes only depend on the entry name and size, so tar archives get a
+ * deterministic layout like the STORE-mode ZIP archives.
+ */
+
+export const TAR_BLOCK_SIZE = 512
+/** Two zero blocks end the archive */
+export const TAR_TRAILER_SIZE = 2 * TAR_BLOCK_SIZE
+
+/** Largest size the 11 octal digits of the ustar size field hold (8 GiB - 1) */
+const USTAR_MAX_SIZE = 0o77777777777
+const USTAR_NAME_LENGTH = 100
+const USTAR_PREFIX_LENGTH = 155
+
+const TYPE_FILE = '0'
+const TYPE_PAX_HEADER = 'x'
+
+/**
+ * Zero bytes after file contents up to the next block
+ */
+export function getTarPaddingSize(size: number): number {
+  return (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE
+}
+
+/**
+ * Size of the header blocks of an entry, including its pax extended header
+ */
+export function getTarHeaderSize(name: Buffer, size: number): number {
+  const pax = buildPaxRecords(name, size)
+  return pax ? 2 * TAR_BLOCK_SIZE + pax.length + getTarPaddingSize(pax.length) : TAR_BLOCK_SIZE
+}
+
+/**
+ * Builds the header blocks of a regular file. Names that are not ASCII or do not
+ * fit the ustar fields, and sizes of 8 GiB or more, go to a pax extended header.
+ *
+ * @param name - Entry name (UTF-8 encoded)
+ * @param size - File size in bytes
+ * @param mtime - Last modification time of the file
+ */
+export function buildTarHeader(name: Buffer, size: number, mtime: Date): Buffer {
+  const pax = buildPaxRecords(name, size)
+
+  if (!pax) {
+    return buildUstarHeader(splitUstarName(name)!, size, mtime, TYPE_FILE)
+  }
+
+  const fallback = toAsciiName(name)
+  return Buffer.concat([
+    buildUstarHeader(
+      { name: toAsciiName(Buffer.from(`PaxHeader/${fallback.name.toString('latin1')}`)).name },
+      pax.length,
+      mtime,
+      TYPE_PAX_HEADER,
+    ),
+    pax,
+    Buffer.alloc(getTarPaddingSize(pax.length)),
+    buildUstarHeader(fallback, size > USTAR_MAX_SIZE ? 0 : size, mtime, TYPE_FILE),
+  ])
+}
+
+interface UstarName {
+  name: Buffer
+  prefix?: Buffer
+}
+
+/**
+ * Splits an ASCII name into the ustar name and prefix fields at a slash
+ *
+ * @returns The fields, null when the name needs a pax header
+ */
+function splitUstarName(name: Buffer): UstarName | null {
+  if (name.some((byte) => byte > 0x7e || byte < 0x20)) {
+    return null
+  }
+  if (name.length <= USTAR_NAME_LENGTH) {
+    return { name }
+  }
+
+  for (let index = name.length - USTAR_NAME_LENGTH - 1; index <= USTAR_PREFIX_LENGTH; index++) {
+    if (index > 0 && name[index] === 0x2f && index < name.length - 1) {
+      return { name: name.subarray(index + 1), prefix: name.subarray(0, index) }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Name written in the ustar fields for readers without pax support: printable
+ * ASCII, keeping the end of the name where the file name is
+ */
+function toAsciiName(name: Buffer): UstarName {
+  const ascii = Buffer.from(name.toString('utf8').replace(/[^\x20-\x7e]/g, '_'), 'latin1')
+  return { name: ascii.subarray(Math.max(ascii.length - USTAR_NAME_LENGTH, 0)) }
+}
+
+/**
+ * pax records of an entry, each "<length> <key>=<value>\n" where the length counts
+ * the whole record including its own digits
+ *
+ * @returns The records, null when the ustar fields are enough
+ */
+function buildPaxRecords(name: Buffer, size: number): Buffer | null {
+  const records: Buffer[] = []
+
+  if (!splitUstarName(name)) {
+    records.push(paxRecord('path', name))
+  }
+  if (size > USTAR_MAX_SIZE) {
+    records.push(paxRecord('size', Buffer.from(String(size))))
+  }
+
+  return records.length ? Buffer.concat(records) : null
+}
+
+function paxRecord(key: string, value: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(` ${key}=`), value, Buffer.from('\n')])
+  let length = body.length + String(body.length).length
+
+  // One more digit when adding the digits crosses a power of ten
+  if (String(length).length !== String(length - body.length).length) {
+    length = body.length + String(length).length
+  }
+
+  return Buffer.concat([Buffer.from(String(length)), body])
+}
+
+function buildUstarHeader(fields: UstarName, size: number, mtime: Date, type: string): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE)
+
+  fields.name.copy(header, 0)
+  writeOctal(header, 0o644, 100, 8) // Mode, rw-r--r--
+  writeOctal(header, 0, 108, 8) // Owner
+  writeOctal(header, 0, 116, 8) // Group
+  writeOctal(header, size, 124, 12)
+  writeOctal(header, Math.max(Math.floor(mtime.getTime() / 1000), 0), 136, 12)
+  header.write(type, 156, 'latin1')
+  header.write('ustar\0', 257, 'latin1')
+  header.write('00', 263, 'latin1')
+  fields.prefix?.copy(header, 345)
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(0x20, 148, 156)
+  const checksum = header.reduce((total, byte) => total + byte, 0)
+  writeOctal(header, checksum, 148, 7)
+  header[155] = 0x20
+
+  return header
+}
+
+/**
+ * Writes a zero-padded octal number followed by a NUL byte
+ */
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, '0')}\0`, offset, length, 'latin1')
+}
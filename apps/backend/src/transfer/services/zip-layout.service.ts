@@ -0,0 +1,1103 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { Readable } from 'stream'
+import { createHash } from 'crypto'
+import * as CRC32 from 'crc-32'
+import { DeliveryReport, DownloadVariant, ZipFolderLayout } from '@photo-st-denis/shared'
+import { StorageService } from '../../storage/storage.service'
+import { MetricsService } from '../../metrics/metrics.service'
+import { UnreadableObject } from '../../storage/drivers'
+import { PhotosConfigService } from './photos-config.service'
+import { ImageVariantService } from './image-variant.service'
+import { PhotoPrivacyService } from './photo-privacy.service'
+import { CaptureDateService } from './capture-date.service'
+import { ArchiveEntryNamer } from './folder-layout'
+import { FilePatch, applyPatches } from './metadata-scrubber'
+import {
+  TAR_TRAILER_SIZE,
+  buildTarHeader,
+  getTarHeaderSize,
+  getTarPaddingSize,
+} from './tar-headers'
+import {
+  CHECKSUM_MANIFEST_NAME,
+  FileChecksum,
+  buildChecksumManifest,
+  getChecksumLineSize,
+  getChecksumManifestSize,
+} from './checksum-manifest'
+import {
+  DELIVERY_REPORT_NAME,
+  DIRECTORY_NOT_FOUND,
+  METADATA_NOT_REMOVABLE,
+  createDeliveryReport,
+  formatDeliveryReport,
+  hasDeliveryIssues,
+} from './delivery-report'
+
+/** ZIP record signatures */
+const SIG_LOCAL_FILE_HEADER = 0x04034b50
+const SIG_DATA_DESCRIPTOR = 0x08074b50
+const SIG_CENTRAL_FILE_HEADER = 0x02014b50
+const SIG_ZIP64_END_OF_CENTRAL_DIR = 0x06064b50
+const SIG_ZIP64_END_OF_CENTRAL_DIR_LOCATOR = 0x07064b50
+const SIG_END_OF_CENTRAL_DIR = 0x06054b50
+
+/** Data descriptor (bit 3) + UTF-8 names (bit 11), same as archiver uses for streamed entries */
+const GENERAL_PURPOSE_FLAGS = 0x0808
+const VERSION_DEFAULT = 20
+const VERSION_ZIP64 = 45
+const VERSION_MADE_BY = (3 << 8) | VERSION_ZIP64 // Unix
+const EXTERNAL_ATTRIBUTES = (0o100644 << 16) >>> 0 // Regular file, rw-r--r--
+const ZIP64_LIMIT = 0xffffffff
+const ZIP64_ENTRY_COUNT_LIMIT = 0xffff
+const ZIP64_EXTRA_ID = 0x0001
+
+const LOCAL_FILE_HEADER_SIZE = 30
+const CENTRAL_FILE_HEADER_SIZE = 46
+const END_OF_CENTRAL_DIR_SIZE = 22
+const ZIP64_END_OF_CENTRAL_DIR_SIZE = 56
+const ZIP64_END_OF_CENTRAL_DIR_LOCATOR_SIZE = 20
+
+/** Maximum number of file checksums kept in memory between requests */
+const CHECKSUM_CACHE_MAX_ENTRIES = 50000
+
+/**
+ * Container of a layout; tar.gz downloads are the tar layout compressed while streaming
+ */
+export type LayoutFormat = 'zip' | 'tar'
+
+/**
+ * A file of the archive before its position is known
+ */
+export interface PlannedEntry {
+  /** Index of the order directory holding the file */
+  directoryIndex: number
+  /** Path of the file below its order directory, the same for every variant */
+  relativePath: string
+  /** Location of the source file in its storage backend */
+  sourcePath: string
+  /** Entry name inside the archive (UTF-8 encoded) */
+  name: Buffer
+  /** File size in bytes (STORE mode, so compressed size is identical) */
+  size: number
+  /** Last modification time of the source file */
+  mtime: Date
+  /** Bytes replaced while streaming, such as metadata removed in privacy mode */
+  patches?: FilePatch[]
+  /** Contents of an entry the service writes itself, such as the delivery report */
+  contents?: Buffer
+}
+
+/**
+ * A single file stored in the archive with its precomputed position
+ */
+export interface ZipLayoutEntry extends PlannedEntry {
+  /** Whether the entry needs ZIP64 size fields */
+  zip64: boolean
+  /** Offset of the local file header (tar: of the header blocks) */
+  headerOffset: number
+  /** Offset of the first data byte */
+  dataOffset: number
+}
+
+/**
+ * Checksums of a file as delivered
+ */
+interface EntryChecksums {
+  /** CRC32 written in the ZIP data descriptor and central directory */
+  crc: number
+  /** SHA-256 listed in the checksum manifest, in hex */
+  sha256: string
+}
+
+/**
+ * Files of one order directory, named as in the whole archive
+ */
+export interface LayoutDirectory {
+  index: number
+  /** Folder of the directory in the archive, null when the directory no longer exists */
+  folder: string | null
+  entries: PlannedEntry[]
+  /**
+   * Subdirectories and files of the directory left out because they cannot be read, or
+   * in privacy mode because their metadata cannot be removed
+   */
+  unreadable: UnreadableObject[]
+}
+
+/**
+ * Files of the archive before their positions are known, with what was left out
+ */
+interface PlannedArchive {
+  entries: PlannedEntry[]
+  report: DeliveryReport
+  /** Contents of the delivery report entry, null when nothing was left out */
+  reportContents: Buffer | null
+}
+
+/**
+ * Running size of an archive while its entries are positioned
+ */
+interface LayoutTotals {
+  /** End of the last entry, where the central directory or the tar trailer starts */
+  offset: number
+  centralDirectorySize: number
+  entryCount: number
+}
+
+/**
+ * Deterministic byte layout of a STORE-mode ZIP archive or of a tar archive.
+ * Every offset is known before streaming, which allows exact Content-Length and byte ranges.
+ */
+export interface ZipLayout {
+  format: LayoutFormat
+  variant: DownloadVariant
+  /** Whether private metadata is removed from the photos */
+  privacyMode: boolean
+  /** Number of this part, from 1, when the archive is split into parts; null for a whole archive */
+  part: number | null
+  /** Number of parts the archive is split into, null for a whole archive */
+  partCount: number | null
+  /** Index of the only directory in the archive, null for all directories of the order */
+  directoryIndex: number | null
+  entries: ZipLayoutEntry[]
+  /** Directories and files of the order left out of the archive */
+  report: DeliveryReport
+  /** DELIVERY_REPORT.txt after the files, null when nothing was left out */
+  reportEntry: ZipLayoutEntry | null
+  /**
+   * MANIFEST.sha256 after the files and the report, generated from their checksums since it has no
+   * source file; null when the archive has no files
+   */
+  checksumManifest: ZipLayoutEntry | null
+  centralDirectoryOffset: number
+  centralDirectorySize: number
+  /** Whether the archive needs the ZIP64 end of central directory records */
+  zip64: boolean
+  /** Total archive size in bytes */
+  totalSize: number
+  /** Strong validator derived from entry names, sizes and modification times */
+  etag: string
+  /** Validator of the first part, shared by every part of a split archive; null otherwise */
+  splitEtag: string | null
+  /** Most recent modification time of all entries */
+  lastModified: Date
+}
+
+/**
+ * What the archive delivers
+ */
+export interface ZipLayoutOptions {
+  /** Resolution of the delivered photos, full by default */
+  variant?: DownloadVariant
+  /** Whether to remove GPS data and device identifiers from the photos */
+  privacyMode?: boolean
+  /** File type profile selecting the delivered files, the default profile when unset */
+  fileTypeProfile?: string | null
+  /** Folders of the directories in the archive, the last segment by default */
+  folderLayout?: ZipFolderLayout
+  /** Container of the archive, zip by default */
+  format?: LayoutFormat
+  /** Only deliver this directory, with the entry names it has in the whole archive */
+  directoryIndex?: number
+  /** Wait for missing web copies instead of failing with VariantNotReadyError */
+  waitForVariants?: boolean
+}
+
+/**
+ * Contiguous part of the archive, either generated metadata or file contents
+ */
+interface ZipSegment {
+  offset: number
+  length: number
+  /** Source entry when the segment holds file contents */
+  entry?: ZipLayoutEntry
+  /** Builds the metadata bytes for this segment */
+  build?: () => Promise<Buffer>
+  /** Whether the segment ends the archive: central directory and end records, or tar trailer */
+  trailer?: boolean
+}
+
+/**
+ * Service that plans and streams STORE-mode ZIP archives, and tar archives, with a
+ * deterministic layout. Since photos are stored without compression, the position of
+ * every byte is known up front, so any byte range of the archive can be produced
+ * without generating the preceding bytes.
+ */
+@Injectable()
+export class ZipLayoutService {
+  private readonly logger = new Logger(ZipLayoutService.name)
+
+  /** Checksums of already streamed files, keyed by path, size and mtime */
+  private readonly checksumCache = new Map<string, EntryChecksums>()
+
+  /** Checksum manifests of the layouts being streamed, built once per layout */
+  private readonly manifests = new WeakMap<ZipLayout, Promise<Buffer>>()
+
+  constructor(
+    private readonly photosConfig: PhotosConfigService,
+    private readonly imageVariantService: ImageVariantService,
+    private readonly photoPrivacyService: PhotoPrivacyService,
+    private readonly storageService: StorageService,
+    private readonly captureDateService: CaptureDateService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  /**
+   * Scans the order directories and computes the archive layout.
+   * Directories are stored under the folders of the layout, with unique entry names;
+   * for the by-date layout the capture dates are read from the original files.
+   * For the web variant, photos are resized first since their size is part of the layout.
+   * In privacy mode, the metadata patches of each photo are planned; they keep file sizes.
+   * Missing directories and unreadable files are left out and listed in a delivery report.
+   *
+   * @param directoryPaths - Directory paths relative to their storage root, e.g. "s3:season/event"
+   * @param options - Variant, privacy mode, folder layout and container of the archive
+   * @returns The complete archive layout
+   */
+  async buildLayout(directoryPaths: string[], options: ZipLayoutOptions = {}): Promise<ZipLayout> {
+    return this.positionEntries(await this.planEntries(directoryPaths, options), options)
+  }
+
+  /**
+   * Computes the layouts of the archive split into parts of at most maxPartSize bytes.
+   * Files keep their order and are never split, so a file larger than the limit gets a
+   * part of its own that exceeds it. Each part has the checksum manifest of its files.
+   *
+   * @param directoryPaths - Directory paths relative to their storage root
+   * @param options - Variant, privacy mode, folder layout and container of the archive
+   * @param maxPartSize - Maximum part size in bytes; null for one whole archive
+   * @returns Layout of each part in order, or the whole archive when it is not split
+   */
+  async buildParts(
+    directoryPaths: string[],
+    options: ZipLayoutOptions,
+    maxPartSize: number | null,
+  ): Promise<ZipLayout[]> {
+    const planned = await this.planEntries(directoryPaths, options)
+
+    if (!maxPartSize) {
+      return [this.positionEntries(planned, options)]
+    }
+
+    const format = options.format ?? 'zip'
+    const parts: PlannedEntry[][] = [[]]
+    const reportEntry = planned.reportContents
+      ? this.planGeneratedEntry(DELIVERY_REPORT_NAME, new Date(0), planned.reportContents)
+      : null
+    let totals = this.emptyTotals()
+    let manifestSize = 0
+
+    for (const entry of planned.entries) {
+      const next = { ...totals }
+      const lineSize = getChecksumLineSize(entry.name.toString('utf8'))
+      this.placeEntry(next, entry, format)
+
+      if (
+        parts[parts.length - 1].length &&
+        this.getSizeWithGeneratedEntries(next, reportEntry, manifestSize + lineSize, format) >
+          maxPartSize
+      ) {
+        parts.push([])
+        totals = this.emptyTotals()
+        this.placeEntry(totals, entry, format)
+        manifestSize = lineSize
+      } else {
+        totals = next
+        manifestSize += lineSize
+      }
+
+      parts[parts.length - 1].push(entry)
+    }
+
+    // Every part is an archive of its own, with the report of the whole order
+    const layouts = parts.map((entries, index) =>
+      this.positionEntries({ ...planned, entries }, options, {
+        part: index + 1,
+        partCount: parts.length,
+      }),
+    )
+    for (const layout of layouts) {
+      layout.splitEtag = layouts[0].etag
+    }
+
+    return layouts
+  }
+
+  /**
+   * Lists the files of each order directory with their archive entry names.
+   * With a directory index, the other directories are only scanned for their names,
+   * which may collide with the selected ones, and keep no entries.
+   * Subdirectories and files that cannot be read are left out and listed as unreadable, like
+   * the files whose metadata cannot be removed in privacy mode.
+   *
+   * @param directoryPaths - Directory paths relative to their storage root
+   * @param options - Variant, privacy mode, folder layout and selected directory
+   * @returns Every directory of the order, in order
+   */
+  async listDirectories(
+    directoryPaths: string[],
+    options: ZipLayoutOptions = {},
+  ): Promise<LayoutDirectory[]> {
+    const { variant = 'full', privacyMode = false, directoryIndex } = options
+    const profile = this.photosConfig.getFileTypeProfile(options.fileTypeProfile)
+    const namer = new ArchiveEntryNamer(options.folderLayout)
+    const directories: LayoutDirectory[] = []
+
+    for (const [index, dirPath] of directoryPaths.entries()) {
+      const fullPath = this.photosConfig.getFullPhotoPath(dirPath)
+
+      if (!(await this.photosConfig.checkDirectoryExists(fullPath))) {
+        this.logger.warn(`Directory not found: ${fullPath}`)
+        directories.push({ index, folder: null, entries: [], unreadable: [] })
+        continue
+      }
+
+      // Only the directories laid out in the archive are timed
+      const stopTimer = this.metricsService.directoryProcessingSeconds.startTimer()
+      const folder = this.photosConfig.getArchiveFolder(dirPath, namer)
+      const unreadable: UnreadableObject[] = []
+      const originals = await this.photosConfig.listImageFiles(fullPath, profile, unreadable)
+      const captureDates =
+        namer.layout === 'by-date' ? await this.captureDateService.resolveDates(originals) : []
+      const names = originals.map((file, fileIndex) =>
+        namer.entryName(folder, file.relativePath, captureDates[fileIndex]),
+      )
+
+      if (directoryIndex !== undefined && index !== directoryIndex) {
+        directories.push({ index, folder, entries: [], unreadable: [] })
+        continue
+      }
+
+      const files = await this.imageVariantService.resolveFiles(
+        originals,
+        variant,
+        options.waitForVariants,
+      )
+      const patches = privacyMode ? await this.photoPrivacyService.planFiles(files) : []
+      const entries: PlannedEntry[] = []
+
+      for (const [fileIndex, file] of files.entries()) {
+        // Never deliver a file of a privacy-mode order with its metadata intact
+        if (patches[fileIndex] === null) {
+          unreadable.push({ relativePath: file.relativePath, reason: METADATA_NOT_REMOVABLE })
+          continue
+        }
+
+        entries.push({
+          directoryIndex: index,
+          relativePath: file.relativePath,
+          sourcePath: file.fullPath,
+          name: Buffer.from(names[fileIndex], 'utf8'),
+          size: file.size,
+          mtime: file.mtime,
+          patches: patches[fileIndex]?.length ? patches[fileIndex] : undefined,
+        })
+      }
+
+      if (unreadable.length) {
+        this.logger.warn(`${unreadable.length} file(s) left out of ${fullPath}`)
+      }
+
+      directories.push({ index, folder, entries, unreadable })
+      stopTimer()
+    }
+
+    return directories
+  }
+
+  private async planEntries(
+    directoryPaths: string[],
+    options: ZipLayoutOptions,
+  ): Promise<PlannedArchive> {
+    const directories = await this.listDirectories(directoryPaths, options)
+    const report = createDeliveryReport()
+
+    for (const directory of directories) {
+      if (options.directoryIndex !== undefined && directory.index !== options.directoryIndex) {
+        continue
+      }
+      if (directory.folder === null) {
+        report.skippedDirectories.push({
+          index: directory.index,
+          path: directoryPaths[directory.index],
+          reason: DIRECTORY_NOT_FOUND,
+        })
+      }
+      for (const { relativePath, reason } of directory.unreadable) {
+        report.unreadableFiles.push({ directoryIndex: directory.index, path: relativePath, reason })
+      }
+    }
+
+    return {
+      entries: directories.flatMap((directory) => directory.entries),
+      report,
+      reportContents: hasDeliveryIssues(report)
+        ? formatDeliveryReport(report, directoryPaths)
+        : null,
+    }
+  }
+
+  private positionEntries(
+    planned: PlannedArchive,
+    options: ZipLayoutOptions,
+    parts: { part: number; partCount: number } | null = null,
+  ): ZipLayout {
+    const { variant = 'full', privacyMode = false, format = 'zip', directoryIndex } = options
+    const totals = this.emptyTotals()
+    const entries = planned.entries.map((entry) => this.placeEntry(totals, entry, format))
+    const lastModified = entries.reduce(
+      (latest, entry) => (entry.mtime > latest ? entry.mtime : latest),
+      new Date(0),
+    )
+    const reportEntry = planned.reportContents
+      ? this.placeEntry(
+          totals,
+          this.planGeneratedEntry(DELIVERY_REPORT_NAME, lastModified, planned.reportContents),
+          format,
+        )
+      : null
+    const manifestSize = getChecksumManifestSize(
+      planned.entries.map((entry) => entry.name.toString('utf8')),
+    )
+    const checksumManifest = entries.length
+      ? this.placeEntry(
+          totals,
+          this.planGeneratedEntry(CHECKSUM_MANIFEST_NAME, lastModified, manifestSize),
+          format,
+        )
+      : null
+
+    const layout: ZipLayout = {
+      format,
+      variant,
+      privacyMode,
+      part: parts?.part ?? null,
+      partCount: parts?.partCount ?? null,
+      directoryIndex: directoryIndex ?? null,
+      entries,
+      report: planned.report,
+      reportEntry,
+      checksumManifest,
+      centralDirectoryOffset: totals.offset,
+      centralDirectorySize: totals.centralDirectorySize,
+      zip64: format === 'zip' && this.needsZip64(totals),
+      totalSize: this.getTotalSize(totals, format),
+      etag: '',
+      splitEtag: null,
+      lastModified,
+    }
+    layout.etag = this.computeEtag(layout)
+
+    return layout
+  }
+
+  /**
+   * Entry without a source file at the root of the archive, dated like the newest file:
+   * the delivery report with its contents, or the checksum manifest with its size
+   */
+  private planGeneratedEntry(name: string, mtime: Date, contents: Buffer | number): PlannedEntry {
+    return {
+      directoryIndex: -1,
+      relativePath: name,
+      sourcePath: '',
+      name: Buffer.from(name),
+      size: typeof contents === 'number' ? contents : contents.length,
+      mtime,
+      contents: typeof contents === 'number' ? undefined : contents,
+    }
+  }
+
+  /**
+   * Archive size once the report and the manifest are placed after the entries counted
+   * in the totals
+   */
+  private getSizeWithGeneratedEntries(
+    totals: LayoutTotals,
+    reportEntry: PlannedEntry | null,
+    manifestSize: number,
+    format: LayoutFormat,
+  ): number {
+    const withGenerated = { ...totals }
+    if (reportEntry) {
+      this.placeEntry(withGenerated, reportEntry, format)
+    }
+    this.placeEntry(
+      withGenerated,
+      this.planGeneratedEntry(CHECKSUM_MANIFEST_NAME, new Date(0), manifestSize),
+      format,
+    )
+    return this.getTotalSize(withGenerated, format)
+  }
+
+  private emptyTotals(): LayoutTotals {
+    return { offset: 0, centralDirectorySize: 0, entryCount: 0 }
+  }
+
+  /**
+   * Positions an entry after the ones already counted in the totals, which it updates
+   */
+  private placeEntry(
+    totals: LayoutTotals,
+    planned: PlannedEntry,
+    format: LayoutFormat,
+  ): ZipLayoutEntry {
+    const headerOffset = totals.offset
+
+    if (format === 'tar') {
+      const dataOffset = headerOffset + getTarHeaderSize(planned.name, planned.size)
+
+      totals.offset = dataOffset + planned.size + getTarPaddingSize(planned.size)
+      totals.entryCount++
+
+      return { ...planned, zip64: false, headerOffset, dataOffset }
+    }
+
+    const zip64 = planned.size >= ZIP64_LIMIT
+    const dataOffset = headerOffset + this.getLocalHeaderSize(planned.name, zip64)
+    const entry = { ...planned, zip64, headerOffset, dataOffset }
+
+    totals.offset = dataOffset + planned.size + this.getDataDescriptorSize(zip64)
+    totals.centralDirectorySize += this.getCentralHeaderSize(entry)
+    totals.entryCount++
+
+    return entry
+  }
+
+  private needsZip64(totals: LayoutTotals): boolean {
+    return (
+      totals.entryCount >= ZIP64_ENTRY_COUNT_LIMIT ||
+      totals.offset >= ZIP64_LIMIT ||
+      totals.centralDirectorySize >= ZIP64_LIMIT
+    )
+  }
+
+  private getTotalSize(totals: LayoutTotals, format: LayoutFormat): number {
+    if (format === 'tar') {
+      return totals.offset + TAR_TRAILER_SIZE
+    }
+
+    return (
+      totals.offset +
+      totals.centralDirectorySize +
+      (this.needsZip64(totals)
+        ? ZIP64_END_OF_CENTRAL_DIR_SIZE + ZIP64_END_OF_CENTRAL_DIR_LOCATOR_SIZE
+        : 0) +
+      END_OF_CENTRAL_DIR_SIZE
+    )
+  }
+
+  /**
+   * Creates a readable stream for an inclusive byte range of the archive.
+   * Checksums of files outside the range are read from the cache or recomputed from
+   * the source file when a data descriptor, the central directory or the checksum
+   * manifest needs them.
+   *
+   * @param layout - Layout returned by buildLayout
+   * @param start - First byte to stream
+   * @param end - Last byte to stream (inclusive)
+   * @returns Stream producing exactly end - start + 1 bytes
+   */
+  createStream(layout: ZipLayout, start = 0, end = layout.totalSize - 1): Readable {
+    return Readable.from(this.generateRange(layout, start, end), { objectMode: false })
+  }
+
+  /**
+   * Creates a readable stream for an inclusive byte range of a single file, with the
+   * same contents as in the archive (resized copy, metadata removed in privacy mode)
+   *
+   * @param entry - File listed by listDirectories
+   * @returns Stream producing exactly end - start + 1 bytes
+   */
+  createFileStream(entry: PlannedEntry, start = 0, end = entry.size - 1): Readable {
+    if (end < start) {
+      return Readable.from([])
+    }
+    return Readable.from(this.readFileSlice(entry, start, end, false), { objectMode: false })
+  }
+
+  /**
+   * SHA-256 of every file of the archive, as listed in its checksum manifest.
+   * Files that were not streamed recently are read again to hash them.
+   *
+   * @param layout - Layout returned by buildLayout or buildParts
+   * @returns Checksum of each file, in archive order
+   */
+  async getChecksums(layout: ZipLayout): Promise<FileChecksum[]> {
+    const checksums: FileChecksum[] = []
+
+    for (const entry of layout.entries) {
+      const { sha256 } = await this.resolveChecksums(entry)
+      checksums.push({ name: entry.name.toString('utf8'), size: entry.size, sha256 })
+    }
+
+    return checksums
+  }
+
+  /**
+   * SHA-256 of every file of the archive when all of them are in memory, such as right
+   * after the archive was streamed, without reading any file
+   *
+   * @returns Checksum of each file in archive order, null when one is missing
+   */
+  getCachedChecksums(layout: ZipLayout): FileChecksum[] | null {
+    const checksums: FileChecksum[] = []
+
+    for (const entry of layout.entries) {
+      const cached = this.checksumCache.get(this.getChecksumCacheKey(entry))
+      if (!cached) {
+        return null
+      }
+      checksums.push({ name: entry.name.toString('utf8'), size: entry.size, sha256: cached.sha256 })
+    }
+
+    return checksums
+  }
+
+  private async *generateRange(
+    layout: ZipLayout,
+    start: number,
+    end: number,
+  ): AsyncGenerator<Buffer> {
+    const stopTimer =
+      start === 0 && end === layout.totalSize - 1
+        ? this.metricsService.archiveStreamSeconds.startTimer()
+        : null
+
+    for (const segment of this.getSegments(layout)) {
+      const segmentEnd = segment.offset + segment.length - 1
+      // Files count once their whole contents were streamed, empty files included
+      const wholeFile = segment.entry !== undefined && segment.offset >= start && segmentEnd <= end
+
+      if (segment.length === 0 || segmentEnd < start) {
+        if (wholeFile) {
+          this.metricsService.filesArchived.inc()
+        }
+        continue
+      }
+      if (segment.offset > end) {
+        return
+      }
+
+      const from = Math.max(start, segment.offset) - segment.offset
+      const to = Math.min(end, segmentEnd) - segment.offset
+
+      if (segment.entry) {
+        yield* this.readFileSlice(segment.entry, from, to, true)
+        if (wholeFile) {
+          this.metricsService.filesArchived.inc()
+        }
+      } else if (segment.build) {
+        const stopFinalizationTimer = segment.trailer
+          ? this.metricsService.archiveFinalizationSeconds.startTimer()
+          : null
+        const bytes = await segment.build()
+        yield bytes.subarray(from, to + 1)
+        stopFinalizationTimer?.()
+      }
+    }
+
+    stopTimer?.()
+  }
+
+  private *getSegments(layout: ZipLayout): Generator<ZipSegment> {
+    if (layout.format === 'tar') {
+      yield* this.getTarSegments(layout)
+      return
+    }
+
+    for (const entry of this.getArchiveEntries(layout)) {
+      yield {
+        offset: entry.headerOffset,
+        length: entry.dataOffset - entry.headerOffset,
+        build: async () => this.buildLocalHeader(entry),
+      }
+      yield this.getContentsSegment(layout, entry)
+      yield {
+        offset: entry.dataOffset + entry.size,
+        length: this.getDataDescriptorSize(entry.zip64),
+        build: async () => this.buildDataDescriptor(entry, await this.resolveCrc(layout, entry)),
+      }
+    }
+
+    yield {
+      offset: layout.centralDirectoryOffset,
+      length: layout.totalSize - layout.centralDirectoryOffset,
+      build: () => this.buildCentralDirectory(layout),
+      trailer: true,
+    }
+  }
+
+  /**
+   * Header blocks, contents and padding of each file, then the two zero blocks
+   */
+  private *getTarSegments(layout: ZipLayout): Generator<ZipSegment> {
+    for (const entry of this.getArchiveEntries(layout)) {
+      yield {
+        offset: entry.headerOffset,
+        length: entry.dataOffset - entry.headerOffset,
+        build: async () => buildTarHeader(entry.name, entry.size, entry.mtime),
+      }
+      yield this.getContentsSegment(layout, entry)
+      yield {
+        offset: entry.dataOffset + entry.size,
+        length: getTarPaddingSize(entry.size),
+        build: async () => Buffer.alloc(getTarPaddingSize(entry.size)),
+      }
+    }
+
+    yield {
+      offset: layout.centralDirectoryOffset,
+      length: TAR_TRAILER_SIZE,
+      build: async () => Buffer.alloc(TAR_TRAILER_SIZE),
+      trailer: true,
+    }
+  }
+
+  /**
+   * Files of the archive followed by the delivery report and the checksum manifest
+   */
+  private getArchiveEntries(layout: ZipLayout): ZipLayoutEntry[] {
+    const generated = [layout.reportEntry, layout.checksumManifest].filter(
+      (entry): entry is ZipLayoutEntry => entry !== null,
+    )
+    return generated.length ? [...layout.entries, ...generated] : layout.entries
+  }
+
+  private getContentsSegment(layout: ZipLayout, entry: ZipLayoutEntry): ZipSegment {
+    const { contents } = entry
+
+    if (contents) {
+      return { offset: entry.dataOffset, length: entry.size, build: async () => contents }
+    }
+    if (entry === layout.checksumManifest) {
+      return {
+        offset: entry.dataOffset,
+        length: entry.size,
+        build: () => this.getManifestContents(layout),
+      }
+    }
+    return { offset: entry.dataOffset, length: entry.size, entry }
+  }
+
+  private getManifestContents(layout: ZipLayout): Promise<Buffer> {
+    let contents = this.manifests.get(layout)
+
+    if (!contents) {
+      contents = this.getChecksums(layout).then(buildChecksumManifest)
+      this.manifests.set(layout, contents)
+    }
+
+    return contents
+  }
+
+  /**
+   * Streams part of a source file, computing its checksums when the whole file is read.
+   * Fails when the file no longer matches the size recorded in the layout.
+   */
+  private async *readFileSlice(
+    entry: PlannedEntry,
+    from: number,
+    to: number,
+    computeChecksums: boolean,
+  ): AsyncGenerator<Buffer> {
+    const wholeFile = computeChecksums && from === 0 && to === entry.size - 1
+    const fileStream = this.storageService.createReadStream(entry.sourcePath, {
+      start: from,
+      end: to,
+    })
+    const hash = wholeFile ? createHash('sha256') : null
+
+    let crc = 0
+    let bytesRead = 0
+
+    for await (const chunk of fileStream) {
+      const buffer = this.patchChunk(entry, chunk as Buffer, from + bytesRead)
+      bytesRead += buffer.length
+      if (hash) {
+        crc = CRC32.buf(buffer, crc)
+        hash.update(buffer)
+      }
+      yield buffer
+    }
+
+    if (bytesRead !== to - from + 1) {
+      throw new Error(`Source file changed during download: ${entry.sourcePath}`)
+    }
+
+    if (hash) {
+      this.rememberChecksums(entry, { crc: crc >>> 0, sha256: hash.digest('hex') })
+    }
+  }
+
+  private async resolveCrc(layout: ZipLayout, entry: ZipLayoutEntry): Promise<number> {
+    if (entry.contents) {
+      return CRC32.buf(entry.contents) >>> 0
+    }
+    if (entry === layout.checksumManifest) {
+      return CRC32.buf(await this.getManifestContents(layout)) >>> 0
+    }
+    return (await this.resolveChecksums(entry)).crc
+  }
+
+  private async resolveChecksums(entry: PlannedEntry): Promise<EntryChecksums> {
+    const cached = this.checksumCache.get(this.getChecksumCacheKey(entry))
+    if (cached) {
+      return cached
+    }
+
+    const hash = createHash('sha256')
+    let crc = 0
+    let bytesRead = 0
+
+    for await (const chunk of this.storageService.createReadStream(entry.sourcePath)) {
+      const buffer = this.patchChunk(entry, chunk as Buffer, bytesRead)
+      bytesRead += buffer.length
+      crc = CRC32.buf(buffer, crc)
+      hash.update(buffer)
+    }
+
+    if (bytesRead !== entry.size) {
+      throw new Error(`Source file changed during download: ${entry.sourcePath}`)
+    }
+
+    const checksums = { crc: crc >>> 0, sha256: hash.digest('hex') }
+    this.rememberChecksums(entry, checksums)
+    return checksums
+  }
+
+  /**
+   * Applies the entry patches to a chunk read at `offset` of its source file
+   */
+  private patchChunk(entry: PlannedEntry, chunk: Buffer, offset: number): Buffer {
+    return entry.patches ? applyPatches(chunk, offset, entry.patches) : chunk
+  }
+
+  private rememberChecksums(entry: PlannedEntry, checksums: EntryChecksums): void {
+    const key = this.getChecksumCacheKey(entry)
+
+    this.checksumCache.delete(key)
+    this.checksumCache.set(key, checksums)
+
+    // Map keeps insertion order, so the first key is the least recently stored
+    if (this.checksumCache.size > CHECKSUM_CACHE_MAX_ENTRIES) {
+      const oldestKey = this.checksumCache.keys().next().value
+      if (oldestKey !== undefined) {
+        this.checksumCache.delete(oldestKey)
+      }
+    }
+  }
+
+  private getChecksumCacheKey(entry: PlannedEntry): string {
+    // Patched files have different contents than their source
+    const suffix = entry.patches ? ':scrubbed' : ''
+    return `${entry.sourcePath}:${entry.size}:${entry.mtime.getTime()}${suffix}`
+  }
+
+  private computeEtag(layout: ZipLayout): string {
+    const hash = createHash('sha256')
+
+    // Full ZIP archives keep the validator they had before variants, formats and parts existed
+    if (layout.variant !== 'full') {
+      hash.update(`${layout.variant}\n`)
+    }
+    if (layout.privacyMode) {
+      hash.update('privacy\n')
+    }
+    if (layout.format !== 'zip') {
+      hash.update(`${layout.format}\n`)
+    }
+    if (layout.part) {
+      hash.update(`part ${layout.part}/${layout.partCount}\n`)
+    }
+
+    for (const entry of this.getArchiveEntries(layout)) {
+      hash.update(entry.name)
+      hash.update(`\0${entry.size}\0${entry.mtime.getTime()}\n`)
+      if (entry.contents) {
+        hash.update(entry.contents)
+      }
+    }
+
+    return `"${hash.digest('hex').slice(0, 32)}"`
+  }
+
+  private getLocalHeaderSize(name: Buffer, zip64: boolean): number {
+    return LOCAL_FILE_HEADER_SIZE + name.length + (zip64 ? 20 : 0)
+  }
+
+  private getDataDescriptorSize(zip64: boolean): number {
+    return zip64 ? 24 : 16
+  }
+
+  private getCentralHeaderSize(entry: ZipLayoutEntry): number {
+    return CENTRAL_FILE_HEADER_SIZE + entry.name.length + this.getCentralExtraSize(entry)
+  }
+
+  private getCentralExtraSize(entry: ZipLayoutEntry): number {
+    const fields = (entry.zip64 ? 2 : 0) + (entry.headerOffset >= ZIP64_LIMIT ? 1 : 0)
+    return fields > 0 ? 4 + fields * 8 : 0
+  }
+
+  private buildLocalHeader(entry: ZipLayoutEntry): Buffer {
+    const buffer = Buffer.alloc(this.getLocalHeaderSize(entry.name, entry.zip64))
+    const sizePlaceholder = entry.zip64 ? ZIP64_LIMIT : 0
+
+    buffer.writeUInt32LE(SIG_LOCAL_FILE_HEADER, 0)
+    buffer.writeUInt16LE(entry.zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4)
+    buffer.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 6)
+    buffer.writeUInt16LE(0, 8) // STORE
+    buffer.writeUInt32LE(this.toDosDateTime(entry.mtime), 10)
+    buffer.writeUInt32LE(0, 14) // CRC follows in the data descriptor
+    buffer.writeUInt32LE(sizePlaceholder, 18)
+    buffer.writeUInt32LE(sizePlaceholder, 22)
+    buffer.writeUInt16LE(entry.name.length, 26)
+    buffer.writeUInt16LE(entry.zip64 ? 20 : 0, 28)
+    entry.name.copy(buffer, LOCAL_FILE_HEADER_SIZE)
+
+    if (entry.zip64) {
+      const extraOffset = LOCAL_FILE_HEADER_SIZE + entry.name.length
+      buffer.writeUInt16LE(ZIP64_EXTRA_ID, extraOffset)
+      buffer.writeUInt16LE(16, extraOffset + 2)
+      // Sizes stay zero, they are written in the data descriptor
+    }
+
+    return buffer
+  }
+
+  private buildDataDescriptor(entry: ZipLayoutEntry, crc: number): Buffer {
+    const buffer = Buffer.alloc(this.getDataDescriptorSize(entry.zip64))
+
+    buffer.writeUInt32LE(SIG_DATA_DESCRIPTOR, 0)
+    buffer.writeUInt32LE(crc, 4)
+
+    if (entry.zip64) {
+      buffer.writeBigUInt64LE(BigInt(entry.size), 8)
+      buffer.writeBigUInt64LE(BigInt(entry.size), 16)
+    } else {
+      buffer.writeUInt32LE(entry.size, 8)
+      buffer.writeUInt32LE(entry.size, 12)
+    }
+
+    return buffer
+  }
+
+  private async buildCentralDirectory(layout: ZipLayout): Promise<Buffer> {
+    const buffers: Buffer[] = []
+
+    for (const entry of this.getArchiveEntries(layout)) {
+      buffers.push(this.buildCentralHeader(entry, await this.resolveCrc(layout, entry)))
+    }
+
+    if (layout.zip64) {
+      buffers.push(this.buildZip64EndOfCentralDirectory(layout))
+    }
+
+    buffers.push(this.buildEndOfCentralDirectory(layout))
+
+    return Buffer.concat(buffers)
+  }
+
+  private buildCentralHeader(entry: ZipLayoutEntry, crc: number): Buffer {
+    const extraSize = this.getCentralExtraSize(entry)
+    const offsetZip64 = entry.headerOffset >= ZIP64_LIMIT
+    const buffer = Buffer.alloc(this.getCentralHeaderSize(entry))
+
+    buffer.writeUInt32LE(SIG_CENTRAL_FILE_HEADER, 0)
+    buffer.writeUInt16LE(VERSION_MADE_BY, 4)
+    buffer.writeUInt16LE(extraSize > 0 ? VERSION_ZIP64 : VERSION_DEFAULT, 6)
+    buffer.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 8)
+    buffer.writeUInt16LE(0, 10) // STORE
+    buffer.writeUInt32LE(this.toDosDateTime(entry.mtime), 12)
+    buffer.writeUInt32LE(crc, 16)
+    buffer.writeUInt32LE(entry.zip64 ? ZIP64_LIMIT : entry.size, 20)
+    buffer.writeUInt32LE(entry.zip64 ? ZIP64_LIMIT : entry.size, 24)
+    buffer.writeUInt16LE(entry.name.length, 28)
+    buffer.writeUInt16LE(extraSize, 30)
+    buffer.writeUInt16LE(0, 32) // Comment length
+    buffer.writeUInt16LE(0, 34) // Disk number
+    buffer.writeUInt16LE(0, 36) // Internal attributes
+    buffer.writeUInt32LE(EXTERNAL_ATTRIBUTES, 38)
+    buffer.writeUInt32LE(offsetZip64 ? ZIP64_LIMIT : entry.headerOffset, 42)
+    entry.name.copy(buffer, CENTRAL_FILE_HEADER_SIZE)
+
+    if (extraSize > 0) {
+      let position = CENTRAL_FILE_HEADER_SIZE + entry.name.length
+      buffer.writeUInt16LE(ZIP64_EXTRA_ID, position)
+      buffer.writeUInt16LE(extraSize - 4, position + 2)
+      position += 4
+
+      if (entry.zip64) {
+        buffer.writeBigUInt64LE(BigInt(entry.size), position)
+        buffer.writeBigUInt64LE(BigInt(entry.size), position + 8)
+        position += 16
+      }
+      if (offsetZip64) {
+        buffer.writeBigUInt64LE(BigInt(entry.headerOffset), position)
+      }
+    }
+
+    return buffer
+  }
+
+  private buildZip64EndOfCentralDirectory(layout: ZipLayout): Buffer {
+    const buffer = Buffer.alloc(
+      ZIP64_END_OF_CENTRAL_DIR_SIZE + ZIP64_END_OF_CENTRAL_DIR_LOCATOR_SIZE,
+    )
+    const recordOffset = layout.centralDirectoryOffset + layout.centralDirectorySize
+    const entryCount = BigInt(this.getArchiveEntries(layout).length)
+
+    buffer.writeUInt32LE(SIG_ZIP64_END_OF_CENTRAL_DIR, 0)
+    buffer.writeBigUInt64LE(BigInt(ZIP64_END_OF_CENTRAL_DIR_SIZE - 12), 4)
+    buffer.writeUInt16LE(VERSION_MADE_BY, 12)
+    buffer.writeUInt16LE(VERSION_ZIP64, 14)
+    buffer.writeUInt32LE(0, 16) // Disk number
+    buffer.writeUInt32LE(0, 20) // Disk with central directory
+    buffer.writeBigUInt64LE(entryCount, 24)
+    buffer.writeBigUInt64LE(entryCount, 32)
+    buffer.writeBigUInt64LE(BigInt(layout.centralDirectorySize), 40)
+    buffer.writeBigUInt64LE(BigInt(layout.centralDirectoryOffset), 48)
+
+    buffer.writeUInt32LE(SIG_ZIP64_END_OF_CENTRAL_DIR_LOCATOR, 56)
+    buffer.writeUInt32LE(0, 60) // Disk with ZIP64 end of central directory
+    buffer.writeBigUInt64LE(BigInt(recordOffset), 64)
+    buffer.writeUInt32LE(1, 72) // Total number of disks
+
+    return buffer
+  }
+
+  private buildEndOfCentralDirectory(layout: ZipLayout): Buffer {
+    const buffer = Buffer.alloc(END_OF_CENTRAL_DIR_SIZE)
+    const entryCount = layout.zip64
+      ? ZIP64_ENTRY_COUNT_LIMIT
+      : this.getArchiveEntries(layout).length
+
+    buffer.writeUInt32LE(SIG_END_OF_CENTRAL_DIR, 0)
+    buffer.writeUInt16LE(0, 4) // Disk number
+    buffer.writeUInt16LE(0, 6) // Disk with central directory
+    buffer.writeUInt16LE(entryCount, 8)
+    buffer.writeUInt16LE(entryCount, 10)
+    buffer.writeUInt32LE(layout.zip64 ? ZIP64_LIMIT : layout.centralDirectorySize, 12)
+    buffer.writeUInt32LE(layout.zip64 ? ZIP64_LIMIT : layout.centralDirectoryOffset, 16)
+    buffer.writeUInt16LE(0, 20) // Comment length
+
+    return buffer
+  }
+
+  /**
+   * Encodes a date in MS-DOS format using local time, matching the archiver's forceLocalTime
+   */
+  private toDosDateTime(date: Date): number {
+    const year = Math.max(date.getFullYear(), 1980)
+
+    return (
+      (((year - 1980) << 25) |
+        ((date.getMonth() + 1) << 21) |
+        (date.getDate() << 16) |
+        (date.getHours() << 11) |
+        (date.getMinutes() << 5) |
+        (date.getSeconds() >> 1)) >>>
+      0
+    )
+  }
+}
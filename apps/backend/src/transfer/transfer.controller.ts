@@ -5,17 +5,41 @@ import {
   Get,
   Version,
   Param,
+  Query,
   StreamableFile,
   Header,
+  Headers,
+  Ip,
+  Res,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
   Logger,
   BadRequestException,
   InternalServerErrorException,
+  ParseIntPipe,
 } from '@nestjs/common'
-import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger'
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiHeader, ApiQuery } from '@nestjs/swagger'
+import type { Response } from 'express'
 import { TokenService } from '../token/token.service'
+import { ExpiryPolicyService } from '../token/expiry-policy.service'
 import { OrderService } from '../order/order.service'
-import { AssociateDto, AssociateResponseDto } from './dto'
-import { DownloadService } from './services'
+import { ArchiveCacheService } from '../cache/archive-cache.service'
+import { DeliveryMailService } from '../mail/delivery-mail.service'
+import { Auth, CurrentStaff } from '../auth/decorators'
+import { DownloadRateLimitGuard } from '../rate-limit/download-rate-limit.guard'
+import { StaffPrincipal } from '../auth/auth.types'
+import {
+  AssociateDto,
+  AssociateResponseDto,
+  ArchiveSummaryDto,
+  ArchivePartListDto,
+  ArchiveChecksumListDto,
+  CacheStatsDto,
+  DownloadManifestDto,
+} from './dto'
+import { DownloadService, DirectoryPreviewService, ArchivePrebuildService } from './services'
+import { CHECKSUMS_RETRY_AFTER_SECONDS, PreparedDownload } from './services/download.service'
 
 @ApiTags('transfer')
 @Controller('transfer')
@@ -24,15 +48,22 @@ export class TransferController {
 
   constructor(
     private readonly tokenService: TokenService,
+    private readonly expiryPolicyService: ExpiryPolicyService,
     private readonly orderService: OrderService,
     private readonly downloadService: DownloadService,
+    private readonly directoryPreviewService: DirectoryPreviewService,
+    private readonly archivePrebuildService: ArchivePrebuildService,
+    private readonly archiveCacheService: ArchiveCacheService,
+    private readonly deliveryMailService: DeliveryMailService,
   ) {}
 
   @Version('1')
   @Post('associate')
+  @Auth('admin', 'photographer')
   @ApiOperation({
     summary: 'Associate photos with customer email',
-    description: 'Creates a new order and generates a download token for the specified directories',
+    description:
+      'Creates a new order, generates a download token for the specified directories and queues the archive to be pre-built in the background',
   })
   @ApiResponse({
     status: 201,
@@ -41,33 +72,88 @@ export class TransferController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Invalid input data',
+    description:
+      'Invalid input data, expiry outside the allowed range, email requested while disabled, privacy mode with a file type profile it cannot scrub, or a directory that is missing, outside the photos base path or without images',
   })
-  async associate(@Body() associateDto: AssociateDto): Promise<AssociateResponseDto> {
+  async associate(
+    @Body() associateDto: AssociateDto,
+    @CurrentStaff() staff: StaffPrincipal,
+  ): Promise<AssociateResponseDto> {
     // Validate input
     if (!associateDto.directoryPaths?.length) {
       throw new BadRequestException('At least one directory path is required')
     }
+    if (associateDto.sendEmail && !this.deliveryMailService.isEnabled()) {
+      throw new BadRequestException('Email is disabled on this server, set sendEmail to false')
+    }
+
+    const { tokenExpiry, policy } = this.expiryPolicyService.resolveExpiry(associateDto)
+    const summary = await this.directoryPreviewService.preview(
+      associateDto.directoryPaths,
+      associateDto.fileTypeProfile,
+      associateDto.folderLayout,
+      associateDto.privacyMode,
+    )
+
+    if (!summary.valid) {
+      const invalid = summary.directories
+        .filter((dir) => !dir.valid)
+        .map((dir) => `${dir.path} (${dir.error})`)
+      throw new BadRequestException(`Invalid directories: ${invalid.join(', ')}`)
+    }
 
     const token = this.tokenService.generateToken()
-    const tokenExpiry = new Date(Date.now() + 72 * 3600000) // 72 hours
 
     try {
-      await this.orderService.createOrder({
+      const order = await this.orderService.createOrder({
         customerEmail: associateDto.email,
         directoryPaths: associateDto.directoryPaths,
         downloadToken: token,
         tokenExpiry,
+        expiryPolicy: policy,
+        maxDownloads: associateDto.maxDownloads,
+        variants: associateDto.variants,
+        privacyMode: associateDto.privacyMode,
+        fileTypeProfile: summary.fileTypeProfile,
+        folderLayout: associateDto.folderLayout,
+        maxPartSizeMb: associateDto.maxPartSizeMb,
+        language: associateDto.language ?? this.deliveryMailService.getDefaultLanguage(),
+        emailDelivery: this.deliveryMailService.isEnabled() && associateDto.sendEmail !== false,
+        createdBy: { kind: staff.kind, id: staff.id, name: staff.name },
       })
 
       this.logger.log(
-        `Created order for ${associateDto.email} with ${associateDto.directoryPaths.length} directories`,
+        `${staff.name} created order for ${associateDto.email} with ${associateDto.directoryPaths.length} directories, ${summary.fileCount} files (expiry policy: ${policy.name}, ${policy.durationHours}h)`,
       )
 
+      // Without a pre-built archive the download streams live, so a queue failure is not fatal
+      await this.archivePrebuildService
+        .enqueue(order.id)
+        .catch((err) =>
+          this.logger.warn(
+            `Failed to queue the archive build of order ${order.id}: ${err.message}`,
+          ),
+        )
+
+      // The link is in the response, so a failed email is recorded on the order and reported
+      const mailAttempt = order.emailDelivery
+        ? await this.deliveryMailService.send(order, 'link', {
+            token,
+            summary: {
+              fileCount: summary.fileCount,
+              totalSizeFormatted: summary.totalSizeFormatted,
+            },
+          })
+        : null
+
       return {
         token,
         downloadUrl: `/api/v1/transfer/download/${token}`,
+        pageUrl: `/d/${token}`,
         expiresAt: tokenExpiry,
+        variants: order.variants,
+        summary,
+        ...(mailAttempt && { emailStatus: mailAttempt.status }),
       }
     } catch (error) {
       this.logger.error('Failed to create order:', error.stack)
@@ -75,11 +161,47 @@ export class TransferController {
     }
   }
 
+  @Version('1')
+  @Post('associate/preview')
+  @HttpCode(HttpStatus.OK)
+  @Auth('admin', 'photographer')
+  @ApiOperation({
+    summary: 'Preview an order without creating it',
+    description:
+      'Validates the request like associate and returns per-directory file counts and sizes plus the archive size, without creating an order',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Directory summary; "valid" is false when associate would reject the directories',
+    type: ArchiveSummaryDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid input data, expiry outside the allowed range or privacy mode with a file type profile it cannot scrub',
+  })
+  async preview(@Body() associateDto: AssociateDto): Promise<ArchiveSummaryDto> {
+    if (!associateDto.directoryPaths?.length) {
+      throw new BadRequestException('At least one directory path is required')
+    }
+
+    this.expiryPolicyService.resolveExpiry(associateDto)
+
+    return this.directoryPreviewService.preview(
+      associateDto.directoryPaths,
+      associateDto.fileTypeProfile,
+      associateDto.folderLayout,
+      associateDto.privacyMode,
+    )
+  }
+
   @Version('1')
   @Get('download/:token')
+  @UseGuards(DownloadRateLimitGuard)
   @ApiOperation({
-    summary: 'Download photos as ZIP',
-    description: 'Downloads all photos from the associated directories as a ZIP file',
+    summary: 'Download photos as ZIP or tar',
+    description:
+      'Downloads all photos from the associated directories as a ZIP, tar or tar.gz file, at full resolution or resized for the web. Supports Range and If-Range requests so interrupted downloads can be resumed, except for tar.gz.',
   })
   @ApiParam({
     name: 'token',
@@ -87,9 +209,33 @@ export class TransferController {
     required: true,
     type: 'string',
   })
+  @ApiQuery({
+    name: 'variant',
+    description:
+      'Resolution of the photos: "full" for the originals, "web" for copies whose long edge is at most 2048px (configurable)',
+    enum: ['full', 'web'],
+    required: false,
+  })
+  @ApiQuery({
+    name: 'format',
+    description:
+      'Container of the archive: "zip" by default, "tar" for tools without ZIP64 support, "tar.gz" compressed while streaming',
+    enum: ['zip', 'tar', 'tar.gz'],
+    required: false,
+  })
+  @ApiHeader({
+    name: 'Range',
+    description: 'Single byte range to resume a download, e.g. "bytes=1048576-"',
+    required: false,
+  })
+  @ApiHeader({
+    name: 'If-Range',
+    description: 'ETag or Last-Modified value; the range is only honoured if it still matches',
+    required: false,
+  })
   @ApiResponse({
     status: 200,
-    description: 'ZIP file containing photos',
+    description: 'Archive containing photos',
     content: {
       'application/zip': {
         schema: {
@@ -97,18 +243,510 @@ export class TransferController {
           format: 'binary',
         },
       },
+      'application/x-tar': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+      'application/gzip': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
     },
   })
+  @ApiResponse({
+    status: 206,
+    description: 'Requested byte range of the archive',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown variant or format',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Download limit of the order reached, or variant not available for the order',
+  })
   @ApiResponse({
     status: 404,
     description: 'Order not found or token expired',
   })
+  @ApiResponse({
+    status: 416,
+    description: 'Requested range lies beyond the end of the archive',
+  })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too many requests from this IP or in total, or IP locked out after repeated invalid tokens. See the Retry-After header',
+  })
   @ApiResponse({
     status: 500,
     description: 'Internal server error during file processing',
   })
+  @ApiResponse({
+    status: 503,
+    description: 'Web copies of the photos are still being made, see the Retry-After header',
+  })
+  @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
+  async download(
+    @Param('token') token: string,
+    @Query('variant') variant: string | undefined,
+    @Query('format') format: string | undefined,
+    @Headers('range') range: string | undefined,
+    @Headers('if-range') ifRange: string | undefined,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ip: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile | undefined> {
+    const download = await this.downloadService.createDownload(
+      token,
+      { range, ifRange },
+      { ip, userAgent },
+      variant,
+      { format },
+    )
+
+    return this.sendDownload(res, download)
+  }
+
+  @Version('1')
+  @Get('download/:token/parts')
+  @UseGuards(DownloadRateLimitGuard)
+  @ApiOperation({
+    summary: 'List the parts of a split download',
+    description:
+      'Lists the numbered parts the archive is split into when the order has a maximum part size, each with its size and download URL. An order that is not split has a single part holding the whole archive.',
+  })
+  @ApiParam({
+    name: 'token',
+    description: 'The download token received from the associate endpoint',
+    required: true,
+    type: 'string',
+  })
+  @ApiQuery({ name: 'variant', enum: ['full', 'web'], required: false })
+  @ApiQuery({ name: 'format', enum: ['zip', 'tar', 'tar.gz'], required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'Parts of the archive in order',
+    type: ArchivePartListDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown variant or format',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Variant not available for the order',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found or token expired',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests from this IP, see the Retry-After header',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Web copies of the photos are still being made, try again later',
+  })
   @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
-  async download(@Param('token') token: string): Promise<StreamableFile> {
-    return this.downloadService.createDownload(token)
+  async listParts(
+    @Param('token') token: string,
+    @Query('variant') variant: string | undefined,
+    @Query('format') format: string | undefined,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ip: string,
+  ): Promise<ArchivePartListDto> {
+    const listing = await this.downloadService.listParts(token, { ip, userAgent }, variant, format)
+
+    // Parts are downloaded with the same variant and format as listed
+    const query = new URLSearchParams()
+    if (listing.variant !== 'full') {
+      query.set('variant', listing.variant)
+    }
+    if (listing.format !== 'zip') {
+      query.set('format', listing.format)
+    }
+    const queryString = query.toString() ? `?${query}` : ''
+
+    return {
+      ...listing,
+      parts: listing.parts.map((part) => ({
+        ...part,
+        downloadUrl: `/api/v1/transfer/download/${token}/parts/${part.part}${queryString}`,
+      })),
+    }
+  }
+
+  @Version('1')
+  @Get('download/:token/parts/:part')
+  @UseGuards(DownloadRateLimitGuard)
+  @ApiOperation({
+    summary: 'Download one part of a split download',
+    description:
+      'Downloads one numbered part of the archive as listed by the parts endpoint. Each part is a complete archive that extracts on its own. The whole split download counts once against the download quota, when its first part starts.',
+  })
+  @ApiParam({
+    name: 'token',
+    description: 'The download token received from the associate endpoint',
+    required: true,
+    type: 'string',
+  })
+  @ApiParam({ name: 'part', description: 'Number of the part, from 1', type: 'integer' })
+  @ApiQuery({ name: 'variant', enum: ['full', 'web'], required: false })
+  @ApiQuery({ name: 'format', enum: ['zip', 'tar', 'tar.gz'], required: false })
+  @ApiHeader({
+    name: 'Range',
+    description: 'Single byte range to resume the part, e.g. "bytes=1048576-"',
+    required: false,
+  })
+  @ApiHeader({
+    name: 'If-Range',
+    description: 'ETag or Last-Modified value; the range is only honoured if it still matches',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Archive of the part',
+  })
+  @ApiResponse({
+    status: 206,
+    description: 'Requested byte range of the part',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown variant or format, or part is not a number',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Download limit of the order reached, or variant not available for the order',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found, token expired or no such part',
+  })
+  @ApiResponse({
+    status: 416,
+    description: 'Requested range lies beyond the end of the part',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests from this IP, see the Retry-After header',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Web copies of the photos are still being made, see the Retry-After header',
+  })
+  @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
+  async downloadPart(
+    @Param('token') token: string,
+    @Param('part', ParseIntPipe) part: number,
+    @Query('variant') variant: string | undefined,
+    @Query('format') format: string | undefined,
+    @Headers('range') range: string | undefined,
+    @Headers('if-range') ifRange: string | undefined,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ip: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile | undefined> {
+    const download = await this.downloadService.createDownload(
+      token,
+      { range, ifRange },
+      { ip, userAgent },
+      variant,
+      { format, part },
+    )
+
+    return this.sendDownload(res, download)
+  }
+
+  @Version('1')
+  @Get('download/:token/manifest')
+  @UseGuards(DownloadRateLimitGuard)
+  @ApiOperation({
+    summary: 'List the directories and files of an order',
+    description:
+      'Lists every directory of the order with its files and their sizes, with the URLs to download one directory as a ZIP file or to show one photo',
+  })
+  @ApiParam({
+    name: 'token',
+    description: 'The download token received from the associate endpoint',
+    required: true,
+    type: 'string',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Directories of the order in order, with their files',
+    type: DownloadManifestDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found or token expired',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests from this IP, see the Retry-After header',
+  })
+  @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
+  async getManifest(
+    @Param('token') token: string,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ip: string,
+  ): Promise<DownloadManifestDto> {
+    const manifest = await this.downloadService.getManifest(token, { ip, userAgent })
+    const baseUrl = `/api/v1/transfer/download/${token}`
+
+    return {
+      ...manifest,
+      directories: manifest.directories.map((directory) => ({
+        ...directory,
+        downloadUrl: `${baseUrl}/directories/${directory.index}`,
+        files: directory.files.map((file) => ({ ...file, url: `${baseUrl}/files/${file.id}` })),
+      })),
+    }
+  }
+
+  @Version('1')
+  @Get('download/:token/checksums')
+  @UseGuards(DownloadRateLimitGuard)
+  @ApiOperation({
+    summary: 'List the checksums of the files of an order',
+    description:
+      'Lists the SHA-256 of every file as in the MANIFEST.sha256 of the archive, compared to the checksums recorded when the archive was first delivered whole. Files changed since then are flagged. Checksums not known from streaming the archive are computed in the background, answering 202 until they are ready.',
+  })
+  @ApiParam({
+    name: 'token',
+    description: 'The download token received from the associate endpoint',
+    required: true,
+    type: 'string',
+  })
+  @ApiQuery({ name: 'variant', enum: ['full', 'web'], required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'Checksums of the files in archive order',
+    type: ArchiveChecksumListDto,
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Checksums being computed, see the Retry-After header',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown variant',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Variant not available for the order',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found or token expired',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests from this IP, see the Retry-After header',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Web copies of the photos are still being made, try again later',
+  })
+  @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
+  async getChecksums(
+    @Param('token') token: string,
+    @Query('variant') variant: string | undefined,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ip: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ArchiveChecksumListDto | undefined> {
+    const checksums = await this.downloadService.getChecksums(token, { ip, userAgent }, variant)
+
+    if (!checksums) {
+      res.status(HttpStatus.ACCEPTED).set('Retry-After', String(CHECKSUMS_RETRY_AFTER_SECONDS))
+      return undefined
+    }
+
+    return checksums
+  }
+
+  @Version('1')
+  @Get('download/:token/directories/:index')
+  @UseGuards(DownloadRateLimitGuard)
+  @ApiOperation({
+    summary: 'Download one directory of an order',
+    description:
+      'Downloads the photos of one directory, under the names they have in the whole archive. Supports the same variants, formats and Range requests as the whole download, and counts against the download quota like it.',
+  })
+  @ApiParam({
+    name: 'token',
+    description: 'The download token received from the associate endpoint',
+    required: true,
+    type: 'string',
+  })
+  @ApiParam({ name: 'index', description: 'Index of the directory, from 0', type: 'integer' })
+  @ApiQuery({ name: 'variant', enum: ['full', 'web'], required: false })
+  @ApiQuery({ name: 'format', enum: ['zip', 'tar', 'tar.gz'], required: false })
+  @ApiHeader({
+    name: 'Range',
+    description: 'Single byte range to resume the download, e.g. "bytes=1048576-"',
+    required: false,
+  })
+  @ApiHeader({
+    name: 'If-Range',
+    description: 'ETag or Last-Modified value; the range is only honoured if it still matches',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Archive of the directory',
+  })
+  @ApiResponse({
+    status: 206,
+    description: 'Requested byte range of the archive',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown variant or format, or index is not a number',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Download limit of the order reached, or variant not available for the order',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found, token expired, or no such directory',
+  })
+  @ApiResponse({
+    status: 416,
+    description: 'Requested range lies beyond the end of the archive',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests from this IP, see the Retry-After header',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Web copies of the photos are still being made, see the Retry-After header',
+  })
+  @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
+  async downloadDirectory(
+    @Param('token') token: string,
+    @Param('index', ParseIntPipe) index: number,
+    @Query('variant') variant: string | undefined,
+    @Query('format') format: string | undefined,
+    @Headers('range') range: string | undefined,
+    @Headers('if-range') ifRange: string | undefined,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ip: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile | undefined> {
+    const download = await this.downloadService.createDownload(
+      token,
+      { range, ifRange },
+      { ip, userAgent },
+      variant,
+      { format, directory: index },
+    )
+
+    return this.sendDownload(res, download)
+  }
+
+  @Version('1')
+  @Get('download/:token/files/:fileId')
+  @UseGuards(DownloadRateLimitGuard)
+  @ApiOperation({
+    summary: 'Show one photo of an order',
+    description:
+      'Streams a single file inline with its content type, e.g. to save one photo on a phone. File IDs come from the manifest and only work with the token of their order. Each file can be downloaded maxDownloads times per variant from its first byte, apart from the archive downloads; resuming a counted file is free.',
+  })
+  @ApiParam({
+    name: 'token',
+    description: 'The download token received from the associate endpoint',
+    required: true,
+    type: 'string',
+  })
+  @ApiParam({ name: 'fileId', description: 'File ID from the manifest', type: 'string' })
+  @ApiQuery({ name: 'variant', enum: ['full', 'web'], required: false })
+  @ApiHeader({
+    name: 'Range',
+    description: 'Single byte range, e.g. for seeking in a video',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Contents of the file',
+  })
+  @ApiResponse({
+    status: 206,
+    description: 'Requested byte range of the file',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown variant',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Download limit of the file reached, or variant not available for the order',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found, token expired, or no such file in the order',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests from this IP, see the Retry-After header',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Web copies of the photos are still being made, see the Retry-After header',
+  })
+  @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
+  async downloadFile(
+    @Param('token') token: string,
+    @Param('fileId') fileId: string,
+    @Query('variant') variant: string | undefined,
+    @Headers('range') range: string | undefined,
+    @Headers('if-range') ifRange: string | undefined,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ip: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile | undefined> {
+    const download = await this.downloadService.createFileDownload(
+      token,
+      fileId,
+      { range, ifRange },
+      { ip, userAgent },
+      variant,
+    )
+
+    return this.sendDownload(res, download)
+  }
+
+  @Version('1')
+  @Get('cache/stats')
+  @Auth('admin')
+  @ApiOperation({
+    summary: 'Archive cache statistics',
+    description: 'Returns usage, hit and miss counters of the disk-backed ZIP archive cache',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Current cache statistics',
+    type: CacheStatsDto,
+  })
+  getCacheStats(): CacheStatsDto {
+    return this.archiveCacheService.getStats()
+  }
+
+  private sendDownload(res: Response, download: PreparedDownload): StreamableFile | undefined {
+    res.status(download.statusCode).set(download.headers)
+
+    // Stop reading from the NAS when the client goes away mid-transfer
+    res.once('close', () => download.file?.getStream().destroy())
+
+    return download.file
   }
 }
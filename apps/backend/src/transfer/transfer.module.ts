@@ -1,12 +1,52 @@
 import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
 import { TransferController } from './transfer.controller'
+import { LandingController } from './landing.controller'
 import { TokenModule } from '../token/token.module'
 import { OrderModule } from '../order/order.module'
-import { PhotosConfigService, FileProcessingService, DownloadService } from './services'
+import { ArchiveCacheModule } from '../cache/archive-cache.module'
+import { AuthModule } from '../auth/auth.module'
+import { RateLimitModule } from '../rate-limit/rate-limit.module'
+import { MetricsModule } from '../metrics/metrics.module'
+import { StorageModule } from '../storage/storage.module'
+import { MailModule } from '../mail/mail.module'
+import { PrebuildJob, PrebuildJobSchema } from './prebuild-job.schema'
+import {
+  PhotosConfigService,
+  DownloadService,
+  ZipLayoutService,
+  ImageVariantService,
+  PhotoPrivacyService,
+  CaptureDateService,
+  DirectoryPreviewService,
+  ArchivePrebuildService,
+  LandingPageService,
+} from './services'
 
 @Module({
-  imports: [TokenModule, OrderModule],
-  controllers: [TransferController],
-  providers: [PhotosConfigService, FileProcessingService, DownloadService],
+  imports: [
+    MongooseModule.forFeature([{ name: PrebuildJob.name, schema: PrebuildJobSchema }]),
+    TokenModule,
+    OrderModule,
+    ArchiveCacheModule,
+    AuthModule,
+    RateLimitModule,
+    MetricsModule,
+    StorageModule,
+    MailModule,
+  ],
+  controllers: [TransferController, LandingController],
+  providers: [
+    PhotosConfigService,
+    ZipLayoutService,
+    ImageVariantService,
+    PhotoPrivacyService,
+    CaptureDateService,
+    DirectoryPreviewService,
+    DownloadService,
+    ArchivePrebuildService,
+    LandingPageService,
+  ],
+  exports: [PhotosConfigService],
 })
 export class TransferModule {}
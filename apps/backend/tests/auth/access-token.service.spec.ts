@@ -0,0 +1,72 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { AccessTokenService } from '../../src/auth/access-token.service'
+
+describe('AccessTokenService', () => {
+  const now = new Date('2025-08-10T12:00:00.000Z')
+  const claims = { sub: 'user1', username: 'marie', role: 'photographer' as const }
+
+  const compileService = async (config: Record<string, unknown> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccessTokenService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            AUTH_JWT_SECRET: 'unit-test-jwt-secret-that-is-long-enough',
+            ...config,
+          }),
+        },
+      ],
+    }).compile()
+
+    return module.get<AccessTokenService>(AccessTokenService)
+  }
+
+  it('should sign tokens that verify with the same secret', async () => {
+    const service = await compileService()
+    const { accessToken, expiresIn } = service.sign(claims, now)
+
+    expect(accessToken.split('.')).toHaveLength(3)
+    expect(expiresIn).toBe(8 * 3600)
+    expect(service.verify(accessToken, now)).toEqual({
+      ...claims,
+      iat: now.getTime() / 1000,
+      exp: now.getTime() / 1000 + 8 * 3600,
+    })
+  })
+
+  it('should reject expired tokens', async () => {
+    const service = await compileService({ AUTH_JWT_EXPIRES_IN_SECONDS: 60 })
+    const { accessToken } = service.sign(claims, now)
+
+    expect(service.verify(accessToken, new Date(now.getTime() + 61000))).toBeNull()
+  })
+
+  it('should reject tokens signed with another secret', async () => {
+    const other = await compileService({
+      AUTH_JWT_SECRET: 'another-jwt-secret-that-is-long-enough',
+    })
+    const { accessToken } = other.sign(claims, now)
+
+    expect((await compileService()).verify(accessToken, now)).toBeNull()
+  })
+
+  it('should reject tampered and malformed tokens', async () => {
+    const service = await compileService()
+    const [header, , signature] = service.sign(claims, now).accessToken.split('.')
+    const forgedPayload = Buffer.from(JSON.stringify({ ...claims, role: 'admin' })).toString(
+      'base64url',
+    )
+
+    expect(service.verify(`${header}.${forgedPayload}.${signature}`, now)).toBeNull()
+    expect(service.verify('not-a-jwt', now)).toBeNull()
+    expect(service.verify('', now)).toBeNull()
+  })
+
+  it('should fail at startup without a long enough secret', async () => {
+    const service = await compileService({ AUTH_JWT_SECRET: 'short' })
+
+    expect(() => service.onModuleInit()).toThrow('Invalid authentication configuration')
+  })
+})
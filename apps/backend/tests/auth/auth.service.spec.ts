@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { UnauthorizedException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { getModelToken } from '@nestjs/mongoose'
+import { AuthService } from '../../src/auth/auth.service'
+import { AccessTokenService } from '../../src/auth/access-token.service'
+import { StaffUser } from '../../src/auth/staff-user.schema'
+import { ApiKey } from '../../src/auth/api-key.schema'
+import { TokenService } from '../../src/token/token.service'
+import { DownloadRateLimitService } from '../../src/rate-limit/download-rate-limit.service'
+
+describe('AuthService', () => {
+  let service: AuthService
+  let module: TestingModule
+  let tokenService: TokenService
+
+  const mockStaffUserModel = {
+    findOne: jest.fn(),
+    countDocuments: jest.fn(),
+  }
+
+  const mockApiKeyModel = {
+    findOneAndUpdate: jest.fn(),
+  }
+
+  const mockRateLimitService = {
+    recordInvalidToken: jest.fn(),
+  }
+
+  const resolving = (value: unknown) => ({ exec: () => Promise.resolve(value) })
+
+  const compileModule = (config: Record<string, unknown> = {}) =>
+    Test.createTestingModule({
+      providers: [
+        AuthService,
+        AccessTokenService,
+        TokenService,
+        { provide: getModelToken(StaffUser.name), useValue: mockStaffUserModel },
+        { provide: getModelToken(ApiKey.name), useValue: mockApiKeyModel },
+        { provide: DownloadRateLimitService, useValue: mockRateLimitService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            TOKEN_SECRET: 'unit-test-secret-that-is-long-enough',
+            AUTH_JWT_SECRET: 'unit-test-jwt-secret-that-is-long-enough',
+            ...config,
+          }),
+        },
+      ],
+    }).compile()
+
+  beforeEach(async () => {
+    module = await compileModule()
+
+    service = module.get<AuthService>(AuthService)
+    tokenService = module.get<TokenService>(TokenService)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('passwords', () => {
+    it('should hash passwords with a random salt', async () => {
+      const first = await service.hashPassword('correct-horse-battery-staple')
+      const second = await service.hashPassword('correct-horse-battery-staple')
+
+      expect(first).toMatch(/^scrypt:[a-f0-9]{32}:[a-f0-9]{128}$/)
+      expect(first).not.toBe(second)
+      expect(await service.verifyPassword('correct-horse-battery-staple', first)).toBe(true)
+      expect(await service.verifyPassword('wrong-password', first)).toBe(false)
+    })
+  })
+
+  describe('login', () => {
+    it('should issue an access token for valid credentials', async () => {
+      mockStaffUserModel.findOne.mockReturnValue(
+        resolving({
+          id: 'user1',
+          username: 'marie',
+          role: 'photographer',
+          passwordHash: await service.hashPassword('correct-horse-battery-staple'),
+        }),
+      )
+
+      const result = await service.login('Marie ', 'correct-horse-battery-staple')
+
+      expect(mockStaffUserModel.findOne).toHaveBeenCalledWith({
+        username: 'marie',
+        disabledAt: null,
+      })
+      expect(result.role).toBe('photographer')
+      expect(await service.authenticateAccessToken(result.accessToken)).toEqual({
+        kind: 'user',
+        id: 'user1',
+        name: 'marie',
+        role: 'photographer',
+      })
+    })
+
+    it('should reject a wrong password', async () => {
+      mockStaffUserModel.findOne.mockReturnValue(
+        resolving({ passwordHash: await service.hashPassword('correct-horse-battery-staple') }),
+      )
+
+      await expect(service.login('marie', 'wrong-password', '203.0.113.7')).rejects.toThrow(
+        UnauthorizedException,
+      )
+      expect(mockRateLimitService.recordInvalidToken).toHaveBeenCalledWith('203.0.113.7')
+    })
+
+    it('should reject unknown users', async () => {
+      mockStaffUserModel.findOne.mockReturnValue(resolving(null))
+
+      await expect(service.login('nobody', 'whatever')).rejects.toThrow(UnauthorizedException)
+    })
+  })
+
+  describe('authenticateAccessToken', () => {
+    const issueToken = () =>
+      module.get(AccessTokenService).sign({ sub: 'user1', username: 'marie', role: 'admin' })
+        .accessToken
+
+    it('should check the user of the token on each request', async () => {
+      mockStaffUserModel.findOne.mockReturnValue(
+        resolving({ id: 'user1', username: 'marie', role: 'admin' }),
+      )
+
+      expect(await service.authenticateAccessToken(issueToken())).toEqual({
+        kind: 'user',
+        id: 'user1',
+        name: 'marie',
+        role: 'admin',
+      })
+      expect(mockStaffUserModel.findOne).toHaveBeenCalledWith({ _id: 'user1', disabledAt: null })
+    })
+
+    it('should reject the tokens of disabled users and of users whose role changed', async () => {
+      const token = issueToken()
+
+      mockStaffUserModel.findOne.mockReturnValue(resolving(null))
+      expect(await service.authenticateAccessToken(token)).toBeNull()
+
+      mockStaffUserModel.findOne.mockReturnValue(
+        resolving({ id: 'user1', username: 'marie', role: 'photographer' }),
+      )
+      expect(await service.authenticateAccessToken(token)).toBeNull()
+    })
+
+    it('should not look up users for forged tokens', async () => {
+      expect(await service.authenticateAccessToken(`${issueToken()}x`)).toBeNull()
+      expect(mockStaffUserModel.findOne).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('authenticateApiKey', () => {
+    it('should look up active keys by hash', async () => {
+      const key = tokenService.generateToken()
+      mockApiKeyModel.findOneAndUpdate.mockReturnValue(
+        resolving({
+          id: 'key1',
+          name: 'lightroom-export',
+          role: 'photographer',
+          keyHash: tokenService.hashToken(key),
+        }),
+      )
+
+      expect(await service.authenticateApiKey(key)).toEqual({
+        kind: 'api-key',
+        id: 'key1',
+        name: 'lightroom-export',
+        role: 'photographer',
+      })
+      expect(mockApiKeyModel.findOneAndUpdate.mock.calls[0][0]).toEqual({
+        keyHash: tokenService.hashToken(key),
+        revokedAt: null,
+      })
+    })
+
+    it('should return null for unknown or revoked keys', async () => {
+      mockApiKeyModel.findOneAndUpdate.mockReturnValue(resolving(null))
+
+      expect(await service.authenticateApiKey('unknown')).toBeNull()
+    })
+  })
+
+  describe('bootstrapAdmin', () => {
+    it('should not create an account when staff users already exist', async () => {
+      const bootstrapModule = await compileModule({
+        AUTH_ADMIN_USERNAME: 'admin',
+        AUTH_ADMIN_PASSWORD: 'bootstrap-pass',
+      })
+      const bootstrapService = bootstrapModule.get<AuthService>(AuthService)
+      const createUser = jest.spyOn(bootstrapService, 'createUser')
+      mockStaffUserModel.countDocuments.mockReturnValue(resolving(1))
+
+      await bootstrapService.bootstrapAdmin()
+
+      expect(mockStaffUserModel.countDocuments).toHaveBeenCalled()
+      expect(createUser).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { Readable } from 'stream'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ArchiveCacheService } from '../../src/cache/archive-cache.service'
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function waitForCacheWrite(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 50))
+}
+
+describe('ArchiveCacheService', () => {
+  let service: ArchiveCacheService
+  let cacheDir: string
+
+  const startService = async (): Promise<ArchiveCacheService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ArchiveCacheService,
+        SchedulerRegistry,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ CACHE_DIR: cacheDir, CACHE_MAX_SIZE_MB: 1 }),
+        },
+      ],
+    }).compile()
+
+    const cacheService = module.get<ArchiveCacheService>(ArchiveCacheService)
+    await cacheService.onModuleInit()
+    return cacheService
+  }
+
+  beforeEach(async () => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-cache-'))
+    service = await startService()
+  })
+
+  afterEach(() => {
+    service.onModuleDestroy()
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  it('should count a miss, store a completed stream and then serve it as a hit', async () => {
+    const content = Buffer.alloc(1000, 7)
+    const key = { orderId: 'order1', contentHash: '"abc"', size: content.length }
+
+    expect(await service.lookup(key)).toBeUndefined()
+
+    const passedThrough = await readAll(service.storeWhileStreaming(key, Readable.from([content])))
+    expect(passedThrough.equals(content)).toBe(true)
+    await waitForCacheWrite()
+
+    const cached = await service.lookup(key)
+    expect(cached).toBeDefined()
+    expect(
+      (await readAll(service.createReadStream(cached!, 10, 19))).equals(content.subarray(10, 20)),
+    ).toBe(true)
+
+    const stats = service.getStats()
+    expect(stats.fileCount).toBe(1)
+    expect(stats.hits).toBe(1)
+    expect(stats.misses).toBe(1)
+    expect(stats.hitRate).toBe(50)
+  })
+
+  it('should not keep a stream that ends with an unexpected size', async () => {
+    const key = { orderId: 'order1', contentHash: 'abc', size: 2000 }
+
+    await readAll(service.storeWhileStreaming(key, Readable.from([Buffer.alloc(1000)])))
+    await waitForCacheWrite()
+
+    expect(await service.lookup(key)).toBeUndefined()
+    expect(fs.readdirSync(cacheDir)).toEqual([])
+  })
+
+  it('should invalidate the archive when the directory contents change', async () => {
+    const content = Buffer.alloc(100, 1)
+    const key = { orderId: 'order1', contentHash: 'v1', size: content.length }
+
+    await readAll(service.storeWhileStreaming(key, Readable.from([content])))
+    await waitForCacheWrite()
+
+    expect(await service.lookup({ ...key, contentHash: 'v2' })).toBeUndefined()
+    expect(await service.lookup(key)).toBeUndefined()
+    expect(service.getStats().fileCount).toBe(0)
+  })
+
+  it('should keep the archives of each variant of an order side by side', async () => {
+    const full = { orderId: 'order1', contentHash: 'v1', size: 100 }
+    const web = { orderId: 'order1', variant: 'web' as const, contentHash: 'w1', size: 50 }
+
+    await service.store(full, Readable.from([Buffer.alloc(100)]))
+    await service.store(web, Readable.from([Buffer.alloc(50)]))
+
+    expect(await service.lookup(web)).toBeDefined()
+    expect(await service.lookup(full)).toBeDefined()
+
+    expect(await service.lookup({ ...web, contentHash: 'w2' })).toBeUndefined()
+    expect(service.has(web)).toBe(false)
+    expect(service.has(full)).toBe(true)
+
+    service.onModuleDestroy()
+    service = await startService()
+    await service.store(web, Readable.from([Buffer.alloc(50)]))
+    service.onModuleDestroy()
+    service = await startService()
+
+    expect(service.has(web)).toBe(true)
+    expect(service.has(full)).toBe(true)
+  })
+
+  it('should evict the least recently used archive above the size budget', async () => {
+    const size = 400 * 1024
+    const keys = ['a', 'b', 'c'].map((orderId) => ({ orderId, contentHash: 'hash', size }))
+
+    for (const key of keys.slice(0, 2)) {
+      await readAll(service.storeWhileStreaming(key, Readable.from([Buffer.alloc(size)])))
+      await waitForCacheWrite()
+    }
+
+    // Touch "a" so that "b" becomes the least recently used archive
+    expect(await service.lookup(keys[0])).toBeDefined()
+
+    await readAll(service.storeWhileStreaming(keys[2], Readable.from([Buffer.alloc(size)])))
+    await waitForCacheWrite()
+
+    expect(await service.lookup(keys[1])).toBeUndefined()
+    expect(await service.lookup(keys[0])).toBeDefined()
+    expect(await service.lookup(keys[2])).toBeDefined()
+  })
+
+  it('should store a whole archive ahead of the first download', async () => {
+    const content = Buffer.alloc(500, 3)
+    const key = { orderId: 'order1', contentHash: 'abc', size: content.length }
+
+    const entry = await service.store(key, Readable.from([content]))
+
+    expect(service.has(key)).toBe(true)
+    expect(fs.readFileSync(entry.filePath).equals(content)).toBe(true)
+    expect(service.getStats().misses).toBe(0)
+  })
+
+  it('should refuse to store an archive with an unexpected size', async () => {
+    const key = { orderId: 'order1', contentHash: 'abc', size: 2000 }
+
+    await expect(service.store(key, Readable.from([Buffer.alloc(1000)]))).rejects.toThrow(
+      'expected 2000',
+    )
+
+    expect(service.has(key)).toBe(false)
+    expect(fs.readdirSync(cacheDir)).toEqual([])
+  })
+
+  it('should reload archives left in the cache directory after a restart', async () => {
+    const content = Buffer.alloc(100, 1)
+    const key = { orderId: 'order1', contentHash: 'abc', size: content.length }
+
+    await readAll(service.storeWhileStreaming(key, Readable.from([content])))
+    await waitForCacheWrite()
+    service.onModuleDestroy()
+
+    service = await startService()
+
+    expect(await service.lookup(key)).toBeDefined()
+  })
+
+  it('should see the archives built and removed by another instance', async () => {
+    const content = Buffer.alloc(100, 1)
+    const key = { orderId: 'order1', contentHash: 'abc', size: content.length }
+    const otherInstance = await startService()
+    await otherInstance.store(key, Readable.from([content]))
+    otherInstance.onModuleDestroy()
+
+    const cached = await service.lookup(key)
+    expect(cached).toBeDefined()
+    expect((await readAll(service.createReadStream(cached!, 0, 99))).equals(content)).toBe(true)
+
+    await otherInstance.invalidateOrder('order1')
+
+    expect(await service.lookup(key)).toBeUndefined()
+    expect(service.getStats()).toMatchObject({ fileCount: 0, hits: 1, misses: 1 })
+  })
+  it('should let instances sharing the directory write the same archive at once', async () => {
+    const content = Buffer.alloc(1000, 5)
+    const key = { orderId: 'order1', contentHash: 'abc', size: content.length }
+    const otherInstance = await startService()
+    otherInstance.onModuleDestroy()
+
+    const slowSource = Readable.from(
+      (async function* () {
+        yield content.subarray(0, 500)
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        yield content.subarray(500)
+      })(),
+    )
+    await Promise.all([
+      readAll(service.storeWhileStreaming(key, slowSource)),
+      otherInstance.store(key, Readable.from([content])),
+    ])
+    await waitForCacheWrite()
+
+    const cached = await service.lookup(key)
+    expect(fs.readFileSync(cached!.filePath).equals(content)).toBe(true)
+    expect(fs.readdirSync(cacheDir)).toEqual(['order1-abc.zip'])
+  })
+
+  it('should only remove stale temporary files when starting', async () => {
+    const recent = path.join(cacheDir, 'order1-abc.4242.0a1b2c3d.tmp')
+    const stale = path.join(cacheDir, 'order2-abc.4242.0a1b2c3d.tmp')
+    fs.writeFileSync(recent, 'being written by another instance')
+    fs.writeFileSync(stale, 'left by a crash')
+    const twoHoursAgo = new Date(Date.now() - 2 * 3600000)
+    fs.utimesSync(stale, twoHoursAgo, twoHoursAgo)
+    service.onModuleDestroy()
+
+    service = await startService()
+
+    expect(fs.existsSync(recent)).toBe(true)
+    expect(fs.existsSync(stale)).toBe(false)
+  })
+
+  it('should apply the size budget to the archives of every instance', async () => {
+    const size = 400 * 1024
+    const keys = ['a', 'b', 'c'].map((orderId) => ({ orderId, contentHash: 'hash', size }))
+    const otherInstance = await startService()
+    otherInstance.onModuleDestroy()
+
+    await otherInstance.store(keys[0], Readable.from([Buffer.alloc(size)]))
+    await service.store(keys[1], Readable.from([Buffer.alloc(size)]))
+    await otherInstance.store(keys[2], Readable.from([Buffer.alloc(size)]))
+
+    expect(fs.readdirSync(cacheDir).sort()).toEqual(['b-hash.zip', 'c-hash.zip'])
+    expect(await service.lookup(keys[0])).toBeUndefined()
+  })
+})
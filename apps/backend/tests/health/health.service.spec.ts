@@ -0,0 +1,159 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { getConnectionToken } from '@nestjs/mongoose'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { HealthService } from '../../src/health/health.service'
+import { PhotosConfigService } from '../../src/transfer/services'
+import { ArchiveCacheService } from '../../src/cache/archive-cache.service'
+import { StorageService } from '../../src/storage/storage.service'
+
+describe('HealthService', () => {
+  let rootPath: string
+  let services: HealthService[]
+
+  const mockPing = jest.fn()
+  const mockConnection = {
+    readyState: 1,
+    db: { admin: () => ({ ping: mockPing }) },
+  }
+
+  const compileService = async (config: Record<string, unknown> = {}) => {
+    const configService = new ConfigService({
+      PHOTOS_BASE_PATH: path.join(rootPath, 'photos'),
+      PHOTOS_REQUIRE_MOUNT_POINT: 'false',
+      HEALTH_CACHE_MIN_FREE_MB: 0,
+      ...config,
+    })
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HealthService,
+        PhotosConfigService,
+        StorageService,
+        { provide: getConnectionToken(), useValue: mockConnection },
+        {
+          provide: ArchiveCacheService,
+          useValue: { getCacheDirectory: () => path.join(rootPath, 'cache') },
+        },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile()
+
+    const service = module.get<HealthService>(HealthService)
+    services.push(service)
+    return service
+  }
+
+  beforeEach(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'health-'))
+    fs.mkdirSync(path.join(rootPath, 'photos'))
+    fs.mkdirSync(path.join(rootPath, 'cache'))
+    services = []
+    mockConnection.readyState = 1
+    mockPing.mockReset().mockResolvedValue({ ok: 1 })
+  })
+
+  afterEach(async () => {
+    await Promise.all(services.map((service) => service.onModuleDestroy()))
+    fs.rmSync(rootPath, { recursive: true, force: true })
+  })
+
+  it('should report liveness without checking dependencies', async () => {
+    const report = (await compileService()).checkLiveness()
+
+    expect(report.status).toBe('ok')
+    expect(report.checks).toBeUndefined()
+    expect(mockPing).not.toHaveBeenCalled()
+  })
+
+  it('should be ready when every dependency is up', async () => {
+    const report = await (await compileService()).checkReadiness()
+
+    expect(report.status).toBe('ok')
+    expect(report.checks).toMatchObject({
+      mongo: { status: 'up', critical: true, details: { state: 'connected' } },
+      photos: { status: 'up', details: { readable: true } },
+      libraries: { status: 'skipped', critical: false },
+      cacheDisk: { status: 'up', details: { path: path.join(rootPath, 'cache') } },
+      redis: { status: 'skipped', critical: false },
+    })
+  })
+
+  it('should not be ready when MongoDB is disconnected', async () => {
+    mockConnection.readyState = 0
+
+    const report = await (await compileService()).checkReadiness()
+
+    expect(report.status).toBe('error')
+    expect(report.checks!.mongo).toMatchObject({
+      status: 'down',
+      error: 'MongoDB is disconnected',
+    })
+  })
+
+  it('should time out slow checks', async () => {
+    mockPing.mockReturnValue(new Promise(() => undefined))
+
+    const report = await (await compileService({ HEALTH_CHECK_TIMEOUT_MS: 20 })).checkReadiness()
+
+    expect(report.checks!.mongo).toMatchObject({ status: 'down', error: 'Timed out after 20 ms' })
+  })
+
+  it('should not be ready when the photos base path is missing or not mounted', async () => {
+    const missing = await (
+      await compileService({ PHOTOS_BASE_PATH: path.join(rootPath, 'missing') })
+    ).checkReadiness()
+    const unmounted = await (
+      await compileService({ PHOTOS_REQUIRE_MOUNT_POINT: 'true' })
+    ).checkReadiness()
+
+    expect(missing.status).toBe('error')
+    expect(missing.checks!.photos.error).toBe('Photos base path is not readable')
+    expect(unmounted.status).toBe('error')
+    expect(unmounted.checks!.photos).toMatchObject({
+      error: 'Photos base path is not a mount point',
+      details: { readable: true, isMountPoint: false },
+    })
+  })
+
+  it('should report unavailable photo libraries without failing readiness', async () => {
+    const report = await (
+      await compileService({
+        PHOTO_LIBRARIES: `current:${path.join(rootPath, 'photos')},2019:${path.join(rootPath, 'gone')}`,
+      })
+    ).checkReadiness()
+
+    expect(report.status).toBe('ok')
+    expect(report.checks!.libraries).toMatchObject({
+      status: 'down',
+      critical: false,
+      error: 'Photo libraries not readable: 2019',
+      details: { current: { readable: true }, 2019: { readable: false } },
+    })
+  })
+
+  it('should not be ready when the cache disk is almost full', async () => {
+    const report = await (
+      await compileService({ HEALTH_CACHE_MIN_FREE_MB: Number.MAX_SAFE_INTEGER })
+    ).checkReadiness()
+
+    expect(report.status).toBe('error')
+    expect(report.checks!.cacheDisk.error).toBe('Not enough free disk space for the archive cache')
+  })
+
+  it('should only fail readiness on Redis when it backs the rate limits', async () => {
+    const unreachable = { REDIS_URL: 'redis://127.0.0.1:1' }
+
+    const optional = await (await compileService(unreachable)).checkReadiness()
+    const required = await (
+      await compileService({ ...unreachable, RATE_LIMIT_STORE: 'redis' })
+    ).checkReadiness()
+
+    expect(optional.status).toBe('ok')
+    expect(optional.checks!.redis).toMatchObject({ status: 'down', critical: false })
+    expect(required.status).toBe('error')
+    expect(required.checks!.redis).toMatchObject({ status: 'down', critical: true })
+  })
+})
@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { DeliveryMailService } from '../../src/mail/delivery-mail.service'
+import { MailService } from '../../src/mail/mail.service'
+import { OrderService } from '../../src/order/order.service'
+import { OrderDocument } from '../../src/order/order.schema'
+import { TokenService } from '../../src/token/token.service'
+
+describe('DeliveryMailService', () => {
+  let service: DeliveryMailService
+  let tokenService: TokenService
+
+  const mockMailService = {
+    isEnabled: jest.fn(() => true),
+    getSenderName: jest.fn(() => 'Photo St-Denis'),
+    send: jest.fn(),
+  }
+
+  const mockOrderService = {
+    getDeliverySummary: jest.fn(),
+    recordMailAttempt: jest.fn(),
+  }
+
+  const buildOrder = (overrides: Partial<OrderDocument> = {}) =>
+    ({
+      id: 'order1',
+      customerEmail: 'customer@example.com',
+      directoryPaths: ['weddings/smith/ceremony', 'weddings/smith/party'],
+      tokenExpiry: new Date('2025-08-12T16:44:00.000Z'),
+      language: 'fr',
+      sealedToken: tokenService.sealToken('sealed-download-token'),
+      ...overrides,
+    }) as OrderDocument
+
+  const compileModule = (config: Record<string, unknown> = {}) =>
+    Test.createTestingModule({
+      providers: [
+        DeliveryMailService,
+        TokenService,
+        { provide: MailService, useValue: mockMailService },
+        { provide: OrderService, useValue: mockOrderService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            TOKEN_SECRET: 'test-secret-that-is-long-enough-for-hmac',
+            PUBLIC_BASE_URL: 'https://photos.example.com/',
+            MAIL_TIME_ZONE: 'Europe/Paris',
+            ...config,
+          }),
+        },
+      ],
+    }).compile()
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockMailService.send.mockResolvedValue('message-1@example.com')
+    mockOrderService.getDeliverySummary.mockReturnValue({ remainingDownloads: 2 })
+    mockOrderService.recordMailAttempt.mockResolvedValue(undefined)
+
+    const module: TestingModule = await compileModule()
+    service = module.get<DeliveryMailService>(DeliveryMailService)
+    tokenService = module.get<TokenService>(TokenService)
+  })
+
+  it('should email the link in French with the order summary and record it', async () => {
+    const attempt = await service.send(buildOrder(), 'link', {
+      token: 'fresh-token',
+      summary: { fileCount: 120, totalSizeFormatted: '1.2 GB' },
+    })
+
+    expect(attempt).toEqual({
+      kind: 'link',
+      to: 'customer@example.com',
+      status: 'sent',
+      messageId: 'message-1@example.com',
+      error: null,
+    })
+    expect(mockOrderService.recordMailAttempt).toHaveBeenCalledWith('order1', attempt)
+
+    const [to, content] = mockMailService.send.mock.calls[0]
+    expect(to).toBe('customer@example.com')
+    expect(content.subject).toBe('Vos photos sont prêtes')
+    expect(content.text).toContain(
+      'Lien de téléchargement : https://photos.example.com/d/fresh-token\n',
+    )
+    expect(content.html).toContain('href="https://photos.example.com/d/fresh-token"')
+    expect(content.text).toContain('120 photos (1.2 GB) dans 2 dossiers')
+    expect(content.text).toContain("valable jusqu'au mardi 12 août 2025 à 18:44")
+    expect(content.text).toContain('Il vous reste 2 téléchargements.')
+    expect(content.html).toContain('<html lang="fr">')
+  })
+
+  it('should send reminders in English with the sealed token of the order', async () => {
+    await service.send(buildOrder({ language: 'en' }), 'reminder')
+
+    const [, content] = mockMailService.send.mock.calls[0]
+    expect(content.subject).toBe('Reminder: your download link expires soon')
+    expect(content.text).toContain(
+      'Download link: https://photos.example.com/d/sealed-download-token\n',
+    )
+    expect(content.text).toContain('Your order: 2 folders of photos.')
+  })
+
+  it('should escape customer data in the HTML version', async () => {
+    mockMailService.getSenderName.mockReturnValueOnce('Studio <Lumière> & Co')
+
+    await service.send(buildOrder(), 'link', { token: 'token' })
+
+    const [, content] = mockMailService.send.mock.calls[0]
+    expect(content.html).toContain('Studio &lt;Lumière&gt; &amp; Co')
+  })
+
+  it('should record a failure instead of throwing', async () => {
+    mockMailService.send.mockRejectedValue(new Error('SMTP RCPT TO refused: 550 unknown user'))
+
+    const attempt = await service.send(buildOrder(), 'link', { token: 'token' })
+
+    expect(attempt).toMatchObject({
+      status: 'failed',
+      error: 'SMTP RCPT TO refused: 550 unknown user',
+    })
+    expect(mockOrderService.recordMailAttempt).toHaveBeenCalledWith(
+      'order1',
+      expect.objectContaining({ status: 'failed', messageId: null }),
+    )
+  })
+
+  it('should fail when the order kept no token for emails', async () => {
+    const attempt = await service.send(buildOrder({ sealedToken: null }), 'reminder')
+
+    expect(attempt.status).toBe('failed')
+    expect(attempt.error).toContain('no download token')
+    expect(mockMailService.send).not.toHaveBeenCalled()
+  })
+
+  it('should refuse an unknown default language at startup', async () => {
+    const module = await compileModule({ MAIL_DEFAULT_LANGUAGE: 'de' })
+    const invalid = module.get<DeliveryMailService>(DeliveryMailService)
+
+    expect(() => invalid.onModuleInit()).toThrow('Unknown MAIL_DEFAULT_LANGUAGE "de"')
+  })
+})
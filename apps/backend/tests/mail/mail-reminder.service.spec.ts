@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { MailReminderService } from '../../src/mail/mail-reminder.service'
+import { DeliveryMailService } from '../../src/mail/delivery-mail.service'
+import { OrderService } from '../../src/order/order.service'
+
+describe('MailReminderService', () => {
+  const mockDeliveryMailService = {
+    isEnabled: jest.fn(() => true),
+    send: jest.fn(),
+  }
+
+  const mockOrderService = {
+    findOrdersDueForReminder: jest.fn(),
+    claimReminder: jest.fn(),
+    releaseReminder: jest.fn(),
+    getDeliverySummary: jest.fn(),
+  }
+
+  const compileModule = (config: Record<string, unknown> = {}) =>
+    Test.createTestingModule({
+      providers: [
+        MailReminderService,
+        SchedulerRegistry,
+        { provide: DeliveryMailService, useValue: mockDeliveryMailService },
+        { provide: OrderService, useValue: mockOrderService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ MAIL_REMINDER_HOURS_BEFORE: 24, ...config }),
+        },
+      ],
+    }).compile()
+
+  const compileService = async (config: Record<string, unknown> = {}) =>
+    (await compileModule(config)).get<MailReminderService>(MailReminderService)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockOrderService.claimReminder.mockResolvedValue(true)
+    mockOrderService.getDeliverySummary.mockReturnValue({
+      fullyDelivered: false,
+      remainingDownloads: null,
+    })
+    mockDeliveryMailService.send.mockResolvedValue({ status: 'sent' })
+  })
+
+  it('should remind the orders expiring within the window', async () => {
+    const order = { id: 'order1', mailAttempts: [] }
+    mockOrderService.findOrdersDueForReminder.mockResolvedValue([order])
+    const now = Date.now()
+
+    const service = await compileService()
+    const summary = await service.run()
+
+    expect(summary).toMatchObject({ sent: 1, failed: 0, skipped: 0 })
+    const [expiringBefore, createdBefore, limit] =
+      mockOrderService.findOrdersDueForReminder.mock.calls[0]
+    expect(expiringBefore.getTime()).toBeGreaterThanOrEqual(now + 24 * 3600 * 1000)
+    expect(createdBefore.getTime()).toBeLessThan(now)
+    expect(limit).toBe(100)
+    expect(mockOrderService.claimReminder).toHaveBeenCalledWith('order1')
+    expect(mockDeliveryMailService.send).toHaveBeenCalledWith(order, 'reminder')
+  })
+
+  it('should skip orders claimed elsewhere or already downloaded', async () => {
+    mockOrderService.findOrdersDueForReminder.mockResolvedValue([
+      { id: 'claimed' },
+      { id: 'delivered' },
+      { id: 'quota-used' },
+    ])
+    mockOrderService.claimReminder.mockImplementation(async (id: string) => id !== 'claimed')
+    mockOrderService.getDeliverySummary
+      .mockReturnValueOnce({ fullyDelivered: true, remainingDownloads: 2 })
+      .mockReturnValueOnce({ fullyDelivered: false, remainingDownloads: 0 })
+
+    const service = await compileService()
+    const summary = await service.run()
+
+    expect(summary).toMatchObject({ sent: 0, failed: 0, skipped: 2 })
+    expect(mockDeliveryMailService.send).not.toHaveBeenCalled()
+  })
+
+  it('should release failed reminders until the attempts run out', async () => {
+    const failedReminder = { kind: 'reminder', status: 'failed' }
+    mockOrderService.findOrdersDueForReminder.mockResolvedValue([
+      { id: 'first-failure', mailAttempts: [] },
+      { id: 'last-failure', mailAttempts: [failedReminder, failedReminder] },
+    ])
+    mockDeliveryMailService.send.mockResolvedValue({ status: 'failed' })
+
+    const service = await compileService({ MAIL_REMINDER_MAX_ATTEMPTS: 3 })
+    const summary = await service.run()
+
+    expect(summary).toMatchObject({ sent: 0, failed: 2 })
+    expect(mockOrderService.releaseReminder).toHaveBeenCalledTimes(1)
+    expect(mockOrderService.releaseReminder).toHaveBeenCalledWith('first-failure')
+  })
+
+  it('should not schedule reminders when they are disabled', async () => {
+    const module: TestingModule = await compileModule({ MAIL_REMINDER_HOURS_BEFORE: 0 })
+    const registry = module.get<SchedulerRegistry>(SchedulerRegistry)
+
+    module.get<MailReminderService>(MailReminderService).onModuleInit()
+
+    expect(registry.doesExist('interval', 'mail-reminders')).toBe(false)
+  })
+})
@@ -0,0 +1,85 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { MailService } from '../../src/mail/mail.service'
+
+describe('MailService', () => {
+  let mailDir: string
+
+  const compileService = async (config: Record<string, unknown> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [MailService, { provide: ConfigService, useValue: new ConfigService(config) }],
+    }).compile()
+
+    return module.get<MailService>(MailService)
+  }
+
+  const readMessages = () =>
+    fs
+      .readdirSync(mailDir)
+      .sort()
+      .map((name) => fs.readFileSync(path.join(mailDir, name), 'utf8'))
+
+  beforeEach(() => {
+    mailDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(mailDir, { recursive: true, force: true })
+  })
+
+  it('should be disabled by default', async () => {
+    const service = await compileService()
+
+    expect(service.isEnabled()).toBe(false)
+    await expect(
+      service.send('customer@example.com', { subject: 's', text: 't', html: 'h' }),
+    ).rejects.toThrow('Email is disabled')
+  })
+
+  it('should refuse an unknown transport or a missing sender', async () => {
+    await expect(compileService({ MAIL_TRANSPORT: 'sendmail' })).rejects.toThrow(
+      'Unknown MAIL_TRANSPORT "sendmail"',
+    )
+    await expect(compileService({ MAIL_TRANSPORT: 'file' })).rejects.toThrow(
+      'MAIL_FROM must be set',
+    )
+  })
+
+  it('should write a multipart message with encoded French headers and bodies', async () => {
+    const service = await compileService({
+      MAIL_TRANSPORT: 'file',
+      MAIL_FILE_DIR: mailDir,
+      MAIL_FROM: 'Studio Élise <studio@example.com>',
+    })
+
+    const messageId = await service.send('customer@example.com', {
+      subject: 'Vos photos sont prêtes',
+      text: 'Bonjour,\nÀ bientôt',
+      html: '<p>Bonjour,</p>',
+    })
+
+    const [message] = readMessages()
+    const [headers, ...parts] = message.split(/\r\n--=_[0-9a-f]+(?:--)?\r\n/)
+
+    expect(service.getSenderName()).toBe('Studio Élise')
+    expect(headers).toContain('To: customer@example.com\r\n')
+    expect(headers).toContain(`Message-ID: <${messageId}>`)
+    expect(messageId).toMatch(/@example\.com$/)
+    expect(headers).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from('Vos photos sont prêtes').toString('base64')}?=`,
+    )
+    expect(headers).toMatch(/^From: =\?UTF-8\?B\?.+\?= <studio@example\.com>$/m)
+
+    const [text, html] = parts.slice(0, 2).map((part) => {
+      const [partHeaders, body] = part.split('\r\n\r\n')
+      return { partHeaders, body: Buffer.from(body, 'base64').toString('utf8') }
+    })
+    expect(text.partHeaders).toContain('Content-Type: text/plain; charset=utf-8')
+    expect(text.body).toBe('Bonjour,\r\nÀ bientôt')
+    expect(html.partHeaders).toContain('Content-Type: text/html; charset=utf-8')
+    expect(html.body).toBe('<p>Bonjour,</p>')
+  })
+})
@@ -0,0 +1,147 @@
+import * as net from 'net'
+import { AddressInfo } from 'net'
+import { SmtpError, SmtpTransport } from '../../src/mail/transports'
+
+interface FakeSmtpOptions {
+  /** Extensions announced after EHLO */
+  features?: string[]
+  /** Reply to RCPT TO instead of 250 */
+  rcptReply?: string
+}
+
+/**
+ * Minimal SMTP server recording the commands and the message it receives
+ */
+function createFakeSmtp(options: FakeSmtpOptions = {}) {
+  const commands: string[] = []
+  const messages: string[] = []
+
+  const server = net.createServer((socket) => {
+    let buffer = ''
+    let data: string | null = null
+    const reply = (line: string) => socket.write(`${line}\r\n`)
+
+    reply('220 fake.smtp ESMTP')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('latin1')
+
+      let end: number
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end)
+        buffer = buffer.slice(end + 2)
+
+        if (data !== null) {
+          if (line === '.') {
+            messages.push(data)
+            data = null
+            reply('250 queued')
+          } else {
+            data += `${line}\r\n`
+          }
+          continue
+        }
+
+        commands.push(line)
+        const verb = line.split(' ')[0].toUpperCase()
+
+        if (verb === 'EHLO') {
+          const features = options.features ?? []
+          reply(features.length ? '250-fake.smtp' : '250 fake.smtp')
+          features.forEach((feature, index) =>
+            reply(`250${index === features.length - 1 ? ' ' : '-'}${feature}`),
+          )
+        } else if (verb === 'AUTH') {
+          reply('235 authenticated')
+        } else if (verb === 'RCPT') {
+          reply(options.rcptReply ?? '250 ok')
+        } else if (verb === 'DATA') {
+          data = ''
+          reply('354 go ahead')
+        } else if (verb === 'QUIT') {
+          reply('221 bye')
+          socket.end()
+        } else {
+          reply('250 ok')
+        }
+      }
+    })
+  })
+
+  return { server, commands, messages }
+}
+
+describe('SmtpTransport', () => {
+  let fake: ReturnType<typeof createFakeSmtp>
+
+  const start = async (options?: FakeSmtpOptions) => {
+    fake = createFakeSmtp(options)
+    await new Promise<void>((resolve) => fake.server.listen(0, '127.0.0.1', resolve))
+    return (fake.server.address() as AddressInfo).port
+  }
+
+  afterEach(async () => {
+    await new Promise((resolve) => fake.server.close(resolve))
+  })
+
+  it('should send the envelope and the dot-stuffed message', async () => {
+    const port = await start()
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, clientName: 'photo.test' })
+
+    await transport.send(
+      { from: 'studio@example.com', to: ['customer@example.com'] },
+      Buffer.from('Subject: Hello\r\n\r\nFirst line\r\n.hidden dot\r\n'),
+    )
+
+    expect(fake.commands).toEqual([
+      'EHLO photo.test',
+      'MAIL FROM:<studio@example.com>',
+      'RCPT TO:<customer@example.com>',
+      'DATA',
+      'QUIT',
+    ])
+    expect(fake.messages).toEqual(['Subject: Hello\r\n\r\nFirst line\r\n..hidden dot\r\n'])
+  })
+
+  it('should authenticate with AUTH PLAIN when credentials are set', async () => {
+    const port = await start({ features: ['AUTH LOGIN PLAIN', 'SIZE 10240000'] })
+    const transport = new SmtpTransport({
+      host: '127.0.0.1',
+      port,
+      user: 'studio',
+      password: 'secret',
+    })
+
+    await transport.send({ from: 'a@example.com', to: ['b@example.com'] }, Buffer.from('x'))
+
+    expect(fake.commands[1]).toBe(
+      `AUTH PLAIN ${Buffer.from('\0studio\0secret').toString('base64')}`,
+    )
+  })
+
+  it('should fail when a recipient is refused', async () => {
+    const port = await start({ rcptReply: '550 mailbox unavailable' })
+    const transport = new SmtpTransport({ host: '127.0.0.1', port })
+
+    const sending = transport.send(
+      { from: 'a@example.com', to: ['b@example.com'] },
+      Buffer.from('x'),
+    )
+
+    await expect(sending).rejects.toBeInstanceOf(SmtpError)
+    await expect(sending).rejects.toMatchObject({
+      code: 550,
+      message: 'SMTP RCPT TO refused: 550 mailbox unavailable',
+    })
+    expect(fake.commands).not.toContain('DATA')
+  })
+
+  it('should refuse to send without STARTTLS when TLS is required', async () => {
+    const port = await start()
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, requireTls: true })
+
+    await expect(
+      transport.send({ from: 'a@example.com', to: ['b@example.com'] }, Buffer.from('x')),
+    ).rejects.toThrow('does not offer STARTTLS')
+    expect(fake.commands).not.toContainEqual(expect.stringMatching(/^MAIL FROM/))
+  })
+})
@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { getModelToken } from '@nestjs/mongoose'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { RetentionService } from '../../src/maintenance/retention.service'
+import { MaintenanceLock } from '../../src/maintenance/maintenance-lock.schema'
+import { OrderService } from '../../src/order/order.service'
+import { ArchiveCacheService } from '../../src/cache/archive-cache.service'
+
+describe('RetentionService', () => {
+  const query = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) })
+
+  const mockLockModel = {
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  }
+
+  const mockOrderService = {
+    markExpiredOrders: jest.fn(),
+    findOrdersPastRetention: jest.fn(),
+    deleteOrders: jest.fn(),
+    anonymizeOrders: jest.fn(),
+    findRetainedOrderIds: jest.fn(),
+  }
+
+  const mockArchiveCacheService = {
+    invalidateOrder: jest.fn(),
+    getCachedOrderIds: jest.fn(),
+  }
+
+  const compileService = async (config: Record<string, unknown> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RetentionService,
+        SchedulerRegistry,
+        { provide: getModelToken(MaintenanceLock.name), useValue: mockLockModel },
+        { provide: OrderService, useValue: mockOrderService },
+        { provide: ArchiveCacheService, useValue: mockArchiveCacheService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ RETENTION_BATCH_SIZE: 2, ...config }),
+        },
+      ],
+    }).compile()
+
+    return module.get<RetentionService>(RetentionService)
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockLockModel.findOneAndUpdate.mockReturnValue(query({ _id: 'order-retention' }))
+    mockLockModel.updateOne.mockReturnValue(query({}))
+    mockOrderService.markExpiredOrders.mockResolvedValue(4)
+    mockOrderService.findOrdersPastRetention
+      .mockResolvedValueOnce(['order1', 'order2'])
+      .mockResolvedValueOnce(['order3'])
+      .mockResolvedValue([])
+    mockOrderService.anonymizeOrders.mockImplementation((ids: string[]) => ids.length)
+    mockOrderService.deleteOrders.mockImplementation((ids: string[]) => ids.length)
+    mockOrderService.findRetainedOrderIds.mockResolvedValue([])
+    mockArchiveCacheService.getCachedOrderIds.mockReturnValue([])
+  })
+
+  it('should mark expired orders and anonymize the ones past the retention window', async () => {
+    const service = await compileService({ RETENTION_DAYS: 30 })
+    const summary = await service.run()
+
+    expect(summary).toMatchObject({
+      lockAcquired: true,
+      markedExpired: 4,
+      action: 'anonymize',
+      purgedOrders: 3,
+      removedArchives: 0,
+    })
+    expect(mockOrderService.anonymizeOrders.mock.calls).toEqual([
+      [['order1', 'order2']],
+      [['order3']],
+    ])
+    expect(mockOrderService.deleteOrders).not.toHaveBeenCalled()
+
+    const [cutoff, batchSize] = mockOrderService.findOrdersPastRetention.mock.calls[0]
+    expect(Math.round((Date.now() - cutoff.getTime()) / 86400000)).toBe(30)
+    expect(batchSize).toBe(2)
+  })
+
+  it('should delete orders and their cached archives when configured to', async () => {
+    const service = await compileService({ RETENTION_ACTION: 'delete' })
+    const summary = await service.run()
+
+    expect(summary!.purgedOrders).toBe(3)
+    expect(mockOrderService.deleteOrders).toHaveBeenCalledTimes(2)
+    expect(mockArchiveCacheService.invalidateOrder.mock.calls).toEqual([
+      ['order1'],
+      ['order2'],
+      ['order3'],
+    ])
+  })
+
+  it('should release the lock after processing the orders', async () => {
+    const service = await compileService()
+    await service.run()
+
+    expect(mockLockModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'order-retention', lockedUntil: { $lte: expect.any(Date) } },
+      expect.anything(),
+      { upsert: true, new: true },
+    )
+    expect(mockLockModel.updateOne).toHaveBeenCalledWith(
+      { _id: 'order-retention', lockedBy: expect.any(String) },
+      { $set: { lockedUntil: expect.any(Date) } },
+    )
+  })
+
+  it('should leave the orders alone while another instance holds the lock', async () => {
+    mockLockModel.findOneAndUpdate.mockReturnValue({
+      exec: jest.fn().mockRejectedValue(Object.assign(new Error('duplicate key'), { code: 11000 })),
+    })
+
+    const service = await compileService()
+    const summary = await service.run()
+
+    expect(summary).toMatchObject({ lockAcquired: false, markedExpired: 0, purgedOrders: 0 })
+    expect(mockOrderService.markExpiredOrders).not.toHaveBeenCalled()
+    expect(mockLockModel.updateOne).not.toHaveBeenCalled()
+  })
+
+  it('should remove cached archives of orders purged by any instance', async () => {
+    mockOrderService.findOrdersPastRetention.mockReset().mockResolvedValue([])
+    mockArchiveCacheService.getCachedOrderIds.mockReturnValue(['order1', 'order9'])
+    mockOrderService.findRetainedOrderIds.mockResolvedValue(['order1'])
+
+    const service = await compileService()
+    const summary = await service.run()
+
+    expect(summary!.removedArchives).toBe(1)
+    expect(mockArchiveCacheService.invalidateOrder).toHaveBeenCalledWith('order9')
+    expect(mockArchiveCacheService.invalidateOrder).not.toHaveBeenCalledWith('order1')
+  })
+
+  it('should not start a run while the previous one is in progress', async () => {
+    const service = await compileService()
+    let finishMarking!: (count: number) => void
+    mockOrderService.markExpiredOrders.mockReturnValue(
+      new Promise<number>((resolve) => (finishMarking = resolve)),
+    )
+
+    const firstRun = service.run()
+    const secondRun = await service.run()
+    finishMarking(0)
+
+    expect(secondRun).toBeNull()
+    expect(await firstRun).not.toBeNull()
+    expect(mockLockModel.findOneAndUpdate).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject an unknown retention action at startup', async () => {
+    const service = await compileService({ RETENTION_ACTION: 'archive' })
+
+    expect(() => service.onModuleInit()).toThrow('Unknown RETENTION_ACTION "archive"')
+  })
+})
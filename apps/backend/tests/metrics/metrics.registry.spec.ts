@@ -0,0 +1,85 @@
+import { MetricsRegistry } from '../../src/metrics/metrics.registry'
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry
+
+  beforeEach(() => {
+    registry = new MetricsRegistry()
+  })
+
+  it('should render counters and gauges with their help and type', () => {
+    const bytes = registry.counter('bytes_total', 'Bytes sent')
+    const inFlight = registry.gauge('in_flight', 'Downloads in flight')
+
+    bytes.inc(1024)
+    bytes.inc(512)
+    inFlight.inc()
+    inFlight.inc()
+    inFlight.dec()
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP bytes_total Bytes sent',
+        '# TYPE bytes_total counter',
+        'bytes_total 1536',
+        '# HELP in_flight Downloads in flight',
+        '# TYPE in_flight gauge',
+        'in_flight 1',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('should keep one series per label set and escape label values', () => {
+    const rejections = registry.counter('rejections_total', 'Refused tokens')
+
+    rejections.inc(1, { reason: 'expired' })
+    rejections.inc(2, { reason: 'invalid' })
+    rejections.inc(1, { reason: 'expired' })
+    rejections.inc(1, { reason: 'say "hi"\n' })
+
+    expect(registry.render()).toContain('rejections_total{reason="expired"} 2')
+    expect(registry.render()).toContain('rejections_total{reason="invalid"} 2')
+    expect(registry.render()).toContain('rejections_total{reason="say \\"hi\\"\\n"} 1')
+    expect(registry.render()).not.toMatch(/^rejections_total \d/m)
+  })
+
+  it('should render cumulative histogram buckets, sum and count', () => {
+    const duration = registry.histogram('setup_seconds', 'Setup time', [0.1, 1, 5])
+
+    duration.observe(0.05)
+    duration.observe(0.5)
+    duration.observe(0.75)
+    duration.observe(12)
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP setup_seconds Setup time',
+        '# TYPE setup_seconds histogram',
+        'setup_seconds_bucket{le="0.1"} 1',
+        'setup_seconds_bucket{le="1"} 3',
+        'setup_seconds_bucket{le="5"} 3',
+        'setup_seconds_bucket{le="+Inf"} 4',
+        'setup_seconds_sum 13.3',
+        'setup_seconds_count 4',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('should time operations in seconds', () => {
+    const duration = registry.histogram('operation_seconds', 'Operation time')
+
+    const elapsed = duration.startTimer()()
+
+    expect(elapsed).toBeGreaterThanOrEqual(0)
+    expect(duration.get()).toEqual({ sum: elapsed, count: 1 })
+  })
+
+  it('should refuse duplicate names and decreasing counters', () => {
+    const counter = registry.counter('files_total', 'Files')
+
+    expect(() => registry.gauge('files_total', 'Files')).toThrow('already registered')
+    expect(() => counter.inc(-1)).toThrow('cannot be decreased')
+  })
+})
@@ -0,0 +1,486 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { getModelToken } from '@nestjs/mongoose'
+import { OrderService } from '../../src/order/order.service'
+import { TokenService } from '../../src/token/token.service'
+import { DownloadEvent, Order } from '../../src/order/order.schema'
+
+describe('OrderService', () => {
+  let service: OrderService
+  let tokenService: TokenService
+
+  const mockOrderModel = {
+    updateOne: jest.fn(),
+    exists: jest.fn(),
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    find: jest.fn(),
+    updateMany: jest.fn(),
+    bulkWrite: jest.fn(),
+    collection: {
+      indexExists: jest.fn(),
+      dropIndex: jest.fn(),
+    },
+  }
+
+  const buildEvent = (overrides: Partial<DownloadEvent>): DownloadEvent =>
+    ({
+      startedAt: new Date('2025-08-10T09:00:00.000Z'),
+      finishedAt: null,
+      status: 'completed',
+      rangeStart: 0,
+      rangeEnd: 999,
+      bytesSent: 1000,
+      archiveSize: 1000,
+      archiveEtag: '"v1"',
+      ...overrides,
+    }) as DownloadEvent
+
+  const buildOrder = (overrides: Partial<Order>): Order =>
+    ({
+      customerEmail: 'test@example.com',
+      maxDownloads: null,
+      downloadCount: 0,
+      downloadEvents: [],
+      ...overrides,
+    }) as Order
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderService,
+        { provide: getModelToken(Order.name), useValue: mockOrderModel },
+        TokenService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ TOKEN_SECRET: 'unit-test-secret-that-is-long-enough' }),
+        },
+      ],
+    }).compile()
+
+    service = module.get<OrderService>(OrderService)
+    tokenService = module.get<TokenService>(TokenService)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('findByToken', () => {
+    it('should look the order up by the token hash', async () => {
+      const token = tokenService.generateToken()
+      const order = { downloadTokenHash: tokenService.hashToken(token) }
+      mockOrderModel.findOne.mockReturnValue({ exec: () => Promise.resolve(order) })
+
+      expect(await service.findByToken(token)).toBe(order)
+      expect(mockOrderModel.findOne).toHaveBeenCalledWith({
+        downloadTokenHash: order.downloadTokenHash,
+      })
+    })
+
+    it('should return null for unknown tokens', async () => {
+      mockOrderModel.findOne.mockReturnValue({ exec: () => Promise.resolve(null) })
+
+      expect(await service.findByToken('unknown')).toBeNull()
+    })
+  })
+
+  describe('migratePlaintextTokens', () => {
+    it('should replace plaintext tokens with their hash', async () => {
+      const legacyOrder = { _id: 'order1', downloadToken: '0123456789abcdef' }
+      mockOrderModel.collection.indexExists.mockResolvedValue(true)
+      mockOrderModel.find.mockReturnValue({
+        select: () => ({ exec: () => Promise.resolve([legacyOrder]) }),
+      })
+
+      const migrated = await service.migratePlaintextTokens()
+
+      expect(migrated).toBe(1)
+      expect(mockOrderModel.collection.dropIndex).toHaveBeenCalledWith('downloadToken_1')
+      expect(mockOrderModel.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { _id: 'order1' },
+            update: {
+              $set: { downloadTokenHash: tokenService.hashToken('0123456789abcdef') },
+              $unset: { downloadToken: 1 },
+            },
+          },
+        },
+      ])
+    })
+
+    it('should do nothing once every order is migrated', async () => {
+      mockOrderModel.collection.indexExists.mockResolvedValue(false)
+      mockOrderModel.find.mockReturnValue({ select: () => ({ exec: () => Promise.resolve([]) }) })
+
+      expect(await service.migratePlaintextTokens()).toBe(0)
+      expect(mockOrderModel.collection.dropIndex).not.toHaveBeenCalled()
+      expect(mockOrderModel.bulkWrite).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('startDownloadEvent', () => {
+    const input = {
+      rangeStart: 0,
+      rangeEnd: 999,
+      archiveSize: 1000,
+      archiveEtag: '"v1"',
+      quotaEtag: '"v1"',
+    }
+    const modified = (modifiedCount: number) => ({
+      exec: () => Promise.resolve({ modifiedCount }),
+    })
+
+    it('should count downloads from the first byte against the quota', async () => {
+      mockOrderModel.updateOne.mockReturnValue(modified(1))
+
+      const eventId = await service.startDownloadEvent('order1', input)
+
+      expect(eventId).toEqual(expect.any(String))
+      expect(mockOrderModel.updateOne).toHaveBeenCalledTimes(1)
+      const [filter, update] = mockOrderModel.updateOne.mock.calls[0]
+      expect(filter.$or).toBeDefined()
+      expect(update.$inc).toEqual({ downloadCount: 1 })
+      expect(update.$push.downloadEvents.$each[0]).toMatchObject({ counted: true })
+      expect(update.$push.downloadEvents.$slice).toBe(-500)
+    })
+
+    it('should not count resumed downloads of an archive already counted', async () => {
+      mockOrderModel.updateOne.mockReturnValue(modified(1))
+
+      await service.startDownloadEvent('order1', { ...input, rangeStart: 500 })
+
+      expect(mockOrderModel.updateOne).toHaveBeenCalledTimes(1)
+      const [filter, update] = mockOrderModel.updateOne.mock.calls[0]
+      expect(filter).toEqual({
+        _id: 'order1',
+        downloadEvents: { $elemMatch: { quotaEtag: '"v1"', counted: true } },
+      })
+      expect(update.$inc).toBeUndefined()
+      expect(update.$push.downloadEvents.$each[0]).toMatchObject({ counted: false })
+    })
+
+    it('should count a range of an archive that was never counted', async () => {
+      mockOrderModel.updateOne.mockReturnValueOnce(modified(0)).mockReturnValueOnce(modified(1))
+
+      expect(await service.startDownloadEvent('order1', { ...input, rangeStart: 1 })).toEqual(
+        expect.any(String),
+      )
+
+      const [, [filter, update]] = mockOrderModel.updateOne.mock.calls
+      expect(filter.$or).toBeDefined()
+      expect(update.$inc).toEqual({ downloadCount: 1 })
+    })
+
+    it('should count a split download once, for the validator of its first part', async () => {
+      mockOrderModel.updateOne.mockReturnValue(modified(1))
+
+      await service.startDownloadEvent('order1', {
+        ...input,
+        archiveEtag: '"part2"',
+        quotaEtag: '"part1"',
+        part: 2,
+        partCount: 2,
+      })
+
+      const [[filter, update]] = mockOrderModel.updateOne.mock.calls
+      expect(filter.downloadEvents).toEqual({
+        $elemMatch: { quotaEtag: '"part1"', counted: true },
+      })
+      expect(update.$inc).toBeUndefined()
+    })
+
+    it('should return null when the quota is used up', async () => {
+      mockOrderModel.updateOne.mockReturnValue(modified(0))
+
+      expect(await service.startDownloadEvent('order1', input)).toBeNull()
+      expect(await service.startDownloadEvent('order1', { ...input, rangeStart: 1 })).toBeNull()
+    })
+  })
+
+  describe('countFileDownload', () => {
+    const modified = (modifiedCount: number) => ({
+      exec: () => Promise.resolve({ modifiedCount }),
+    })
+
+    it('should count each file on its own, apart from the archive downloads', async () => {
+      mockOrderModel.updateOne.mockReturnValue(modified(1))
+
+      expect(await service.countFileDownload('order1', 'web', '0.abc', 0)).toBe(true)
+
+      expect(mockOrderModel.exists).not.toHaveBeenCalled()
+      const [[filter, update]] = mockOrderModel.updateOne.mock.calls
+      expect(filter.$or[1]).toEqual({
+        $expr: { $lt: [{ $ifNull: ['$fileDownloadCounts.web:0:abc', 0] }, '$maxDownloads'] },
+      })
+      expect(update).toEqual({ $inc: { 'fileDownloadCounts.web:0:abc': 1 } })
+    })
+
+    it('should not count resumed requests of a file already counted', async () => {
+      mockOrderModel.exists.mockResolvedValue({ _id: 'order1' })
+
+      expect(await service.countFileDownload('order1', 'full', '0.abc', 500)).toBe(true)
+
+      expect(mockOrderModel.exists).toHaveBeenCalledWith({
+        _id: 'order1',
+        'fileDownloadCounts.full:0:abc': { $gte: 1 },
+      })
+      expect(mockOrderModel.updateOne).not.toHaveBeenCalled()
+    })
+
+    it('should refuse a file served maxDownloads times', async () => {
+      mockOrderModel.exists.mockResolvedValue(null)
+      mockOrderModel.updateOne.mockReturnValue(modified(0))
+
+      expect(await service.countFileDownload('order1', 'full', '0.abc', 500)).toBe(false)
+      expect(mockOrderModel.updateOne).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('cancelDownloadEvent', () => {
+    it('should give back the download of a counted event', async () => {
+      mockOrderModel.updateOne.mockReturnValue({
+        exec: () => Promise.resolve({ modifiedCount: 1 }),
+      })
+
+      await service.cancelDownloadEvent('order1', 'event1')
+
+      expect(mockOrderModel.updateOne).toHaveBeenCalledTimes(1)
+      const [filter, update] = mockOrderModel.updateOne.mock.calls[0]
+      expect(filter.downloadEvents).toEqual({ $elemMatch: { _id: 'event1', counted: true } })
+      expect(update.$set).toMatchObject({
+        'downloadEvents.$.status': 'aborted',
+        'downloadEvents.$.counted': false,
+      })
+      expect(update.$inc).toEqual({ downloadCount: -1 })
+    })
+
+    it('should only mark a free event as aborted', async () => {
+      mockOrderModel.updateOne
+        .mockReturnValueOnce({ exec: () => Promise.resolve({ modifiedCount: 0 }) })
+        .mockReturnValueOnce({ exec: () => Promise.resolve({ modifiedCount: 1 }) })
+
+      await service.cancelDownloadEvent('order1', 'event1')
+
+      const [, [filter, update]] = mockOrderModel.updateOne.mock.calls
+      expect(filter).toEqual({ _id: 'order1', 'downloadEvents._id': 'event1' })
+      expect(update.$set['downloadEvents.$.status']).toBe('aborted')
+      expect(update.$inc).toBeUndefined()
+    })
+  })
+
+  describe('recordChecksums', () => {
+    it('should keep the first checksum of each file and only record new ones', async () => {
+      const recordedAt = new Date('2025-08-10T09:00:00.000Z')
+      mockOrderModel.findById.mockReturnValue({
+        exec: () =>
+          Promise.resolve(
+            buildOrder({
+              checksums: [
+                { variant: 'full', name: 'a.jpg', size: 10, sha256: 'aaa', recordedAt },
+                { variant: 'web', name: 'b.jpg', size: 10, sha256: 'www', recordedAt },
+              ],
+            }),
+          ),
+      })
+      mockOrderModel.updateOne.mockReturnValue({ exec: () => Promise.resolve({}) })
+
+      const recorded = await service.recordChecksums('order1', 'full', [
+        { name: 'a.jpg', size: 10, sha256: 'changed' },
+        { name: 'b.jpg', size: 10, sha256: 'bbb' },
+      ])
+
+      expect(recorded).toEqual(['aaa', 'bbb'])
+      const [filter, update] = mockOrderModel.updateOne.mock.calls[0]
+      expect(filter).toEqual({ _id: 'order1' })
+      expect(update.$push.checksums.$each).toEqual([
+        { variant: 'full', name: 'b.jpg', size: 10, sha256: 'bbb', recordedAt: expect.any(Date) },
+      ])
+    })
+  })
+
+  describe('setDeliveryReport', () => {
+    it('should replace the report with a dated one, or clear it', async () => {
+      mockOrderModel.updateOne.mockReturnValue({ exec: () => Promise.resolve({}) })
+      const report = {
+        variant: 'full' as const,
+        directoryIndex: null,
+        skippedDirectories: [{ index: 1, path: 'event1', reason: 'directory not found' }],
+        unreadableFiles: [],
+        aborted: false,
+      }
+
+      await service.setDeliveryReport('order1', report)
+      await service.setDeliveryReport('order1', null)
+
+      const [[filter, update], [, cleared]] = mockOrderModel.updateOne.mock.calls
+      expect(filter).toEqual({ _id: 'order1' })
+      expect(update.$set.deliveryReport).toEqual({ ...report, recordedAt: expect.any(Date) })
+      expect(cleared).toEqual({ $set: { deliveryReport: null } })
+    })
+  })
+
+  describe('mail delivery', () => {
+    it('should record each attempt with its date', async () => {
+      mockOrderModel.updateOne.mockReturnValue({ exec: () => Promise.resolve({}) })
+
+      await service.recordMailAttempt('order1', {
+        kind: 'reminder',
+        to: 'test@example.com',
+        status: 'failed',
+        error: 'SMTP server did not answer within 30000ms',
+      })
+
+      const [filter, update] = mockOrderModel.updateOne.mock.calls[0]
+      expect(filter).toEqual({ _id: 'order1' })
+      expect(update.$push.mailAttempts).toEqual({
+        kind: 'reminder',
+        to: 'test@example.com',
+        status: 'failed',
+        messageId: null,
+        error: 'SMTP server did not answer within 30000ms',
+        attemptedAt: expect.any(Date),
+      })
+    })
+
+    it('should let a single caller claim the reminder of an order', async () => {
+      mockOrderModel.updateOne
+        .mockReturnValueOnce({ exec: () => Promise.resolve({ modifiedCount: 1 }) })
+        .mockReturnValueOnce({ exec: () => Promise.resolve({ modifiedCount: 0 }) })
+
+      await expect(service.claimReminder('order1')).resolves.toBe(true)
+      await expect(service.claimReminder('order1')).resolves.toBe(false)
+
+      const [filter, update] = mockOrderModel.updateOne.mock.calls[0]
+      expect(filter).toEqual({ _id: 'order1', reminderSentAt: null })
+      expect(update.$set.reminderSentAt).toEqual(expect.any(Date))
+    })
+  })
+
+  describe('getDeliverySummary', () => {
+    it('should report an order without downloads as not delivered', () => {
+      const summary = service.getDeliverySummary(buildOrder({ maxDownloads: 2 }))
+
+      expect(summary).toEqual({
+        fullyDelivered: false,
+        remainingDownloads: 2,
+        lastDownloadAt: null,
+      })
+    })
+
+    it('should report a completed download as delivered', () => {
+      const summary = service.getDeliverySummary(
+        buildOrder({ downloadCount: 1, downloadEvents: [buildEvent({})] }),
+      )
+
+      expect(summary.fullyDelivered).toBe(true)
+      expect(summary.remainingDownloads).toBeNull()
+    })
+
+    it('should combine an aborted download with its resumed range', () => {
+      const summary = service.getDeliverySummary(
+        buildOrder({
+          downloadEvents: [
+            buildEvent({ status: 'aborted', bytesSent: 800 }),
+            buildEvent({ rangeStart: 800, bytesSent: 200 }),
+          ],
+        }),
+      )
+
+      expect(summary.fullyDelivered).toBe(true)
+    })
+
+    it('should not combine spans of different archive versions', () => {
+      const summary = service.getDeliverySummary(
+        buildOrder({
+          downloadEvents: [
+            buildEvent({ status: 'aborted', bytesSent: 800 }),
+            buildEvent({ rangeStart: 800, bytesSent: 200, archiveEtag: '"v2"' }),
+          ],
+        }),
+      )
+
+      expect(summary.fullyDelivered).toBe(false)
+    })
+
+    it('should not report delivery when bytes are missing in the middle', () => {
+      const summary = service.getDeliverySummary(
+        buildOrder({
+          maxDownloads: 1,
+          downloadCount: 1,
+          downloadEvents: [
+            buildEvent({ status: 'aborted', bytesSent: 500 }),
+            buildEvent({ rangeStart: 600, bytesSent: 400 }),
+          ],
+        }),
+      )
+
+      expect(summary.fullyDelivered).toBe(false)
+      expect(summary.remainingDownloads).toBe(0)
+    })
+
+    it('should not report delivery for the download of a single directory', () => {
+      const summary = service.getDeliverySummary(
+        buildOrder({ downloadEvents: [buildEvent({ directoryIndex: 0 })] }),
+      )
+
+      expect(summary.fullyDelivered).toBe(false)
+    })
+
+    it('should report a split download as delivered once every part is', () => {
+      const part = (number: number, overrides: Partial<DownloadEvent> = {}) =>
+        buildEvent({
+          format: 'zip',
+          part: number,
+          partCount: 3,
+          archiveEtag: `"part${number}"`,
+          ...overrides,
+        })
+
+      const missingPart = service.getDeliverySummary(
+        buildOrder({ downloadEvents: [part(1), part(3), part(2, { bytesSent: 10 })] }),
+      )
+      const otherSplit = service.getDeliverySummary(
+        buildOrder({ downloadEvents: [part(1), part(2, { partCount: 2 }), part(3)] }),
+      )
+      const allParts = service.getDeliverySummary(
+        buildOrder({ downloadEvents: [part(1), part(3), part(2)] }),
+      )
+
+      expect(missingPart.fullyDelivered).toBe(false)
+      expect(otherSplit.fullyDelivered).toBe(false)
+      expect(allParts.fullyDelivered).toBe(true)
+    })
+  })
+
+  describe('retention', () => {
+    it('should only flag orders that were not flagged yet', async () => {
+      const now = new Date('2025-09-01T00:00:00.000Z')
+      mockOrderModel.updateMany.mockReturnValue({
+        exec: () => Promise.resolve({ modifiedCount: 3 }),
+      })
+
+      expect(await service.markExpiredOrders(now)).toBe(3)
+      expect(mockOrderModel.updateMany).toHaveBeenCalledWith(
+        { tokenExpiry: { $lte: now }, expiredAt: null },
+        { $set: { expiredAt: now } },
+      )
+    })
+
+    it('should drop the token and client details of anonymized orders', async () => {
+      mockOrderModel.updateMany.mockReturnValue({
+        exec: () => Promise.resolve({ modifiedCount: 2 }),
+      })
+
+      expect(await service.anonymizeOrders(['order1', 'order2'])).toBe(2)
+
+      const [filter, pipeline] = mockOrderModel.updateMany.mock.calls[0]
+      expect(filter).toEqual({ _id: { $in: ['order1', 'order2'] }, anonymizedAt: null })
+      expect(pipeline[0].$set.anonymizedAt).toEqual(expect.any(Date))
+      expect(pipeline[1].$unset).toEqual(
+        expect.arrayContaining(['downloadTokenHash', 'downloadEvents.clientIp']),
+      )
+    })
+  })
+})
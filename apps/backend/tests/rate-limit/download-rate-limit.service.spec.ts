@@ -0,0 +1,117 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { DownloadRateLimitService } from '../../src/rate-limit/download-rate-limit.service'
+import { MemoryRateLimitStore, RATE_LIMIT_STORE } from '../../src/rate-limit/stores'
+
+describe('DownloadRateLimitService', () => {
+  const ip = '203.0.113.42'
+
+  const compileService = async (
+    config: Record<string, unknown> = {},
+    store = new MemoryRateLimitStore(),
+  ) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DownloadRateLimitService,
+        { provide: RATE_LIMIT_STORE, useValue: store },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile()
+
+    return module.get<DownloadRateLimitService>(DownloadRateLimitService)
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-08-10T12:00:00.000Z') })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('consume', () => {
+    it('should refuse requests over the per-IP limit until the window ends', async () => {
+      const service = await compileService({
+        RATE_LIMIT_DOWNLOAD_PER_IP: 2,
+        RATE_LIMIT_WINDOW_SECONDS: 60,
+      })
+
+      expect((await service.consume(ip)).allowed).toBe(true)
+      expect((await service.consume(ip)).allowed).toBe(true)
+      expect(await service.consume(ip)).toEqual({
+        allowed: false,
+        reason: 'ip',
+        retryAfterSeconds: 60,
+      })
+      expect((await service.consume('198.51.100.7')).allowed).toBe(true)
+
+      jest.advanceTimersByTime(60000)
+      expect((await service.consume(ip)).allowed).toBe(true)
+    })
+
+    it('should refuse requests over the global limit', async () => {
+      const service = await compileService({ RATE_LIMIT_DOWNLOAD_GLOBAL: 2 })
+
+      await service.consume('198.51.100.1')
+      await service.consume('198.51.100.2')
+
+      expect(await service.consume('198.51.100.3')).toMatchObject({
+        allowed: false,
+        reason: 'global',
+      })
+    })
+
+    it('should allow requests when the store fails', async () => {
+      const failingStore = new MemoryRateLimitStore()
+      jest.spyOn(failingStore, 'get').mockRejectedValue(new Error('connection refused'))
+      const service = await compileService({}, failingStore)
+
+      expect(await service.consume(ip)).toEqual({ allowed: true })
+    })
+  })
+
+  describe('recordInvalidToken', () => {
+    const config = {
+      RATE_LIMIT_INVALID_TOKEN_THRESHOLD: 3,
+      RATE_LIMIT_LOCKOUT_BASE_SECONDS: 60,
+      RATE_LIMIT_LOCKOUT_MAX_SECONDS: 200,
+    }
+
+    const failRepeatedly = async (service: DownloadRateLimitService, times: number) => {
+      for (let i = 0; i < times; i++) {
+        await service.recordInvalidToken(ip)
+      }
+    }
+
+    it('should lock an IP out after repeated invalid tokens', async () => {
+      const service = await compileService(config)
+
+      await failRepeatedly(service, 2)
+      expect((await service.consume(ip)).allowed).toBe(true)
+
+      await failRepeatedly(service, 1)
+      expect(await service.consume(ip)).toEqual({
+        allowed: false,
+        reason: 'lockout',
+        retryAfterSeconds: 60,
+      })
+
+      jest.advanceTimersByTime(60000)
+      expect((await service.consume(ip)).allowed).toBe(true)
+    })
+
+    it('should double the lockout on each repeat, up to the maximum', async () => {
+      const service = await compileService(config)
+      const lockoutDurations: number[] = []
+
+      for (let i = 0; i < 3; i++) {
+        await failRepeatedly(service, 3)
+        const decision = await service.consume(ip)
+        lockoutDurations.push(decision.retryAfterSeconds!)
+        jest.advanceTimersByTime(decision.retryAfterSeconds! * 1000)
+      }
+
+      expect(lockoutDurations).toEqual([60, 120, 200])
+    })
+  })
+})
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { StorageService } from '../../src/storage/storage.service'
+import { UnreadableObject } from '../../src/storage/drivers'
+
+describe('StorageService', () => {
+  let basePath: string
+
+  const compileService = async (config: Record<string, unknown> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StorageService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ PHOTOS_BASE_PATH: basePath, ...config }),
+        },
+      ],
+    }).compile()
+
+    return module.get<StorageService>(StorageService)
+  }
+
+  const withS3 = {
+    S3_BUCKET: 'photos',
+    S3_ENDPOINT: 'http://localhost:9000',
+    S3_PREFIX: 'archive/',
+  }
+
+  beforeEach(() => {
+    basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'))
+    fs.mkdirSync(path.join(basePath, 'wedding', 'ceremony'), { recursive: true })
+    fs.writeFileSync(path.join(basePath, 'wedding', 'a.jpg'), '0123456789')
+    fs.writeFileSync(path.join(basePath, 'wedding', 'ceremony', 'b.jpg'), 'b')
+  })
+
+  afterEach(() => {
+    fs.rmSync(basePath, { recursive: true, force: true })
+  })
+
+  it('should keep directories without a prefix on the local filesystem', async () => {
+    const service = await compileService()
+
+    expect(service.parseDirectory('wedding/2024')).toEqual({
+      storage: 'local',
+      relativePath: 'wedding/2024',
+    })
+    expect(service.parseDirectory('events:2024')).toEqual({
+      storage: 'local',
+      relativePath: 'events:2024',
+    })
+    expect(service.resolveDirectory('../wedding')).toBe(path.join(basePath, 'wedding'))
+    expect(service.resolveDirectory('local:wedding')).toBe(path.join(basePath, 'wedding'))
+  })
+
+  it('should only resolve S3 directories once a bucket is configured', async () => {
+    const localOnly = await compileService()
+    expect(localOnly.isAvailable('s3:season-2019/wedding')).toBe(false)
+    expect(() => localOnly.resolveDirectory('s3:season-2019/wedding')).toThrow(
+      'Storage "s3" is not configured',
+    )
+
+    const service = await compileService(withS3)
+    expect(service.isAvailable('s3:season-2019/wedding')).toBe(true)
+    expect(service.resolveDirectory('s3:season-2019/wedding')).toBe(
+      's3://photos/archive/season-2019/wedding',
+    )
+    expect(service.isLocal('s3://photos/archive/season-2019/wedding/a.jpg')).toBe(false)
+    expect(service.isLocal(path.join(basePath, 'wedding', 'a.jpg'))).toBe(true)
+  })
+
+  it('should list and read local files through their location', async () => {
+    const service = await compileService(withS3)
+    const location = service.resolveDirectory('wedding')
+
+    const files = await service.listFiles(location)
+
+    expect(files.map((file) => file.relativePath).sort()).toEqual(['a.jpg', 'ceremony/b.jpg'])
+    expect(await service.directoryExists(location)).toBe(true)
+    expect((await service.read(path.join(location, 'a.jpg'), 8, 16)).toString()).toBe('89')
+    expect((await service.stat(path.join(location, 'a.jpg'))).size).toBe(10)
+  })
+
+  it('should leave out unreadable subdirectories only when collecting them', async () => {
+    const service = await compileService()
+    const location = service.resolveDirectory('wedding')
+    const readdir = fs.promises.readdir
+    const readdirSpy = jest
+      .spyOn(fs.promises, 'readdir')
+      .mockImplementation(((dirPath: string, options: object) =>
+        dirPath === path.join(location, 'ceremony')
+          ? Promise.reject(Object.assign(new Error('EACCES'), { code: 'EACCES' }))
+          : readdir(dirPath, options as { withFileTypes: true })) as typeof readdir)
+    const unreadable: UnreadableObject[] = []
+
+    try {
+      await expect(service.listFiles(location)).rejects.toThrow('EACCES')
+      const files = await service.listFiles(location, undefined, unreadable)
+
+      expect(files.map((file) => file.relativePath)).toEqual(['a.jpg'])
+      expect(unreadable).toEqual([{ relativePath: 'ceremony', reason: 'permission denied' }])
+    } finally {
+      readdirSpy.mockRestore()
+    }
+  })
+
+  it('should resolve directories of the named libraries', async () => {
+    const service = await compileService({
+      PHOTO_LIBRARIES: '2024:/mnt/psd2024, studio-b:/mnt/studiob',
+    })
+
+    expect(service.getLibraries().map((library) => library.name)).toEqual(['2024', 'studio-b'])
+    expect(service.resolveDirectory('2024:wedding/../../etc')).toBe('/mnt/psd2024/etc')
+    expect(service.resolveDirectory('studio-b:portraits')).toBe('/mnt/studiob/portraits')
+    expect(service.getLibrary('studio-b:portraits')?.basePath).toBe('/mnt/studiob')
+    expect(service.getLibrary('portraits')).toBeUndefined()
+    expect(service.resolveDirectory('2023:wedding')).toBe(path.join(basePath, '2023:wedding'))
+  })
+
+  it('should refuse invalid library definitions', async () => {
+    await expect(compileService({ PHOTO_LIBRARIES: 's3:/mnt/s3' })).rejects.toThrow(
+      'Invalid photo library name "s3"',
+    )
+    await expect(compileService({ PHOTO_LIBRARIES: '2024:/mnt/a,2024:/mnt/b' })).rejects.toThrow(
+      'Photo library "2024" is defined twice',
+    )
+    await expect(compileService({ PHOTO_LIBRARIES: '2024:mnt/psd2024' })).rejects.toThrow(
+      'Photo library "2024" needs an absolute path',
+    )
+  })
+
+  it('should refuse locations no backend owns', async () => {
+    const service = await compileService()
+
+    expect(() => service.createReadStream('s3://photos/a.jpg')).toThrow(
+      'No storage is configured for s3://photos/a.jpg',
+    )
+  })
+})
@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { ExpiryPolicyService } from '../../src/token/expiry-policy.service'
+
+describe('ExpiryPolicyService', () => {
+  const now = new Date('2025-08-10T12:00:00.000Z')
+
+  const compileService = async (config: Record<string, unknown> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExpiryPolicyService,
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile()
+
+    return module.get<ExpiryPolicyService>(ExpiryPolicyService)
+  }
+
+  describe('resolveExpiry', () => {
+    let service: ExpiryPolicyService
+
+    beforeEach(async () => {
+      service = await compileService()
+    })
+
+    it('should use the default duration when nothing is requested', () => {
+      const { tokenExpiry, policy } = service.resolveExpiry({}, now)
+
+      expect(policy).toEqual({ name: 'default', durationHours: 72 })
+      expect(tokenExpiry).toEqual(new Date('2025-08-13T12:00:00.000Z'))
+    })
+
+    it('should apply a named preset', () => {
+      const { tokenExpiry, policy } = service.resolveExpiry({ expiryPreset: 'short' }, now)
+
+      expect(policy).toEqual({ name: 'short', durationHours: 24 })
+      expect(tokenExpiry).toEqual(new Date('2025-08-11T12:00:00.000Z'))
+    })
+
+    it('should accept a duration in hours', () => {
+      const { tokenExpiry, policy } = service.resolveExpiry({ expiresInHours: 720 }, now)
+
+      expect(policy).toEqual({ name: 'custom', durationHours: 720 })
+      expect(tokenExpiry).toEqual(new Date('2025-09-09T12:00:00.000Z'))
+    })
+
+    it('should accept an absolute date', () => {
+      const { tokenExpiry, policy } = service.resolveExpiry(
+        { expiresAt: '2025-08-12T12:00:00.000Z' },
+        now,
+      )
+
+      expect(policy).toEqual({ name: 'custom', durationHours: 48 })
+      expect(tokenExpiry).toEqual(new Date('2025-08-12T12:00:00.000Z'))
+    })
+
+    it('should reject durations outside the configured bounds', () => {
+      expect(() => service.resolveExpiry({ expiresInHours: 0.5 }, now)).toThrow(BadRequestException)
+      expect(() => service.resolveExpiry({ expiresInHours: 721 }, now)).toThrow(BadRequestException)
+      expect(() => service.resolveExpiry({ expiresAt: '2025-08-01T00:00:00.000Z' }, now)).toThrow(
+        BadRequestException,
+      )
+    })
+
+    it('should reject unknown presets and conflicting options', () => {
+      expect(() => service.resolveExpiry({ expiryPreset: 'forever' }, now)).toThrow(
+        'Unknown expiry preset "forever"',
+      )
+      expect(() =>
+        service.resolveExpiry({ expiresInHours: 24, expiryPreset: 'short' }, now),
+      ).toThrow(BadRequestException)
+    })
+  })
+
+  describe('assertAllowedExpiry', () => {
+    let service: ExpiryPolicyService
+
+    beforeEach(async () => {
+      service = await compileService({ TOKEN_EXPIRY_MAX_HOURS: 240 })
+    })
+
+    it('should accept a new expiry date within the bounds', () => {
+      expect(() =>
+        service.assertAllowedExpiry(new Date('2025-08-20T12:00:00.000Z'), now),
+      ).not.toThrow()
+    })
+
+    it('should reject a new expiry date outside the bounds', () => {
+      expect(() => service.assertAllowedExpiry(new Date('2035-08-10T12:00:00.000Z'), now)).toThrow(
+        'Token expiry must be between 1 and 240 hours from now',
+      )
+      expect(() => service.assertAllowedExpiry(new Date('2025-08-10T12:30:00.000Z'), now)).toThrow(
+        BadRequestException,
+      )
+    })
+  })
+
+  describe('configuration', () => {
+    it('should read presets from the environment', async () => {
+      const service = await compileService({ TOKEN_EXPIRY_PRESETS: 'day:24, month : 720' })
+
+      expect(service.getPresets()).toEqual({ day: 24, month: 720 })
+    })
+
+    it('should fail at startup when the default is outside the bounds', async () => {
+      const service = await compileService({ TOKEN_EXPIRY_DEFAULT_HOURS: 2000 })
+
+      expect(() => service.onModuleInit()).toThrow('Invalid token expiry configuration')
+    })
+
+    it('should fail at startup when a preset is outside the bounds', async () => {
+      const service = await compileService({ TOKEN_EXPIRY_PRESETS: 'forever:100000' })
+
+      expect(() => service.onModuleInit()).toThrow('Token expiry preset "forever"')
+    })
+  })
+})
@@ -1,34 +1,44 @@
 import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
 import { TokenService } from '../../src/token/token.service'
 
 describe('TokenService', () => {
   let service: TokenService
 
-  beforeEach(async () => {
+  const secret = 'test-secret-that-is-long-enough-for-hmac'
+
+  const compileService = async (config: Record<string, unknown>) => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [TokenService],
+      providers: [TokenService, { provide: ConfigService, useValue: new ConfigService(config) }],
     }).compile()
 
-    service = module.get<TokenService>(TokenService)
+    return module.get<TokenService>(TokenService)
+  }
+
+  beforeEach(async () => {
+    service = await compileService({ TOKEN_SECRET: secret })
   })
 
   describe('generateToken', () => {
-    it('should generate a token with default size (8 bytes = 16 hex chars)', () => {
+    it('should generate a token with default size (32 bytes = 43 base64url chars)', () => {
       const token = service.generateToken()
 
       expect(token).toBeDefined()
       expect(typeof token).toBe('string')
-      expect(token).toHaveLength(16) // 8 bytes * 2 hex chars per byte
-      expect(token).toMatch(/^[a-f0-9]{16}$/i) // hex characters only
+      expect(token).toHaveLength(43) // 32 bytes, unpadded base64url
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/) // URL-safe characters only
     })
 
     it('should generate a token with custom size', () => {
-      const token = service.generateToken(12)
+      const token = service.generateToken(48)
 
-      expect(token).toBeDefined()
-      expect(typeof token).toBe('string')
-      expect(token).toHaveLength(24) // 12 bytes * 2 hex chars per byte
-      expect(token).toMatch(/^[a-f0-9]{24}$/i) // hex characters only
+      expect(token).toHaveLength(64) // 48 bytes * 4/3
+      expect(token).toMatch(/^[A-Za-z0-9_-]{64}$/)
+    })
+
+    it('should refuse sizes below 32 bytes', () => {
+      expect(() => service.generateToken(16)).toThrow('at least 32 bytes')
+      expect(() => service.generateToken(0)).toThrow('at least 32 bytes')
     })
 
     it('should generate unique tokens', () => {
@@ -38,24 +48,6 @@ describe('TokenService', () => {
       expect(token1).not.toBe(token2)
     })
 
-    it('should generate tokens with different sizes', () => {
-      const small = service.generateToken(4)
-      const medium = service.generateToken(8)
-      const large = service.generateToken(16)
-
-      expect(small).toHaveLength(8) // 4 bytes * 2
-      expect(medium).toHaveLength(16) // 8 bytes * 2
-      expect(large).toHaveLength(32) // 16 bytes * 2
-    })
-
-    it('should handle edge cases', () => {
-      const tiny = service.generateToken(1)
-      const zero = service.generateToken(0)
-
-      expect(tiny).toHaveLength(2) // 1 byte * 2
-      expect(zero).toHaveLength(0) // 0 bytes
-    })
-
     it('should generate cryptographically random tokens', () => {
       // Generate multiple tokens and ensure they're all different
       const tokens = new Set()
@@ -69,4 +61,67 @@ describe('TokenService', () => {
       expect(tokens.size).toBe(count)
     })
   })
+
+  describe('hashToken', () => {
+    it('should produce a stable HMAC-SHA256 that differs from the token', () => {
+      const token = service.generateToken()
+      const hash = service.hashToken(token)
+
+      expect(hash).toMatch(/^[a-f0-9]{64}$/)
+      expect(hash).not.toContain(token)
+      expect(service.hashToken(token)).toBe(hash)
+    })
+
+    it('should depend on the server secret', async () => {
+      const otherService = await compileService({
+        TOKEN_SECRET: 'another-secret-that-is-long-enough-too',
+      })
+
+      expect(otherService.hashToken('token')).not.toBe(service.hashToken('token'))
+    })
+  })
+
+  describe('verifyToken', () => {
+    it('should accept the token matching a hash', () => {
+      const token = service.generateToken()
+
+      expect(service.verifyToken(token, service.hashToken(token))).toBe(true)
+    })
+
+    it('should reject other tokens and malformed hashes', () => {
+      const hash = service.hashToken(service.generateToken())
+
+      expect(service.verifyToken(service.generateToken(), hash)).toBe(false)
+      expect(service.verifyToken('token', 'abc')).toBe(false)
+    })
+  })
+
+  describe('sealToken', () => {
+    it('should encrypt a token that only the same secret can open', async () => {
+      const token = service.generateToken()
+      const sealed = service.sealToken(token)
+      const otherService = await compileService({
+        TOKEN_SECRET: 'another-secret-that-is-long-enough-too',
+      })
+
+      expect(sealed).not.toContain(token)
+      expect(service.sealToken(token)).not.toBe(sealed)
+      expect(service.openSealedToken(sealed)).toBe(token)
+      expect(() => otherService.openSealedToken(sealed)).toThrow()
+    })
+  })
+
+  describe('configuration', () => {
+    it('should fail at startup without a secret', async () => {
+      const unconfigured = await compileService({})
+
+      expect(() => unconfigured.onModuleInit()).toThrow('TOKEN_SECRET')
+    })
+
+    it('should fail at startup when the secret is too short', async () => {
+      const weak = await compileService({ TOKEN_SECRET: 'short' })
+
+      expect(() => weak.onModuleInit()).toThrow('Invalid token configuration')
+    })
+  })
 })
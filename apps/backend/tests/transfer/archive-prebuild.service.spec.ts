@@ -0,0 +1,257 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { getModelToken } from '@nestjs/mongoose'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { ArchivePrebuildService } from '../../src/transfer/services/archive-prebuild.service'
+import { PrebuildJob, PrebuildJobDocument } from '../../src/transfer/prebuild-job.schema'
+import { OrderService } from '../../src/order/order.service'
+import { ZipLayoutService } from '../../src/transfer/services/zip-layout.service'
+import { ArchiveCacheService } from '../../src/cache/archive-cache.service'
+
+describe('ArchivePrebuildService', () => {
+  let service: ArchivePrebuildService
+
+  const query = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) })
+
+  const mockJobModel = {
+    create: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn<unknown, [unknown, { $set: Record<string, any> }]>(),
+  }
+
+  const mockOrderService = {
+    findById: jest.fn(),
+    setArchiveStatus: jest.fn(),
+  }
+
+  const layout = { etag: '"etag1"', totalSize: 4096, entries: [{}, {}] }
+  const archiveStream = { kind: 'archive stream' }
+
+  const mockZipLayoutService = {
+    buildLayout: jest.fn(),
+    createStream: jest.fn(),
+  }
+
+  const mockArchiveCacheService = {
+    getMaxSizeBytes: jest.fn(),
+    has: jest.fn(),
+    store: jest.fn<Promise<unknown>, [{ variant: string }, unknown]>(),
+  }
+
+  const createJob = (attempts = 1) =>
+    ({
+      _id: 'job1',
+      id: 'job1',
+      orderId: { toString: () => 'order1' },
+      attempts,
+    }) as unknown as PrebuildJobDocument
+
+  const compileService = async (config: Record<string, unknown> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ArchivePrebuildService,
+        SchedulerRegistry,
+        { provide: getModelToken(PrebuildJob.name), useValue: mockJobModel },
+        { provide: OrderService, useValue: mockOrderService },
+        { provide: ZipLayoutService, useValue: mockZipLayoutService },
+        { provide: ArchiveCacheService, useValue: mockArchiveCacheService },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile()
+
+    return module.get<ArchivePrebuildService>(ArchivePrebuildService)
+  }
+
+  const waitForIdle = async () => {
+    do {
+      await new Promise((resolve) => setImmediate(resolve))
+    } while (service.getActiveJobCount() > 0)
+  }
+
+  const jobUpdates = () => mockJobModel.updateOne.mock.calls.map(([, update]) => update.$set)
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockJobModel.findOneAndUpdate.mockReturnValue(query(null))
+    mockJobModel.updateOne.mockReturnValue(query({}))
+    mockOrderService.findById.mockResolvedValue({
+      id: 'order1',
+      directoryPaths: ['event1'],
+      revokedAt: null,
+      tokenExpiry: new Date(Date.now() + 3600000),
+    })
+    mockZipLayoutService.buildLayout.mockResolvedValue(layout)
+    mockZipLayoutService.createStream.mockReturnValue(archiveStream)
+    mockArchiveCacheService.getMaxSizeBytes.mockReturnValue(1024 * 1024)
+    mockArchiveCacheService.has.mockReturnValue(false)
+    mockArchiveCacheService.store.mockResolvedValue({})
+
+    service = await compileService()
+  })
+
+  afterEach(() => {
+    service.onModuleDestroy()
+  })
+
+  it('should persist a queued job when an order is created', async () => {
+    await service.enqueue('order1')
+
+    expect(mockJobModel.create).toHaveBeenCalledWith({
+      orderId: 'order1',
+      status: 'queued',
+      runAfter: expect.any(Date),
+    })
+    expect(mockOrderService.setArchiveStatus).toHaveBeenCalledWith('order1', 'queued')
+  })
+
+  it('should not queue anything when pre-building is disabled', async () => {
+    service = await compileService({ PREBUILD_ENABLED: 'false' })
+
+    await service.enqueue('order1')
+
+    expect(mockJobModel.create).not.toHaveBeenCalled()
+    expect(mockOrderService.setArchiveStatus).not.toHaveBeenCalled()
+  })
+
+  it('should build the archive into the cache and mark the order ready', async () => {
+    mockJobModel.findOneAndUpdate.mockReturnValueOnce(query(createJob()))
+
+    await service.poll()
+    await waitForIdle()
+
+    expect(mockArchiveCacheService.store).toHaveBeenCalledWith(
+      { orderId: 'order1', variant: 'full', contentHash: '"etag1"', size: 4096 },
+      archiveStream,
+    )
+    expect(mockOrderService.setArchiveStatus.mock.calls).toEqual([
+      ['order1', 'building'],
+      ['order1', 'ready'],
+    ])
+    expect(jobUpdates()).toContainEqual(expect.objectContaining({ status: 'completed' }))
+  })
+
+  it('should build an archive for every variant of the order', async () => {
+    mockJobModel.findOneAndUpdate.mockReturnValueOnce(query(createJob()))
+    mockOrderService.findById.mockResolvedValue({
+      id: 'order1',
+      directoryPaths: ['event1'],
+      variants: ['full', 'web'],
+      privacyMode: true,
+      revokedAt: null,
+      tokenExpiry: new Date(Date.now() + 3600000),
+    })
+
+    await service.poll()
+    await waitForIdle()
+
+    expect(mockZipLayoutService.buildLayout.mock.calls).toEqual([
+      [['event1'], { variant: 'full', privacyMode: true, format: 'zip', waitForVariants: true }],
+      [['event1'], { variant: 'web', privacyMode: true, format: 'zip', waitForVariants: true }],
+    ])
+    expect(mockArchiveCacheService.store.mock.calls.map(([key]) => key.variant)).toEqual([
+      'full',
+      'web',
+    ])
+    expect(mockOrderService.setArchiveStatus).toHaveBeenLastCalledWith('order1', 'ready')
+  })
+
+  it('should claim due jobs and jobs whose worker stopped refreshing the lock', async () => {
+    await service.poll()
+
+    const [filter, update] = mockJobModel.findOneAndUpdate.mock.calls[0]
+    const [queued, stale] = filter.$or
+
+    expect(queued).toEqual({ status: 'queued', runAfter: { $lte: expect.any(Date) } })
+    expect(stale.status).toBe('running')
+    expect(Date.now() - stale.lockedAt.$lte.getTime()).toBeGreaterThanOrEqual(300000)
+    expect(update.$inc).toEqual({ attempts: 1 })
+  })
+
+  it('should not rebuild an archive that is already cached', async () => {
+    mockJobModel.findOneAndUpdate.mockReturnValueOnce(query(createJob()))
+    mockArchiveCacheService.has.mockReturnValue(true)
+
+    await service.poll()
+    await waitForIdle()
+
+    expect(mockArchiveCacheService.store).not.toHaveBeenCalled()
+    expect(mockOrderService.setArchiveStatus).toHaveBeenLastCalledWith('order1', 'ready')
+  })
+
+  it('should retry failed builds with exponential backoff', async () => {
+    mockJobModel.findOneAndUpdate.mockReturnValueOnce(query(createJob(2)))
+    mockArchiveCacheService.store.mockRejectedValue(new Error('NAS unavailable'))
+
+    await service.poll()
+    await waitForIdle()
+
+    const retry = jobUpdates().find((update) => update.status === 'queued')!
+    const delayMs = retry.runAfter.getTime() - Date.now()
+
+    expect(retry.lastError).toBe('NAS unavailable')
+    expect(delayMs).toBeGreaterThan(59000)
+    expect(delayMs).toBeLessThanOrEqual(60000)
+    expect(mockOrderService.setArchiveStatus).toHaveBeenLastCalledWith(
+      'order1',
+      'queued',
+      'NAS unavailable',
+    )
+  })
+
+  it('should give up after the last attempt', async () => {
+    mockJobModel.findOneAndUpdate.mockReturnValueOnce(query(createJob(5)))
+    mockArchiveCacheService.store.mockRejectedValue(new Error('NAS unavailable'))
+
+    await service.poll()
+    await waitForIdle()
+
+    expect(jobUpdates()).toContainEqual(
+      expect.objectContaining({ status: 'failed', lastError: 'NAS unavailable' }),
+    )
+    expect(mockOrderService.setArchiveStatus).toHaveBeenLastCalledWith(
+      'order1',
+      'failed',
+      'NAS unavailable',
+    )
+  })
+
+  it('should not retry builds of revoked orders', async () => {
+    mockJobModel.findOneAndUpdate.mockReturnValueOnce(query(createJob()))
+    mockOrderService.findById.mockResolvedValue({
+      id: 'order1',
+      directoryPaths: ['event1'],
+      revokedAt: new Date(),
+      tokenExpiry: new Date(Date.now() + 3600000),
+    })
+
+    await service.poll()
+    await waitForIdle()
+
+    expect(mockZipLayoutService.buildLayout).not.toHaveBeenCalled()
+    expect(mockOrderService.setArchiveStatus).toHaveBeenLastCalledWith(
+      'order1',
+      'failed',
+      'Order is revoked or expired',
+    )
+  })
+
+  it('should not run more jobs than the concurrency limit', async () => {
+    service = await compileService({ PREBUILD_CONCURRENCY: 2 })
+    mockJobModel.findOneAndUpdate.mockReturnValue(query(createJob()))
+
+    let finishBuilds!: () => void
+    const builds = new Promise<void>((resolve) => (finishBuilds = resolve))
+    mockArchiveCacheService.store.mockReturnValue(builds)
+
+    await service.poll()
+
+    expect(mockJobModel.findOneAndUpdate).toHaveBeenCalledTimes(2)
+    expect(service.getActiveJobCount()).toBe(2)
+
+    mockJobModel.findOneAndUpdate.mockReturnValue(query(null))
+    finishBuilds()
+    await waitForIdle()
+
+    expect(service.getActiveJobCount()).toBe(0)
+  })
+})
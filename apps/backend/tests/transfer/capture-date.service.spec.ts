@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { CaptureDateService } from '../../src/transfer/services/capture-date.service'
+import { PhotoFile } from '../../src/transfer/services/photos-config.service'
+import { StorageService } from '../../src/storage/storage.service'
+
+const DATE_TIME = 0x0132
+const EXIF_IFD = 0x8769
+const DATE_TIME_ORIGINAL = 0x9003
+
+/**
+ * Little-endian TIFF structure with IFD0 holding DateTime and, when given, an Exif
+ * directory holding DateTimeOriginal
+ */
+function buildTiff(dateTime: string, dateTimeOriginal?: string): Buffer {
+  const ifd0Entries = dateTimeOriginal ? 2 : 1
+  const ifd0Size = 2 + ifd0Entries * 12 + 4
+  const exifOffset = 8 + ifd0Size
+  const exifSize = dateTimeOriginal ? 2 + 12 + 4 : 0
+  const dataOffset = exifOffset + exifSize
+  const buffer = Buffer.alloc(dataOffset + 40)
+
+  const writeEntry = (
+    position: number,
+    tag: number,
+    type: number,
+    count: number,
+    value: number,
+  ) => {
+    buffer.writeUInt16LE(tag, position)
+    buffer.writeUInt16LE(type, position + 2)
+    buffer.writeUInt32LE(count, position + 4)
+    buffer.writeUInt32LE(value, position + 8)
+  }
+
+  buffer.write('II*\0', 0, 'latin1')
+  buffer.writeUInt32LE(8, 4)
+  buffer.writeUInt16LE(ifd0Entries, 8)
+  writeEntry(10, DATE_TIME, 2, 20, dataOffset)
+  buffer.write(`${dateTime}\0`, dataOffset, 'latin1')
+
+  if (dateTimeOriginal) {
+    writeEntry(22, EXIF_IFD, 4, 1, exifOffset)
+    buffer.writeUInt16LE(1, exifOffset)
+    writeEntry(exifOffset + 2, DATE_TIME_ORIGINAL, 2, 20, dataOffset + 20)
+    buffer.write(`${dateTimeOriginal}\0`, dataOffset + 20, 'latin1')
+  }
+
+  return buffer
+}
+
+function buildJpeg(tiff: Buffer): Buffer {
+  const payload = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff])
+  const app1 = Buffer.from([0xff, 0xe1, 0, 0])
+  app1.writeUInt16BE(payload.length + 2, 2)
+
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]),
+    app1,
+    payload,
+    Buffer.from([0xff, 0xda, 0x00, 0x02]),
+    Buffer.alloc(100, 0x55),
+    Buffer.from([0xff, 0xd9]),
+  ])
+}
+
+describe('CaptureDateService', () => {
+  let service: CaptureDateService
+  let basePath: string
+
+  const writeFile = (name: string, contents: Buffer, mtime = new Date(2023, 4, 17, 12)) => {
+    const fullPath = path.join(basePath, name)
+    fs.writeFileSync(fullPath, contents)
+    fs.utimesSync(fullPath, mtime, mtime)
+    return { fullPath, relativePath: name, size: contents.length, mtime } as PhotoFile
+  }
+
+  beforeEach(async () => {
+    basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'capture-date-'))
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CaptureDateService,
+        StorageService,
+        { provide: ConfigService, useValue: new ConfigService({ PHOTOS_BASE_PATH: basePath }) },
+      ],
+    }).compile()
+
+    service = module.get<CaptureDateService>(CaptureDateService)
+  })
+
+  afterEach(() => {
+    fs.rmSync(basePath, { recursive: true, force: true })
+  })
+
+  it('should read DateTimeOriginal from the Exif segment of a JPEG file', async () => {
+    const file = writeFile(
+      'a.jpg',
+      buildJpeg(buildTiff('2024:07:02 09:00:00', '2024:06:01 18:30:00')),
+    )
+
+    expect(await service.readCaptureDate(file)).toBe('2024-06-01')
+  })
+
+  it('should fall back to DateTime in TIFF based files', async () => {
+    const file = writeFile('a.dng', buildTiff('2022:12:31 23:59:59'))
+
+    expect(await service.readCaptureDate(file)).toBe('2022-12-31')
+  })
+
+  it('should date files without EXIF data by their modification time', async () => {
+    const files = [
+      writeFile('a.jpg', buildJpeg(buildTiff('2024:07:02 09:00:00', '2024:06:01 18:30:00'))),
+      writeFile('clip.mp4', Buffer.from('....ftypqt  ')),
+      writeFile('blank.jpg', buildJpeg(buildTiff('0000:00:00 00:00:00'))),
+      writeFile('broken.jpg', Buffer.from([0xff, 0xd8, 0xff, 0xe1, 0xff, 0xff])),
+    ]
+
+    expect(await service.resolveDates(files)).toEqual([
+      '2024-06-01',
+      '2023-05-17',
+      '2023-05-17',
+      '2023-05-17',
+    ])
+  })
+})
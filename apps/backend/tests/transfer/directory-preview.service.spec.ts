@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PhotosConfigService } from '../../src/transfer/services/photos-config.service'
+import { ZipLayoutService } from '../../src/transfer/services/zip-layout.service'
+import { ImageVariantService } from '../../src/transfer/services/image-variant.service'
+import { PhotoPrivacyService } from '../../src/transfer/services/photo-privacy.service'
+import { CaptureDateService } from '../../src/transfer/services/capture-date.service'
+import { DirectoryPreviewService } from '../../src/transfer/services/directory-preview.service'
+import { StorageService } from '../../src/storage/storage.service'
+import { MetricsService } from '../../src/metrics/metrics.service'
+
+describe('DirectoryPreviewService', () => {
+  let service: DirectoryPreviewService
+  let zipLayoutService: ZipLayoutService
+  let rootPath: string
+  let basePath: string
+
+  beforeEach(async () => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'directory-preview-'))
+    basePath = path.join(rootPath, 'photos')
+    fs.mkdirSync(path.join(basePath, 'event1', 'ceremony'), { recursive: true })
+    fs.mkdirSync(path.join(basePath, 'documents'))
+    fs.mkdirSync(path.join(rootPath, 'private'))
+    fs.mkdirSync(path.join(rootPath, 'studio-b', 'portraits'), { recursive: true })
+    fs.writeFileSync(path.join(basePath, 'event1', 'a.jpg'), Buffer.alloc(1500, 1))
+    fs.writeFileSync(path.join(basePath, 'event1', 'ceremony', 'b.jpg'), Buffer.alloc(700, 2))
+    fs.writeFileSync(path.join(basePath, 'documents', 'invoice.pdf'), 'not a photo')
+    fs.writeFileSync(path.join(rootPath, 'private', 'secret.jpg'), Buffer.alloc(10))
+    fs.symlinkSync(path.join(rootPath, 'private'), path.join(basePath, 'escape'))
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DirectoryPreviewService,
+        ZipLayoutService,
+        PhotosConfigService,
+        StorageService,
+        {
+          provide: ImageVariantService,
+          useValue: { resolveFiles: (files: unknown[]) => Promise.resolve(files) },
+        },
+        { provide: PhotoPrivacyService, useValue: {} },
+        CaptureDateService,
+        MetricsService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            PHOTOS_BASE_PATH: basePath,
+            PHOTO_LIBRARIES: `studio-b:${path.join(rootPath, 'studio-b')},2019:${path.join(rootPath, 'nas-2019')}`,
+          }),
+        },
+      ],
+    }).compile()
+
+    service = module.get<DirectoryPreviewService>(DirectoryPreviewService)
+    zipLayoutService = module.get<ZipLayoutService>(ZipLayoutService)
+  })
+
+  afterEach(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true })
+  })
+
+  it('should summarize valid directories, including subdirectories', async () => {
+    const summary = await service.preview(['event1'])
+    const layout = await zipLayoutService.buildLayout(['event1'])
+
+    expect(summary).toEqual({
+      valid: true,
+      fileTypeProfile: 'standard',
+      directories: [
+        {
+          path: 'event1',
+          valid: true,
+          fileCount: 2,
+          totalSize: 2200,
+          totalSizeFormatted: '2.15 KB',
+        },
+      ],
+      fileCount: 2,
+      totalSize: 2200,
+      totalSizeFormatted: '2.15 KB',
+      estimatedArchiveSize: layout.totalSize,
+      estimatedArchiveSizeFormatted: expect.stringMatching(/KB$/),
+    })
+  })
+
+  it('should report missing directories and directories without images', async () => {
+    const summary = await service.preview(['event1', 'missing', 'documents'])
+
+    expect(summary.valid).toBe(false)
+    expect(summary.directories.map((dir) => [dir.path, dir.valid, dir.error])).toEqual([
+      ['event1', true, undefined],
+      ['missing', false, 'Directory not found'],
+      ['documents', false, 'Directory contains no files of the standard profile'],
+    ])
+    expect(summary.fileCount).toBe(2)
+  })
+
+  it('should combine directories from several libraries', async () => {
+    fs.writeFileSync(path.join(rootPath, 'studio-b', 'portraits', 'p.jpg'), Buffer.alloc(300))
+
+    const summary = await service.preview(['event1', 'studio-b:portraits'])
+    const layout = await zipLayoutService.buildLayout(['event1', 'studio-b:portraits'])
+
+    expect(summary).toMatchObject({ valid: true, fileCount: 3, totalSize: 2500 })
+    expect(summary.estimatedArchiveSize).toBe(layout.totalSize)
+    expect(layout.entries.map((entry) => entry.name.toString())).toEqual([
+      'event1/a.jpg',
+      'event1/ceremony/b.jpg',
+      'portraits/p.jpg',
+    ])
+  })
+
+  it('should report directories of an unavailable library', async () => {
+    const summary = await service.preview(['event1', '2019:wedding'])
+
+    expect(summary.valid).toBe(false)
+    expect(summary.directories[1]).toMatchObject({
+      valid: false,
+      error: 'Library "2019" is unavailable',
+    })
+  })
+
+  it('should report directories of a storage backend that is not configured', async () => {
+    const summary = await service.preview(['event1', 's3:season-2019/event1'])
+
+    expect(summary.valid).toBe(false)
+    expect(summary.directories[1]).toMatchObject({
+      valid: false,
+      error: 'Storage "s3" is not configured',
+    })
+    expect(summary.fileCount).toBe(2)
+  })
+
+  it('should count the files of the requested file type profile', async () => {
+    fs.writeFileSync(path.join(basePath, 'event1', 'c.NEF'), Buffer.alloc(5000))
+
+    const standard = await service.preview(['event1'])
+    const withRaw = await service.preview(['event1'], 'with-raw')
+
+    expect(standard.fileCount).toBe(2)
+    expect(withRaw).toMatchObject({ fileTypeProfile: 'with-raw', fileCount: 3, totalSize: 7200 })
+    expect(withRaw.estimatedArchiveSize).toBeGreaterThan(standard.estimatedArchiveSize + 5000)
+  })
+
+  it('should reject an unknown file type profile', async () => {
+    await expect(service.preview(['event1'], 'everything')).rejects.toThrow(
+      'Unknown file type profile "everything"',
+    )
+  })
+
+  it('should reject paths escaping the photos base path', async () => {
+    const summary = await service.preview(['../private', 'event1/../../private', 'escape'])
+
+    expect(summary.valid).toBe(false)
+    expect(summary.directories.every((dir) => !dir.valid)).toBe(true)
+    expect(summary.directories[0].error).toBe('Directory is outside the photos base path')
+    expect(summary.directories[2].error).toBe('Directory is outside the photos base path')
+    expect(summary.estimatedArchiveSize).toBe(0)
+  })
+})
@@ -0,0 +1,358 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { HttpStatus, NotFoundException, ServiceUnavailableException } from '@nestjs/common'
+import { Readable } from 'stream'
+import {
+  DownloadService,
+  DownloadTokenRejectedException,
+} from '../../src/transfer/services/download.service'
+import { OrderService } from '../../src/order/order.service'
+import { ZipLayoutService } from '../../src/transfer/services/zip-layout.service'
+import { ArchiveCacheService } from '../../src/cache/archive-cache.service'
+import { DownloadRateLimitService } from '../../src/rate-limit/download-rate-limit.service'
+import { MetricsService } from '../../src/metrics/metrics.service'
+import { TokenService } from '../../src/token/token.service'
+import { PhotosConfigService } from '../../src/transfer/services/photos-config.service'
+import { VariantNotReadyError } from '../../src/transfer/services/image-variant.service'
+
+describe('DownloadService', () => {
+  let service: DownloadService
+
+  const mtime = new Date('2025-08-10T09:00:00.000Z')
+  const entry = (directoryIndex: number, relativePath: string, size: number) => ({
+    directoryIndex,
+    relativePath,
+    sourcePath: `/photos/event${directoryIndex}/${relativePath}`,
+    name: Buffer.from(relativePath),
+    size,
+    mtime,
+  })
+
+  const order = {
+    id: 'order1',
+    customerEmail: 'jane@example.com',
+    directoryPaths: ['event0', 'event1'],
+    variants: ['full'],
+    privacyMode: false,
+    revokedAt: null,
+    tokenExpiry: new Date(Date.now() + 3600000),
+  }
+
+  const mockOrderService = {
+    findByToken: jest.fn(),
+    recordChecksums: jest.fn(),
+    getRecordedChecksums: jest.fn(),
+    setDeliveryReport: jest.fn(),
+    getDeliverySummary: jest.fn(),
+    startDownloadEvent: jest.fn(),
+    countFileDownload: jest.fn(),
+    cancelDownloadEvent: jest.fn(),
+    finishDownloadEvent: jest.fn(),
+  }
+
+  const mockArchiveCacheService = {
+    lookup: jest.fn(),
+  }
+
+  const mockZipLayoutService = {
+    listDirectories: jest.fn(),
+    createFileStream: jest.fn(),
+    buildLayout: jest.fn(),
+    getChecksums: jest.fn(),
+    getCachedChecksums: jest.fn(),
+  }
+
+  const mockPhotosConfig = {
+    isStrictDeliveryEnabled: jest.fn(),
+  }
+
+  const mockRateLimitService = {
+    recordInvalidToken: jest.fn(),
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockOrderService.findByToken.mockResolvedValue(order)
+    mockZipLayoutService.listDirectories.mockResolvedValue([
+      { index: 0, folder: 'event0', entries: [entry(0, 'a.jpg', 1500)] },
+      { index: 1, folder: 'event1', entries: [entry(1, 'clips/b.mov', 700)] },
+    ])
+    mockZipLayoutService.createFileStream.mockImplementation(() => Readable.from([]))
+    mockOrderService.setDeliveryReport.mockResolvedValue(undefined)
+    mockOrderService.startDownloadEvent.mockResolvedValue('event1')
+    mockOrderService.countFileDownload.mockResolvedValue(true)
+    mockOrderService.cancelDownloadEvent.mockResolvedValue(undefined)
+    mockOrderService.finishDownloadEvent.mockResolvedValue(undefined)
+    mockPhotosConfig.isStrictDeliveryEnabled.mockReturnValue(false)
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DownloadService,
+        MetricsService,
+        TokenService,
+        { provide: OrderService, useValue: mockOrderService },
+        { provide: ZipLayoutService, useValue: mockZipLayoutService },
+        { provide: ArchiveCacheService, useValue: mockArchiveCacheService },
+        { provide: DownloadRateLimitService, useValue: mockRateLimitService },
+        { provide: PhotosConfigService, useValue: mockPhotosConfig },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ TOKEN_SECRET: 'unit-test-secret-that-is-long-enough' }),
+        },
+      ],
+    }).compile()
+
+    service = module.get<DownloadService>(DownloadService)
+  })
+
+  describe('getManifest', () => {
+    it('should list the files with opaque IDs and their content types', async () => {
+      const manifest = await service.getManifest('token1')
+      const files = manifest.directories.flatMap((directory) => directory.files)
+
+      expect(manifest).toMatchObject({ fileCount: 2, totalSize: 2200 })
+      expect(files.map(({ name, size, contentType }) => [name, size, contentType])).toEqual([
+        ['a.jpg', 1500, 'image/jpeg'],
+        ['clips/b.mov', 700, 'video/quicktime'],
+      ])
+      for (const file of files) {
+        expect(file.id).toMatch(/^\d\.[A-Za-z0-9_-]{22}$/)
+        expect(file.id).not.toContain(file.name)
+      }
+    })
+  })
+
+  describe('getOverview', () => {
+    it('should summarize the directories and what the link allows', async () => {
+      mockOrderService.getDeliverySummary.mockReturnValue({ remainingDownloads: 2 })
+
+      const overview = await service.getOverview('token1')
+
+      expect(overview).toEqual({
+        expiresAt: order.tokenExpiry,
+        language: 'fr',
+        variants: ['full'],
+        remainingDownloads: 2,
+        directories: [
+          { index: 0, folder: 'event0', fileCount: 1, totalSize: 1500 },
+          { index: 1, folder: 'event1', fileCount: 1, totalSize: 700 },
+        ],
+        fileCount: 2,
+        totalSize: 2200,
+      })
+    })
+
+    it('should tell why a token is refused', async () => {
+      mockOrderService.findByToken.mockResolvedValueOnce({
+        ...order,
+        tokenExpiry: new Date(Date.now() - 1000),
+      })
+
+      const error = await service.getOverview('token1').catch((err: unknown) => err)
+
+      expect(error).toBeInstanceOf(DownloadTokenRejectedException)
+      expect(error).toBeInstanceOf(NotFoundException)
+      expect(error).toMatchObject({ reason: 'expired', message: 'Download token has expired' })
+    })
+  })
+
+  describe('getChecksums', () => {
+    const layout = { etag: '"layout1"', entries: [] }
+
+    beforeEach(() => {
+      mockZipLayoutService.buildLayout.mockResolvedValue(layout)
+    })
+
+    it('should hash the files once in the background while the checksums are unknown', async () => {
+      mockZipLayoutService.getCachedChecksums.mockReturnValue(null)
+      mockZipLayoutService.getChecksums.mockReturnValue(new Promise(() => undefined))
+
+      expect(await service.getChecksums('token1')).toBeNull()
+      expect(await service.getChecksums('token1')).toBeNull()
+
+      expect(mockZipLayoutService.getChecksums).toHaveBeenCalledTimes(1)
+      expect(mockZipLayoutService.getChecksums).toHaveBeenCalledWith(layout)
+    })
+
+    it('should flag the files whose checksum differs from the recorded one', async () => {
+      mockZipLayoutService.getCachedChecksums.mockReturnValue([
+        { name: 'event0/a.jpg', size: 1500, sha256: 'aaa' },
+        { name: 'event1/clips/b.mov', size: 700, sha256: 'bbb' },
+        { name: 'event1/c.jpg', size: 900, sha256: 'ccc' },
+      ])
+      mockOrderService.getRecordedChecksums.mockReturnValue(
+        new Map([
+          ['event0/a.jpg', 'aaa'],
+          ['event1/clips/b.mov', 'old'],
+        ]),
+      )
+
+      const checksums = await service.getChecksums('token1')
+
+      expect(mockOrderService.getRecordedChecksums).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order1' }),
+        'full',
+      )
+      expect(mockZipLayoutService.getChecksums).not.toHaveBeenCalled()
+      expect(mockOrderService.recordChecksums).not.toHaveBeenCalled()
+      expect(checksums).toMatchObject({ variant: 'full', algorithm: 'sha256', changedCount: 1 })
+      expect(
+        checksums?.files.map(({ changed, recordedSha256 }) => [changed, recordedSha256]),
+      ).toEqual([
+        [false, 'aaa'],
+        [true, 'old'],
+        [false, null],
+      ])
+    })
+  })
+
+  describe('createDownload', () => {
+    const report = {
+      skippedDirectories: [{ index: 1, path: 'event1', reason: 'directory not found' }],
+      unreadableFiles: [{ directoryIndex: 0, path: 'b.jpg', reason: 'permission denied' }],
+    }
+
+    it('should refuse an incomplete archive in strict delivery mode and record why', async () => {
+      mockPhotosConfig.isStrictDeliveryEnabled.mockReturnValue(true)
+      mockZipLayoutService.buildLayout.mockResolvedValue({
+        variant: 'full',
+        directoryIndex: null,
+        report,
+      })
+
+      await expect(service.createDownload('token1')).rejects.toThrow(ServiceUnavailableException)
+      expect(mockOrderService.setDeliveryReport).toHaveBeenCalledWith('order1', {
+        ...report,
+        variant: 'full',
+        directoryIndex: null,
+        aborted: true,
+      })
+    })
+
+    it('should ask to retry later while the web copies are made', async () => {
+      mockOrderService.findByToken.mockResolvedValue({ ...order, variants: ['full', 'web'] })
+      mockZipLayoutService.buildLayout.mockRejectedValue(new VariantNotReadyError(12))
+
+      const download = await service.createDownload('token1', {}, {}, 'web')
+
+      expect(download).toEqual({
+        statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+        headers: { 'Retry-After': '30' },
+      })
+      expect(mockOrderService.startDownloadEvent).not.toHaveBeenCalled()
+    })
+
+    it('should clear the recorded report once the whole archive is complete', async () => {
+      mockOrderService.findByToken.mockResolvedValue({ ...order, deliveryReport: report })
+      mockZipLayoutService.buildLayout.mockResolvedValue({
+        variant: 'full',
+        directoryIndex: null,
+        report: { skippedDirectories: [], unreadableFiles: [] },
+        totalSize: 0,
+      })
+
+      // The test layout stops the download once its report was checked
+      await service.createDownload('token1').catch(() => undefined)
+
+      expect(mockOrderService.setDeliveryReport).toHaveBeenCalledWith('order1', null)
+    })
+
+    it('should give the download back when the archive cannot be opened', async () => {
+      mockZipLayoutService.buildLayout.mockResolvedValue({
+        format: 'zip',
+        variant: 'full',
+        part: null,
+        directoryIndex: null,
+        report: { skippedDirectories: [], unreadableFiles: [] },
+        entries: [],
+        totalSize: 1000,
+        etag: '"v1"',
+        splitEtag: null,
+        lastModified: mtime,
+      })
+      mockArchiveCacheService.lookup.mockRejectedValue(new Error('EIO: i/o error'))
+
+      await expect(service.createDownload('token1')).rejects.toThrow()
+
+      expect(mockOrderService.startDownloadEvent).toHaveBeenCalledWith(
+        'order1',
+        expect.objectContaining({ rangeStart: 0, archiveEtag: '"v1"', quotaEtag: '"v1"' }),
+      )
+      expect(mockOrderService.cancelDownloadEvent).toHaveBeenCalledWith('order1', 'event1')
+    })
+  })
+
+  describe('createFileDownload', () => {
+    const getFileIds = async () =>
+      (await service.getManifest('token1')).directories.flatMap((directory) =>
+        directory.files.map((file) => file.id),
+      )
+
+    it('should stream a file of the order inline', async () => {
+      const [, videoId] = await getFileIds()
+
+      const download = await service.createFileDownload('token1', videoId, { range: 'bytes=100-' })
+
+      expect(mockZipLayoutService.listDirectories).toHaveBeenLastCalledWith(
+        order.directoryPaths,
+        expect.objectContaining({ directoryIndex: 1, variant: 'full' }),
+      )
+      expect(mockZipLayoutService.createFileStream).toHaveBeenCalledWith(
+        expect.objectContaining({ relativePath: 'clips/b.mov' }),
+        100,
+        699,
+      )
+      expect(download.statusCode).toBe(HttpStatus.PARTIAL_CONTENT)
+      expect(download.headers['Content-Range']).toBe('bytes 100-699/700')
+      expect(download.file?.getHeaders()).toMatchObject({
+        type: 'video/quicktime',
+        disposition: `inline; filename="b.mov"; filename*=UTF-8''b.mov`,
+        length: 600,
+      })
+      expect(mockOrderService.countFileDownload).not.toHaveBeenCalled()
+    })
+
+    it('should count each file against its own budget, apart from the archive quota', async () => {
+      mockOrderService.findByToken.mockResolvedValue({ ...order, maxDownloads: 1 })
+      const [photoId] = await getFileIds()
+
+      await service.createFileDownload('token1', photoId, { range: 'bytes=100-' })
+
+      expect(mockOrderService.countFileDownload).toHaveBeenCalledWith(
+        'order1',
+        'full',
+        photoId,
+        100,
+      )
+      expect(mockOrderService.startDownloadEvent).not.toHaveBeenCalled()
+
+      mockOrderService.countFileDownload.mockResolvedValue(false)
+      await expect(service.createFileDownload('token1', photoId)).rejects.toThrow(
+        'Download limit reached for this file',
+      )
+      expect(mockZipLayoutService.createFileStream).toHaveBeenCalledTimes(1)
+    })
+
+    it('should refuse IDs that do not belong to a file of the order', async () => {
+      const [photoId] = await getFileIds()
+      const otherOrderId = await (async () => {
+        mockOrderService.findByToken.mockResolvedValueOnce({ ...order, id: 'order2' })
+        const [id] = await getFileIds()
+        return id
+      })()
+
+      for (const fileId of [
+        '../../etc/passwd',
+        '0.a.jpg',
+        `1${photoId.slice(1)}`,
+        `9${photoId.slice(1)}`,
+        otherOrderId,
+      ]) {
+        await expect(service.createFileDownload('token1', fileId)).rejects.toThrow(
+          NotFoundException,
+        )
+      }
+      expect(mockZipLayoutService.createFileStream).not.toHaveBeenCalled()
+    })
+  })
+})
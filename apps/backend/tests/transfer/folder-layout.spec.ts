@@ -0,0 +1,82 @@
+import { ArchiveEntryNamer, formatCaptureDate } from '../../src/transfer/services/folder-layout'
+
+describe('ArchiveEntryNamer', () => {
+  const nameAll = (namer: ArchiveEntryNamer, directories: Record<string, string[]>) =>
+    Object.entries(directories).flatMap(([directory, files]) => {
+      const folder = namer.addDirectory(directory, 'local')
+      return files.map((file) => namer.entryName(folder, file, '2024-06-01'))
+    })
+
+  it('should keep the last segment and number directories sharing it', () => {
+    const namer = new ArchiveEntryNamer()
+
+    expect(
+      nameAll(namer, {
+        'eventA/selects': ['a.jpg'],
+        'eventB/selects': ['a.jpg'],
+        'eventC/Selects': ['b.jpg'],
+      }),
+    ).toEqual(['selects/a.jpg', 'selects (2)/a.jpg', 'Selects (3)/b.jpg'])
+  })
+
+  it('should keep the full relative path', () => {
+    const namer = new ArchiveEntryNamer('full-path')
+
+    expect(
+      nameAll(namer, {
+        '/eventA/selects/': ['a.jpg'],
+        '../eventB/./selects': ['a.jpg', 'raw/a.cr2'],
+      }),
+    ).toEqual(['eventA/selects/a.jpg', 'eventB/selects/a.jpg', 'eventB/selects/raw/a.cr2'])
+  })
+
+  it('should put every file at the root with the folder as prefix', () => {
+    const namer = new ArchiveEntryNamer('flat')
+
+    expect(
+      nameAll(namer, {
+        'eventA/selects': ['a.jpg', 'ceremony/b.jpg'],
+        'eventB/selects': ['a.jpg'],
+      }),
+    ).toEqual(['selects_a.jpg', 'selects_ceremony_b.jpg', 'selects (2)_a.jpg'])
+  })
+
+  it('should group files by capture date and number files sharing a name', () => {
+    const namer = new ArchiveEntryNamer('by-date')
+    const folder = namer.addDirectory('wedding', 'local')
+
+    expect([
+      namer.entryName(folder, 'ceremony/IMG_1.jpg', '2024-06-01'),
+      namer.entryName(folder, 'party/IMG_1.JPG', '2024-06-01'),
+      namer.entryName(folder, 'party/IMG_1.jpg', '2024-06-02'),
+      namer.entryName(folder, 'clip.mp4', null),
+    ]).toEqual([
+      '2024-06-01/IMG_1.jpg',
+      '2024-06-01/IMG_1 (2).JPG',
+      '2024-06-02/IMG_1.jpg',
+      'undated/clip.mp4',
+    ])
+  })
+
+  it('should name the storage root after its backend', () => {
+    const namer = new ArchiveEntryNamer()
+
+    expect(namer.addDirectory('', 'studio-b')).toBe('studio-b')
+    expect(namer.addDirectory('/', 'studio-b')).toBe('studio-b (2)')
+  })
+
+  it('should number entries that collide with a nested directory', () => {
+    const namer = new ArchiveEntryNamer('full-path')
+
+    expect(
+      nameAll(namer, {
+        wedding: ['ceremony/a.jpg'],
+        'wedding/ceremony': ['a.jpg'],
+      }),
+    ).toEqual(['wedding/ceremony/a.jpg', 'wedding/ceremony/a (2).jpg'])
+  })
+
+  it('should format capture dates as days', () => {
+    expect(formatCaptureDate(new Date(2024, 0, 5, 23, 59))).toBe('2024-01-05')
+  })
+})
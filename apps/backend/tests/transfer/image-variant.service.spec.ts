@@ -0,0 +1,250 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  ImageVariantService,
+  VariantNotReadyError,
+} from '../../src/transfer/services/image-variant.service'
+import { PhotoFile } from '../../src/transfer/services/photos-config.service'
+import { MetricsService } from '../../src/metrics/metrics.service'
+import { StorageService } from '../../src/storage/storage.service'
+import { ArchiveCacheService } from '../../src/cache/archive-cache.service'
+
+/**
+ * Stands in for vipsthumbnail: logs its arguments and writes the first 10 bytes
+ * of the source. The lock directory makes overlapping runs fail.
+ */
+const FAKE_VIPSTHUMBNAIL = `#!/bin/sh
+dir="$(dirname "$0")"
+echo "$@" >> "$dir/calls.log"
+case "$1" in *broken*) exit 1 ;; esac
+mkdir "$dir/lock" || exit 1
+sleep 0.05
+head -c 10 "$1" > "\${5%%[*}"
+rmdir "$dir/lock"
+`
+
+describe('ImageVariantService', () => {
+  let service: ImageVariantService
+  let metricsService: MetricsService
+  let rootPath: string
+  let photosPath: string
+  let cachePath: string
+
+  const compileModule = (config: Record<string, unknown> = {}) =>
+    Test.createTestingModule({
+      providers: [
+        ImageVariantService,
+        SchedulerRegistry,
+        MetricsService,
+        StorageService,
+        ArchiveCacheService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            PHOTOS_BASE_PATH: photosPath,
+            VARIANT_CACHE_DIR: cachePath,
+            VIPSTHUMBNAIL_PATH: path.join(rootPath, 'vipsthumbnail'),
+            VARIANT_CONCURRENCY: 1,
+            ...config,
+          }),
+        },
+      ],
+    }).compile()
+
+  const compileService = async (config: Record<string, unknown> = {}) =>
+    (await compileModule(config)).get<ImageVariantService>(ImageVariantService)
+
+  const createPhoto = (name: string, size = 1000): PhotoFile => {
+    const fullPath = path.join(photosPath, name)
+    fs.writeFileSync(fullPath, Buffer.alloc(size, 1))
+    const stats = fs.statSync(fullPath)
+    return { fullPath, relativePath: name, size: stats.size, mtime: stats.mtime }
+  }
+
+  const resizeCalls = () =>
+    fs.existsSync(path.join(rootPath, 'calls.log'))
+      ? fs.readFileSync(path.join(rootPath, 'calls.log'), 'utf8').trim().split('\n')
+      : []
+
+  beforeEach(async () => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'image-variant-'))
+    photosPath = path.join(rootPath, 'photos')
+    cachePath = path.join(rootPath, 'variants')
+    fs.mkdirSync(photosPath)
+    fs.writeFileSync(path.join(rootPath, 'vipsthumbnail'), FAKE_VIPSTHUMBNAIL, { mode: 0o755 })
+
+    const module: TestingModule = await compileModule()
+    service = module.get<ImageVariantService>(ImageVariantService)
+    metricsService = module.get<MetricsService>(MetricsService)
+    await service.onModuleInit()
+  })
+
+  afterEach(() => {
+    service.onModuleDestroy()
+    fs.rmSync(rootPath, { recursive: true, force: true })
+  })
+
+  it('should deliver the originals for the full variant', async () => {
+    const files = [createPhoto('a.jpg')]
+
+    expect(await service.resolveFiles(files, 'full')).toBe(files)
+    expect(resizeCalls()).toEqual([])
+  })
+
+  it('should resize photos for the web variant and keep their name and date', async () => {
+    const photo = createPhoto('a.jpg')
+
+    const [copy] = await service.resolveFiles([photo], 'web', true)
+
+    expect(copy.fullPath.startsWith(cachePath)).toBe(true)
+    expect(copy.fullPath.endsWith('.jpg')).toBe(true)
+    expect(copy).toMatchObject({ relativePath: 'a.jpg', size: 10, mtime: photo.mtime })
+    expect(fs.statSync(copy.fullPath).size).toBe(10)
+    expect(resizeCalls()).toEqual([
+      expect.stringMatching(/a\.jpg --size 2048x2048> -o .*\.tmp\.jpg\[Q=82\]$/),
+    ])
+  })
+
+  it('should only pass a quality setting to lossy formats', async () => {
+    await service.resolveFiles([createPhoto('a.png')], 'web', true)
+
+    expect(resizeCalls()[0]).toMatch(/\.tmp\.png$/)
+  })
+
+  it('should resize each photo once and reuse the cached copy', async () => {
+    const photo = createPhoto('a.jpg')
+
+    const [first, second] = await service.resolveFiles([photo, photo], 'web', true)
+    const [third] = await service.resolveFiles([photo], 'web', true)
+
+    expect(second.fullPath).toBe(first.fullPath)
+    expect(third.fullPath).toBe(first.fullPath)
+    expect(resizeCalls()).toHaveLength(1)
+  })
+
+  it('should make a new copy when the original or the settings change', async () => {
+    const photo = createPhoto('a.jpg')
+    const [before] = await service.resolveFiles([photo], 'web', true)
+
+    const [edited] = await service.resolveFiles([createPhoto('a.jpg', 2000)], 'web', true)
+    const resizedSmaller = await compileService({ VARIANT_WEB_MAX_EDGE: 1024 })
+    const [smaller] = await resizedSmaller.resolveFiles([photo], 'web', true)
+
+    expect(edited.fullPath).not.toBe(before.fullPath)
+    expect(smaller.fullPath).not.toBe(before.fullPath)
+    expect(resizeCalls()[2]).toContain('--size 1024x1024>')
+  })
+
+  it('should resize photos from object storage through a local copy', async () => {
+    const module: TestingModule = await compileModule()
+    const storageService = module.get<StorageService>(StorageService)
+    jest
+      .spyOn(storageService, 'isLocal')
+      .mockImplementation((location) => !location.startsWith('s3://'))
+    jest.spyOn(storageService, 'download').mockImplementation((location, filePath) => {
+      fs.writeFileSync(filePath, Buffer.alloc(1000, 3))
+      return Promise.resolve()
+    })
+    const photo: PhotoFile = {
+      fullPath: 's3://photos/season-2019/a.jpg',
+      relativePath: 'a.jpg',
+      size: 1000,
+      mtime: new Date('2019-06-01'),
+    }
+
+    const [copy] = await module
+      .get<ImageVariantService>(ImageVariantService)
+      .resolveFiles([photo], 'web', true)
+
+    expect(copy.fullPath.startsWith(cachePath)).toBe(true)
+    expect(fs.readFileSync(copy.fullPath)).toEqual(Buffer.alloc(10, 3))
+    expect(resizeCalls()[0]).toMatch(/\.tmp\.source\.jpg --size/)
+    expect(fs.readdirSync(cachePath)).toEqual([path.basename(copy.fullPath)])
+  })
+
+  it('should not run more resizes at once than the concurrency limit', async () => {
+    const files = ['a.jpg', 'b.jpg', 'c.jpg'].map((name) => createPhoto(name))
+
+    const copies = await service.resolveFiles(files, 'web', true)
+
+    // Overlapping runs of the fake resizer fail, which would fall back to the originals
+    expect(copies.every((copy) => copy.fullPath.startsWith(cachePath))).toBe(true)
+    expect(metricsService.imageResizeFailures.get()).toBe(0)
+  })
+
+  it('should deliver the original when resizing fails', async () => {
+    const photo = createPhoto('broken.jpg')
+
+    const [copy] = await service.resolveFiles([photo], 'web', true)
+
+    expect(copy).toBe(photo)
+    expect(metricsService.imageResizeFailures.get()).toBe(1)
+    expect(fs.readdirSync(cachePath)).toEqual([])
+  })
+
+  it('should deliver formats vipsthumbnail cannot write unchanged', async () => {
+    const photo = createPhoto('scan.bmp')
+
+    expect(await service.resolveFiles([photo], 'web', true)).toEqual([photo])
+    expect(resizeCalls()).toEqual([])
+  })
+
+  it('should remove copies unused for longer than the TTL and leftover temp files', async () => {
+    const [copy] = await service.resolveFiles([createPhoto('a.jpg')], 'web', true)
+    const [recent] = await service.resolveFiles([createPhoto('b.jpg')], 'web', true)
+    const lastUse = new Date(Date.now() - 200 * 3600 * 1000)
+    fs.utimesSync(copy.fullPath, lastUse, lastUse)
+    fs.writeFileSync(path.join(cachePath, 'interrupted.tmp.jpg'), 'partial')
+
+    expect(await service.cleanup()).toBe(2)
+    expect(fs.readdirSync(cachePath)).toEqual([path.basename(recent.fullPath)])
+  })
+
+  it('should make missing copies in the background for download requests', async () => {
+    const photos = [createPhoto('a.jpg'), createPhoto('b.jpg')]
+
+    await expect(service.resolveFiles(photos, 'web')).rejects.toMatchObject({ pendingCount: 2 })
+
+    await new Promise((resolve) => setTimeout(resolve, 300))
+
+    const copies = await service.resolveFiles(photos, 'web')
+    expect(copies.every((copy) => copy.fullPath.startsWith(cachePath))).toBe(true)
+    expect(resizeCalls()).toHaveLength(2)
+  })
+
+  it('should deliver the original without waiting once resizing failed', async () => {
+    const photo = createPhoto('broken.jpg')
+
+    await expect(service.resolveFiles([photo], 'web')).rejects.toThrow(VariantNotReadyError)
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    expect(await service.resolveFiles([photo], 'web')).toEqual([photo])
+    expect(resizeCalls()).toHaveLength(1)
+  })
+
+  it('should keep the copies within their share of the cache size budget', async () => {
+    const budgeted = await compileService({
+      CACHE_MAX_SIZE_MB: 0.0001,
+      VARIANT_CACHE_SHARE_PERCENT: 25,
+    })
+    const [oldest, older, recent] = await budgeted.resolveFiles(
+      ['a.jpg', 'b.jpg', 'c.jpg'].map((name) => createPhoto(name)),
+      'web',
+      true,
+    )
+    ;[oldest, older].forEach((copy, index) => {
+      const lastUse = new Date(Date.now() - (2 - index) * 3600 * 1000)
+      fs.utimesSync(copy.fullPath, lastUse, lastUse)
+    })
+
+    // 25% of 104 bytes leave room for two copies of 10 bytes
+    expect(await budgeted.cleanup()).toBe(1)
+    expect(fs.readdirSync(cachePath).sort()).toEqual(
+      [path.basename(older.fullPath), path.basename(recent.fullPath)].sort(),
+    )
+  })
+})
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { HttpStatus, InternalServerErrorException } from '@nestjs/common'
+import { LandingPageService } from '../../src/transfer/services/landing-page.service'
+import {
+  DownloadOverview,
+  DownloadService,
+  DownloadTokenRejectedException,
+} from '../../src/transfer/services/download.service'
+import { DeliveryMailService } from '../../src/mail/delivery-mail.service'
+
+describe('LandingPageService', () => {
+  const overview: DownloadOverview = {
+    expiresAt: new Date(Date.now() + (2 * 24 + 5) * 3600 * 1000 + 30 * 60 * 1000),
+    language: 'fr',
+    variants: ['full', 'web'],
+    remainingDownloads: 3,
+    directories: [
+      { index: 0, folder: 'Cérémonie', fileCount: 120, totalSize: 1.5 * 1024 ** 3 },
+      { index: 1, folder: null, fileCount: 0, totalSize: 0 },
+    ],
+    fileCount: 120,
+    totalSize: 1.5 * 1024 ** 3,
+  }
+
+  const mockDownloadService = {
+    getOverview: jest.fn(),
+  }
+
+  const mockDeliveryMailService = {
+    getDefaultLanguage: jest.fn(() => 'fr'),
+  }
+
+  const compileService = async (config: Record<string, unknown> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LandingPageService,
+        { provide: DownloadService, useValue: mockDownloadService },
+        { provide: DeliveryMailService, useValue: mockDeliveryMailService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ STUDIO_NAME: 'Studio <Lumière>', ...config }),
+        },
+      ],
+    }).compile()
+
+    return module.get<LandingPageService>(LandingPageService)
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDownloadService.getOverview.mockResolvedValue(overview)
+  })
+
+  it('should show the order in its language with the download buttons', async () => {
+    const service = await compileService()
+    const page = await service.render('token1', {}, { ip: '203.0.113.42' })
+
+    expect(page.statusCode).toBe(HttpStatus.OK)
+    expect(mockDownloadService.getOverview).toHaveBeenCalledWith('token1', { ip: '203.0.113.42' })
+    expect(page.html).toContain('<html lang="fr">')
+    expect(page.html).toContain('Studio &lt;Lumière&gt;')
+    expect(page.html).toContain('120 photos · 1,5 Go · 2 dossiers')
+    expect(page.html).toContain('<strong data-countdown>2 jours et 5 heures</strong>')
+    expect(page.html).toContain('Il vous reste 3 téléchargements.')
+    expect(page.html).toContain(
+      'href="/api/v1/transfer/download/token1" download>Télécharger toutes les photos (1,5 Go)</a>',
+    )
+    expect(page.html).toContain('href="/api/v1/transfer/download/token1?variant=web"')
+    expect(page.html).toContain('href="/api/v1/transfer/download/token1/directories/0"')
+    expect(page.html).toContain('<em>Indisponible</em>')
+    expect(page.html).toContain('href="/d/token1?lang=en"')
+  })
+
+  it('should switch language and download web copies when the order only has them', async () => {
+    mockDownloadService.getOverview.mockResolvedValue({
+      ...overview,
+      variants: ['web'],
+      remainingDownloads: null,
+      expiresAt: new Date(Date.now() + 90 * 60 * 1000 + 30 * 1000),
+    })
+
+    const service = await compileService()
+    const page = await service.render('token1', { query: 'en' })
+
+    expect(page.html).toContain('<html lang="en">')
+    expect(page.html).toContain('120 photos · 1.5 GB · 2 folders')
+    expect(page.html).toContain('<strong data-countdown>1 hour and 30 minutes</strong>')
+    expect(page.html).toContain('href="/api/v1/transfer/download/token1?variant=web" download>')
+    expect(page.html).toContain('href="/api/v1/transfer/download/token1/directories/0?variant=web"')
+    expect(page.html).not.toContain('Download the web version')
+    expect(page.html).not.toContain('downloads left')
+  })
+
+  it('should explain an expired link in the browser language', async () => {
+    mockDownloadService.getOverview.mockRejectedValue(
+      new DownloadTokenRejectedException('Download token has expired', 'expired'),
+    )
+
+    const service = await compileService({ STUDIO_CONTACT_EMAIL: 'hello@example.com' })
+    const page = await service.render('token1', { acceptLanguage: 'de-DE, en-US;q=0.8, fr;q=0.5' })
+
+    expect(page.statusCode).toBe(HttpStatus.NOT_FOUND)
+    expect(page.html).toContain('<html lang="en">')
+    expect(page.html).toContain('This download link has expired.')
+    expect(page.html).toContain('<a href="mailto:hello@example.com">Studio &lt;Lumière&gt;</a>')
+    expect(page.html).not.toContain('/api/v1/transfer/download')
+  })
+
+  it('should fall back to the default language for an invalid link', async () => {
+    mockDownloadService.getOverview.mockRejectedValue(
+      new DownloadTokenRejectedException('Invalid download token', 'invalid'),
+    )
+
+    const service = await compileService()
+    const page = await service.render('token1', { acceptLanguage: 'de' })
+
+    expect(page.html).toContain('<html lang="fr">')
+    expect(page.html).toContain("Ce lien de téléchargement n'est pas valide.")
+  })
+
+  it('should not hide other errors', async () => {
+    mockDownloadService.getOverview.mockRejectedValue(new InternalServerErrorException())
+
+    const service = await compileService()
+
+    await expect(service.render('token1', {})).rejects.toThrow(InternalServerErrorException)
+  })
+
+  it('should refuse an accent colour that is not a hex colour', async () => {
+    const service = await compileService({ STUDIO_ACCENT_COLOR: 'red; background: url(x)' })
+
+    expect(() => service.onModuleInit()).toThrow('Invalid STUDIO_ACCENT_COLOR')
+  })
+})
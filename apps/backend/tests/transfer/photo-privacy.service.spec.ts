@@ -0,0 +1,303 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as CRC32 from 'crc-32'
+import { PhotoPrivacyService } from '../../src/transfer/services/photo-privacy.service'
+import { PhotoFile } from '../../src/transfer/services/photos-config.service'
+import { applyPatches } from '../../src/transfer/services/metadata-scrubber'
+import { MetricsService } from '../../src/metrics/metrics.service'
+import { StorageService } from '../../src/storage/storage.service'
+
+const ASCII = 2
+const SHORT = 3
+const LONG = 4
+const RATIONAL = 5
+
+const ORIENTATION = 0x0112
+const COPYRIGHT = 0x8298
+const EXIF_IFD = 0x8769
+const GPS_IFD = 0x8825
+const DATE_TIME_ORIGINAL = 0x9003
+const BODY_SERIAL_NUMBER = 0xa431
+
+interface TestTag {
+  tag: number
+  type: number
+  count: number
+  data?: Buffer
+  /** Index of the directory the tag points to */
+  ifd?: number
+}
+
+const ascii = (tag: number, text: string): TestTag => ({
+  tag,
+  type: ASCII,
+  count: text.length + 1,
+  data: Buffer.from(`${text}\0`, 'latin1'),
+})
+
+const short = (tag: number, value: number): TestTag => {
+  const data = Buffer.alloc(2)
+  data.writeUInt16BE(value)
+  return { tag, type: SHORT, count: 1, data }
+}
+
+const rationals = (tag: number, values: number[]): TestTag => {
+  const data = Buffer.alloc(values.length * 8)
+  values.forEach((value, index) => {
+    data.writeUInt32BE(value, index * 8)
+    data.writeUInt32BE(1, index * 8 + 4)
+  })
+  return { tag, type: RATIONAL, count: values.length, data }
+}
+
+const pointer = (tag: number, ifd: number): TestTag => ({ tag, type: LONG, count: 1, ifd })
+
+/**
+ * Big-endian TIFF structure; each directory is followed by its out-of-line values
+ */
+function buildTiff(ifds: TestTag[][]): Buffer {
+  const dataSize = (tags: TestTag[]) =>
+    tags.reduce((total, tag) => total + (tag.data && tag.data.length > 4 ? tag.data.length : 0), 0)
+  const offsets: number[] = []
+  let size = 8
+
+  for (const tags of ifds) {
+    offsets.push(size)
+    size += 2 + tags.length * 12 + 4 + dataSize(tags)
+  }
+
+  const buffer = Buffer.alloc(size)
+  buffer.write('MM', 0, 'latin1')
+  buffer.writeUInt16BE(42, 2)
+  buffer.writeUInt32BE(8, 4)
+
+  ifds.forEach((tags, index) => {
+    let position = offsets[index]
+    let dataOffset = position + 2 + tags.length * 12 + 4
+
+    buffer.writeUInt16BE(tags.length, position)
+    position += 2
+
+    for (const tag of tags) {
+      buffer.writeUInt16BE(tag.tag, position)
+      buffer.writeUInt16BE(tag.type, position + 2)
+      buffer.writeUInt32BE(tag.count, position + 4)
+
+      if (tag.ifd !== undefined) {
+        buffer.writeUInt32BE(offsets[tag.ifd], position + 8)
+      } else if (tag.data!.length > 4) {
+        tag.data!.copy(buffer, dataOffset)
+        buffer.writeUInt32BE(dataOffset, position + 8)
+        dataOffset += tag.data!.length
+      } else {
+        tag.data!.copy(buffer, position + 8)
+      }
+      position += 12
+    }
+  })
+
+  return buffer
+}
+
+/** Tags of a directory of a big-endian TIFF structure */
+function readTags(tiff: Buffer, offset: number): number[] {
+  const count = tiff.readUInt16BE(offset)
+  return Array.from({ length: count }, (_, index) => tiff.readUInt16BE(offset + 2 + index * 12))
+}
+
+function readPointer(tiff: Buffer, ifdOffset: number, tag: number): number {
+  const index = readTags(tiff, ifdOffset).indexOf(tag)
+  return tiff.readUInt32BE(ifdOffset + 2 + index * 12 + 8)
+}
+
+function jpegSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0])
+  header.writeUInt16BE(payload.length + 2, 2)
+  return Buffer.concat([header, payload])
+}
+
+function buildJpeg(...segments: Buffer[]): Buffer {
+  const imageData = Buffer.alloc(200, 0x55)
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    ...segments,
+    jpegSegment(0xda, Buffer.alloc(10)),
+    imageData,
+    Buffer.from([0xff, 0xd9]),
+  ])
+}
+
+const exifSegment = (tiff: Buffer) =>
+  jpegSegment(0xe1, Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]))
+
+const privateTiff = () =>
+  buildTiff([
+    [
+      short(ORIENTATION, 6),
+      ascii(COPYRIGHT, 'Studio Photo St-Denis'),
+      pointer(EXIF_IFD, 1),
+      pointer(GPS_IFD, 2),
+    ],
+    [ascii(DATE_TIME_ORIGINAL, '2024:06:01 10:00:00'), ascii(BODY_SERIAL_NUMBER, 'SN12345678')],
+    [ascii(0x0001, 'N'), rationals(0x0002, [45, 30, 17])],
+  ])
+
+const GPS_LATITUDE_BYTES = rationals(0x0002, [45, 30, 17]).data!
+
+describe('PhotoPrivacyService', () => {
+  let service: PhotoPrivacyService
+  let metricsService: MetricsService
+  let rootPath: string
+
+  const createFile = (name: string, contents: Buffer): PhotoFile => {
+    const fullPath = path.join(rootPath, name)
+    fs.writeFileSync(fullPath, contents)
+    const stats = fs.statSync(fullPath)
+    return { fullPath, relativePath: name, size: stats.size, mtime: stats.mtime }
+  }
+
+  const scrub = async (file: PhotoFile) => {
+    const patches = await service.planPatches(file)
+    expect(patches).not.toBeNull()
+    return applyPatches(fs.readFileSync(file.fullPath), 0, patches ?? [])
+  }
+
+  beforeEach(async () => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'photo-privacy-'))
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PhotoPrivacyService,
+        MetricsService,
+        StorageService,
+        { provide: ConfigService, useValue: new ConfigService({ PHOTOS_BASE_PATH: rootPath }) },
+      ],
+    }).compile()
+
+    service = module.get<PhotoPrivacyService>(PhotoPrivacyService)
+    metricsService = module.get<MetricsService>(MetricsService)
+  })
+
+  afterEach(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true })
+  })
+
+  it('should remove GPS data and serial numbers from a JPEG and keep the other tags', async () => {
+    const original = buildJpeg(exifSegment(privateTiff()))
+    const file = createFile('a.jpg', original)
+
+    const scrubbed = await scrub(file)
+    const tiff = scrubbed.subarray(12)
+    const exifOffset = readPointer(tiff, 8, EXIF_IFD)
+
+    expect(scrubbed.length).toBe(original.length)
+    expect(readTags(tiff, 8)).toEqual([ORIENTATION, COPYRIGHT, EXIF_IFD])
+    expect(readTags(tiff, exifOffset)).toEqual([DATE_TIME_ORIGINAL])
+    expect(scrubbed.includes('Studio Photo St-Denis')).toBe(true)
+    expect(scrubbed.includes('SN12345678')).toBe(false)
+    expect(scrubbed.includes(GPS_LATITUDE_BYTES)).toBe(false)
+    // Image data is untouched
+    expect(scrubbed.subarray(-202).equals(original.subarray(-202))).toBe(true)
+    expect(metricsService.metadataScrubbedFiles.get()).toBe(1)
+  })
+
+  it('should leave files without private metadata untouched', async () => {
+    const tagged = createFile(
+      'tagged.jpg',
+      buildJpeg(exifSegment(buildTiff([[short(ORIENTATION, 1), ascii(COPYRIGHT, 'Studio')]]))),
+    )
+    const bare = createFile('bare.jpg', buildJpeg())
+    const other = createFile('scan.bmp', Buffer.from('BM not scrubbed'))
+
+    expect(await service.planFiles([tagged, bare, other])).toEqual([[], [], []])
+    expect(metricsService.metadataScrubbedFiles.get()).toBe(0)
+  })
+
+  it('should have no plan for formats it cannot parse, such as HEIC, CR3 and videos', async () => {
+    const isoMedia = (brand: string) => Buffer.from(`\0\0\0\x18ftyp${brand}\0\0\0\0GPS`, 'latin1')
+    const heic = createFile('a.heic', isoMedia('heic'))
+    const cr3 = createFile('b.cr3', isoMedia('crx '))
+    const video = createFile('c.mov', isoMedia('qt  '))
+    const renamed = createFile('d.jpg', isoMedia('heic'))
+
+    expect(await service.planFiles([heic, cr3, video, renamed])).toEqual([null, null, null, null])
+    // Cached like other plans
+    expect(await service.planPatches(heic)).toBeNull()
+  })
+
+  it('should remove private properties from XMP packets at the same length', async () => {
+    const packet =
+      '<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?><x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF>' +
+      '<rdf:Description dc:creator="Studio" exif:GPSLatitude="45,30.2N" aux:SerialNumber="SN12345678">' +
+      '<exif:GPSLongitude>73,33.5W</exif:GPSLongitude><dc:rights>Studio Photo</dc:rights>' +
+      '</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>'
+    const segment = jpegSegment(
+      0xe1,
+      Buffer.from(`http://ns.adobe.com/xap/1.0/\0${packet}`, 'latin1'),
+    )
+    const original = buildJpeg(segment)
+
+    const scrubbed = (await scrub(createFile('a.jpg', original))).toString('latin1')
+
+    expect(scrubbed.length).toBe(original.length)
+    expect(scrubbed).not.toMatch(/GPSLatitude|GPSLongitude|SerialNumber|73,33/)
+    expect(scrubbed).toContain('dc:creator="Studio"')
+    expect(scrubbed).toContain('<dc:rights>Studio Photo</dc:rights>')
+    expect(scrubbed).toMatch(/<\/x:xmpmeta> +<\?xpacket end="w"\?>/)
+  })
+
+  it('should turn unreadable EXIF data into an empty comment segment', async () => {
+    const broken = Buffer.from('XX\0\0\0\0\0\0garbage', 'latin1')
+    const original = buildJpeg(exifSegment(broken))
+
+    const scrubbed = await scrub(createFile('a.jpg', original))
+
+    expect(scrubbed.length).toBe(original.length)
+    expect(scrubbed[3]).toBe(0xfe)
+    expect(scrubbed.includes('garbage')).toBe(false)
+  })
+
+  it('should scrub the eXIf chunk of a PNG and rewrite its CRC', async () => {
+    const tiff = privateTiff()
+    const chunk = Buffer.alloc(12 + tiff.length)
+    chunk.writeUInt32BE(tiff.length, 0)
+    chunk.write('eXIf', 4, 'latin1')
+    tiff.copy(chunk, 8)
+    chunk.writeUInt32BE(CRC32.buf(chunk.subarray(4, 8 + tiff.length)) >>> 0, 8 + tiff.length)
+    const original = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk,
+      Buffer.from('\0\0\0\0IEND\xaeB`\x82', 'latin1'),
+    ])
+
+    const scrubbed = await scrub(createFile('a.png', original))
+    const data = scrubbed.subarray(16, 16 + tiff.length)
+
+    expect(scrubbed.length).toBe(original.length)
+    expect(data.includes('SN12345678')).toBe(false)
+    expect(scrubbed.readUInt32BE(16 + tiff.length)).toBe(
+      CRC32.buf(scrubbed.subarray(12, 16 + tiff.length)) >>> 0,
+    )
+  })
+
+  it('should scrub TIFF files in place', async () => {
+    const original = privateTiff()
+
+    const scrubbed = await scrub(createFile('a.tif', original))
+
+    expect(readTags(scrubbed, 8)).toEqual([ORIENTATION, COPYRIGHT, EXIF_IFD])
+    expect(scrubbed.includes(GPS_LATITUDE_BYTES)).toBe(false)
+  })
+
+  it('should refuse a TIFF file whose directories cannot be read', async () => {
+    const broken = privateTiff()
+    broken.writeUInt32BE(broken.length + 100, 4)
+
+    await expect(service.planPatches(createFile('a.tif', broken))).rejects.toThrow(
+      'Cannot remove the metadata of',
+    )
+  })
+})
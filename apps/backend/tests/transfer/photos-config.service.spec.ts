@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PhotosConfigService } from '../../src/transfer/services/photos-config.service'
+import { StorageService } from '../../src/storage/storage.service'
+import { ArchiveEntryNamer } from '../../src/transfer/services/folder-layout'
+import { DEFAULT_FILE_TYPE_PROFILES } from '../../src/transfer/services/file-types'
+
+describe('PhotosConfigService', () => {
+  let basePath: string
+
+  const compileService = async (config: Record<string, unknown> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PhotosConfigService,
+        StorageService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ PHOTOS_BASE_PATH: basePath, ...config }),
+        },
+      ],
+    }).compile()
+
+    return module.get<PhotosConfigService>(PhotosConfigService)
+  }
+
+  const listNames = async (service: PhotosConfigService, profile?: string) =>
+    (await service.listImageFiles(basePath, service.getFileTypeProfile(profile))).map(
+      (file) => file.relativePath,
+    )
+
+  beforeEach(() => {
+    basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'photos-config-'))
+    fs.mkdirSync(path.join(basePath, 'raw'))
+    fs.writeFileSync(path.join(basePath, 'a.JPG'), Buffer.from([0xff, 0xd8, 0xff, 0xe0]))
+    fs.writeFileSync(path.join(basePath, 'b.png'), Buffer.from('\x89PNG\r\n\x1a\n', 'latin1'))
+    fs.writeFileSync(
+      path.join(basePath, 'raw', 'c.CR3'),
+      Buffer.from('\0\0\0\x18ftypcrx ', 'latin1'),
+    )
+    fs.writeFileSync(path.join(basePath, 'raw', 'd.nef'), Buffer.from('MM\0*\0\0\0\x08', 'latin1'))
+    fs.writeFileSync(path.join(basePath, 'clip.MOV'), Buffer.from('\0\0\0\x14ftypqt  ', 'latin1'))
+    fs.writeFileSync(path.join(basePath, 'notes.txt'), 'not a photo')
+  })
+
+  afterEach(() => {
+    fs.rmSync(basePath, { recursive: true, force: true })
+  })
+
+  describe('file type profiles', () => {
+    it('should deliver the historical image formats by default', async () => {
+      const service = await compileService()
+
+      expect(service.getSupportedImageExtensions().sort()).toEqual(
+        ['.bmp', '.jpeg', '.jpg', '.png', '.tif', '.tiff', '.webp'].sort(),
+      )
+      expect(await listNames(service)).toEqual(['a.JPG', 'b.png'])
+    })
+
+    it('should add RAW and video files for the profiles including them', async () => {
+      const service = await compileService()
+
+      expect(await listNames(service, 'jpeg-only')).toEqual(['a.JPG'])
+      expect(await listNames(service, 'with-raw')).toEqual([
+        'a.JPG',
+        'b.png',
+        'raw/c.CR3',
+        'raw/d.nef',
+      ])
+      expect(await listNames(service, 'with-video')).toEqual(['a.JPG', 'b.png', 'clip.MOV'])
+    })
+
+    it('should match extensions regardless of case', async () => {
+      const service = await compileService()
+      const profile = service.getFileTypeProfile('with-raw')
+
+      expect(service.isValidImageFile('IMG_0001.ARW', profile)).toBe(true)
+      expect(service.isValidImageFile('img_0001.arw', profile)).toBe(true)
+      expect(service.isValidImageFile('notes.TXT', profile)).toBe(false)
+    })
+
+    it('should read profiles and literal extensions from the configuration', async () => {
+      const service = await compileService({
+        FILE_TYPE_PROFILES: 'prints:jpeg|tiff,legacy-raw:jpeg|.CRW',
+        FILE_TYPE_PROFILE_DEFAULT: 'prints',
+      })
+      fs.writeFileSync(path.join(basePath, 'old.crw'), 'raw data')
+
+      expect(Object.keys(service.getFileTypeProfiles())).toEqual(['prints', 'legacy-raw'])
+      expect(await listNames(service)).toEqual(['a.JPG'])
+      expect(await listNames(service, 'legacy-raw')).toEqual(['a.JPG', 'old.crw'])
+    })
+
+    it('should reject unknown profiles for new orders and fall back for existing ones', async () => {
+      const service = await compileService()
+
+      expect(() => service.resolveFileTypeProfile('everything')).toThrow(
+        'Unknown file type profile "everything"',
+      )
+      expect(service.resolveFileTypeProfile().name).toBe('standard')
+      expect(service.getFileTypeProfile('removed-profile').name).toBe('standard')
+    })
+
+    it('should reject privacy mode with profiles holding formats it cannot scrub', async () => {
+      const service = await compileService({
+        FILE_TYPE_PROFILES: `${DEFAULT_FILE_TYPE_PROFILES},tiff-raw:jpeg|cr2|nef|arw|dng,legacy-raw:jpeg|.crw`,
+      })
+
+      expect(() => service.resolveFileTypeProfile('with-raw', true)).toThrow(
+        'Privacy mode cannot remove the metadata of .cr3, .heic, .heif, .orf, .raf, .rw2 files of file type profile "with-raw"',
+      )
+      expect(() => service.resolveFileTypeProfile('with-video', true)).toThrow('.mov, .mp4')
+      expect(() => service.resolveFileTypeProfile('legacy-raw', true)).toThrow('.crw files')
+      expect(service.resolveFileTypeProfile('with-raw').name).toBe('with-raw')
+      expect(service.resolveFileTypeProfile('tiff-raw', true).name).toBe('tiff-raw')
+      expect(service.resolveFileTypeProfile(undefined, true).name).toBe('standard')
+    })
+
+    it('should refuse to start with an invalid configuration', async () => {
+      const unknownType = await compileService({ FILE_TYPE_PROFILES: 'raw-only:cr4' })
+      const missingDefault = await compileService({ FILE_TYPE_PROFILE_DEFAULT: 'missing' })
+
+      await expect(unknownType.onModuleInit()).rejects.toThrow(
+        'Unknown file type "cr4" in file type profile "raw-only"',
+      )
+      await expect(missingDefault.onModuleInit()).rejects.toThrow(
+        'Default file type profile "missing"',
+      )
+    })
+  })
+
+  describe('signature sniffing', () => {
+    it('should select files by their first bytes instead of their extension', async () => {
+      const service = await compileService({ FILE_TYPE_SNIFF: 'true' })
+      fs.writeFileSync(path.join(basePath, 'IMG_0002'), Buffer.from([0xff, 0xd8, 0xff, 0xe1]))
+      fs.writeFileSync(path.join(basePath, 'fake.jpg'), '<html>not a photo</html>')
+
+      expect(await listNames(service)).toEqual(['IMG_0002', 'a.JPG', 'b.png'])
+      expect(await listNames(service, 'with-raw')).toEqual([
+        'IMG_0002',
+        'a.JPG',
+        'b.png',
+        'raw/c.CR3',
+        'raw/d.nef',
+      ])
+    })
+  })
+
+  describe('photo libraries', () => {
+    it('should boot and report a library that is not available', async () => {
+      const service = await compileService({
+        PHOTO_LIBRARIES: `studio-b:${path.join(basePath, 'raw')},2019:${path.join(basePath, 'gone')}`,
+      })
+
+      await expect(service.onModuleInit()).resolves.toBeUndefined()
+      expect(await service.getLibraryStatuses()).toEqual([
+        expect.objectContaining({ name: 'studio-b', readable: true }),
+        expect.objectContaining({ name: '2019', readable: false }),
+      ])
+      expect(await service.isLibraryAvailable('studio-b:')).toBe(true)
+      expect(await service.isLibraryAvailable('2019:wedding')).toBe(false)
+      expect(await service.isLibraryAvailable('wedding')).toBe(true)
+      expect(service.getArchiveFolder('studio-b:2024/wedding', new ArchiveEntryNamer())).toBe(
+        'wedding',
+      )
+    })
+  })
+})
@@ -0,0 +1,63 @@
+import {
+  buildTarHeader,
+  getTarHeaderSize,
+  getTarPaddingSize,
+} from '../../src/transfer/services/tar-headers'
+
+const mtime = new Date('2025-08-10T09:00:00.000Z')
+
+/**
+ * Checks the header checksum: the sum of all bytes with the checksum field as spaces
+ */
+function hasValidChecksum(header: Buffer): boolean {
+  const stored = parseInt(header.toString('latin1', 148, 155), 8)
+  const copy = Buffer.from(header)
+  copy.fill(0x20, 148, 156)
+
+  return copy.reduce((total, byte) => total + byte, 0) === stored
+}
+
+describe('tar headers', () => {
+  it('should write a single ustar block for short ASCII names', () => {
+    const name = Buffer.from('wedding/a.jpg')
+    const header = buildTarHeader(name, 1500, mtime)
+
+    expect(header.length).toBe(512)
+    expect(getTarHeaderSize(name, 1500)).toBe(512)
+    expect(header.toString('latin1', 0, name.length)).toBe('wedding/a.jpg')
+    expect(parseInt(header.toString('latin1', 124, 135), 8)).toBe(1500)
+    expect(parseInt(header.toString('latin1', 136, 147), 8)).toBe(mtime.getTime() / 1000)
+    expect(header.toString('latin1', 156, 157)).toBe('0')
+    expect(hasValidChecksum(header)).toBe(true)
+  })
+
+  it('should split long names into the prefix and name fields', () => {
+    const name = Buffer.from(`${'a'.repeat(80)}/${'b'.repeat(60)}/c.jpg`)
+    const header = buildTarHeader(name, 10, mtime)
+
+    expect(header.length).toBe(512)
+    expect(header.toString('latin1', 0, 66)).toBe(`${'b'.repeat(60)}/c.jpg`)
+    expect(header.toString('latin1', 345, 425)).toBe('a'.repeat(80))
+    expect(hasValidChecksum(header)).toBe(true)
+  })
+
+  it('should put non-ASCII names in a pax extended header', () => {
+    const name = Buffer.from('mariage/Église.jpg')
+    const header = buildTarHeader(name, 10, mtime)
+    const record = `${name.length + 9} path=${name.toString()}\n`
+
+    expect(header.length).toBe(getTarHeaderSize(name, 10))
+    expect(header.length).toBe(3 * 512)
+    expect(header.toString('latin1', 156, 157)).toBe('x')
+    expect(hasValidChecksum(header.subarray(0, 512))).toBe(true)
+    expect(header.subarray(512, 512 + Buffer.byteLength(record)).toString()).toBe(record)
+    expect(header.toString('latin1', 1024, 1042)).toBe('mariage/_glise.jpg')
+    expect(hasValidChecksum(header.subarray(1024))).toBe(true)
+  })
+
+  it('should pad file contents to whole blocks', () => {
+    expect(getTarPaddingSize(0)).toBe(0)
+    expect(getTarPaddingSize(1)).toBe(511)
+    expect(getTarPaddingSize(1024)).toBe(0)
+  })
+})
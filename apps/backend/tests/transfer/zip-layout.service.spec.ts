@@ -0,0 +1,494 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { Readable } from 'stream'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as CRC32 from 'crc-32'
+import { createHash } from 'crypto'
+import { ZipFolderLayout } from '@photo-st-denis/shared'
+import { PhotoFile, PhotosConfigService } from '../../src/transfer/services/photos-config.service'
+import { ZipLayoutService } from '../../src/transfer/services/zip-layout.service'
+import { ImageVariantService } from '../../src/transfer/services/image-variant.service'
+import { PhotoPrivacyService } from '../../src/transfer/services/photo-privacy.service'
+import { CaptureDateService } from '../../src/transfer/services/capture-date.service'
+import { StorageService } from '../../src/storage/storage.service'
+import { MetricsService } from '../../src/metrics/metrics.service'
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+describe('ZipLayoutService', () => {
+  let service: ZipLayoutService
+  let metricsService: MetricsService
+  let storageService: StorageService
+  let basePath: string
+
+  const mockImageVariantService = {
+    resolveFiles: jest.fn(),
+  }
+
+  const mockPhotoPrivacyService = {
+    planFiles: jest.fn(),
+  }
+
+  beforeEach(async () => {
+    basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'zip-layout-'))
+    fs.mkdirSync(path.join(basePath, 'event1', 'ceremony'), { recursive: true })
+    fs.mkdirSync(path.join(basePath, 'event2'))
+    fs.writeFileSync(path.join(basePath, 'event1', 'a.jpg'), Buffer.alloc(1500, 1))
+    fs.writeFileSync(path.join(basePath, 'event1', 'notes.txt'), 'not a photo')
+    fs.writeFileSync(path.join(basePath, 'event1', 'ceremony', 'b.JPG'), Buffer.alloc(700, 2))
+    fs.writeFileSync(path.join(basePath, 'event2', 'c.png'), Buffer.alloc(0))
+
+    mockImageVariantService.resolveFiles.mockImplementation((files: PhotoFile[]) => files)
+    mockPhotoPrivacyService.planFiles.mockImplementation((files: PhotoFile[]) =>
+      files.map((file) =>
+        file.relativePath === 'a.jpg' ? [{ offset: 1000, data: Buffer.from('scrubbed') }] : [],
+      ),
+    )
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ZipLayoutService,
+        PhotosConfigService,
+        StorageService,
+        CaptureDateService,
+        MetricsService,
+        { provide: ImageVariantService, useValue: mockImageVariantService },
+        { provide: PhotoPrivacyService, useValue: mockPhotoPrivacyService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ PHOTOS_BASE_PATH: basePath }),
+        },
+      ],
+    }).compile()
+
+    service = module.get<ZipLayoutService>(ZipLayoutService)
+    metricsService = module.get<MetricsService>(MetricsService)
+    storageService = module.get<StorageService>(StorageService)
+  })
+
+  afterEach(() => {
+    fs.rmSync(basePath, { recursive: true, force: true })
+  })
+
+  describe('buildLayout', () => {
+    it('should list image files in a stable order under their directory name', async () => {
+      const layout = await service.buildLayout(['event1', 'event2', 'missing'])
+
+      expect(layout.entries.map((entry) => entry.name.toString())).toEqual([
+        'event1/a.jpg',
+        'event1/ceremony/b.JPG',
+        'event2/c.png',
+      ])
+      expect(layout.zip64).toBe(false)
+    })
+
+    it('should produce the same validator for unchanged directories', async () => {
+      const first = await service.buildLayout(['event1'])
+      const second = await service.buildLayout(['event1'])
+
+      expect(second.etag).toBe(first.etag)
+      expect(second.totalSize).toBe(first.totalSize)
+    })
+
+    it('should change the validator when a file changes', async () => {
+      const before = await service.buildLayout(['event1'])
+      fs.writeFileSync(path.join(basePath, 'event1', 'a.jpg'), Buffer.alloc(1600, 1))
+      const after = await service.buildLayout(['event1'])
+
+      expect(after.etag).not.toBe(before.etag)
+    })
+
+    it('should lay out the resized copies of the web variant under the original names', async () => {
+      const full = await service.buildLayout(['event1'])
+
+      const copyPath = path.join(basePath, 'a-web.jpg')
+      fs.writeFileSync(copyPath, Buffer.alloc(300, 3))
+      mockImageVariantService.resolveFiles.mockImplementation((files: PhotoFile[]) =>
+        files.map((file) =>
+          file.relativePath === 'a.jpg' ? { ...file, fullPath: copyPath, size: 300 } : file,
+        ),
+      )
+
+      const web = await service.buildLayout(['event1'], { variant: 'web' })
+
+      expect(mockImageVariantService.resolveFiles).toHaveBeenLastCalledWith(
+        expect.any(Array),
+        'web',
+        undefined,
+      )
+      expect(web.variant).toBe('web')
+      expect(web.entries.map((entry) => entry.name.toString())).toEqual([
+        'event1/a.jpg',
+        'event1/ceremony/b.JPG',
+      ])
+      expect(web.entries[0]).toMatchObject({ sourcePath: copyPath, size: 300 })
+      expect(web.totalSize).toBe(full.totalSize - 1200)
+      expect(web.etag).not.toBe(full.etag)
+    })
+
+    it('should number directories sharing their last segment', async () => {
+      fs.mkdirSync(path.join(basePath, 'event2', 'ceremony'))
+      fs.writeFileSync(path.join(basePath, 'event2', 'ceremony', 'b.JPG'), Buffer.alloc(10))
+
+      const layout = await service.buildLayout(['event1/ceremony', 'event2/ceremony'])
+
+      expect(layout.entries.map((entry) => entry.name.toString())).toEqual([
+        'ceremony/b.JPG',
+        'ceremony (2)/b.JPG',
+      ])
+    })
+
+    it('should lay out the directories with the folder layout of the order', async () => {
+      const capturedAt = new Date(2024, 5, 1, 14)
+      fs.utimesSync(path.join(basePath, 'event1', 'a.jpg'), capturedAt, capturedAt)
+      fs.utimesSync(path.join(basePath, 'event1', 'ceremony', 'b.JPG'), capturedAt, capturedAt)
+      const names = async (folderLayout: ZipFolderLayout) =>
+        (await service.buildLayout(['event1', 'event1/ceremony'], { folderLayout })).entries.map(
+          (entry) => entry.name.toString(),
+        )
+
+      expect(await names('full-path')).toEqual([
+        'event1/a.jpg',
+        'event1/ceremony/b.JPG',
+        'event1/ceremony/b (2).JPG',
+      ])
+      expect(await names('flat')).toEqual([
+        'event1_a.jpg',
+        'event1_ceremony_b.JPG',
+        'ceremony_b.JPG',
+      ])
+      expect(await names('by-date')).toEqual([
+        '2024-06-01/a.jpg',
+        '2024-06-01/b.JPG',
+        '2024-06-01/b (2).JPG',
+      ])
+    })
+
+    it('should plan metadata removal in privacy mode without changing the layout', async () => {
+      const full = await service.buildLayout(['event1'])
+      const scrubbed = await service.buildLayout(['event1'], { privacyMode: true })
+
+      expect(mockPhotoPrivacyService.planFiles).toHaveBeenCalledTimes(1)
+      expect(scrubbed.privacyMode).toBe(true)
+      expect(scrubbed.entries[0].patches).toHaveLength(1)
+      expect(scrubbed.entries[1].patches).toBeUndefined()
+      expect(scrubbed.totalSize).toBe(full.totalSize)
+      expect(scrubbed.etag).not.toBe(full.etag)
+    })
+  })
+
+  describe('listDirectories', () => {
+    it('should list every directory of the order with its folder', async () => {
+      const directories = await service.listDirectories(['event1', 'missing', 'event2'])
+
+      expect(
+        directories.map(({ index, folder, entries }) => [
+          index,
+          folder,
+          entries.map((entry) => entry.relativePath),
+        ]),
+      ).toEqual([
+        [0, 'event1', ['a.jpg', 'ceremony/b.JPG']],
+        [1, null, []],
+        [2, 'event2', ['c.png']],
+      ])
+    })
+
+    it('should lay out one directory with the names it has in the whole archive', async () => {
+      fs.mkdirSync(path.join(basePath, 'event2', 'ceremony'))
+      fs.writeFileSync(path.join(basePath, 'event2', 'ceremony', 'b.JPG'), Buffer.alloc(10))
+      const privacyCalls = mockPhotoPrivacyService.planFiles.mock.calls.length
+
+      const layout = await service.buildLayout(['event1/ceremony', 'event2/ceremony'], {
+        privacyMode: true,
+        directoryIndex: 1,
+      })
+
+      expect(layout.directoryIndex).toBe(1)
+      expect(layout.entries.map((entry) => entry.name.toString())).toEqual(['ceremony (2)/b.JPG'])
+      expect(mockPhotoPrivacyService.planFiles).toHaveBeenCalledTimes(privacyCalls + 1)
+      expect(mockPhotoPrivacyService.planFiles).toHaveBeenLastCalledWith([
+        expect.objectContaining({ fullPath: path.join(basePath, 'event2', 'ceremony', 'b.JPG') }),
+      ])
+      expect(layout.etag).not.toBe(
+        (await service.buildLayout(['event1/ceremony', 'event2/ceremony'])).etag,
+      )
+    })
+  })
+
+  describe('buildParts', () => {
+    it('should split the archive into parts under the maximum size', async () => {
+      const whole = await service.buildLayout(['event1', 'event2'])
+      const parts = await service.buildParts(['event1', 'event2'], {}, 1700)
+
+      expect(parts.map((part) => part.entries.map((entry) => entry.name.toString()))).toEqual([
+        ['event1/a.jpg'],
+        ['event1/ceremony/b.JPG', 'event2/c.png'],
+      ])
+      expect(parts.map((part) => [part.part, part.partCount])).toEqual([
+        [1, 2],
+        [2, 2],
+      ])
+      expect(parts[1].totalSize).toBeLessThanOrEqual(1700)
+      expect(new Set([whole.etag, ...parts.map((part) => part.etag)]).size).toBe(3)
+
+      const archive = await readAll(service.createStream(parts[1]))
+      expect(archive.length).toBe(parts[1].totalSize)
+      // Its files and their checksum manifest
+      expect(archive.readUInt16LE(archive.length - 12)).toBe(3)
+    })
+
+    it('should keep the whole archive when the order is not split', async () => {
+      const whole = await service.buildLayout(['event1'], { format: 'tar' })
+      const [part] = await service.buildParts(['event1'], { format: 'tar' }, null)
+
+      expect(part.part).toBeNull()
+      expect(part.etag).toBe(whole.etag)
+      expect(part.etag).not.toBe((await service.buildLayout(['event1'])).etag)
+    })
+  })
+
+  describe('createStream', () => {
+    it('should stream exactly the announced number of bytes', async () => {
+      const layout = await service.buildLayout(['event1', 'event2'])
+      const archive = await readAll(service.createStream(layout))
+
+      expect(archive.length).toBe(layout.totalSize)
+      expect(archive.readUInt32LE(archive.length - 22)).toBe(0x06054b50)
+      expect(archive.readUInt16LE(archive.length - 12)).toBe(4)
+      expect(archive.readUInt32LE(archive.length - 6)).toBe(layout.centralDirectoryOffset)
+    })
+
+    it('should record the directories processed and the files streamed in the metrics', async () => {
+      const layout = await service.buildLayout(['event1', 'event2', 'missing'])
+
+      expect(metricsService.directoryProcessingSeconds.get().count).toBe(2)
+      expect(metricsService.filesArchived.get()).toBe(0)
+
+      await readAll(service.createStream(layout, 0, layout.entries[1].dataOffset))
+
+      expect(metricsService.filesArchived.get()).toBe(1)
+      expect(metricsService.archiveStreamSeconds.get().count).toBe(0)
+      expect(metricsService.archiveFinalizationSeconds.get().count).toBe(0)
+
+      await readAll(service.createStream(layout, layout.centralDirectoryOffset))
+
+      expect(metricsService.archiveStreamSeconds.get().count).toBe(0)
+      expect(metricsService.archiveFinalizationSeconds.get().count).toBe(1)
+
+      await readAll(service.createStream(layout))
+
+      expect(metricsService.filesArchived.get()).toBe(4)
+      expect(metricsService.archiveStreamSeconds.get().count).toBe(1)
+      expect(metricsService.archiveFinalizationSeconds.get().count).toBe(2)
+    })
+
+    it('should write valid CRC values in the central directory', async () => {
+      const layout = await service.buildLayout(['event1'])
+      const archive = await readAll(service.createStream(layout))
+
+      let position = layout.centralDirectoryOffset
+      for (const entry of layout.entries) {
+        expect(archive.readUInt32LE(position)).toBe(0x02014b50)
+        const expectedCrc = CRC32.buf(fs.readFileSync(entry.sourcePath)) >>> 0
+        expect(archive.readUInt32LE(position + 16)).toBe(expectedCrc)
+        position += 46 + archive.readUInt16LE(position + 28) + archive.readUInt16LE(position + 30)
+      }
+    })
+
+    it('should return the same bytes for a range as for the full archive', async () => {
+      const layout = await service.buildLayout(['event1', 'event2'])
+      const archive = await readAll(service.createStream(layout))
+
+      const ranges = [
+        [0, 10],
+        [40, 1700],
+        [layout.centralDirectoryOffset - 5, layout.totalSize - 1],
+      ]
+
+      for (const [start, end] of ranges) {
+        const slice = await readAll(service.createStream(layout, start, end))
+        expect(slice.equals(archive.subarray(start, end + 1))).toBe(true)
+      }
+    })
+
+    it('should end the archive with the checksum manifest of the delivered files', async () => {
+      const layout = await service.buildLayout(['event1', 'event2'], { privacyMode: true })
+      const manifest = layout.checksumManifest!
+      const expected = layout.entries
+        .map((entry) => {
+          const contents = fs.readFileSync(entry.sourcePath)
+          if (entry.patches) {
+            contents.write('scrubbed', 1000)
+          }
+          return `${createHash('sha256').update(contents).digest('hex')}  ${entry.name}\n`
+        })
+        .join('')
+
+      // Only the manifest and the central directory, so every file is hashed from its source
+      const tail = await readAll(service.createStream(layout, manifest.dataOffset))
+      const contents = tail.subarray(0, manifest.size)
+
+      expect(manifest.name.toString()).toBe('MANIFEST.sha256')
+      expect(contents.toString()).toBe(expected)
+      expect(tail.readUInt32LE(manifest.size + 4)).toBe(CRC32.buf(contents) >>> 0)
+      expect((await service.getChecksums(layout)).map((checksum) => checksum.name)).toEqual([
+        'event1/a.jpg',
+        'event1/ceremony/b.JPG',
+        'event2/c.png',
+      ])
+
+      const archive = await readAll(service.createStream(layout))
+      expect(archive.subarray(manifest.dataOffset, manifest.dataOffset + manifest.size)).toEqual(
+        contents,
+      )
+    })
+
+    it('should list missing directories and unreadable files in a delivery report', async () => {
+      const unreadablePath = path.join(basePath, 'event1', 'ceremony', 'b.JPG')
+      const access = fs.promises.access
+      const accessSpy = jest
+        .spyOn(fs.promises, 'access')
+        .mockImplementation((location, mode) =>
+          location === unreadablePath
+            ? Promise.reject(Object.assign(new Error('EACCES'), { code: 'EACCES' }))
+            : access(location, mode),
+        )
+
+      const layout = await service
+        .buildLayout(['event1', 'missing'])
+        .finally(() => accessSpy.mockRestore())
+      const report = layout.reportEntry!
+      const archive = await readAll(service.createStream(layout))
+
+      expect(layout.entries.map((entry) => entry.name.toString())).toEqual(['event1/a.jpg'])
+      expect(layout.report).toEqual({
+        skippedDirectories: [{ index: 1, path: 'missing', reason: 'directory not found' }],
+        unreadableFiles: [
+          { directoryIndex: 0, path: 'ceremony/b.JPG', reason: 'permission denied' },
+        ],
+      })
+      expect(report.name.toString()).toBe('DELIVERY_REPORT.txt')
+      expect(layout.checksumManifest!.headerOffset).toBeGreaterThan(report.dataOffset)
+      expect(archive.length).toBe(layout.totalSize)
+
+      const contents = archive.subarray(report.dataOffset, report.dataOffset + report.size)
+      expect(contents.toString()).toContain('- missing (directory not found)\n')
+      expect(contents.toString()).toContain('- event1/ceremony/b.JPG (permission denied)\n')
+      expect(archive.readUInt32LE(report.dataOffset + report.size + 4)).toBe(
+        CRC32.buf(contents) >>> 0,
+      )
+    })
+
+    it('should keep the checksums of streamed files in memory', async () => {
+      const layout = await service.buildLayout(['event1'], { format: 'tar' })
+
+      expect(service.getCachedChecksums(layout)).toBeNull()
+      await readAll(service.createStream(layout))
+      expect(service.getCachedChecksums(layout)).toEqual(await service.getChecksums(layout))
+    })
+
+    it('should stream patched file contents with their CRC in privacy mode', async () => {
+      const layout = await service.buildLayout(['event1'], { privacyMode: true })
+      const archive = await readAll(service.createStream(layout))
+      const [entry] = layout.entries
+
+      const expected = fs.readFileSync(entry.sourcePath)
+      expected.write('scrubbed', 1000)
+      const contents = archive.subarray(entry.dataOffset, entry.dataOffset + entry.size)
+      const descriptor = entry.dataOffset + entry.size
+
+      expect(contents.equals(expected)).toBe(true)
+      expect(archive.readUInt32LE(descriptor + 4)).toBe(CRC32.buf(expected) >>> 0)
+
+      // A range starting inside the patch
+      const slice = await readAll(service.createStream(layout, entry.dataOffset + 1004, descriptor))
+      expect(slice.equals(archive.subarray(entry.dataOffset + 1004, descriptor + 1))).toBe(true)
+    })
+
+    it('should never deliver HEIC or CR3 files in privacy mode, since their metadata stays', async () => {
+      const gps = Buffer.from('GPS 45.5047 N -73.5772 W')
+      const isoMedia = (brand: string) =>
+        Buffer.concat([Buffer.from(`\0\0\0\x18ftyp${brand}\0\0\0\0`, 'latin1'), gps])
+      fs.writeFileSync(path.join(basePath, 'event2', 'd.heic'), isoMedia('heic'))
+      fs.writeFileSync(path.join(basePath, 'event2', 'e.cr3'), isoMedia('crx '))
+      const privacyService = new PhotoPrivacyService(metricsService, storageService)
+      mockPhotoPrivacyService.planFiles.mockImplementation((files: PhotoFile[]) =>
+        privacyService.planFiles(files),
+      )
+
+      const layout = await service.buildLayout(['event2'], {
+        privacyMode: true,
+        fileTypeProfile: 'with-raw',
+      })
+      const archive = await readAll(service.createStream(layout))
+      const report = layout.reportEntry!
+
+      expect(layout.entries.map((entry) => entry.name.toString())).toEqual(['event2/c.png'])
+      expect(layout.report.unreadableFiles).toEqual([
+        { directoryIndex: 0, path: 'd.heic', reason: 'private metadata cannot be removed' },
+        { directoryIndex: 0, path: 'e.cr3', reason: 'private metadata cannot be removed' },
+      ])
+      expect(archive.includes(gps)).toBe(false)
+      expect(
+        archive.subarray(report.dataOffset, report.dataOffset + report.size).toString(),
+      ).toContain('- event2/d.heic (private metadata cannot be removed)\n')
+
+      // Without privacy mode they are delivered as they are
+      const full = await service.buildLayout(['event2'], { fileTypeProfile: 'with-raw' })
+      expect(full.entries).toHaveLength(3)
+    })
+
+    it('should stream a tar archive with each file after its header block', async () => {
+      const layout = await service.buildLayout(['event1', 'event2'], { format: 'tar' })
+      const archive = await readAll(service.createStream(layout))
+
+      expect(archive.length).toBe(layout.totalSize)
+      expect(archive.length % 512).toBe(0)
+      for (const entry of layout.entries) {
+        const header = archive.subarray(entry.headerOffset, entry.dataOffset)
+        const contents = archive.subarray(entry.dataOffset, entry.dataOffset + entry.size)
+
+        expect(header.toString('latin1', 0, entry.name.length)).toBe(entry.name.toString())
+        expect(header.toString('latin1', 257, 262)).toBe('ustar')
+        expect(contents.equals(fs.readFileSync(entry.sourcePath))).toBe(true)
+      }
+      expect(archive.subarray(-1024).equals(Buffer.alloc(1024))).toBe(true)
+
+      const slice = await readAll(service.createStream(layout, 500, 2100))
+      expect(slice.equals(archive.subarray(500, 2101))).toBe(true)
+    })
+
+    it('should stream a single file with the same contents as in the archive', async () => {
+      const [directory] = await service.listDirectories(['event1'], { privacyMode: true })
+      const [entry] = directory.entries
+
+      const expected = fs.readFileSync(entry.sourcePath)
+      expected.write('scrubbed', 1000)
+
+      expect((await readAll(service.createFileStream(entry))).equals(expected)).toBe(true)
+      expect(
+        (await readAll(service.createFileStream(entry, 998, 1003))).equals(
+          expected.subarray(998, 1004),
+        ),
+      ).toBe(true)
+    })
+
+    it('should fail when a source file shrinks after the layout was built', async () => {
+      const layout = await service.buildLayout(['event1'])
+      fs.writeFileSync(path.join(basePath, 'event1', 'a.jpg'), Buffer.alloc(10, 1))
+
+      await expect(readAll(service.createStream(layout))).rejects.toThrow(
+        'Source file changed during download',
+      )
+    })
+  })
+})
@@ -1,4 +1,6 @@
 // Shared types for photo management system
+import type { ArchiveFormat, CustomerLanguage, DownloadVariant, ZipFolderLayout } from "./types"
+
 export * from "./types"
 
 export interface OrderInfo {
@@ -52,6 +54,19 @@ export const API_VERSIONS = {
   V1: "v1",
 } as const
 
+export const DOWNLOAD_VARIANTS: readonly DownloadVariant[] = ["full", "web"]
+
+export const ZIP_FOLDER_LAYOUTS: readonly ZipFolderLayout[] = [
+  "full-path",
+  "last-segment",
+  "flat",
+  "by-date",
+]
+
+export const ARCHIVE_FORMATS: readonly ArchiveFormat[] = ["zip", "tar", "tar.gz"]
+
+export const CUSTOMER_LANGUAGES: readonly CustomerLanguage[] = ["fr", "en"]
+
 export const CACHE_CONSTANTS = {
   MAX_SIZE_MB: 5000,
   DEFAULT_TTL_HOURS: 24,
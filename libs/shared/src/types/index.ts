@@ -6,15 +6,184 @@ export interface TokenMetadata {
   isExpired: boolean
 }
 
+/** Full-resolution originals, or copies downscaled for the web */
+export type DownloadVariant = "full" | "web"
+
+/**
+ * Folders of the order directories in the archive: the full relative path, the last
+ * segment, no folders with prefixed file names, or one folder per capture date
+ */
+export type ZipFolderLayout = "full-path" | "last-segment" | "flat" | "by-date"
+
+/** Container of the download: ZIP, or tar for tools without ZIP64 support, optionally gzipped */
+export type ArchiveFormat = "zip" | "tar" | "tar.gz"
+
+/** Language of the emails sent to the customer */
+export type CustomerLanguage = "fr" | "en"
+
+/** Email sent to the customer: the download link, or the reminder before it expires */
+export type DeliveryMailKind = "link" | "reminder"
+
 export interface AssociateRequest {
   email: string
   directoryPaths: string[]
+  expiresInHours?: number
+  expiresAt?: string
+  expiryPreset?: string
+  maxDownloads?: number
+  variants?: DownloadVariant[]
+  /** Remove GPS data and device identifiers from the delivered photos */
+  privacyMode?: boolean
+  /** Name of the file type profile selecting the delivered files, e.g. "with-raw" */
+  fileTypeProfile?: string
+  /** How the directories are laid out in the archive, "last-segment" by default */
+  folderLayout?: ZipFolderLayout
+  /** Split the download into numbered parts of at most this many MB each, e.g. for FAT32 */
+  maxPartSizeMb?: number
+  /** Email the link to the customer, and a reminder before it expires; true when mail is set up */
+  sendEmail?: boolean
+  /** Language of the emails, the server default when omitted */
+  language?: CustomerLanguage
+}
+
+export type StaffRole = "admin" | "photographer"
+
+export interface LoginRequest {
+  username: string
+  password: string
+}
+
+export interface LoginResponse {
+  accessToken: string
+  tokenType: "Bearer"
+  expiresIn: number
+  role: StaffRole
+}
+
+export interface DirectorySummary {
+  path: string
+  valid: boolean
+  /** Reason the directory cannot be delivered */
+  error?: string
+  fileCount: number
+  totalSize: number
+  totalSizeFormatted: string
+}
+
+export interface ArchiveSummary {
+  /** Whether every directory can be delivered */
+  valid: boolean
+  /** File type profile the counts and sizes were computed with */
+  fileTypeProfile: string
+  directories: DirectorySummary[]
+  fileCount: number
+  totalSize: number
+  totalSizeFormatted: string
+  /** Size of the ZIP archive built from the valid directories */
+  estimatedArchiveSize: number
+  estimatedArchiveSizeFormatted: string
+}
+
+export interface ArchivePart {
+  /** Number of the part, from 1 */
+  part: number
+  fileCount: number
+  /** Size of the part in bytes, null for tar.gz since it is compressed while streaming */
+  size: number | null
+  filename: string
+  downloadUrl: string
+}
+
+export interface ArchivePartList {
+  variant: DownloadVariant
+  format: ArchiveFormat
+  /** Maximum size of a part in bytes, null when the order is not split */
+  maxPartSize: number | null
+  parts: ArchivePart[]
+}
+
+export interface ManifestFile {
+  /** Opaque identifier of the file, only valid with the token of its order */
+  id: string
+  /** Path of the file below its directory */
+  name: string
+  /** Size of the original file in bytes */
+  size: number
+  contentType: string
+  url: string
+}
+
+export interface ManifestDirectory {
+  /** Index of the directory in the order, from 0 */
+  index: number
+  /** Folder of the directory in the archive, null when it is no longer available */
+  folder: string | null
+  fileCount: number
+  totalSize: number
+  downloadUrl: string
+  files: ManifestFile[]
+}
+
+export interface DownloadManifest {
+  directories: ManifestDirectory[]
+  fileCount: number
+  totalSize: number
+}
+
+export interface ArchiveChecksum {
+  /** Entry name in the archive, as listed in its MANIFEST.sha256 */
+  name: string
+  size: number
+  /** SHA-256 of the file as delivered, in hex */
+  sha256: string
+  /** SHA-256 recorded when the file was first delivered, null before a whole archive was */
+  recordedSha256: string | null
+  /** Whether the file changed since it was first delivered */
+  changed: boolean
+}
+
+export interface ArchiveChecksumList {
+  variant: DownloadVariant
+  algorithm: "sha256"
+  files: ArchiveChecksum[]
+  /** Number of files that changed since they were first delivered */
+  changedCount: number
+}
+
+export interface SkippedDirectory {
+  /** Index of the directory in the order, from 0 */
+  index: number
+  path: string
+  reason: string
+}
+
+export interface UnreadableFile {
+  /** Index of the directory holding the file, from 0 */
+  directoryIndex: number
+  /** Path of the file below its directory */
+  path: string
+  reason: string
+}
+
+/**
+ * Directories and files of an order left out of its archive
+ */
+export interface DeliveryReport {
+  skippedDirectories: SkippedDirectory[]
+  unreadableFiles: UnreadableFile[]
 }
 
 export interface DownloadResponse {
   token: string
   downloadUrl: string
+  /** Customer page of the link, with the order contents and download buttons */
+  pageUrl?: string
   expiresAt: Date
+  /** Variants the link can download, selected with ?variant= */
+  variants?: DownloadVariant[]
+  summary?: ArchiveSummary
+  /** Whether the link was emailed to the customer, absent when no email was sent */
+  emailStatus?: "sent" | "failed"
 }
 
 export interface ApiResponse<T = any> {
@@ -31,3 +200,21 @@ export interface CacheStats {
   hitRate: number
   maxSize: number
 }
+
+export type HealthCheckStatus = "up" | "down" | "skipped"
+
+export interface HealthCheck {
+  status: HealthCheckStatus
+  /** Whether a failure of this check makes the service unready */
+  critical: boolean
+  responseTimeMs: number
+  error?: string
+  details?: Record<string, unknown>
+}
+
+export interface HealthReport {
+  status: "ok" | "error"
+  timestamp: string
+  uptimeSeconds: number
+  checks?: Record<string, HealthCheck>
+}